@@ -5,7 +5,7 @@
 import { io, Socket } from 'socket.io-client';
 import { Logger } from './logger';
 import { SoundManager } from './sound';
-import { escapeHtml } from './utils';
+import { AdCreative, enableClockSync, escapeHtml, getDutchPrice, getMsUntil, getRoomCode, getRoomQuery, renderAdCreative, syncServerClock } from './utils';
 
 interface Player {
   name: string;
@@ -13,28 +13,138 @@ interface Player {
   color: string;
   reactionTime?: number | null;
   finalScore?: number;
+  falseStart?: boolean;
+  multiplier?: number;
 }
 
 interface AllTimePlayer {
   name: string;
   wins: number;
+  slotWins?: number; // Side slots won in multi-slot rounds
   bestRound: number;
   totalAuctionTaps?: number;
   bestReactionTime?: number | null;
   totalFinalScore?: number;
+  rating?: number; // Skill rating
 }
 
 interface GameState {
-  status: 'waiting' | 'auction_countdown' | 'auction' | 'fastestFinger_countdown' | 'fastestFinger_tap' | 'finished';
+  status: 'waiting' | 'auction_countdown' | 'auction' | 'fastestFinger_countdown' | 'fastestFinger_tap' | 'dutch_countdown' | 'dutch' | 'finished';
   round: number;
   timeRemaining: number;
+  endsAt?: number | null; // Server timestamp when the current phase ends
+  serverNow?: number;
   playerCount: number;
   leaderboard: Player[];
-  winnerAd: string | null;
+  winners: SlotAward[];
+  clearing?: ClearingResult | null;
+  fastestFinger?: FastestFingerView;
+  campaign?: CampaignView | null;
+  dutch?: DutchView | null;
+  teams?: TeamView | null;
+  tournament?: TournamentView | null;
+  paused?: boolean;
+}
+
+// A past round the host put back up (see /api/rounds)
+interface RoundRecord {
+  round: number;
+  finalLeaderboard: Player[];
+  winners: SlotAward[];
+  clearing: ClearingResult | null;
+}
+
+interface TournamentView {
+  eliminatePercent: number;
+  entrants: number;
+  alive: string[];
+  aliveCount: number;
+  rounds: { round: number; players: number; survivors: number; knockedOut: string[] }[];
+  champion: string | null;
+  complete: boolean;
+}
+
+interface TeamStanding {
+  id: string;
+  name: string;
+  color: string;
+  members: number;
+  taps: number;
+  finalScore: number;
+}
+
+interface TeamView {
+  assignment: 'choose' | 'round_robin' | 'table';
+  standings: TeamStanding[];
+}
+
+interface DutchView {
+  ceiling: number;
+  floor: number;
+  startedAt: number;
+  durationMs: number;
+  stepMs: number;
+  claim: { name: string; price: number } | null;
+}
+
+interface CampaignView {
+  round: number;
+  totalRounds: number;
+  budgetPerPlayer: number;
+  complete: boolean;
+  standings: { name: string; color: string; impressions: number; spent: number; remaining: number }[];
+}
+
+interface SlotAward extends Player {
+  slot: number; // 0 = premium slot
+  slotLabel: string;
+  adContent: string;
+  creative?: AdCreative; // Missing for plain-text ads (rounds recorded before creatives)
+  clearingPrice: number;
+}
+
+interface ClearingResult {
+  mode: 'first_price' | 'second_price';
+  floorPrice: number;
+  winningBid: number | null;
+  beatBid: number | null;
+  clearingPrice: number | null;
+}
+
+interface FastestFingerView {
+  variant: string;
+  label: string;
+  instructions: string;
+  attempts: number;
+  signal: { kind: 'go' | 'nogo'; attempt: number; prompt?: string } | null;
 }
 
 interface StatsResponse {
   allTime: AllTimePlayer[];
+  teams?: { name: string; wins: number }[];
+  season?: { id: string; name: string };
+}
+
+interface LeaderboardCategory {
+  id: string;
+  title: string;
+  icon: string;
+  unit: string;
+  description: string;
+}
+
+interface CategoryLeaderboardResponse {
+  category: LeaderboardCategory;
+  entries: { id: string; name: string; value: number; roundsPlayed: number }[];
+}
+
+interface HallOfFameSeason {
+  id: string;
+  name: string;
+  startedAt: string;
+  endedAt: string;
+  players: number;
+  champions: AllTimePlayer[];
 }
 
 interface ConfigResponse {
@@ -46,10 +156,23 @@ const socket: Socket = io({
   reconnectionAttempts: 10,
   reconnectionDelay: 1000,
   reconnectionDelayMax: 5000,
+  query: getRoomQuery(),
 });
+enableClockSync(socket);
+const roomCode = getRoomCode();
 let maxClicks = 1;
 let lastCountdown: number | null = null;
 let lastStatus: GameState['status'] = 'waiting';
+let lastSignalAttempt = 0; // Fastest Finger go signal the display last announced
+let currentEndsAt: number | null = null;
+let countdownFrame: number | null = null;
+let currentDutch: DutchView | null = null;
+let isPaused = false; // Host froze the round
+let pastWinnerTimer: ReturnType<typeof setTimeout> | null = null; // Set while a past winner is on screen
+let lastState: GameState | null = null;
+let replayingRound: number | null = null; // Set while the host plays a past round back
+let liveState: GameState | null = null; // The room's own state, held while a replay is on screen
+let allTimeTeamWins: Record<string, number> = {};
 
 // Handle connection errors (including server cold-start "Session ID unknown")
 socket.on('connect_error', (err: Error) => {
@@ -68,11 +191,28 @@ socket.on('connect_error', (err: Error) => {
 });
 
 
+// Show the join code when this display belongs to a specific room
+const roomCodeBadge = document.getElementById('roomCodeBadge');
+if (roomCodeBadge && roomCode) {
+  roomCodeBadge.textContent = `Join code: ${roomCode}`;
+  roomCodeBadge.classList.add('active');
+}
+
+socket.on('roomError', (data: { message: string }) => {
+  Logger.error('Room error:', data.message);
+  if (roomCodeBadge) {
+    roomCodeBadge.textContent = `${data.message}: ${roomCode}`;
+    roomCodeBadge.classList.add('active', 'error');
+  }
+});
+
+const playPath = '/play' + (roomCode ? `?room=${encodeURIComponent(roomCode)}` : '');
+
 // Fetch config for QR code
 fetch('/api/config')
   .then((res) => res.json())
   .then((config: ConfigResponse) => {
-    const playUrl = config.baseUrl + '/play';
+    const playUrl = config.baseUrl + playPath;
     const joinUrl = document.getElementById('joinUrl');
     const joinQr = document.getElementById('joinQr') as HTMLImageElement | null;
 
@@ -82,7 +222,7 @@ fetch('/api/config')
     }
   })
   .catch(() => {
-    const playUrl = window.location.origin + '/play';
+    const playUrl = window.location.origin + playPath;
     const joinUrl = document.getElementById('joinUrl');
     const joinQr = document.getElementById('joinQr') as HTMLImageElement | null;
 
@@ -92,13 +232,32 @@ fetch('/api/config')
     }
   });
 
-// Fetch and display all-time stats
+// Fetch and display all-time stats, ranked by wins or by skill rating - or
+// one of the leaderboard categories while the panel rotates through them
+let allTimeSort: 'wins' | 'rating' = 'wins';
+
+function rankBadge(index: number): string {
+  return index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : String(index + 1);
+}
+
 function loadAllTimeStats(): void {
-  fetch('/api/stats')
+  const category = leaderboardCategories[allTimeBoard - 1];
+  fetch(`/api/stats?sort=${allTimeSort}`)
     .then((res) => res.json())
     .then((data: StatsResponse) => {
+      allTimeTeamWins = Object.fromEntries((data.teams ?? []).map((team) => [team.name, team.wins]));
       const list = document.getElementById('allTimeList');
-      if (!list) return;
+      if (!list || showingHallOfFame) return;
+      document.getElementById('allTimeHeader')?.classList.toggle('hidden', !!category);
+      if (category) {
+        loadCategoryLeaderboard(category);
+        return;
+      }
+      const title = document.getElementById('alltime-title');
+      if (title && data.season) {
+        title.textContent = `🏆 ${data.season.name.toUpperCase()} CHAMPIONS`;
+        title.title = '';
+      }
 
       if (!data.allTime || data.allTime.length === 0) {
         list.innerHTML =
@@ -118,14 +277,15 @@ function loadAllTimeStats(): void {
             
             return `
             <div class="leaderboard-item alltime-item">
-              <div class="rank">${index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : index + 1}</div>
+              <div class="rank">${rankBadge(index)}</div>
               <div class="player-name">${escapeHtml(player.name)}</div>
               <div class="player-alltime-stats">
                 <span class="stat auction-stat" title="Auction Taps">${auctionTaps}</span>
                 <span class="stat reaction-stat" title="Best Reaction">${reaction}</span>
                 <span class="stat total-stat" title="Total Score">${total}</span>
+                <span class="stat rating-stat" title="Skill Rating">${player.rating ?? '-'}</span>
               </div>
-              <div class="wins-badge" title="Wins">${player.wins} 🏆</div>
+              <div class="wins-badge" title="Wins${player.slotWins ? ` (+${player.slotWins} side slots)` : ''}">${player.wins} 🏆</div>
             </div>
           `;
           }
@@ -138,17 +298,198 @@ function loadAllTimeStats(): void {
     .catch((err) => Logger.warn('Could not load all-time stats:', err));
 }
 
-// Load stats initially and refresh after each auction
+document.querySelectorAll<HTMLButtonElement>('.leaderboard-header .header-sort').forEach((button) => {
+  button.addEventListener('click', () => {
+    allTimeSort = button.dataset.sort === 'rating' ? 'rating' : 'wins';
+    allTimeBoard = 0;
+    document.querySelectorAll('.leaderboard-header .header-sort').forEach((b) => b.classList.toggle('active', b === button));
+    loadAllTimeStats();
+  });
+});
+
+// ==========================================
+// LEADERBOARD CATEGORIES
+// ==========================================
+// Between rounds the All-Time panel rotates from the champions through each
+// category - fastest reaction, average taps, win rate, longest win streak -
+// in the order the server lists them
+
+const ALL_TIME_BOARD_MS = 10000;
+let leaderboardCategories: LeaderboardCategory[] = [];
+let allTimeBoard = 0; // 0 = champions, then each category in turn
+
+function loadCategoryLeaderboard(category: LeaderboardCategory): void {
+  fetch(`/api/leaderboards/${encodeURIComponent(category.id)}`)
+    .then((res) => res.json())
+    .then((data: CategoryLeaderboardResponse) => {
+      const list = document.getElementById('allTimeList');
+      if (!list || showingHallOfFame || leaderboardCategories[allTimeBoard - 1] !== category) return;
+      const title = document.getElementById('alltime-title');
+      if (title) {
+        title.textContent = `${category.icon} ${category.title.toUpperCase()}`;
+        title.title = category.description;
+      }
+      if (data.entries.length === 0) {
+        list.innerHTML = `<div class="empty-leaderboard"><div class="icon">${category.icon}</div><div>${escapeHtml(category.description)} - nobody yet...</div></div>`;
+        return;
+      }
+      list.innerHTML = data.entries
+        .map(
+          (entry, index) => `
+            <div class="leaderboard-item alltime-item category-item">
+              <div class="rank">${rankBadge(index)}</div>
+              <div class="player-name">${escapeHtml(entry.name)}
+                <small>${entry.roundsPlayed} round${entry.roundsPlayed === 1 ? '' : 's'}</small>
+              </div>
+              <div class="category-value">${entry.value}<small>${escapeHtml(category.unit)}</small></div>
+            </div>
+          `
+        )
+        .join('');
+    })
+    .catch((err) => Logger.warn('Could not load leaderboard:', err));
+}
+
+function rotateAllTimeBoard(): void {
+  if (!showingHallOfFame) allTimeBoard = (allTimeBoard + 1) % (leaderboardCategories.length + 1);
+  loadAllTimeStats();
+}
+
+fetch('/api/leaderboards')
+  .then((res) => res.json())
+  .then((data: { categories: LeaderboardCategory[] }) => {
+    leaderboardCategories = data.categories;
+  })
+  .catch((err) => Logger.warn('Could not load leaderboard categories:', err));
+
+// ==========================================
+// HALL OF FAME
+// ==========================================
+// The champions of every archived season, in place of the current season's
+// leaderboard while toggled on
+
+let showingHallOfFame = false;
+
+function loadHallOfFame(): void {
+  fetch('/api/seasons')
+    .then((res) => res.json())
+    .then((data: { hallOfFame: HallOfFameSeason[] }) => {
+      const list = document.getElementById('allTimeList');
+      if (!list || !showingHallOfFame) return;
+      const title = document.getElementById('alltime-title');
+      if (title) title.textContent = '🏛️ HALL OF FAME';
+      if (data.hallOfFame.length === 0) {
+        list.innerHTML = '<div class="empty-leaderboard"><div class="icon">🏛️</div><div>No seasons archived yet...</div></div>';
+        return;
+      }
+      list.innerHTML = data.hallOfFame
+        .map((season) => {
+          const champions = season.champions
+            .map((player, i) => `${['🥇', '🥈', '🥉'][i] ?? `${i + 1}.`} ${escapeHtml(player.name)} (${player.wins} 🏆)`)
+            .join(' · ');
+          return `
+            <div class="leaderboard-item alltime-item hall-of-fame-item">
+              <div class="player-name">${escapeHtml(season.name)}
+                <small>${new Date(season.startedAt).toLocaleDateString()} - ${new Date(season.endedAt).toLocaleDateString()} • ${season.players} players</small>
+              </div>
+              <div class="hall-of-fame-champions">${champions || 'No champions'}</div>
+            </div>
+          `;
+        })
+        .join('');
+    })
+    .catch((err) => Logger.warn('Could not load hall of fame:', err));
+}
+
+document.getElementById('hallOfFameToggle')?.addEventListener('click', (event) => {
+  showingHallOfFame = !showingHallOfFame;
+  const button = event.currentTarget as HTMLButtonElement;
+  button.classList.toggle('active', showingHallOfFame);
+  button.setAttribute('aria-pressed', String(showingHallOfFame));
+  document.getElementById('allTimeHeader')?.classList.toggle('hidden', showingHallOfFame);
+  if (showingHallOfFame) {
+    loadHallOfFame();
+  } else {
+    loadAllTimeStats();
+  }
+});
+
+// Load stats initially, move to the next board every few seconds and refresh after each auction
 loadAllTimeStats();
-setInterval(loadAllTimeStats, 10000);
+setInterval(rotateAllTimeBoard, ALL_TIME_BOARD_MS);
+
+// ==========================================
+// COUNTDOWN RENDERING
+// ==========================================
+// The countdown overlay counts down to the server's endsAt deadline every
+// frame, so numbers change exactly on the second instead of on broadcasts.
+function renderCountdown(): void {
+  countdownFrame = null;
+  if (isPaused) return; // Numbers stay frozen until the round resumes
+  if (lastStatus === 'dutch') {
+    renderDutchPrice();
+    return;
+  }
+  if (lastStatus !== 'auction_countdown' && lastStatus !== 'fastestFinger_countdown' && lastStatus !== 'dutch_countdown') return;
+
+  const msLeft = getMsUntil(currentEndsAt);
+  const secondsLeft = Math.ceil(msLeft / 1000);
+  const countdownNumber = document.getElementById('countdownNumber');
+  if (countdownNumber && secondsLeft > 0) {
+    countdownNumber.textContent = String(secondsLeft);
+    if (lastCountdown !== secondsLeft) {
+      lastCountdown = secondsLeft;
+      SoundManager.countdownTick();
+      countdownNumber.style.animation = 'none';
+      void countdownNumber.offsetHeight; // Trigger reflow
+      countdownNumber.style.animation = 'countdown-pop 1s ease-out';
+    }
+  }
+
+  if (msLeft > 0) {
+    countdownFrame = requestAnimationFrame(renderCountdown);
+  }
+}
+
+// The Dutch auction price falls every frame until someone claims the slot
+function renderDutchPrice(): void {
+  const countdownNumber = document.getElementById('countdownNumber');
+  if (!currentDutch || !countdownNumber) return;
+  if (currentDutch.claim) {
+    countdownNumber.textContent = String(currentDutch.claim.price);
+    return;
+  }
+  countdownNumber.textContent = String(getDutchPrice(currentDutch));
+  if (getMsUntil(currentEndsAt) > 0) {
+    countdownFrame = requestAnimationFrame(renderCountdown);
+  }
+}
 
 function updateUI(state: GameState): void {
+  lastState = state;
+  syncServerClock(state.serverNow);
+  currentEndsAt = state.endsAt ?? null;
+  currentDutch = state.dutch ?? null;
+  isPaused = !!state.paused;
+  if (lastStatus !== state.status) lastCountdown = null;
+  if (state.status !== 'fastestFinger_tap') lastSignalAttempt = 0;
+
+  document.getElementById('pauseOverlay')?.classList.toggle('active', isPaused);
+
   const bg = document.getElementById('bg');
-  const isBiddingPhase = state.status === 'auction' || state.status === 'fastestFinger_tap';
+  const isBiddingPhase = state.status === 'auction' || state.status === 'fastestFinger_tap' || state.status === 'dutch';
   if (bg) bg.className = 'bg' + (isBiddingPhase ? ' bidding' : '');
 
   const roundBadge = document.getElementById('roundBadge');
-  if (roundBadge) roundBadge.textContent = `Round ${state.round}`;
+  if (roundBadge) {
+    if (replayingRound !== null) {
+      roundBadge.textContent = `⏪ Replay • Round ${replayingRound}`;
+    } else {
+      roundBadge.textContent = state.campaign
+        ? `Round ${state.round} • Campaign ${state.campaign.round}/${state.campaign.totalRounds}`
+        : `Round ${state.round}`;
+    }
+  }
 
   const badge = document.getElementById('statusBadge');
   if (badge) {
@@ -159,6 +500,8 @@ function updateUI(state: GameState): void {
       auction: 'CLICK AUCTION!',
       fastestFinger_countdown: 'Fastest Finger...',
       fastestFinger_tap: 'FASTEST FINGER!',
+      dutch_countdown: 'Dutch Auction...',
+      dutch: 'DUTCH AUCTION!',
       finished: 'Complete',
     };
     badge.textContent = statusTexts[state.status] || state.status;
@@ -197,16 +540,6 @@ function updateUI(state: GameState): void {
     if (stageTransitionOverlay) stageTransitionOverlay.classList.remove('active');
   } else if (state.status === 'auction_countdown') {
     if (countdownOverlay) countdownOverlay.className = 'countdown-overlay active';
-    if (countdownNumber) {
-      countdownNumber.textContent = String(state.timeRemaining);
-      if (lastCountdown !== state.timeRemaining) {
-        lastCountdown = state.timeRemaining;
-        SoundManager.countdownTick();
-        countdownNumber.style.animation = 'none';
-        void countdownNumber.offsetHeight; // Trigger reflow
-        countdownNumber.style.animation = 'countdown-pop 1s ease-out';
-      }
-    }
     if (countdownLabel) countdownLabel.textContent = 'CLICK AUCTION';
     if (countdownSublabel) countdownSublabel.textContent = 'Tap as fast as you can!';
   } else if (state.status === 'auction') {
@@ -214,24 +547,44 @@ function updateUI(state: GameState): void {
     if (lastStatus !== 'auction') SoundManager.go();
   } else if (state.status === 'fastestFinger_countdown') {
     if (countdownOverlay) countdownOverlay.className = 'countdown-overlay active fastest-finger';
+    const variant = state.fastestFinger;
+    const isClassic = !variant || variant.variant === 'classic';
+    if (countdownLabel) countdownLabel.textContent = isClassic ? 'FASTEST FINGER' : `FASTEST FINGER · ${variant.label.toUpperCase()}`;
+    if (countdownSublabel) countdownSublabel.textContent = isClassic ? 'One tap only - be the quickest!' : variant.instructions;
+  } else if (state.status === 'fastestFinger_tap') {
+    const view = state.fastestFinger;
+    const signal = view?.signal ?? null;
+    if (countdownOverlay) {
+      countdownOverlay.className = 'countdown-overlay active fastest-finger-tap'
+        + (signal?.kind === 'nogo' ? ' no-go' : '')
+        + (signal?.kind === 'nogo' || signal?.prompt ? ' long-text' : '');
+    }
     if (countdownNumber) {
-      countdownNumber.textContent = String(state.timeRemaining);
-      if (lastCountdown !== state.timeRemaining) {
-        lastCountdown = state.timeRemaining;
-        SoundManager.countdownTick();
-        countdownNumber.style.animation = 'none';
-        void countdownNumber.offsetHeight;
-        countdownNumber.style.animation = 'countdown-pop 1s ease-out';
-      }
+      if (signal?.kind === 'nogo') countdownNumber.textContent = '🔴 DON\'T TAP! 🔴';
+      else if (!signal) countdownNumber.textContent = '⏳';
+      else if (signal.prompt) countdownNumber.textContent = `Find the ${signal.prompt}`;
+      else countdownNumber.textContent = '⚡ TAP! ⚡';
+    }
+    if (countdownLabel) {
+      countdownLabel.textContent = view && view.attempts > 1 && signal ? `Attempt ${signal.attempt} of ${view.attempts}` : '';
     }
-    if (countdownLabel) countdownLabel.textContent = 'FASTEST FINGER';
-    if (countdownSublabel) countdownSublabel.textContent = 'One tap only - be the quickest!';
-  } else if (state.status === 'fastestFinger_tap') {
-    if (countdownOverlay) countdownOverlay.className = 'countdown-overlay active fastest-finger-tap';
-    if (countdownNumber) countdownNumber.textContent = '⚡ TAP! ⚡';
-    if (countdownLabel) countdownLabel.textContent = '';
     if (countdownSublabel) countdownSublabel.textContent = '';
-    if (lastStatus !== 'fastestFinger_tap') SoundManager.go();
+    if (signal?.kind === 'go' && signal.attempt !== lastSignalAttempt) SoundManager.go();
+    lastSignalAttempt = signal?.kind === 'go' ? signal.attempt : lastSignalAttempt;
+  } else if (state.status === 'dutch_countdown') {
+    if (countdownOverlay) countdownOverlay.className = 'countdown-overlay active';
+    if (countdownLabel) countdownLabel.textContent = 'DUTCH AUCTION';
+    if (countdownSublabel) countdownSublabel.textContent = 'The price drops - first tap takes the slot!';
+  } else if (state.status === 'dutch') {
+    const claim = state.dutch?.claim ?? null;
+    if (countdownOverlay) countdownOverlay.className = 'countdown-overlay active dutch' + (claim ? ' sold' : '');
+    if (countdownLabel) countdownLabel.textContent = claim ? 'SOLD!' : 'PRICE';
+    if (countdownSublabel) {
+      countdownSublabel.textContent = claim
+        ? `🔨 ${claim.name} claims the slot at ${claim.price}`
+        : `Falling to ${state.dutch?.floor ?? 0} - tap to claim!`;
+    }
+    if (lastStatus !== 'dutch') SoundManager.go();
   } else if (state.status === 'finished') {
     if (countdownOverlay) countdownOverlay.className = 'countdown-overlay';
   }
@@ -254,8 +607,14 @@ function updateUI(state: GameState): void {
         ? Math.max(...state.leaderboard.map(p => p.finalScore ?? p.clicks))
         : 1;
       
-      // Get multiplier for display
-      const getMultiplierBadge = (index: number, reactionTime: number | null | undefined): string => {
+      // Get multiplier for display (server-computed when available)
+      const getMultiplierBadge = (index: number, player: Player): string => {
+        if (player.falseStart) return '<span class="false-start-badge">🚫 false start</span>';
+        if (player.multiplier !== undefined) {
+          const tier = player.multiplier >= 2 ? 'gold' : player.multiplier >= 1.5 ? 'silver' : 'bronze';
+          return player.multiplier > 1 ? `<span class="multiplier-badge ${tier}">${player.multiplier}x</span>` : '';
+        }
+        const reactionTime = player.reactionTime;
         if (reactionTime == null) return '';
         if (index === 0) return '<span class="multiplier-badge gold">2x</span>';
         if (index === 1) return '<span class="multiplier-badge silver">1.5x</span>';
@@ -273,7 +632,7 @@ function updateUI(state: GameState): void {
             const reactionDisplay = player.reactionTime != null 
               ? `<span class="reaction-time">${player.reactionTime}ms</span>` 
               : '';
-            const multiplierBadge = state.status === 'finished' ? getMultiplierBadge(index, player.reactionTime) : '';
+            const multiplierBadge = state.status === 'finished' ? getMultiplierBadge(index, player) : '';
             return `
             <div class="leaderboard-item">
               <div class="rank">${index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : index + 1}</div>
@@ -292,10 +651,19 @@ function updateUI(state: GameState): void {
     }
   }
 
-  // Winner screen
+  renderTeamStandings(state.teams ?? null);
+  renderTournamentBracket(state.tournament ?? null);
+
+  // Winner screen (a past winner the host put up stays until the next round starts)
   const winnerScreen = document.getElementById('winnerScreen');
-  if (state.status === 'finished' && state.leaderboard.length > 0) {
-    showWinnerScreen(state);
+  if (pastWinnerTimer && state.status !== 'waiting' && state.status !== 'finished') {
+    clearTimeout(pastWinnerTimer);
+    pastWinnerTimer = null;
+  }
+  if (pastWinnerTimer) {
+    // Past winner stays up
+  } else if (state.status === 'finished' && state.leaderboard.length > 0) {
+    showWinnerScreen(state, replayingRound !== null ? `REPLAY • ROUND ${replayingRound} WINNER` : undefined);
     if (winnerScreen) winnerScreen.className = 'winner-screen active';
     createConfetti();
     if (lastStatus !== 'finished') {
@@ -307,17 +675,34 @@ function updateUI(state: GameState): void {
   }
 
   lastStatus = state.status;
+  if (countdownFrame === null) {
+    countdownFrame = requestAnimationFrame(renderCountdown);
+  }
+}
+
+// Clearing price and the bid it beat, e.g. "💰 Second-price: pays 38 • beat a bid of 37"
+function describeClearing(clearing: ClearingResult): string {
+  const mode = clearing.mode === 'second_price' ? 'Second-price' : 'First-price';
+  const floor = clearing.floorPrice > 0 ? ` • floor ${clearing.floorPrice}` : '';
+  if (clearing.clearingPrice === null) return `${mode}: no bid cleared${floor}`;
+  const beat = clearing.beatBid === null ? 'unopposed' : `beat a bid of ${clearing.beatBid}`;
+  return `💰 ${mode}: pays ${clearing.clearingPrice} • ${beat}${floor}`;
 }
 
-function showWinnerScreen(state: GameState): void {
+function showWinnerScreen(state: GameState, label = 'AUCTION WINNER'): void {
   const lb = state.leaderboard;
-  const winner = lb[0];
+  const clearing = state.clearing ?? null;
+  // Nobody wins if the top bid didn't clear the floor
+  const winner = state.winners?.[0];
 
   const winnerName = document.getElementById('winnerName');
   const winnerScoreText = document.getElementById('winnerScoreText');
   const adContent = document.getElementById('adContent');
   const adAuthor = document.getElementById('adAuthor');
   const podiumRound = document.getElementById('podiumRound');
+  const winnerClearing = document.getElementById('winnerClearing');
+  const winnerLabel = document.getElementById('winnerLabel');
+  if (winnerLabel) winnerLabel.textContent = label;
 
   const winnerScore = winner?.finalScore ?? winner?.clicks ?? 0;
   const winnerReactionTime = winner?.reactionTime;
@@ -327,7 +712,29 @@ function showWinnerScreen(state: GameState): void {
     const reactionText = winnerReactionTime != null ? ` • ${winnerReactionTime}ms reaction` : '';
     winnerScoreText.textContent = winner ? `${winnerScore} points${reactionText} • Round ${state.round}` : '';
   }
-  if (adContent) adContent.textContent = state.winnerAd ? `"${state.winnerAd}"` : '"We Won! 🎉"';
+  const dutchClaim = state.dutch?.claim;
+  if (winnerClearing) {
+    winnerClearing.textContent = dutchClaim
+      ? `🔨 Dutch auction: claimed at ${dutchClaim.price}`
+      : clearing ? describeClearing(clearing) : '';
+  }
+  const winnerTeam = document.getElementById('winnerTeam');
+  const topTeam = state.teams?.standings[0];
+  if (winnerTeam) {
+    winnerTeam.textContent = topTeam && topTeam.finalScore > 0 ? `🤝 Winning team: ${topTeam.name} • ${topTeam.finalScore} pts` : '';
+    winnerTeam.style.color = topTeam?.color ?? '';
+  }
+  const winnerTournament = document.getElementById('winnerTournament');
+  if (winnerTournament) {
+    const tournament = state.tournament;
+    const lastRound = tournament?.rounds[tournament.rounds.length - 1];
+    winnerTournament.textContent = !tournament || !lastRound
+      ? ''
+      : tournament.champion
+        ? `👑 Tournament champion: ${tournament.champion}`
+        : `🏟️ Round ${lastRound.round}: ${lastRound.players - lastRound.survivors} knocked out, ${lastRound.survivors} go through`;
+  }
+  if (adContent) adContent.innerHTML = renderAdCreative(creativeOf(winner));
   if (adAuthor) adAuthor.textContent = winner ? `— ${winner.name}` : '';
   if (podiumRound) podiumRound.textContent = String(state.round);
 
@@ -341,15 +748,121 @@ function showWinnerScreen(state: GameState): void {
     const podiumScore = document.getElementById(`podiumScore${i}`);
     const score = player?.finalScore ?? player?.clicks ?? 0;
     const reactionTime = player?.reactionTime;
+    const multiplierLabel = player?.multiplier !== undefined ? `${player.multiplier}x` : multiplierLabels[i-1];
 
     if (podiumName) podiumName.textContent = player ? player.name : '-';
     if (podiumScore) {
-      const reactionInfo = reactionTime != null ? `${reactionTime}ms • ${multiplierLabels[i-1]}` : '';
+      const reactionInfo = player?.falseStart
+        ? `🚫 false start${reactionTime != null ? ` • ${reactionTime}ms` : ''}`
+        : reactionTime != null ? `${reactionTime}ms • ${multiplierLabel}` : '';
       podiumScore.innerHTML = player 
         ? `${score} pts${reactionInfo ? `<br><span style="font-size: 0.5rem; opacity: 0.8;">${reactionInfo}</span>` : ''}` 
         : '0';
     }
   }
+
+  renderSideSlots(state.winners?.slice(1) ?? []);
+  renderCampaignStandings(state.campaign ?? null);
+}
+
+// A plain-text ad goes on the default template
+function creativeOf(award: SlotAward | undefined): AdCreative {
+  if (award?.creative) return award.creative;
+  return { headline: award?.adContent || 'We Won! 🎉', tagline: '', template: 'neon', logo: null };
+}
+
+// Side panels next to the premium billboard, one per extra slot sold
+function renderSideSlots(awards: SlotAward[]): void {
+  const container = document.getElementById('sideSlots');
+  if (!container) return;
+  container.classList.toggle('active', awards.length > 0);
+  container.innerHTML = awards.map((award) => `
+    <div class="side-slot" style="border-color: ${award.color}">
+      <div class="side-slot-label">${escapeHtml(award.slotLabel)}</div>
+      <div class="side-slot-ad">${renderAdCreative(creativeOf(award))}</div>
+      <div class="side-slot-author">— ${escapeHtml(award.name)}</div>
+      <div class="side-slot-price">💰 pays ${award.clearingPrice}</div>
+    </div>
+  `).join('');
+}
+
+// Team totals next to the individual leaderboard, with all-time team wins
+function renderTeamStandings(view: TeamView | null): void {
+  const section = document.getElementById('teamSection');
+  const list = document.getElementById('teamList');
+  if (section) section.classList.toggle('active', !!view);
+  if (!view || !list) return;
+
+  const standings = view.standings.filter((team) => team.members > 0 || view.assignment !== 'table');
+  if (standings.length === 0) {
+    list.innerHTML = '<div class="empty-leaderboard"><div>Waiting for tables to join...</div></div>';
+    return;
+  }
+  const maxScore = Math.max(1, ...standings.map((team) => team.finalScore));
+  list.innerHTML = standings.map((team, index) => `
+    <div class="leaderboard-item">
+      <div class="rank">${index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : index + 1}</div>
+      <div class="player-color" style="background: ${team.color}"></div>
+      <div class="player-name">${escapeHtml(team.name)}<span class="team-members">${team.members} DSPs</span></div>
+      <div class="player-clicks">${team.finalScore}</div>
+      <div class="wins-badge" title="All-time team wins">${allTimeTeamWins[team.name] ?? 0} 🏆</div>
+      <div class="click-bar" style="width: ${(team.finalScore / maxScore) * 100}%; background: ${team.color}"></div>
+    </div>
+  `).join('');
+}
+
+// Bracket progression: how many DSPs each round started with and kept,
+// then who is still in (or the champion)
+function renderTournamentBracket(view: TournamentView | null): void {
+  const section = document.getElementById('tournamentSection');
+  const title = document.getElementById('tournamentTitle');
+  const rounds = document.getElementById('bracketRounds');
+  const survivors = document.getElementById('bracketSurvivors');
+  if (section) section.classList.toggle('active', !!view);
+  if (!view || !rounds || !survivors) return;
+
+  if (title) title.textContent = `🏟️ TOURNAMENT • bottom ${view.eliminatePercent}% out each round`;
+  const steps = [`<div class="bracket-step"><div class="bracket-label">Start</div><div class="bracket-count">${view.entrants}</div></div>`]
+    .concat(view.rounds.map((round) => `
+      <div class="bracket-step" title="Knocked out: ${escapeHtml(round.knockedOut.join(', '))}">
+        <div class="bracket-label">Round ${round.round}</div>
+        <div class="bracket-count">${round.survivors}</div>
+        <div class="bracket-out">-${round.players - round.survivors}</div>
+      </div>
+    `));
+  rounds.innerHTML = steps.join('<div class="bracket-arrow" aria-hidden="true">→</div>');
+
+  if (view.champion) {
+    survivors.innerHTML = `<div class="bracket-champion">👑 ${escapeHtml(view.champion)}</div>`;
+  } else {
+    const more = view.aliveCount > view.alive.length ? `<span class="bracket-more">+${view.aliveCount - view.alive.length} more</span>` : '';
+    survivors.innerHTML = view.alive.map((name) => `<span class="bracket-survivor">${escapeHtml(name)}</span>`).join('') + more;
+  }
+}
+
+// Impressions won against budget spent, shown under the podium during a campaign
+function renderCampaignStandings(campaign: CampaignView | null): void {
+  const section = document.getElementById('campaignSection');
+  const title = document.getElementById('campaignTitle');
+  const list = document.getElementById('campaignList');
+  if (section) section.classList.toggle('active', !!campaign);
+  if (!campaign) return;
+
+  if (title) {
+    title.textContent = campaign.complete
+      ? '📣 FINAL CAMPAIGN STANDINGS'
+      : `📣 CAMPAIGN • ROUND ${campaign.round} OF ${campaign.totalRounds}`;
+  }
+  if (list) {
+    list.innerHTML = campaign.standings.slice(0, 5).map((s) => `
+      <div class="campaign-row">
+        <span class="campaign-name" style="color: ${s.color}">${escapeHtml(s.name)}</span>
+        <span class="campaign-impressions">${s.impressions}</span>
+        <span>${s.spent}</span>
+        <span>${s.remaining}</span>
+      </div>
+    `).join('');
+  }
 }
 
 function createConfetti(): void {
@@ -383,6 +896,92 @@ function createConfetti(): void {
   }
 }
 
-socket.on('gameState', updateUI);
+socket.on('gameState', (state: GameState) => {
+  if (replayingRound !== null) {
+    liveState = state;
+    return;
+  }
+  updateUI(state);
+});
+
+// ==========================================
+// PAST WINNERS
+// ==========================================
+// Between rounds the host can replay a past round's winner from the round
+// history. It stays up for a while, or until the next round starts.
+const PAST_WINNER_SHOW_MS = 20000;
+
+// Back to whatever the room is showing now
+function hidePastWinner(): void {
+  if (pastWinnerTimer) clearTimeout(pastWinnerTimer);
+  pastWinnerTimer = null;
+  if (lastState) updateUI(lastState);
+}
+
+socket.on('pastWinner', (record: RoundRecord) => {
+  showWinnerScreen({
+    status: 'finished',
+    round: record.round,
+    timeRemaining: 0,
+    playerCount: record.finalLeaderboard.length,
+    leaderboard: record.finalLeaderboard,
+    winners: record.winners,
+    clearing: record.clearing,
+  }, `REPLAY • ROUND ${record.round} WINNER`);
+  const winnerScreen = document.getElementById('winnerScreen');
+  if (winnerScreen) winnerScreen.className = 'winner-screen active';
+  createConfetti();
+  SoundManager.winner();
+  if (pastWinnerTimer) clearTimeout(pastWinnerTimer);
+  pastWinnerTimer = setTimeout(hidePastWinner, PAST_WINNER_SHOW_MS);
+});
+
+// ==========================================
+// LOBBY AD ROTATION
+// ==========================================
+// While the room waits for a round, the server rotates past winners' ads
+// through the lobby. Displays register so their screen time is counted.
+
+interface RotatingAd {
+  name: string;
+  color: string;
+  creative: AdCreative;
+  round: number;
+  slotLabel: string;
+}
+
+socket.on('connect', () => socket.emit('registerDisplay'));
+
+socket.on('adRotation', (ad: RotatingAd | null) => {
+  const section = document.getElementById('adRotationSection');
+  const screen = document.getElementById('adRotationScreen');
+  const credit = document.getElementById('adRotationCredit');
+  if (section) section.classList.toggle('active', !!ad);
+  if (!ad || !screen || !credit) return;
+  screen.innerHTML = renderAdCreative(ad.creative);
+  credit.innerHTML = `<span style="color: ${ad.color}">${escapeHtml(ad.name)}</span> • ${escapeHtml(ad.slotLabel)} • Round ${ad.round}`;
+});
+
+// ==========================================
+// ROUND REPLAYS
+// ==========================================
+// The host can play a past round back from its event log. Frames look like
+// live state; the room's own state is held until the replay ends.
+
+socket.on('replayStarted', (data: { roundId: string; round: number }) => {
+  if (replayingRound === null) liveState = lastState;
+  replayingRound = data.round;
+});
+
+socket.on('replayFrame', (state: GameState) => {
+  if (replayingRound !== null) updateUI(state);
+});
+
+socket.on('replayEnded', () => {
+  if (replayingRound === null) return;
+  replayingRound = null;
+  if (liveState) updateUI(liveState);
+  liveState = null;
+});
 // maxClicks is now calculated from leaderboard in updateUI (more efficient for 200 players)
 
@@ -4,11 +4,97 @@
 
 import { io, Socket } from 'socket.io-client';
 import { Logger } from './logger';
+import { escapeHtml, getRoomQuery } from './utils';
+
+interface CampaignStanding {
+  name: string;
+  color: string;
+  impressions: number;
+  spent: number;
+  remaining: number;
+}
+
+interface CampaignView {
+  round: number;
+  totalRounds: number;
+  budgetPerPlayer: number;
+  complete: boolean;
+  standings: CampaignStanding[];
+}
+
+interface TeamView {
+  assignment: 'choose' | 'round_robin' | 'table';
+  standings: { id: string; name: string; color: string; members: number; finalScore: number }[];
+}
+
+interface TournamentView {
+  eliminatePercent: number;
+  entrants: number;
+  aliveCount: number;
+  rounds: { round: number; players: number; survivors: number; knockedOut: string[] }[];
+  champion: string | null;
+  complete: boolean;
+}
 
 interface GameState {
-  status: 'waiting' | 'auction_countdown' | 'auction' | 'fastestFinger_countdown' | 'fastestFinger_tap' | 'finished' | 'lobby';
+  status: string; // 'waiting', 'lobby', 'finished' or the active round phase id
   playerCount: number;
   round: number;
+  campaign?: CampaignView | null;
+  teams?: TeamView | null;
+  tournament?: TournamentView | null;
+  paused?: boolean;
+}
+
+interface PlayerLatency {
+  id: string;
+  name: string;
+  color: string;
+  rttMs: number | null; // null until the first clock sync sample
+}
+
+interface AdQueueItem {
+  playerId: string;
+  name: string;
+  color: string;
+  adContent: string;
+  flagged: string[]; // Blocklist terms found in the creative
+}
+
+interface PhaseCatalogEntry {
+  id: string;
+  label: string;
+  group: string;
+}
+
+interface RoundSummary {
+  id: string;
+  round: number;
+  finishedAt: string;
+  players: number;
+  winner: string | null;
+  winningScore: number | null;
+}
+
+interface RoundPage {
+  total: number;
+  offset: number;
+  limit: number;
+  rounds: RoundSummary[];
+}
+
+interface Season {
+  id: string;
+  name: string;
+}
+
+interface AllTimePlayer {
+  id: string;
+  name: string;
+  wins: number;
+  roundsPlayed: number;
+  rating: number; // Skill rating
+  merged: { id: string; name: string }[];
 }
 
 type LogLevel = 'info' | 'success' | 'warning' | 'error' | 'player';
@@ -17,10 +103,15 @@ const socket: Socket = io({
   reconnection: true,
   reconnectionAttempts: 10,
   reconnectionDelay: 1000,
+  query: getRoomQuery(),
 });
 let isAuthenticated = false;
 let currentStatus: GameState['status'] = 'waiting';
+let isRoundPaused = false;
+let hostRoomCode: string | null = null;
+let historyOffset = 0;
 let lastPlayerCount = 0;
+let phaseCatalog: PhaseCatalogEntry[] = [];
 
 // ==========================================
 // STATUS LOG
@@ -77,6 +168,74 @@ function newGame(): void {
   socket.emit('newGame');
 }
 
+function endCampaign(): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot end campaign - not authenticated');
+    return;
+  }
+  if (!confirm('End the campaign? Budgets and standings will be cleared.')) return;
+  socket.emit('endCampaign');
+}
+
+function endTournament(): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot end tournament - not authenticated');
+    return;
+  }
+  if (!confirm('End the tournament? Everyone will play again and the bracket is dropped.')) return;
+  socket.emit('endTournament');
+}
+
+// One button pauses the running round and resumes it again
+function togglePause(): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot pause - not authenticated');
+    return;
+  }
+  socket.emit(isRoundPaused ? 'resumeRound' : 'pauseRound');
+}
+
+function abortRound(): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot abort - not authenticated');
+    return;
+  }
+  if (!confirm('Abort this round? Nothing from it will be recorded and players go back to the lobby.')) return;
+  socket.emit('abortRound');
+}
+
+// Puts a past round's winner back up on this room's displays
+function showPastWinner(roundId: string): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot show past winner - not authenticated');
+    return;
+  }
+  socket.emit('showPastWinner', { roundId });
+}
+
+// Plays a past round back on the displays from its event log
+function replayRound(roundId: string): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot replay round - not authenticated');
+    return;
+  }
+  socket.emit('replayRound', { roundId });
+}
+
+// Teams change between rounds; an empty mode turns team play off
+function applyTeams(): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot configure teams - not authenticated');
+    return;
+  }
+  const modeSelect = document.getElementById('teamMode') as HTMLSelectElement | null;
+  const countInput = document.getElementById('teamCount') as HTMLInputElement | null;
+  socket.emit('configureTeams', {
+    assignment: modeSelect?.value || null,
+    count: parseInt(countInput?.value || '2', 10) || 2,
+  });
+}
+
 function startAuction(): void {
   if (!isAuthenticated) {
     Logger.warn('Cannot start auction - not authenticated');
@@ -84,10 +243,111 @@ function startAuction(): void {
   }
   const durationInput = document.getElementById('duration') as HTMLInputElement | null;
   const duration = parseInt(durationInput?.value || '10', 10) || 10;
-  Logger.debug('Starting auction with duration:', duration);
-  socket.emit('startAuction', { duration });
+  const phases = getSelectedPhases();
+  const penaltySelect = document.getElementById('falseStartPenalty') as HTMLSelectElement | null;
+  const falseStartPenalty = penaltySelect?.value;
+  const variantSelect = document.getElementById('fastestFingerVariant') as HTMLSelectElement | null;
+  const fastestFingerVariant = variantSelect?.value;
+  const clearingSelect = document.getElementById('clearingMode') as HTMLSelectElement | null;
+  const clearingMode = clearingSelect?.value;
+  const floorInput = document.getElementById('floorPrice') as HTMLInputElement | null;
+  const floorPrice = parseInt(floorInput?.value || '0', 10) || 0;
+  const slotsSelect = document.getElementById('adSlots') as HTMLSelectElement | null;
+  const adSlots = parseInt(slotsSelect?.value || '1', 10) || 1;
+  const ceilingInput = document.getElementById('dutchCeiling') as HTMLInputElement | null;
+  const dutchCeiling = parseInt(ceilingInput?.value || '100', 10) || 100;
+  if (phaseCatalog.length > 0 && phases.length === 0) {
+    addLog('Pick at least one game phase to start', 'warning');
+    return;
+  }
+  Logger.debug('Starting auction with duration:', duration, 'phases:', phases);
+  const campaignToggle = document.getElementById('campaignMode') as HTMLInputElement | null;
+  const campaignRounds = document.getElementById('campaignRounds') as HTMLInputElement | null;
+  const campaignBudget = document.getElementById('campaignBudget') as HTMLInputElement | null;
+  const campaign = campaignToggle?.checked
+    ? { rounds: parseInt(campaignRounds?.value || '3', 10) || 3, budget: parseInt(campaignBudget?.value || '100', 10) || 100 }
+    : undefined;
+  const tournamentToggle = document.getElementById('tournamentMode') as HTMLInputElement | null;
+  const eliminateInput = document.getElementById('eliminatePercent') as HTMLInputElement | null;
+  const tournament = tournamentToggle?.checked
+    ? { eliminatePercent: parseInt(eliminateInput?.value || '50', 10) || 50 }
+    : undefined;
+  const settings = { duration, falseStartPenalty, fastestFingerVariant, clearingMode, floorPrice, adSlots, dutchCeiling, campaign, tournament };
+  socket.emit('startAuction', phaseCatalog.length > 0 ? { ...settings, phases } : settings);
+}
+
+// ==========================================
+// ROUND PHASES
+// ==========================================
+// One toggle per phase group (e.g. "Fastest Finger" covers its countdown and tap)
+function renderPhaseToggles(catalog: PhaseCatalogEntry[], roundPhases: string[]): void {
+  const container = document.getElementById('phaseToggles');
+  if (!container) return;
+  phaseCatalog = catalog;
+
+  const groups = [...new Set(catalog.map((phase) => phase.group))];
+  container.innerHTML = '';
+  groups.forEach((group) => {
+    const label = document.createElement('label');
+    label.className = 'phase-toggle';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.value = group;
+    checkbox.checked = catalog.some((phase) => phase.group === group && roundPhases.includes(phase.id));
+
+    label.appendChild(checkbox);
+    label.appendChild(document.createTextNode(` ${group}`));
+    container.appendChild(label);
+  });
+}
+
+// Phase ids of the checked groups, in catalog order
+function getSelectedPhases(): string[] {
+  const checked = new Set(
+    Array.from(document.querySelectorAll<HTMLInputElement>('#phaseToggles input:checked')).map((input) => input.value),
+  );
+  return phaseCatalog.filter((phase) => checked.has(phase.group)).map((phase) => phase.id);
+}
+
+// Create a new room and switch this panel to it
+function createRoom(): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot create room - not authenticated');
+    return;
+  }
+  socket.emit('createRoom');
+}
+
+// Show which room this panel controls, with links for its display and players
+function showRoomInfo(roomCode: string | null): void {
+  const roomInfo = document.getElementById('roomInfo');
+  if (!roomInfo) return;
+
+  if (!roomCode) {
+    roomInfo.textContent = 'No room';
+    return;
+  }
+
+  const query = `?room=${encodeURIComponent(roomCode)}`;
+  roomInfo.innerHTML = `
+    <span class="room-code">${roomCode}</span>
+    <a href="/${query}" target="_blank" rel="noopener">Display</a>
+    <a href="/play${query}" target="_blank" rel="noopener">Play</a>
+  `;
 }
 
+socket.on('roomCreated', (data: { code: string }) => {
+  addLog(`Room ${data.code} created - switching panel...`, 'success');
+  window.location.href = `/host?room=${encodeURIComponent(data.code)}`;
+});
+
+socket.on('roomError', (data: { message: string }) => {
+  Logger.warn('Room error:', data.message);
+  addLog(`Room error: ${data.message}`, 'error');
+  showRoomInfo(null);
+});
+
 socket.on('connect', () => {
   Logger.debug('Socket connected:', socket.id);
   setConnectionStatus(true, 'Connected');
@@ -127,11 +387,61 @@ socket.on('reconnect_failed', () => {
   addLog('Failed to reconnect after multiple attempts', 'error');
 });
 
-socket.on('hostAuthenticated', (data: { success: boolean }) => {
-  isAuthenticated = data.success;
-  if (isAuthenticated) {
+socket.on('hostAuthenticated', (data: {
+  success: boolean;
+  roomCode?: string | null;
+  phases?: PhaseCatalogEntry[];
+  roundPhases?: string[];
+  falseStartPenalty?: string;
+  fastestFingerVariant?: string;
+  clearingMode?: string;
+  adModeration?: string;
+  adDwellSeconds?: number;
+  floorPrice?: number;
+  adSlots?: number;
+  adSlotLabels?: string[];
+  dutchCeiling?: number;
+  teamAssignment?: string | null;
+  teamCount?: number;
+  season?: Season;
+}) => {
+  isAuthenticated = data.success && !!data.roomCode;
+  if (data.success) {
     Logger.debug('Host socket authenticated');
-    addLog('Host authenticated - controls enabled', 'success');
+    showRoomInfo(data.roomCode ?? null);
+    hostRoomCode = data.roomCode ?? null;
+    loadRoundHistory();
+    loadAllTimePlayers();
+    if (data.season) showSeason(data.season);
+    renderPhaseToggles(data.phases || [], data.roundPhases || []);
+    const penaltySelect = document.getElementById('falseStartPenalty') as HTMLSelectElement | null;
+    if (penaltySelect && data.falseStartPenalty) penaltySelect.value = data.falseStartPenalty;
+    const variantSelect = document.getElementById('fastestFingerVariant') as HTMLSelectElement | null;
+    if (variantSelect && data.fastestFingerVariant) variantSelect.value = data.fastestFingerVariant;
+    const clearingSelect = document.getElementById('clearingMode') as HTMLSelectElement | null;
+    if (clearingSelect && data.clearingMode) clearingSelect.value = data.clearingMode;
+    const moderationSelect = document.getElementById('adModeration') as HTMLSelectElement | null;
+    if (moderationSelect && data.adModeration) moderationSelect.value = data.adModeration;
+    const dwellInput = document.getElementById('adDwell') as HTMLInputElement | null;
+    if (dwellInput && data.adDwellSeconds !== undefined) dwellInput.value = String(data.adDwellSeconds);
+    const floorInput = document.getElementById('floorPrice') as HTMLInputElement | null;
+    if (floorInput && data.floorPrice !== undefined) floorInput.value = String(data.floorPrice);
+    const ceilingInput = document.getElementById('dutchCeiling') as HTMLInputElement | null;
+    if (ceilingInput && data.dutchCeiling !== undefined) ceilingInput.value = String(data.dutchCeiling);
+    const teamSelect = document.getElementById('teamMode') as HTMLSelectElement | null;
+    if (teamSelect) teamSelect.value = data.teamAssignment ?? '';
+    const teamCountInput = document.getElementById('teamCount') as HTMLInputElement | null;
+    if (teamCountInput && data.teamCount !== undefined) teamCountInput.value = String(data.teamCount);
+    const slotsSelect = document.getElementById('adSlots') as HTMLSelectElement | null;
+    if (slotsSelect && data.adSlotLabels) {
+      // Option N sells the first N slots, e.g. "3 - + Side Panel B"
+      slotsSelect.innerHTML = data.adSlotLabels
+        .map((label, i) => `<option value="${i + 1}">${i + 1} - ${i === 0 ? '' : '+ '}${escapeHtml(label)}</option>`)
+        .join('');
+      slotsSelect.value = String(data.adSlots ?? 1);
+    }
+    if (!isAuthenticated) return;
+    addLog(`Host authenticated for room ${data.roomCode} - controls enabled`, 'success');
     const startBtn = document.getElementById('startBtn') as HTMLButtonElement | null;
     if (startBtn) startBtn.disabled = false;
   } else {
@@ -162,15 +472,16 @@ socket.on('connect_error', (err: Error) => {
 // Host-specific events
 socket.on('hostEvent', (data: { type: string; message: string; level?: LogLevel }) => {
   addLog(data.message, data.level || 'info');
+  if (data.type === 'players_merged' || data.type === 'player_split' || data.type === 'season_started') loadAllTimePlayers();
 });
 
-// Reset All - clears ALL history and leaderboard
+// Reset All - resets the game and starts a new season (stats start from zero)
 function resetAll(): void {
   if (!isAuthenticated) {
     Logger.warn('Cannot reset - not authenticated');
     return;
   }
-  if (confirm('⚠️ This will permanently delete ALL player stats and reset the game. Are you sure?')) {
+  if (confirm('⚠️ This will reset the game and start a new season - the current leaderboard is archived to the hall of fame. Are you sure?')) {
     socket.emit('resetAuction');
     socket.emit('resetAllTimeStats');
     Logger.info('All data has been reset');
@@ -214,9 +525,12 @@ function updateUI(state: GameState): void {
   const gameStatus = document.getElementById('gameStatus');
   const newGameBtn = document.getElementById('newGameBtn') as HTMLButtonElement | null;
   const startBtn = document.getElementById('startBtn') as HTMLButtonElement | null;
+  const pauseBtn = document.getElementById('pauseBtn') as HTMLButtonElement | null;
+  const abortBtn = document.getElementById('abortBtn') as HTMLButtonElement | null;
+  isRoundPaused = !!state.paused;
 
   // Determine if game is in progress
-  const isGameInProgress = ['auction_countdown', 'auction', 'fastestFinger_countdown', 'fastestFinger_tap'].includes(state.status);
+  const isGameInProgress = !['waiting', 'lobby', 'finished'].includes(state.status);
   const isLobbyOpen = state.status === 'waiting' || state.status === 'lobby';
   const isFinished = state.status === 'finished';
 
@@ -229,9 +543,11 @@ function updateUI(state: GameState): void {
       auction: '🔥 Click Auction in progress!',
       fastestFinger_countdown: '⏳ Fastest Finger countdown...',
       fastestFinger_tap: '⚡ Fastest Finger in progress!',
+      dutch_countdown: '⏳ Dutch Auction countdown...',
+      dutch: '🔨 Dutch Auction - price falling!',
       finished: `✅ Round ${state.round} complete! Click "New Game" for next round`,
     };
-    gameStatus.textContent = statusMessages[state.status] || state.status;
+    gameStatus.textContent = isRoundPaused ? '⏸️ Round paused - players are waiting' : statusMessages[state.status] || state.status;
     gameStatus.style.color = isGameInProgress ? 'var(--success)' : isFinished ? 'var(--primary)' : '#888';
   }
 
@@ -242,21 +558,441 @@ function updateUI(state: GameState): void {
   if (startBtn) {
     startBtn.disabled = isGameInProgress || (!isLobbyOpen && !isFinished);
   }
+  if (pauseBtn) {
+    pauseBtn.disabled = !isGameInProgress;
+    pauseBtn.textContent = isRoundPaused ? '▶️ Resume' : '⏸️ Pause';
+  }
+  if (abortBtn) {
+    abortBtn.disabled = !isGameInProgress && !isFinished;
+  }
+
+  // A round was recorded (or aborted) - newest rounds first again
+  if (prevStatus !== state.status && (isFinished || state.status === 'waiting')) {
+    historyOffset = 0;
+    loadRoundHistory();
+    loadAllTimePlayers();
+  }
+  document.querySelectorAll<HTMLButtonElement>('.btn-show-winner').forEach((btn) => {
+    btn.disabled = isGameInProgress;
+  });
+
+  renderCampaign(state.campaign ?? null);
+  renderTeams(state.teams ?? null, isGameInProgress);
+  renderTournament(state.tournament ?? null);
+}
+
+// ==========================================
+// CAMPAIGN
+// ==========================================
+// Impressions won against budget spent - settings lock while a campaign runs
+function renderCampaign(campaign: CampaignView | null): void {
+  const panel = document.getElementById('campaignPanel');
+  const status = document.getElementById('campaignStatus');
+  const standings = document.getElementById('campaignStandings');
+  const isRunning = !!campaign && !campaign.complete;
+  ['campaignMode', 'campaignRounds', 'campaignBudget'].forEach((id) => {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    if (input) input.disabled = isRunning;
+  });
+
+  if (!panel) return;
+  panel.classList.toggle('active', !!campaign);
+  if (!campaign) return;
+
+  if (status) {
+    status.textContent = campaign.complete
+      ? `📣 Campaign complete (${campaign.totalRounds} rounds) - next Start begins a new one`
+      : `📣 Campaign round ${campaign.round} of ${campaign.totalRounds} • ${campaign.budgetPerPlayer} taps per DSP`;
+  }
+  if (standings) {
+    standings.innerHTML = campaign.standings
+      .map((s, i) => `
+        <div class="campaign-row">
+          <span class="campaign-rank">${i + 1}.</span>
+          <span class="latency-color" style="background: ${s.color}"></span>
+          <span class="campaign-name">${escapeHtml(s.name)}</span>
+          <span class="campaign-figures">🏆 ${s.impressions} • 💰 ${s.spent}/${campaign.budgetPerPlayer}</span>
+        </div>
+      `)
+      .join('');
+  }
+}
+
+// ==========================================
+// TEAMS
+// ==========================================
+// Team totals for this round - settings lock while a round runs
+function renderTeams(teams: TeamView | null, isGameInProgress: boolean): void {
+  ['teamMode', 'teamCount', 'applyTeamsBtn'].forEach((id) => {
+    const input = document.getElementById(id) as HTMLInputElement | HTMLButtonElement | null;
+    if (input) input.disabled = isGameInProgress;
+  });
+
+  const panel = document.getElementById('teamPanel');
+  const status = document.getElementById('teamStatus');
+  const standings = document.getElementById('teamStandings');
+  if (!panel) return;
+  panel.classList.toggle('active', !!teams);
+  if (!teams) return;
+
+  const modeNames: Record<TeamView['assignment'], string> = {
+    choose: 'players pick',
+    round_robin: 'round-robin',
+    table: 'by table',
+  };
+  if (status) status.textContent = `🤝 ${teams.standings.length} teams • ${modeNames[teams.assignment]}`;
+  if (standings) {
+    standings.innerHTML = teams.standings
+      .map((team, i) => `
+        <div class="team-row">
+          <span class="team-rank">${i + 1}.</span>
+          <span class="latency-color" style="background: ${team.color}"></span>
+          <span class="team-name">${escapeHtml(team.name)}</span>
+          <span class="team-figures">👥 ${team.members} • ${team.finalScore} pts</span>
+        </div>
+      `)
+      .join('');
+  }
+}
+
+// ==========================================
+// TOURNAMENT
+// ==========================================
+// Who each round knocked out - settings lock until there is a champion
+function renderTournament(tournament: TournamentView | null): void {
+  const panel = document.getElementById('tournamentPanel');
+  const status = document.getElementById('tournamentStatus');
+  const rounds = document.getElementById('tournamentRounds');
+  const isRunning = !!tournament && !tournament.complete;
+  ['tournamentMode', 'eliminatePercent'].forEach((id) => {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    if (input) input.disabled = isRunning;
+  });
+
+  if (!panel) return;
+  panel.classList.toggle('active', !!tournament);
+  if (!tournament) return;
+
+  if (status) {
+    status.textContent = tournament.complete
+      ? `👑 Champion: ${tournament.champion ?? 'none'} - next Start begins a new tournament`
+      : `🏟️ ${tournament.aliveCount} of ${tournament.entrants} DSPs left • bottom ${tournament.eliminatePercent}% out each round`;
+  }
+  if (rounds) {
+    rounds.innerHTML = tournament.rounds
+      .map((round) => `
+        <div class="tournament-row">
+          <span class="tournament-round">R${round.round}</span>
+          <span class="tournament-out">${escapeHtml(round.knockedOut.join(', ')) || '-'}</span>
+          <span class="tournament-figures">${round.players} → ${round.survivors}</span>
+        </div>
+      `)
+      .join('');
+  }
 }
 
 socket.on('gameState', updateUI);
 
+// ==========================================
+// PLAYER LATENCY
+// ==========================================
+// Slowest first, so unfair setups (e.g. weak venue Wi-Fi) stand out
+const LATENCY_WARN_MS = 150;
+const LATENCY_BAD_MS = 300;
+
+function renderPlayerLatency(data: { players: PlayerLatency[] }): void {
+  const list = document.getElementById('latencyList');
+  if (!list) return;
+
+  if (data.players.length === 0) {
+    list.innerHTML = '<div class="latency-empty">No players yet</div>';
+    return;
+  }
+
+  list.innerHTML = data.players
+    .map((player) => {
+      const level = player.rttMs === null ? 'unknown'
+        : player.rttMs >= LATENCY_BAD_MS ? 'bad'
+          : player.rttMs >= LATENCY_WARN_MS ? 'warn' : 'good';
+      const rtt = player.rttMs === null ? '…' : `${player.rttMs}ms`;
+      return `
+        <div class="latency-item">
+          <span class="latency-color" style="background: ${player.color}"></span>
+          <span class="latency-name">${escapeHtml(player.name)}</span>
+          <span class="latency-rtt ${level}">${rtt}</span>
+        </div>
+      `;
+    })
+    .join('');
+}
+
+socket.on('playerLatency', renderPlayerLatency);
+
+// ==========================================
+// AD REVIEW
+// ==========================================
+// Creatives waiting for approval - until then a winner gets the house ad
+
+function renderAdQueue(data: { mode: string; items: AdQueueItem[] }): void {
+  const moderationSelect = document.getElementById('adModeration') as HTMLSelectElement | null;
+  if (moderationSelect) moderationSelect.value = data.mode;
+  const list = document.getElementById('adQueueList');
+  if (!list) return;
+
+  list.innerHTML = data.items.length === 0
+    ? '<div class="latency-empty">No ads waiting</div>'
+    : data.items.map((item) => `
+      <div class="history-item">
+        <span class="latency-color" style="background: ${item.color}"></span>
+        <span class="ad-creative">
+          <strong>${escapeHtml(item.name)}:</strong> ${escapeHtml(item.adContent)}
+          ${item.flagged.length > 0 ? `<span class="ad-flagged">⚠️ ${item.flagged.map(escapeHtml).join(', ')}</span>` : ''}
+        </span>
+        <button class="btn btn-show-winner" onclick="reviewAd('${escapeHtml(item.playerId)}', true)" aria-label="Approve ${escapeHtml(item.name)}'s ad">✅</button>
+        <button class="btn btn-show-winner" onclick="reviewAd('${escapeHtml(item.playerId)}', false)" aria-label="Reject ${escapeHtml(item.name)}'s ad">🚫</button>
+      </div>
+    `).join('');
+}
+
+socket.on('adQueue', renderAdQueue);
+
+function reviewAd(playerId: string, approved: boolean): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot review ad - not authenticated');
+    return;
+  }
+  socket.emit('reviewAd', { playerId, approved });
+}
+
+function setAdModeration(): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot change ad review - not authenticated');
+    return;
+  }
+  const mode = (document.getElementById('adModeration') as HTMLSelectElement | null)?.value;
+  socket.emit('setAdModeration', { mode });
+}
+
+// How long each past winner's ad stays up in the lobby rotation on the displays
+function setAdDwell(): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot change lobby ad time - not authenticated');
+    return;
+  }
+  const seconds = Number((document.getElementById('adDwell') as HTMLInputElement | null)?.value);
+  socket.emit('setAdDwell', { seconds });
+}
+
+// ==========================================
+// ROUND HISTORY
+// ==========================================
+const HISTORY_PAGE_SIZE = 5;
+
+function loadRoundHistory(): void {
+  if (!hostRoomCode) return;
+  fetch(`/api/rounds?room=${encodeURIComponent(hostRoomCode)}&offset=${historyOffset}&limit=${HISTORY_PAGE_SIZE}`)
+    .then((res) => res.json() as Promise<RoundPage>)
+    .then(renderRoundHistory)
+    .catch((err) => Logger.warn('Could not load round history:', err));
+}
+
+function pageRoundHistory(direction: number): void {
+  historyOffset = Math.max(0, historyOffset + direction * HISTORY_PAGE_SIZE);
+  loadRoundHistory();
+}
+
+function renderRoundHistory(page: RoundPage): void {
+  const list = document.getElementById('historyList');
+  const pageLabel = document.getElementById('historyPage');
+  const newerBtn = document.getElementById('historyNewerBtn') as HTMLButtonElement | null;
+  const olderBtn = document.getElementById('historyOlderBtn') as HTMLButtonElement | null;
+  const isGameInProgress = !['waiting', 'lobby', 'finished'].includes(currentStatus);
+
+  if (list) {
+    list.innerHTML = page.rounds.length === 0
+      ? '<div class="latency-empty">No rounds played yet</div>'
+      : page.rounds.map((round) => `
+        <div class="history-item">
+          <span class="history-round">R${round.round}</span>
+          <span class="history-time">${new Date(round.finishedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+          <span class="history-winner">${round.winner ? `🏆 ${escapeHtml(round.winner)} (${round.winningScore})` : 'No winner'}</span>
+          <span class="history-players">${round.players} DSPs</span>
+          <button class="btn btn-show-winner" onclick="showPastWinner('${escapeHtml(round.id)}')" aria-label="Show round ${round.round} winner on the display" ${isGameInProgress || !round.winner ? 'disabled' : ''}>📺</button>
+          <button class="btn btn-show-winner" onclick="replayRound('${escapeHtml(round.id)}')" aria-label="Replay round ${round.round} on the display" ${isGameInProgress ? 'disabled' : ''}>⏪</button>
+        </div>
+      `).join('');
+  }
+  if (pageLabel) {
+    pageLabel.textContent = page.total === 0 ? '' : `${page.offset + 1}-${page.offset + page.rounds.length} of ${page.total}`;
+  }
+  if (newerBtn) newerBtn.disabled = page.offset === 0;
+  if (olderBtn) olderBtn.disabled = page.offset + page.rounds.length >= page.total;
+}
+
+// ==========================================
+// ALL-TIME PLAYERS
+// ==========================================
+// Stats follow each device's player id. The host can merge two ids that are
+// the same person (e.g. a record from before player ids) and split them again.
+
+function loadAllTimePlayers(): void {
+  fetch('/api/stats')
+    .then((res) => res.json() as Promise<{ allTime: AllTimePlayer[]; season: Season }>)
+    .then((stats) => {
+      showSeason(stats.season);
+      renderAllTimePlayers(stats.allTime);
+    })
+    .catch((err) => Logger.warn('Could not load all-time players:', err));
+}
+
+function renderAllTimePlayers(players: AllTimePlayer[]): void {
+  const list = document.getElementById('playerList');
+  if (list) {
+    list.innerHTML = players.length === 0
+      ? '<div class="latency-empty">No players recorded yet</div>'
+      : players.map((player) => `
+        <div class="history-item">
+          <span class="history-winner">${escapeHtml(player.name)} <span class="history-id">${escapeHtml(player.id)}</span></span>
+          <span class="history-players">${player.wins}W / ${player.roundsPlayed}R • ${player.rating}</span>
+        </div>
+        ${player.merged.map((alias) => `
+          <div class="history-item merged">
+            <span class="history-winner">↳ ${escapeHtml(alias.name)} <span class="history-id">${escapeHtml(alias.id)}</span></span>
+            <button class="btn btn-history" onclick="splitPlayer('${escapeHtml(alias.id)}')" aria-label="Split ${escapeHtml(alias.name)} off again">✂️</button>
+          </div>
+        `).join('')}
+      `).join('');
+  }
+
+  const options = players
+    .map((player) => `<option value="${escapeHtml(player.id)}">${escapeHtml(player.name)} (${escapeHtml(player.id.substring(0, 10))}…)</option>`)
+    .join('');
+  ['mergeSource', 'mergeTarget'].forEach((id) => {
+    const select = document.getElementById(id) as HTMLSelectElement | null;
+    if (select) select.innerHTML = options;
+  });
+}
+
+// Stats accrue to the current season; starting the next archives its leaderboard
+function showSeason(season: Season): void {
+  const label = document.getElementById('currentSeason');
+  if (label) label.textContent = season.name;
+}
+
+function startSeason(): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot start a season - not authenticated');
+    return;
+  }
+  const input = document.getElementById('seasonName') as HTMLInputElement | null;
+  const name = input?.value.trim() ?? '';
+  if (!confirm(`Archive the current season's leaderboard and start ${name ? `"${name}"` : 'a new season'}?`)) return;
+  socket.emit('startSeason', { name });
+  if (input) input.value = '';
+}
+
+function mergePlayers(): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot merge players - not authenticated');
+    return;
+  }
+  const sourceId = (document.getElementById('mergeSource') as HTMLSelectElement | null)?.value;
+  const targetId = (document.getElementById('mergeTarget') as HTMLSelectElement | null)?.value;
+  if (!sourceId || !targetId || sourceId === targetId) {
+    addLog('Pick two different players to merge', 'warning');
+    return;
+  }
+  socket.emit('mergePlayers', { sourceId, targetId });
+}
+
+function splitPlayer(playerId: string): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot split player - not authenticated');
+    return;
+  }
+  socket.emit('splitPlayer', { playerId });
+}
+
+// ==========================================
+// RESULTS EXPORT
+// ==========================================
+// Organisers get the results as CSV or JSON downloads. The server checks the
+// same host token as this panel (the hostAuth cookie goes with the request).
+
+function exportResults(dataset: 'results' | 'stats' | 'rounds', format: 'csv' | 'json'): void {
+  if (!isAuthenticated) {
+    Logger.warn('Cannot export results - not authenticated');
+    return;
+  }
+  const query = new URLSearchParams({ format });
+  if (hostRoomCode) query.set('room', hostRoomCode);
+  fetch(`/api/host/export/${dataset}?${query}`)
+    .then((res) => {
+      if (!res.ok) {
+        return res.json().then((body: { error?: string }) => {
+          throw new Error(body.error || res.statusText);
+        });
+      }
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `${dataset}.${format}`;
+      return res.blob().then((blob) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+        addLog(`Exported ${filename}`, 'success');
+      });
+    })
+    .catch((err: Error) => {
+      Logger.warn('Export failed:', err);
+      addLog(`Export failed: ${err.message}`, 'error');
+    });
+}
+
 // Expose functions to window for onclick handlers
 declare global {
   interface Window {
     newGame: typeof newGame;
     startAuction: typeof startAuction;
+    endCampaign: typeof endCampaign;
+    endTournament: typeof endTournament;
+    togglePause: typeof togglePause;
+    abortRound: typeof abortRound;
+    showPastWinner: typeof showPastWinner;
+    replayRound: typeof replayRound;
+    mergePlayers: typeof mergePlayers;
+    startSeason: typeof startSeason;
+    exportResults: typeof exportResults;
+    splitPlayer: typeof splitPlayer;
+    reviewAd: typeof reviewAd;
+    setAdModeration: typeof setAdModeration;
+    setAdDwell: typeof setAdDwell;
+    pageRoundHistory: typeof pageRoundHistory;
+    applyTeams: typeof applyTeams;
+    createRoom: typeof createRoom;
     resetAll: typeof resetAll;
     clearLog: typeof clearLog;
   }
 }
 window.newGame = newGame;
 window.startAuction = startAuction;
+window.endCampaign = endCampaign;
+window.endTournament = endTournament;
+window.togglePause = togglePause;
+window.abortRound = abortRound;
+window.showPastWinner = showPastWinner;
+window.replayRound = replayRound;
+window.mergePlayers = mergePlayers;
+window.startSeason = startSeason;
+window.exportResults = exportResults;
+window.splitPlayer = splitPlayer;
+window.reviewAd = reviewAd;
+window.setAdModeration = setAdModeration;
+window.setAdDwell = setAdDwell;
+window.pageRoundHistory = pageRoundHistory;
+window.applyTeams = applyTeams;
+window.createRoom = createRoom;
 window.resetAll = resetAll;
 window.clearLog = clearLog;
 
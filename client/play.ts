@@ -5,6 +5,7 @@
 import { io, Socket } from 'socket.io-client';
 import { Logger } from './logger';
 import { SoundManager } from './sound';
+import { AdCreative, enableClockSync, escapeHtml, getDutchPrice, getMsUntil, getRoomCode, getRoomQuery, renderAdCreative, syncServerClock } from './utils';
 
 interface Player {
   name: string;
@@ -12,19 +13,111 @@ interface Player {
   color: string;
   reactionTime?: number | null;
   finalScore?: number;
+  falseStart?: boolean;
+  multiplier?: number;
+}
+
+interface SlotAward extends Player {
+  slot: number; // 0 = premium slot
+  slotLabel: string;
+  clearingPrice: number;
+}
+
+interface FalseStartInfo {
+  penalty: 'disqualify' | 'add_time' | 'deduct_score';
+  timePenaltyMs: number;
+  scoreDeductionPercent: number;
+}
+
+interface FastestFingerTarget {
+  id: string;
+  symbol: string;
+  x: number; // Fraction of the play area (0-1)
+  y: number;
+}
+
+interface FastestFingerSignal {
+  id: string;
+  kind: 'go' | 'nogo';
+  attempt: number;
+  targets?: FastestFingerTarget[];
+  prompt?: string;
+}
+
+interface FastestFingerView {
+  variant: 'classic' | 'go_no_go' | 'multi_target' | 'best_of_three';
+  label: string;
+  instructions: string;
+  attempts: number;
+  signal: FastestFingerSignal | null;
+}
+
+interface DutchView {
+  ceiling: number;
+  floor: number;
+  startedAt: number; // Server timestamp when the price started falling
+  durationMs: number;
+  stepMs: number;
+  claim: { name: string; price: number } | null;
+}
+
+interface Team {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface TeamView {
+  assignment: 'choose' | 'round_robin' | 'table';
+  teams: Team[];
+  standings: { id: string; name: string; members: number; finalScore: number }[];
+}
+
+interface TournamentView {
+  aliveCount: number;
+  rounds: { round: number; players: number; survivors: number }[];
+  champion: string | null;
+  complete: boolean;
+}
+
+interface TournamentStatus {
+  spectator: boolean;
+  knockedOutRound: number | null;
+  aliveCount: number;
+  champion: string | null;
+  isChampion: boolean;
 }
 
 interface GameState {
-  status: 'waiting' | 'auction_countdown' | 'auction' | 'fastestFinger_countdown' | 'fastestFinger_tap' | 'finished';
+  roomCode?: string;
+  status: 'waiting' | 'auction_countdown' | 'auction' | 'fastestFinger_countdown' | 'fastestFinger_tap' | 'dutch_countdown' | 'dutch' | 'finished';
   timeRemaining: number;
+  endsAt?: number | null; // Server timestamp when the current phase ends
+  serverNow?: number;
   leaderboard: Player[];
-  winner: Player | null;
+  winners: SlotAward[];
+  clearing?: { mode: string; clearingPrice: number | null; beatBid: number | null } | null;
+  campaign?: { round: number; totalRounds: number; complete: boolean } | null;
   auctionScores?: Record<string, number>;
+  fastestFinger?: FastestFingerView;
+  dutch?: DutchView | null;
+  teams?: TeamView | null;
+  tournament?: TournamentView | null;
+  paused?: boolean;
+}
+
+interface BudgetStatus {
+  remaining: number;
+  spent: number;
+  total: number;
+  impressions: number;
+  roundsLeft: number;
 }
 
 interface SessionData {
   token: string;
   playerData: Player;
+  team?: Team | null;
 }
 
 const socket: Socket = io({
@@ -32,15 +125,24 @@ const socket: Socket = io({
   reconnectionAttempts: 10,
   reconnectionDelay: 1000,
   reconnectionDelayMax: 5000,
+  query: getRoomQuery(),
 });
+enableClockSync(socket);
 
 let myClicks = 0;
 let myColor = '#00f5d4';
 let myName = '';
 let gameStatus: GameState['status'] = 'waiting';
+let isPaused = false; // Host froze the round - taps are rejected
 let lastCountdown: number | null = null;
+let currentEndsAt: number | null = null;
+let countdownFrame: number | null = null;
 let sessionToken: string | null = localStorage.getItem('clickAuctionSession');
+// Persistent player id and key issued to this device - all-time stats follow it, not the name
+let playerCredentials: { id: string; key: string } | null = loadPlayerCredentials();
+let myPlayerId: string | null = playerCredentials?.id ?? null;
 let myAuctionTaps = 0; // Store Click Auction score for display
+let myTeam: Team | null = null;
 
 // ==========================================
 // SESSION MANAGEMENT
@@ -55,10 +157,25 @@ function clearSession(): void {
   localStorage.removeItem('clickAuctionSession');
 }
 
+function loadPlayerCredentials(): { id: string; key: string } | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem('clickAuctionPlayer') || 'null');
+    return stored && typeof stored.id === 'string' && typeof stored.key === 'string' ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
 // Handle session created (new join)
-socket.on('sessionCreated', (data: { token: string }) => {
+socket.on('sessionCreated', (data: { token: string; team?: Team | null; playerId?: string; credentials?: { id: string; key: string } | null }) => {
   saveSession(data.token);
+  if (data.credentials) {
+    // First join from this device (or its old id was not recognised)
+    playerCredentials = data.credentials;
+    localStorage.setItem('clickAuctionPlayer', JSON.stringify(data.credentials));
+  }
   Logger.debug('Session created');
+  showMyTeam(data.team ?? null);
 
   const joinScreen = document.getElementById('joinScreen');
   const gameScreen = document.getElementById('gameScreen');
@@ -66,7 +183,13 @@ socket.on('sessionCreated', (data: { token: string }) => {
 
   if (joinScreen) joinScreen.classList.add('hidden');
   if (gameScreen) gameScreen.classList.add('active');
-  if (playerNameDisplay) playerNameDisplay.textContent = myName;
+  if (playerNameDisplay) {
+    playerNameDisplay.textContent = myName;
+    if (data.playerId) playerNameDisplay.title = `Player ID: ${data.playerId}`;
+  }
+  if (data.playerId) myPlayerId = data.playerId;
+  loadAdReport();
+  loadAchievements();
 });
 
 // Handle successful rejoin
@@ -75,6 +198,7 @@ socket.on('rejoinSuccess', (data: SessionData) => {
   myName = data.playerData.name;
   myClicks = data.playerData.clicks;
   myColor = data.playerData.color;
+  showMyTeam(data.team ?? null);
 
   const joinScreen = document.getElementById('joinScreen');
   const gameScreen = document.getElementById('gameScreen');
@@ -89,6 +213,7 @@ socket.on('rejoinSuccess', (data: SessionData) => {
   if (errorOverlay) errorOverlay.classList.remove('active');
 
   Logger.info('Session restored');
+  loadAchievements();
 
   showReconnectMessage('Reconnected!');
 });
@@ -216,9 +341,36 @@ function toggleSound(): void {
   }
 }
 
+// ==========================================
+// AD COMPOSER
+// ==========================================
+// The preview uses the billboard's own templates; the server validates the
+// creative again (unknown templates and non-emoji logos are dropped).
+
+function readCreative(): AdCreative {
+  const value = (id: string): string => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value.trim() ?? '';
+  const name = value('playerName') || 'Your DSP';
+  return {
+    headline: value('adContent') || `${name} wins! 🎉`,
+    tagline: value('adTagline'),
+    template: value('adTemplate') || 'neon',
+    logo: value('adLogo') || null,
+  };
+}
+
+function updateAdPreview(): void {
+  const preview = document.getElementById('adPreview');
+  if (preview) preview.innerHTML = renderAdCreative(readCreative());
+}
+
+['playerName', 'adContent', 'adTagline', 'adTemplate', 'adLogo'].forEach((id) => {
+  document.getElementById(id)?.addEventListener('input', updateAdPreview);
+});
+updateAdPreview();
+
 function joinGame(): void {
   const nameInput = document.getElementById('playerName') as HTMLInputElement | null;
-  const adInput = document.getElementById('adContent') as HTMLInputElement | null;
+  const roomInput = document.getElementById('roomCode') as HTMLInputElement | null;
   const joinBtn = document.getElementById('joinBtn') as HTMLButtonElement | null;
 
   // Validate inputs
@@ -228,7 +380,12 @@ function joinGame(): void {
     return;
   }
 
-  const adContent = adInput?.value.trim() || `${name} wins! 🎉`;
+  const ad = readCreative();
+  const roomCode = roomInput?.value.trim().toUpperCase() || undefined;
+  const teamPick = document.getElementById('teamPick') as HTMLSelectElement | null;
+  const tableInput = document.getElementById('tableNumber') as HTMLInputElement | null;
+  const teamId = teamPick?.value || undefined;
+  const table = tableInput?.value ? parseInt(tableInput.value, 10) : undefined;
 
   // Disable button to prevent double-submit
   if (joinBtn) {
@@ -239,13 +396,51 @@ function joinGame(): void {
   SoundManager.init();
   myName = name;
 
-  Logger.debug('Joining game as:', name);
-  socket.emit('joinGame', { name, adContent });
+  Logger.debug('Joining game as:', name, roomCode ? `(room ${roomCode})` : '');
+  socket.emit('joinGame', { name, ad, roomCode, teamId, table, player: playerCredentials ?? undefined });
+}
+
+// ==========================================
+// TEAMS
+// ==========================================
+// In team mode the join form asks for a team (or table number); the server
+// deals round-robin teams itself.
+
+function renderTeamPicker(view: TeamView | null): void {
+  const pickGroup = document.getElementById('teamPickGroup');
+  const tableGroup = document.getElementById('tableGroup');
+  const teamPick = document.getElementById('teamPick') as HTMLSelectElement | null;
+  pickGroup?.classList.toggle('active', view?.assignment === 'choose');
+  tableGroup?.classList.toggle('active', view?.assignment === 'table');
+
+  if (!teamPick || view?.assignment !== 'choose') return;
+  const picked = teamPick.value;
+  teamPick.innerHTML = view.teams
+    .map((team) => `<option value="${escapeHtml(team.id)}">${escapeHtml(team.name)}</option>`)
+    .join('');
+  if (view.teams.some((team) => team.id === picked)) teamPick.value = picked;
+}
+
+function showMyTeam(team: Team | null): void {
+  myTeam = team;
+  const teamDisplay = document.getElementById('playerTeamDisplay');
+  if (!teamDisplay) return;
+  teamDisplay.textContent = team ? `🤝 ${team.name}` : '';
+  teamDisplay.style.color = team ? team.color : '';
 }
 
+socket.on('teamAssigned', (data: { team: Team | null }) => {
+  showMyTeam(data.team);
+});
+
 // Allow Enter key to join
 const playerNameInput = document.getElementById('playerName');
 const adContentInput = document.getElementById('adContent');
+const roomCodeInput = document.getElementById('roomCode') as HTMLInputElement | null;
+
+// Pre-fill the join code from a ?room= link (QR code on the display)
+const urlRoomCode = getRoomCode();
+if (roomCodeInput && urlRoomCode) roomCodeInput.value = urlRoomCode;
 
 playerNameInput?.addEventListener('keypress', (e: KeyboardEvent) => {
   if (e.key === 'Enter') joinGame();
@@ -253,11 +448,18 @@ playerNameInput?.addEventListener('keypress', (e: KeyboardEvent) => {
 adContentInput?.addEventListener('keypress', (e: KeyboardEvent) => {
   if (e.key === 'Enter') joinGame();
 });
+roomCodeInput?.addEventListener('keypress', (e: KeyboardEvent) => {
+  if (e.key === 'Enter') joinGame();
+});
+roomCodeInput?.addEventListener('input', () => {
+  roomCodeInput.classList.remove('error');
+  document.getElementById('roomCodeHint')?.classList.remove('error');
+});
 
 // Bid button click
 const bidButton = document.getElementById('bidButton') as HTMLButtonElement | null;
 
-let hasRecordedReaction = false;
+let hasFalseStarted = false;
 
 // Randomize button position for Fastest Finger (CSS handles the size)
 function randomizeButtonPosition(): void {
@@ -298,15 +500,351 @@ function resetButtonPosition(): void {
   bidButton.style.cssText = '';
 }
 
+// ==========================================
+// CAMPAIGN BUDGET
+// ==========================================
+// In a campaign every Click Auction tap spends from one budget for the
+// whole series of rounds; the meter shows what's left and a pacing hint.
+
+let myBudget: BudgetStatus | null = null;
+
+function renderBudget(): void {
+  const meter = document.getElementById('budgetMeter');
+  const fill = document.getElementById('budgetFill');
+  const text = document.getElementById('budgetText');
+  const pacing = document.getElementById('budgetPacing');
+  if (!meter) return;
+  if (!myBudget) {
+    meter.classList.remove('active');
+    return;
+  }
+
+  const percent = myBudget.total > 0 ? (myBudget.remaining / myBudget.total) * 100 : 0;
+  meter.classList.add('active');
+  meter.classList.toggle('low', percent <= 20);
+  if (fill) fill.style.width = `${percent}%`;
+  if (text) text.textContent = `💰 ${myBudget.remaining} / ${myBudget.total} taps left • 🏆 ${myBudget.impressions} won`;
+  if (pacing) {
+    pacing.textContent = myBudget.roundsLeft > 0
+      ? `≈ ${Math.floor(myBudget.remaining / myBudget.roundsLeft)} taps per round to pace evenly`
+      : 'Campaign complete';
+  }
+}
+
+// Count the tap right away; clickConfirm has the final word
+function spendLocalBudget(): void {
+  if (!myBudget || myBudget.remaining <= 0) return;
+  myBudget.remaining--;
+  myBudget.spent++;
+  renderBudget();
+}
+
+function showBudgetExhausted(): void {
+  if (!bidButton) return;
+  bidButton.className = 'bid-button disabled';
+  bidButton.innerHTML = '💸 BUDGET<br>SPENT';
+  bidButton.disabled = true;
+}
+
+socket.on('campaignBudget', (status: BudgetStatus) => {
+  myBudget = status;
+  renderBudget();
+});
+
+socket.on('budgetExhausted', () => {
+  if (myBudget) {
+    myBudget.spent += myBudget.remaining;
+    myBudget.remaining = 0;
+    renderBudget();
+  }
+  if (gameStatus === 'auction') showBudgetExhausted();
+});
+
+// ==========================================
+// TOURNAMENT
+// ==========================================
+// Knocked-out players (and late joiners) spectate until the tournament
+// has a champion; the banner shows where the player stands.
+
+let myTournament: TournamentStatus | null = null;
+
+function renderTournament(): void {
+  const banner = document.getElementById('tournamentBanner');
+  if (!banner) return;
+  banner.className = 'tournament-banner' + (myTournament ? ' active' : '') + (myTournament?.spectator ? ' spectating' : '');
+  if (!myTournament) {
+    banner.textContent = '';
+  } else if (myTournament.champion) {
+    banner.textContent = myTournament.isChampion ? '👑 You are the tournament champion!' : `👑 Champion: ${myTournament.champion}`;
+  } else if (myTournament.spectator) {
+    banner.textContent = myTournament.knockedOutRound
+      ? `👀 Knocked out in round ${myTournament.knockedOutRound} - spectating (${myTournament.aliveCount} left)`
+      : `👀 Tournament in progress - spectating (${myTournament.aliveCount} left)`;
+  } else {
+    banner.textContent = `🏟️ Still in! ${myTournament.aliveCount} DSPs left`;
+  }
+}
+
+function showSpectating(): void {
+  if (!bidButton) return;
+  resetButtonPosition();
+  bidButton.className = 'bid-button disabled';
+  bidButton.innerHTML = '👀 SPECTATING<br><small>Knocked out of the tournament</small>';
+  bidButton.disabled = true;
+}
+
+socket.on('tournamentStatus', (status: TournamentStatus) => {
+  myTournament = status;
+  renderTournament();
+  if (myTournament.spectator && gameStatus !== 'finished') showSpectating();
+});
+
+// ==========================================
+// AD REVIEW
+// ==========================================
+// Until the host approves our creative, the house ad runs if we win
+
+const adReviewNotice = document.getElementById('adReviewNotice');
+
+socket.on('adReview', (review: { status: 'pending' | 'approved' | 'rejected' }) => {
+  if (!adReviewNotice) return;
+  adReviewNotice.className = `ad-review-notice ${review.status === 'approved' ? '' : `active ${review.status}`}`;
+  adReviewNotice.textContent = review.status === 'pending'
+    ? '🛡️ Your ad is waiting for the host\'s approval'
+    : '🚫 Your ad was not approved - a house ad runs if you win';
+});
+
+// ==========================================
+// AD AIRTIME
+// ==========================================
+// Our winning ads rotate on the displays between rounds - show how many
+// impressions and how much screen time they have earned
+
+interface AdReport {
+  impressions: number;
+  airtimeSeconds: number;
+}
+
+const AD_REPORT_REFRESH_MS = 30000;
+
+function loadAdReport(): void {
+  const adAirtime = document.getElementById('adAirtime');
+  if (!myPlayerId || !adAirtime) return;
+  fetch(`/api/players/${encodeURIComponent(myPlayerId)}/ad-report`)
+    .then((res) => (res.ok ? res.json() : null))
+    .then((report: AdReport | null) => {
+      adAirtime.classList.toggle('active', !!report && report.impressions > 0);
+      if (!report) return;
+      const minutes = Math.floor(report.airtimeSeconds / 60);
+      const airtime = minutes > 0 ? `${minutes}m ${report.airtimeSeconds % 60}s` : `${report.airtimeSeconds}s`;
+      adAirtime.textContent = `📺 Your winning ads: ${report.impressions} impressions • ${airtime} on screen`;
+    })
+    .catch((err) => Logger.warn('Could not load ad report:', err));
+}
+
+setInterval(loadAdReport, AD_REPORT_REFRESH_MS);
+
+// ==========================================
+// ACHIEVEMENTS
+// ==========================================
+// Badges unlocked after a round pop up here; the ones we hold are listed
+// from our player profile
+
+interface Achievement {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+}
+
+const ACHIEVEMENT_POPUP_MS = 4000;
+let myAchievements: Achievement[] = [];
+let achievementPopupTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function renderAchievements(): void {
+  const list = document.getElementById('achievements');
+  if (!list) return;
+  list.classList.toggle('active', myAchievements.length > 0);
+  list.innerHTML = myAchievements
+    .map((a) => `<span class="achievement-badge" title="${escapeHtml(`${a.name}: ${a.description}`)}">${escapeHtml(a.icon)}</span>`)
+    .join('');
+}
+
+function loadAchievements(): void {
+  if (!myPlayerId) return;
+  fetch(`/api/players/${encodeURIComponent(myPlayerId)}`)
+    .then((res) => (res.ok ? res.json() : null))
+    .then((profile: { achievements?: Achievement[] } | null) => {
+      myAchievements = profile?.achievements ?? [];
+      renderAchievements();
+    })
+    .catch((err) => Logger.warn('Could not load achievements:', err));
+}
+
+socket.on('achievementUnlocked', (achievement: Achievement) => {
+  if (!myAchievements.some((a) => a.id === achievement.id)) myAchievements.push(achievement);
+  renderAchievements();
+
+  const popup = document.getElementById('achievementPopup');
+  if (!popup) return;
+  popup.innerHTML = `<span class="achievement-popup-icon">${escapeHtml(achievement.icon)}</span>
+    <strong>${escapeHtml(achievement.name)}</strong>
+    <small>${escapeHtml(achievement.description)}</small>`;
+  popup.classList.add('active');
+  if (achievementPopupTimeout) clearTimeout(achievementPopupTimeout);
+  achievementPopupTimeout = setTimeout(() => popup.classList.remove('active'), ACHIEVEMENT_POPUP_MS);
+  SoundManager.winner();
+});
+
+// ==========================================
+// FASTEST FINGER SIGNALS
+// ==========================================
+// The server decides when signals show and which target is right;
+// each tap names the signal (and target) it answers.
+
+const targetField = document.getElementById('targetField');
+let currentVariant: FastestFingerView['variant'] = 'classic';
+let currentSignal: FastestFingerSignal | null = null;
+const answeredSignals = new Set<string>();
+
+function answerSignal(signal: FastestFingerSignal, targetId?: string): void {
+  answeredSignals.add(signal.id);
+  // Local tap time lets the server take our network latency out of the reaction time
+  socket.emit('click', { tapAt: Date.now(), signalId: signal.id, targetId });
+
+  SoundManager.tap();
+
+  // Update button to show tap recorded
+  hideTargets();
+  if (bidButton) {
+    resetButtonPosition();
+    bidButton.className = 'bid-button fastest-finger-tapped';
+    bidButton.innerHTML = '✓ TAPPED!';
+    bidButton.disabled = true;
+  }
+}
+
+function hideTargets(): void {
+  if (!targetField) return;
+  targetField.classList.remove('active');
+  targetField.innerHTML = '';
+  delete targetField.dataset.signalId;
+}
+
+function showTargets(signal: FastestFingerSignal): void {
+  if (!targetField || !signal.targets || targetField.dataset.signalId === signal.id) return;
+  targetField.dataset.signalId = signal.id;
+  targetField.innerHTML = `<div class="target-prompt">Tap the ${signal.prompt ?? ''}</div>`;
+  signal.targets.forEach((target) => {
+    const button = document.createElement('button');
+    button.className = 'ff-target';
+    button.textContent = target.symbol;
+    button.style.left = `${target.x * 100}%`;
+    button.style.top = `${target.y * 100}%`;
+    button.setAttribute('aria-label', `Target ${target.symbol}`);
+    button.addEventListener('click', () => {
+      if (!answeredSignals.has(signal.id)) answerSignal(signal, target.id);
+    });
+    targetField.appendChild(button);
+  });
+  targetField.classList.add('active');
+}
+
+// Render the active Fastest Finger signal on the bid button (or the target field)
+function renderSignal(view: FastestFingerView | undefined): void {
+  if (!bidButton) return;
+  const signal = view?.signal ?? null;
+  const isNewSignal = signal?.id !== currentSignal?.id;
+  currentSignal = signal;
+  if (view) currentVariant = view.variant;
+
+  if (signal?.kind === 'go' && isNewSignal) SoundManager.go();
+
+  if (signal?.kind === 'go' && !answeredSignals.has(signal.id)) {
+    if (signal.targets) {
+      resetButtonPosition();
+      bidButton.className = 'bid-button waiting';
+      bidButton.textContent = 'Find it!';
+      bidButton.disabled = true;
+      showTargets(signal);
+    } else if (currentVariant === 'go_no_go') {
+      resetButtonPosition();
+      bidButton.className = 'bid-button ff-go';
+      bidButton.innerHTML = '🟢<br>TAP!';
+      bidButton.disabled = false;
+    } else {
+      const attempt = view && view.attempts > 1 ? `<small class="ff-attempt">${signal.attempt}/${view.attempts}</small>` : '';
+      bidButton.className = 'bid-button fastest-finger-tap';
+      bidButton.innerHTML = `<span style="font-size:28px;line-height:50px;">⚡</span>${attempt}`;
+      bidButton.disabled = false;
+      // Randomize position AFTER class is set (so position:fixed is active)
+      if (isNewSignal) randomizeButtonPosition();
+    }
+    return;
+  }
+
+  hideTargets();
+  if (signal && answeredSignals.has(signal.id)) return; // Keep the "tapped" state
+  if (currentVariant === 'go_no_go' && hasFalseStarted) return; // Keep the false start state
+
+  resetButtonPosition();
+  if (signal?.kind === 'nogo') {
+    bidButton.className = 'bid-button ff-nogo';
+    bidButton.innerHTML = '🔴<br>DON\'T TAP';
+    bidButton.disabled = false;
+  } else {
+    // Between signals - only Go/No-Go punishes taps here
+    bidButton.className = 'bid-button ff-wait';
+    bidButton.innerHTML = currentVariant === 'go_no_go' ? 'WAIT FOR<br>GREEN' : 'GET<br>READY';
+    bidButton.disabled = currentVariant !== 'go_no_go';
+  }
+}
+
+// ==========================================
+// DUTCH AUCTION
+// ==========================================
+// The price falls until someone taps - one tap per player, the server
+// decides who was first.
+let currentDutch: DutchView | null = null;
+let hasDutchTapped = false;
+
+function renderDutch(): void {
+  if (!bidButton || !currentDutch) return;
+  const claim = currentDutch.claim;
+  if (claim) {
+    bidButton.className = 'bid-button disabled';
+    bidButton.innerHTML = claim.name === myName ? `🔨 YOURS!<br>at ${claim.price}` : `SOLD<br><small>${escapeHtml(claim.name)} at ${claim.price}</small>`;
+    bidButton.disabled = true;
+  } else if (hasDutchTapped) {
+    bidButton.className = 'bid-button disabled';
+    bidButton.innerHTML = '✋ TAPPED<br><small>Checking who was first...</small>';
+    bidButton.disabled = true;
+  } else {
+    bidButton.className = 'bid-button ready dutch';
+    if (!bidButton.querySelector('.dutch-price')) {
+      bidButton.innerHTML = '<span class="dutch-price"></span>CLAIM!';
+    }
+    const price = bidButton.querySelector('.dutch-price');
+    if (price) price.textContent = String(getDutchPrice(currentDutch));
+    bidButton.disabled = false;
+  }
+}
+
 function handleBid(e: MouseEvent | TouchEvent): void {
   if (!bidButton) return;
   
   // Double-check: button must be enabled AND in correct game state
-  if (bidButton.disabled) return;
+  if (bidButton.disabled || myTournament?.spectator || isPaused) return;
 
+  // Campaign budget used up - taps would be rejected
+  if (gameStatus === 'auction' && myBudget && myBudget.remaining <= 0) {
+    showBudgetExhausted();
+    return;
+  }
   // Click Auction phase - count clicks
-  if (gameStatus === 'auction') {
+  else if (gameStatus === 'auction') {
     myClicks++;
+    spendLocalBudget();
     socket.emit('click');
 
     SoundManager.tap();
@@ -318,16 +856,37 @@ function handleBid(e: MouseEvent | TouchEvent): void {
       setTimeout(() => counter.classList.remove('bump'), 50);
     }
   }
-  // Fastest Finger phase - record reaction time (only first tap counts)
-  else if (gameStatus === 'fastestFinger_tap' && !hasRecordedReaction) {
-    hasRecordedReaction = true;
+  // Tapping before the signal is a false start
+  else if (gameStatus === 'fastestFinger_countdown' && !hasFalseStarted) {
+    hasFalseStarted = true;
     socket.emit('click');
 
+    SoundManager.end();
+
+    bidButton.className = 'bid-button false-start';
+    bidButton.innerHTML = '🚫 TOO EARLY!';
+    bidButton.disabled = true;
+  }
+  // Dutch auction - one tap claims at the current price
+  else if (gameStatus === 'dutch' && currentDutch && !currentDutch.claim && !hasDutchTapped) {
+    hasDutchTapped = true;
+    socket.emit('click', { tapAt: Date.now() });
     SoundManager.tap();
+    renderDutch();
+  }
+  // Fastest Finger phase - answer the active signal (only first tap counts)
+  else if (gameStatus === 'fastestFinger_tap' && currentSignal?.kind === 'go' && !answeredSignals.has(currentSignal.id)) {
+    answerSignal(currentSignal);
+  }
+  // Go/No-Go: tapping a red decoy (or before green) is a false start
+  else if (gameStatus === 'fastestFinger_tap' && currentVariant === 'go_no_go' && !hasFalseStarted) {
+    hasFalseStarted = true;
+    socket.emit('click', { tapAt: Date.now(), signalId: currentSignal?.id });
 
-    // Update button to show tap recorded
-    bidButton.className = 'bid-button fastest-finger-tapped';
-    bidButton.innerHTML = '✓ TAPPED!';
+    SoundManager.end();
+
+    bidButton.className = 'bid-button false-start';
+    bidButton.innerHTML = '🚫 RED!';
     bidButton.disabled = true;
   } else {
     return; // Not in a clickable state
@@ -364,13 +923,81 @@ bidButton?.addEventListener('touchstart', (e: TouchEvent) => {
 });
 bidButton?.addEventListener('touchend', (e: TouchEvent) => e.preventDefault());
 
+// ==========================================
+// COUNTDOWN RENDERING
+// ==========================================
+// Timers count down to the server's endsAt deadline every frame rather than
+// jumping once per gameState broadcast.
+function renderCountdown(): void {
+  countdownFrame = null;
+  if (isPaused) return; // Timers stay frozen until the round resumes
+  const msLeft = getMsUntil(currentEndsAt);
+  const secondsLeft = Math.ceil(msLeft / 1000);
+
+  if (gameStatus === 'auction_countdown' || gameStatus === 'fastestFinger_countdown' || gameStatus === 'dutch_countdown') {
+    const value = bidButton?.querySelector('.countdown-value');
+    if (value) value.textContent = String(secondsLeft);
+    if (secondsLeft > 0 && lastCountdown !== secondsLeft) {
+      lastCountdown = secondsLeft;
+      SoundManager.countdownTick();
+    }
+  } else if (gameStatus === 'auction') {
+    // Show the final seconds (with tenths) so players see the deadline coming
+    const timer = bidButton?.querySelector('.auction-timer');
+    if (timer) timer.textContent = msLeft <= 3000 ? `${(msLeft / 1000).toFixed(1)}s` : '';
+  } else if (gameStatus === 'dutch') {
+    // Price ticks down locally between broadcasts
+    const price = bidButton?.querySelector('.dutch-price');
+    if (price && currentDutch) price.textContent = String(getDutchPrice(currentDutch));
+  } else {
+    return;
+  }
+
+  if (msLeft > 0) {
+    countdownFrame = requestAnimationFrame(renderCountdown);
+  }
+}
+
+function startCountdown(): void {
+  if (countdownFrame === null) {
+    countdownFrame = requestAnimationFrame(renderCountdown);
+  }
+}
+
 function updateUI(state: GameState): void {
   const previousStatus = gameStatus;
   gameStatus = state.status;
+  syncServerClock(state.serverNow);
+  currentEndsAt = state.endsAt ?? null;
+  currentDutch = state.dutch ?? null;
+  isPaused = !!state.paused;
+  if (previousStatus !== state.status) lastCountdown = null;
+
+  document.getElementById('pauseOverlay')?.classList.toggle('active', isPaused);
+
+  renderTeamPicker(state.teams ?? null);
+
+  // Campaign over or ended by the host - taps are unlimited again
+  if (!state.campaign && myBudget) {
+    myBudget = null;
+    renderBudget();
+  }
+
+  // Tournament over or ended by the host - everyone plays again
+  if (!state.tournament && myTournament) {
+    myTournament = null;
+    renderTournament();
+  }
+
+  // Clear false starts from a previous round
+  if (state.status === 'waiting' || (state.status === 'fastestFinger_countdown' && previousStatus !== state.status)) {
+    hasFalseStarted = false;
+    document.getElementById('falseStartNotice')?.classList.remove('active');
+  }
 
   const bg = document.getElementById('bg');
   if (bg) {
-    const isBiddingPhase = state.status === 'auction' || state.status === 'fastestFinger_tap';
+    const isBiddingPhase = state.status === 'auction' || state.status === 'fastestFinger_tap' || state.status === 'dutch';
     bg.className = 'bg' + (isBiddingPhase ? ' bidding' : '');
   }
 
@@ -383,6 +1010,8 @@ function updateUI(state: GameState): void {
       auction: 'CLICK AUCTION',
       fastestFinger_countdown: 'FASTEST FINGER',
       fastestFinger_tap: 'TAP NOW!',
+      dutch_countdown: 'DUTCH AUCTION',
+      dutch: 'PRICE FALLING',
       finished: 'Finished',
     };
     badge.textContent = statusLabels[state.status] || state.status;
@@ -420,26 +1049,23 @@ function updateUI(state: GameState): void {
   if (state.status === 'fastestFinger_tap' && stageOverlay) {
     stageOverlay.classList.remove('active');
   }
+  if (state.status !== 'fastestFinger_tap') {
+    currentSignal = null;
+    hideTargets();
+  }
 
-  // Play sounds for state changes
-  if (state.status === 'auction_countdown') {
-    if (lastCountdown !== state.timeRemaining) {
-      lastCountdown = state.timeRemaining;
-      SoundManager.countdownTick();
-    }
-  } else if (state.status === 'fastestFinger_countdown') {
-    if (lastCountdown !== state.timeRemaining) {
-      lastCountdown = state.timeRemaining;
-      SoundManager.countdownTick();
-    }
-  } else if (state.status === 'auction') {
+  // Play sounds for state changes (countdown ticks play in renderCountdown)
+  if (state.status === 'auction') {
     if (previousStatus !== 'auction') {
       SoundManager.go();
     }
+  } else if (state.status === 'dutch') {
+    if (previousStatus !== 'dutch') {
+      SoundManager.go();
+    }
   } else if (state.status === 'fastestFinger_tap') {
     if (previousStatus !== 'fastestFinger_tap') {
-      SoundManager.go();
-      hasRecordedReaction = false; // Reset for new Fastest Finger round
+      answeredSignals.clear(); // Reset for new Fastest Finger round
       // Hide stage overlay if still visible
       if (stageOverlay) stageOverlay.classList.remove('active');
     }
@@ -460,43 +1086,51 @@ function updateUI(state: GameState): void {
 
   // Update bid button
   if (bidButton) {
-    if (state.status === 'waiting') {
+    if (myTournament?.spectator && state.status !== 'finished') {
+      showSpectating();
+    } else if (state.status === 'waiting') {
       bidButton.className = 'bid-button waiting';
       bidButton.textContent = 'Waiting...';
       bidButton.disabled = true;
-      hasRecordedReaction = false;
+      answeredSignals.clear();
       resetButtonPosition(); // Reset for new game
     } else if (state.status === 'auction_countdown') {
       resetButtonPosition(); // Ensure normal position for countdown
       bidButton.className = 'bid-button auction-countdown';
-      bidButton.innerHTML = `<span style="font-size: 3rem;">${state.timeRemaining}</span><br>CLICK AUCTION`;
+      bidButton.innerHTML = `<span class="countdown-value" style="font-size: 3rem;">${state.timeRemaining}</span><br>CLICK AUCTION`;
       bidButton.disabled = true;
       myClicks = 0;
       myAuctionTaps = 0;
-      hasRecordedReaction = false;
+      answeredSignals.clear();
       const counter = document.getElementById('clickCounter');
       if (counter) counter.textContent = '0';
+    } else if (state.status === 'auction' && myBudget && myBudget.remaining <= 0) {
+      showBudgetExhausted();
     } else if (state.status === 'auction') {
       bidButton.className = 'bid-button ready';
-      bidButton.innerHTML =
-        state.timeRemaining <= 3
-          ? `<span style="font-size: 2rem; color: #ff3366;">${state.timeRemaining}s</span><br>TAP!`
-          : 'TAP!';
+      if (!bidButton.querySelector('.auction-timer')) {
+        bidButton.innerHTML = '<span class="auction-timer" style="display: block; font-size: 2rem; color: #ff3366;"></span>TAP!';
+      }
       bidButton.disabled = false;
     } else if (state.status === 'fastestFinger_countdown') {
-      bidButton.className = 'bid-button fastest-finger-countdown';
-      bidButton.innerHTML = `<span style="font-size: 3rem;">${state.timeRemaining}</span><br>FASTEST<br>FINGER`;
-      bidButton.disabled = true;
-    } else if (state.status === 'fastestFinger_tap') {
-      if (!hasRecordedReaction) {
-        bidButton.className = 'bid-button fastest-finger-tap';
-        bidButton.innerHTML = '<span style="font-size:28px;line-height:50px;">⚡</span>';
+      // Stays tappable so early taps register as false starts
+      if (!hasFalseStarted) {
+        bidButton.className = 'bid-button fastest-finger-countdown';
+        const variant = state.fastestFinger;
+        const instructions = variant && variant.variant !== 'classic' ? `<br><small class="ff-instructions">${variant.instructions}</small>` : '';
+        bidButton.innerHTML = `<span class="countdown-value" style="font-size: 3rem;">${state.timeRemaining}</span><br>FASTEST<br>FINGER${instructions}`;
         bidButton.disabled = false;
-        // Randomize position AFTER class is set (so position:fixed is active)
-        if (previousStatus !== 'fastestFinger_tap') {
-          randomizeButtonPosition();
-        }
       }
+    } else if (state.status === 'fastestFinger_tap') {
+      renderSignal(state.fastestFinger);
+    } else if (state.status === 'dutch_countdown') {
+      resetButtonPosition();
+      bidButton.className = 'bid-button auction-countdown';
+      bidButton.innerHTML = `<span class="countdown-value" style="font-size: 3rem;">${state.timeRemaining}</span><br>DUTCH AUCTION<br><small>Tap once - the price only goes down</small>`;
+      bidButton.disabled = true;
+      hasDutchTapped = false;
+    } else if (state.status === 'dutch') {
+      renderDutch();
     } else if (state.status === 'finished') {
       bidButton.className = 'bid-button disabled';
       bidButton.textContent = 'Done';
@@ -517,15 +1151,17 @@ function updateUI(state: GameState): void {
   // Show results overlay
   const overlay = document.getElementById('winnerOverlay');
   if (state.status === 'finished' && overlay) {
-    if (state.winner) {
-      const isWinner = state.winner.name === myName;
+    const winner = state.winners?.[0];
+    if (winner) {
+      const myAward = state.winners.find((w) => w.name === myName);
+      const isWinner = myAward?.slot === 0;
       const myRankIndex = state.leaderboard.findIndex((p) => p.name === myName);
       const myRank = myRankIndex + 1;
       const totalPlayers = state.leaderboard.length;
 
-      overlay.className = 'winner-overlay active' + (isWinner ? ' you-won' : '');
+      overlay.className = 'winner-overlay active' + (myAward ? ' you-won' : '');
 
-      if (isWinner) {
+      if (myAward) {
         SoundManager.winner();
       } else {
         SoundManager.end();
@@ -539,6 +1175,10 @@ function updateUI(state: GameState): void {
         if (trophy) trophy.textContent = '🏆';
         if (title) title.textContent = 'YOU WON!';
         if (yourResult) yourResult.style.display = 'none';
+      } else if (myAward) {
+        if (trophy) trophy.textContent = '🖼️';
+        if (title) title.textContent = `You won the ${myAward.slotLabel}!`;
+        if (yourResult) yourResult.style.display = 'block';
       } else if (myRank === 2) {
         if (trophy) trophy.textContent = '🥈';
         if (title) title.textContent = '2nd Place!';
@@ -564,8 +1204,8 @@ function updateUI(state: GameState): void {
       const myEntry = state.leaderboard.find((p) => p.name === myName);
       const myFinalScore = myEntry?.finalScore ?? myClicks;
       const myReactionTime = myEntry?.reactionTime;
-      const winnerFinalScore = state.winner.finalScore ?? state.winner.clicks;
-      const winnerReactionTime = state.winner.reactionTime;
+      const winnerFinalScore = winner.finalScore ?? winner.clicks;
+      const winnerReactionTime = winner.reactionTime;
 
       // Calculate multiplier based on rank
       const getMultiplier = (rank: number, reactionTime: number | null | undefined): number => {
@@ -576,9 +1216,32 @@ function updateUI(state: GameState): void {
         return 1.0;
       };
 
-      const myMultiplier = getMultiplier(myRank, myReactionTime);
+      const myMultiplier = myEntry?.multiplier ?? getMultiplier(myRank, myReactionTime);
+      const falseStartLine = myEntry?.falseStart ? '<div class="false-start">🚫 False start penalty</div>' : '';
+
+      // What a won slot costs under the room's clearing rule
+      const beat = isWinner && state.clearing?.beatBid != null ? ` (beat ${state.clearing.beatBid})` : '';
+      const clearingLine = myAward ? `<div class="clearing">💰 You pay ${myAward.clearingPrice}${beat}</div>` : '';
+
+      // Where my team finished
+      const teamStandings = state.teams?.standings.filter((team) => team.members > 0) ?? [];
+      const teamIndex = myTeam ? teamStandings.findIndex((team) => team.id === myTeam?.id) : -1;
+      const teamLine = teamIndex >= 0
+        ? `<div class="team-result" style="color: ${myTeam?.color}">🤝 ${escapeHtml(teamStandings[teamIndex].name)}: #${teamIndex + 1} of ${teamStandings.length} • ${teamStandings[teamIndex].finalScore} pts</div>`
+        : '';
+
+      // Whether this round knocked me out of the tournament
+      const tournamentRound = state.tournament?.rounds.length ?? 0;
+      let tournamentLine = '';
+      if (myTournament?.isChampion) {
+        tournamentLine = '<div class="tournament-result">👑 Tournament champion!</div>';
+      } else if (myTournament && myTournament.knockedOutRound === tournamentRound && tournamentRound > 0) {
+        tournamentLine = '<div class="tournament-result out">❌ Knocked out of the tournament</div>';
+      } else if (myTournament && !myTournament.spectator && !myTournament.champion) {
+        tournamentLine = `<div class="tournament-result">🏟️ Through to the next round (${myTournament.aliveCount} left)</div>`;
+      }
 
-      if (winnerNameBig) winnerNameBig.textContent = state.winner.name + ' wins!';
+      if (winnerNameBig) winnerNameBig.textContent = winner.name + ' wins!';
       
       // Show winner score with reaction time
       if (winnerClicksBig) {
@@ -593,20 +1256,30 @@ function updateUI(state: GameState): void {
           scoreBreakdown.innerHTML = `
             <div><span class="reaction">${myReactionTime}ms</span> reaction</div>
             <div>${auctionTaps} taps × <span class="multiplier">${myMultiplier}x</span></div>
+            ${falseStartLine}
+            ${clearingLine}
+            ${teamLine}
+            ${tournamentLine}
           `;
         } else {
           scoreBreakdown.innerHTML = `
             <div>No tap recorded</div>
             <div>${auctionTaps} taps × <span class="multiplier">1x</span></div>
+            ${falseStartLine}
+            ${clearingLine}
+            ${teamLine}
+            ${tournamentLine}
           `;
         }
       } else if (scoreBreakdown) {
-        // Winner's breakdown
-        if (myReactionTime != null) {
-          scoreBreakdown.innerHTML = `
+        // Winner's breakdown, plus what the win costs
+        scoreBreakdown.innerHTML = myReactionTime != null ? `
             <div><span class="reaction">${myReactionTime}ms</span> • <span class="multiplier">${myMultiplier}x multiplier</span></div>
-          `;
-        }
+            ${falseStartLine}
+            ${clearingLine}
+            ${teamLine}
+            ${tournamentLine}
+          ` : clearingLine + teamLine + tournamentLine;
         scoreBreakdown.style.display = 'block';
       }
       
@@ -616,19 +1289,83 @@ function updateUI(state: GameState): void {
     }
   } else if (overlay) {
     overlay.className = 'winner-overlay';
+    const ratingChange = document.getElementById('ratingChange');
+    if (ratingChange) ratingChange.textContent = '';
   }
+
+  startCountdown();
 }
 
 socket.on('gameState', updateUI);
 
+// Our skill rating after the round (sent just before the results)
+socket.on('ratingUpdate', (data: { rating: number; delta: number }) => {
+  const ratingChange = document.getElementById('ratingChange');
+  if (!ratingChange) return;
+  const sign = data.delta > 0 ? '+' : '';
+  ratingChange.textContent = `📈 Rating ${data.rating} (${sign}${data.delta})`;
+  ratingChange.className = `rating-change ${data.delta < 0 ? 'down' : 'up'}`;
+});
+
+// Server confirms a false start and which penalty applies
+function describeFalseStartPenalty(info: FalseStartInfo): string {
+  if (info.penalty === 'add_time') return `+${info.timePenaltyMs}ms added to your reaction`;
+  if (info.penalty === 'deduct_score') return `-${info.scoreDeductionPercent}% off your final score`;
+  return 'No Fastest Finger multiplier this round';
+}
+
+socket.on('falseStart', (data: FalseStartInfo) => {
+  const notice = document.getElementById('falseStartNotice');
+  if (notice) {
+    notice.textContent = `🚫 False start! ${describeFalseStartPenalty(data)}`;
+    notice.classList.add('active');
+  }
+});
+
+// Picked the wrong Fastest Finger target - no reaction time this round
+socket.on('wrongTarget', () => {
+  const notice = document.getElementById('falseStartNotice');
+  if (notice) {
+    notice.textContent = '❌ Wrong target! No Fastest Finger multiplier this round';
+    notice.classList.add('active');
+  }
+});
+
 // Server confirms our click count (authoritative sync)
-socket.on('clickConfirm', (data: { clicks: number }) => {
+socket.on('dutchTapReceived', () => {
+  hasDutchTapped = true;
+  renderDutch();
+});
+
+socket.on('clickConfirm', (data: { clicks: number; budget?: number }) => {
   // Server's count is authoritative - sync if different
   if (myClicks !== data.clicks) {
     myClicks = data.clicks;
     const counter = document.getElementById('clickCounter');
     if (counter) counter.textContent = String(myClicks);
   }
+  if (myBudget && data.budget !== undefined && myBudget.remaining !== data.budget) {
+    myBudget.remaining = data.budget;
+    myBudget.spent = myBudget.total - data.budget;
+    renderBudget();
+  }
+});
+
+// Unknown join code - let the player correct it on the join form
+socket.on('roomError', (data: { message: string }) => {
+  const joinBtn = document.getElementById('joinBtn') as HTMLButtonElement | null;
+  if (joinBtn) {
+    joinBtn.disabled = false;
+    joinBtn.textContent = 'Enter the Arena';
+  }
+
+  const roomCodeHint = document.getElementById('roomCodeHint');
+  if (roomCodeHint) {
+    roomCodeHint.textContent = data.message || 'Room not found';
+    roomCodeHint.classList.add('error');
+  }
+  roomCodeInput?.classList.add('error');
+  Logger.warn('Room error:', data.message);
 });
 
 socket.on('joinError', (data: { message: string }) => {
@@ -2,6 +2,8 @@
  * Utility functions - Shared across pages
  */
 
+import { Socket } from 'socket.io-client';
+
 /**
  * Escape HTML to prevent XSS
  */
@@ -12,7 +14,107 @@ export function escapeHtml(text: string): string {
   return div.innerHTML;
 }
 
+/**
+ * Room join code from the page URL (?room=CODE), or null for the default room
+ */
+export function getRoomCode(): string | null {
+  const code = new URLSearchParams(window.location.search).get('room');
+  return code ? code.trim().toUpperCase() : null;
+}
+
+/**
+ * Socket.io handshake query that binds the connection to the page's room
+ */
+export function getRoomQuery(): Record<string, string> {
+  const code = getRoomCode();
+  return code ? { room: code } : {};
+}
+
+// Server clock minus this device's clock
+let serverClockOffsetMs = 0;
+// Once the server has measured our offset (clock sync), gameState's serverNow is ignored
+let hasMeasuredOffset = false;
+
+/**
+ * Track the server clock from a gameState's serverNow timestamp
+ */
+export function syncServerClock(serverNow: number | undefined): void {
+  if (typeof serverNow === 'number' && !hasMeasuredOffset) {
+    serverClockOffsetMs = serverNow - Date.now();
+  }
+}
+
+/**
+ * Answer the server's clock-sync pings and adopt its latency-corrected offset
+ */
+export function enableClockSync(socket: Socket): void {
+  socket.on('clockPing', (data: { serverSentAt: number }) => {
+    socket.emit('clockPong', { serverSentAt: data.serverSentAt, clientTime: Date.now() });
+  });
+  socket.on('clockEstimate', (data: { offsetMs: number }) => {
+    // Server reports our clock minus its clock
+    serverClockOffsetMs = -data.offsetMs;
+    hasMeasuredOffset = true;
+  });
+}
+
+/**
+ * Milliseconds left until a server deadline (endsAt), corrected for clock skew
+ */
+export function getMsUntil(endsAt: number | null | undefined): number {
+  if (typeof endsAt !== 'number') return 0;
+  return Math.max(0, endsAt - (Date.now() + serverClockOffsetMs));
+}
+
+/**
+ * Milliseconds since a server timestamp, corrected for clock skew
+ */
+export function getMsSince(startedAt: number | null | undefined): number {
+  if (typeof startedAt !== 'number') return 0;
+  return Math.max(0, Date.now() + serverClockOffsetMs - startedAt);
+}
+
+/**
+ * Current Dutch auction price - mirrors the server's step-by-step descent
+ */
+export function getDutchPrice(auction: { ceiling: number; floor: number; startedAt: number; durationMs: number; stepMs: number }): number {
+  const steps = Math.max(1, Math.ceil(auction.durationMs / auction.stepMs));
+  const step = Math.min(steps, Math.floor(getMsSince(auction.startedAt) / auction.stepMs));
+  return Math.round(auction.ceiling - (auction.ceiling - auction.floor) * (step / steps));
+}
+
+export interface AdCreative {
+  headline: string;
+  tagline: string;
+  template: string;
+  logo: string | null;
+}
+
+/**
+ * Billboard markup for an ad creative - each template lays it out its own way (common.css)
+ */
+export function renderAdCreative(creative: AdCreative): string {
+  const template = /^[a-z]+$/.test(creative.template) ? creative.template : 'neon';
+  return `
+    <div class="ad-creative ad-template-${template}">
+      ${creative.logo ? `<div class="ad-logo">${escapeHtml(creative.logo)}</div>` : ''}
+      <div class="ad-copy">
+        <div class="ad-headline">${escapeHtml(creative.headline)}</div>
+        ${creative.tagline ? `<div class="ad-tagline">${escapeHtml(creative.tagline)}</div>` : ''}
+      </div>
+    </div>
+  `;
+}
+
 export const Utils = {
   escapeHtml,
+  getRoomCode,
+  getRoomQuery,
+  syncServerClock,
+  enableClockSync,
+  getMsUntil,
+  getMsSince,
+  getDutchPrice,
+  renderAdCreative,
 };
 
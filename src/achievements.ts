@@ -0,0 +1,153 @@
+// ============================================
+// ACHIEVEMENTS (Badges)
+// ============================================
+// When a round's results are in, each player's round is checked against the
+// achievement rules - first win, a reaction under 200ms, 100 taps in a
+// round, and so on. Rules are data: conditions on a handful of per-player
+// metrics, all of which must hold. The defaults live in config, and an
+// event can add its own from a JSON file (ACHIEVEMENTS_FILE) without code
+// changes. Unlocks are kept by player id; each one pops up on the player's
+// phone, is announced to the hosts and is listed on the player's profile.
+
+import fs from 'fs';
+import config from './config';
+import * as persistence from './persistence';
+import * as validation from './validation';
+import Logger from './logger';
+import type { PlayerAchievements } from './persistence';
+import { AchievementCondition, AchievementMetric, AchievementRule, LeaderboardEntry, Room } from './types';
+
+export interface UnlockedAchievement {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  unlockedAt: string; // ISO timestamp
+}
+
+export interface AchievementUnlock {
+  socketId: string;
+  playerId: string;
+  name: string;
+  achievement: UnlockedAchievement;
+}
+
+type RoundMetrics = Record<AchievementMetric, number | null>; // null = doesn't apply this round
+
+const rules: AchievementRule[] = [...config.ACHIEVEMENTS];
+
+/**
+ * Every achievement players can unlock, defaults first
+ */
+export function getAchievementRules(): AchievementRule[] {
+  return rules;
+}
+
+/**
+ * Add event-specific rules. Invalid rules and ids already taken are
+ * skipped; returns how many were added.
+ */
+export function addAchievementRules(extra: unknown): number {
+  if (!Array.isArray(extra)) return 0;
+  let added = 0;
+  extra.forEach((candidate) => {
+    const rule = validation.validateAchievementRule(candidate);
+    if (!rule || rules.some((existing) => existing.id === rule.id)) {
+      Logger.warn('⚠️ Skipped achievement rule:', JSON.stringify(candidate)?.slice(0, 100));
+      return;
+    }
+    rules.push(rule);
+    added++;
+  });
+  return added;
+}
+
+/**
+ * Add the rules from the event's ACHIEVEMENTS_FILE, if one is set
+ */
+export function loadEventAchievements(file: string | null = config.ACHIEVEMENTS_FILE): number {
+  if (!file) return 0;
+  try {
+    const added = addAchievementRules(JSON.parse(fs.readFileSync(file, 'utf8')));
+    Logger.info(`🏅 Loaded ${added} event achievements from ${file}`);
+    return added;
+  } catch (err) {
+    Logger.error('❌ Error loading event achievements:', (err as Error).message);
+    return 0;
+  }
+}
+
+function toUnlocked(rule: AchievementRule, unlockedAt: string): UnlockedAchievement {
+  return { id: rule.id, name: rule.name, icon: rule.icon, description: rule.description, unlockedAt };
+}
+
+// The round is already in the player's stats, win streak included
+function roundMetrics(entry: LeaderboardEntry, rank: number, playerId: string, won: boolean, previous: PlayerAchievements | null): RoundMetrics {
+  const stats = persistence.getStats()[playerId];
+  return {
+    won: won ? 1 : 0,
+    taps: entry.auctionScore ?? entry.clicks,
+    reactionTime: entry.falseStart ? null : entry.reactionTime,
+    finalScore: entry.finalScore,
+    rank,
+    wins: stats?.wins ?? 0,
+    roundsPlayed: stats?.roundsPlayed ?? 0,
+    winStreak: stats?.winStreak ?? 0,
+    wasLast: previous?.wasLast ? 1 : 0,
+  };
+}
+
+function holds(condition: AchievementCondition, metrics: RoundMetrics): boolean {
+  const value = metrics[condition.metric];
+  if (value === null) return false;
+  return (condition.min === undefined || value >= condition.min) && (condition.max === undefined || value <= condition.max);
+}
+
+/**
+ * Check each player's round against the rules and keep what they unlocked.
+ * Called once the round's all-time stats are recorded; `playerIds` are the
+ * leaderboard's player ids, in the same order.
+ */
+export function recordAchievements(room: Room, leaderboard: LeaderboardEntry[], playerIds: string[], now: number = Date.now()): AchievementUnlock[] {
+  const premiumId = room.gameState.winners[0]?.id ?? null;
+  const unlockedAt = new Date(now).toISOString();
+  const unlocks: AchievementUnlock[] = [];
+
+  leaderboard.forEach((entry, i) => {
+    const playerId = playerIds[i];
+    const previous = persistence.getPlayerAchievements(playerId);
+    const metrics = roundMetrics(entry, i + 1, playerId, entry.id === premiumId, previous);
+    const record: PlayerAchievements = {
+      unlocked: { ...previous?.unlocked },
+      wasLast: leaderboard.length > 1 && i === leaderboard.length - 1,
+    };
+
+    rules.forEach((rule) => {
+      if (record.unlocked[rule.id] || !rule.when.every((condition) => holds(condition, metrics))) return;
+      record.unlocked[rule.id] = unlockedAt;
+      unlocks.push({ socketId: entry.id, playerId, name: entry.name, achievement: toUnlocked(rule, unlockedAt) });
+    });
+    persistence.setPlayerAchievements(playerId, record);
+  });
+  return unlocks;
+}
+
+/**
+ * Everything a player has unlocked, oldest first - with what the identities
+ * merged into theirs unlocked. Rules no longer loaded keep their id as name.
+ */
+export function getUnlockedAchievements(playerId: string): UnlockedAchievement[] {
+  const shownAs = persistence.resolvePlayerId(playerId);
+  const unlocked: Record<string, string> = {};
+  Object.keys(persistence.getPlayerIdentities())
+    .filter((id) => persistence.resolvePlayerId(id) === shownAs)
+    .forEach((id) => {
+      Object.entries(persistence.getPlayerAchievements(id)?.unlocked ?? {}).forEach(([ruleId, at]) => {
+        if (!unlocked[ruleId] || at < unlocked[ruleId]) unlocked[ruleId] = at;
+      });
+    });
+
+  return Object.entries(unlocked)
+    .map(([ruleId, at]) => toUnlocked(rules.find((rule) => rule.id === ruleId) ?? { id: ruleId, name: ruleId, icon: '🏅', description: '', when: [] }, at))
+    .sort((a, b) => a.unlockedAt.localeCompare(b.unlockedAt));
+}
@@ -0,0 +1,238 @@
+// ============================================
+// LOBBY AD ROTATION (Past Winners' Creatives)
+// ============================================
+// While a room waits for its next round, its displays rotate through the
+// creatives that won the room's earlier rounds, newest first, each staying
+// up for the room's dwell time. The rotation only runs while a display is
+// registered. Every ad that goes up counts an impression per display and
+// its time on screen, which add up to each player's ad report - the airtime
+// their wins earned.
+
+import crypto from 'crypto';
+import config from './config';
+import * as persistence from './persistence';
+import Logger from './logger';
+import { emitToRoom } from './game';
+import { plainCreative } from './moderation';
+import { WAITING_STATUS } from './phases';
+import { isReplayPlaying } from './replay';
+import { getRoom } from './rooms';
+import { scheduleAt } from './scheduler';
+import { AdCreative, Room, ScheduledTask } from './types';
+
+export interface AdInventoryItem {
+  key: string; // Same player and creative, same key
+  playerId: string | null; // Player id of the winner (null for rounds from before player ids)
+  name: string;
+  color: string;
+  creative: AdCreative;
+  round: number; // Latest round the creative won
+  slotLabel: string;
+}
+
+export interface RotatingAd extends AdInventoryItem {
+  dwellMs: number;
+  endsAt: number; // Server timestamp (ms) when the next ad goes up
+}
+
+export interface AdReport {
+  playerId: string;
+  name: string;
+  wins: number; // Premium slots won
+  impressions: number;
+  airtimeSeconds: number;
+  creatives: {
+    creative: AdCreative;
+    impressions: number;
+    airtimeSeconds: number;
+    firstShown: string;
+    lastShown: string;
+  }[]; // Most airtime first
+}
+
+interface Rotation {
+  next: number; // Inventory position of the next ad
+  showing: {
+    item: AdInventoryItem;
+    endsAt: number;
+    viewers: Record<string, number>; // When each display started showing the ad, by socket id
+    task: ScheduledTask;
+  } | null;
+}
+
+const rotations: Record<string, Rotation> = {}; // By room code
+
+function creativeKey(owner: string, creative: AdCreative): string {
+  return crypto.createHash('sha256').update(JSON.stringify([owner, creative])).digest('hex').slice(0, 16);
+}
+
+function saveImpressions(): void {
+  persistence.saveAdImpressions().catch((err) => {
+    Logger.error('Failed to save ad impressions:', err);
+  });
+}
+
+/**
+ * The room's past winning creatives, newest first. Each goes by the host's
+ * current decision on it, so one rejected after its round drops out and one
+ * approved later comes in. House ads and repeats are left out.
+ */
+export function getAdInventory(roomCode: string, limit: number = config.MAX_AD_INVENTORY): AdInventoryItem[] {
+  const inventory: AdInventoryItem[] = [];
+  const seen = new Set<string>();
+  const reviews = getRoom(roomCode)?.creativeReviews ?? {};
+  for (const record of persistence.getRounds()) {
+    if (record.roomCode !== roomCode) continue;
+    for (const award of record.winners) {
+      const playerId = record.finalLeaderboard.find((entry) => entry.id === award.id)?.identityId ?? null;
+      const shownHouseAd = award.adContent === config.HOUSE_AD;
+      let creative = award.creative ?? plainCreative(award.adContent);
+      const review = playerId ? reviews[playerId] : undefined;
+      if (review && (shownHouseAd || JSON.stringify(review.creative) === JSON.stringify(creative))) {
+        if (!review.approved) continue;
+        creative = review.creative;
+      } else if (shownHouseAd) {
+        continue;
+      }
+      const key = creativeKey(playerId ?? `name:${award.name}`, creative);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      inventory.push({ key, playerId, name: award.name, color: award.color, creative, round: record.round, slotLabel: award.slotLabel });
+      if (inventory.length >= limit) return inventory;
+    }
+  }
+  return inventory;
+}
+
+// Credit a display's time on screen to the ad it was showing
+function creditViewer(rotation: Rotation, socketId: string, now: number): void {
+  const showing = rotation.showing;
+  if (!showing || showing.viewers[socketId] === undefined) return;
+  persistence.addAdAirtime(showing.item.key, Math.max(0, now - showing.viewers[socketId]));
+  delete showing.viewers[socketId];
+}
+
+// Take the current ad down, crediting its airtime
+function endSlot(rotation: Rotation, now: number): void {
+  if (!rotation.showing) return;
+  rotation.showing.task.cancel();
+  Object.keys(rotation.showing.viewers).forEach((socketId) => creditViewer(rotation, socketId, now));
+  rotation.showing = null;
+}
+
+// Put the next ad in the inventory up on the room's displays
+function showNextAd(room: Room, now: number): void {
+  const rotation = rotations[room.code] ?? (rotations[room.code] = { next: 0, showing: null });
+  const wasShowing = !!rotation.showing;
+  endSlot(rotation, now);
+
+  const inventory = getAdInventory(room.code);
+  if (inventory.length === 0) {
+    if (wasShowing) {
+      emitToRoom(room, 'adRotation', null);
+      saveImpressions();
+    }
+    return;
+  }
+
+  const item = inventory[rotation.next % inventory.length];
+  rotation.next = (rotation.next % inventory.length) + 1;
+  const endsAt = now + room.gameState.adDwellSeconds * 1000;
+  rotation.showing = {
+    item,
+    endsAt,
+    viewers: Object.fromEntries([...room.displaySocketIds].map((socketId) => [socketId, now])),
+    task: scheduleAt(endsAt, () => showNextAd(room, Date.now())),
+  };
+  persistence.recordAdImpressions({ key: item.key, playerId: item.playerId, name: item.name, creative: item.creative }, room.displaySocketIds.size, now);
+  emitToRoom(room, 'adRotation', getRotatingAd(room));
+  saveImpressions();
+}
+
+/**
+ * The ad the room's displays are rotating right now (null when the rotation is stopped)
+ */
+export function getRotatingAd(room: Room): RotatingAd | null {
+  const showing = rotations[room.code]?.showing;
+  if (!showing) return null;
+  return { ...showing.item, dwellMs: room.gameState.adDwellSeconds * 1000, endsAt: showing.endsAt };
+}
+
+/**
+ * Take the room's rotating ad down (displays go back to the lobby)
+ */
+export function stopAdRotation(room: Room, now: number = Date.now()): boolean {
+  const rotation = rotations[room.code];
+  if (!rotation?.showing) return false;
+  endSlot(rotation, now);
+  emitToRoom(room, 'adRotation', null);
+  saveImpressions();
+  return true;
+}
+
+/**
+ * Start or stop the rotation to match the room: it runs while the room
+ * waits for a round with a display watching and no replay on screen
+ */
+export function syncAdRotation(room: Room, now: number = Date.now()): void {
+  if (getRoom(room.code) !== room) return; // A replay's rebuilt room
+  const running = !!rotations[room.code]?.showing;
+  const shouldRun = room.gameState.status === WAITING_STATUS && room.displaySocketIds.size > 0 && !isReplayPlaying(room);
+  if (running && !shouldRun) {
+    stopAdRotation(room, now);
+  } else if (!running && shouldRun) {
+    showNextAd(room, now);
+  }
+}
+
+/**
+ * A display starts watching the room (it is counted from the ad on screen)
+ */
+export function addAdDisplay(room: Room, socketId: string, now: number = Date.now()): void {
+  if (room.displaySocketIds.has(socketId)) return;
+  room.displaySocketIds.add(socketId);
+  const showing = rotations[room.code]?.showing;
+  if (showing) {
+    showing.viewers[socketId] = now;
+    persistence.recordAdImpressions({ key: showing.item.key, playerId: showing.item.playerId, name: showing.item.name, creative: showing.item.creative }, 1, now);
+  }
+  syncAdRotation(room, now);
+}
+
+/**
+ * A display stops watching the room
+ */
+export function removeAdDisplay(room: Room, socketId: string, now: number = Date.now()): void {
+  if (!room.displaySocketIds.delete(socketId)) return;
+  const rotation = rotations[room.code];
+  if (rotation) creditViewer(rotation, socketId, now);
+  syncAdRotation(room, now);
+}
+
+/**
+ * How much airtime a player's winning ads earned in the lobby rotations,
+ * counting identities merged into theirs (null for unknown players)
+ */
+export function getAdReport(playerId: string): AdReport | null {
+  if (!persistence.getPlayerIdentity(playerId)) return null;
+  const shownAs = persistence.resolvePlayerId(playerId);
+  const delivered = persistence.getAdImpressions()
+    .filter((stats) => stats.playerId !== null && persistence.resolvePlayerId(stats.playerId) === shownAs)
+    .sort((a, b) => b.airtimeMs - a.airtimeMs);
+  const airtimeMs = delivered.reduce((sum, stats) => sum + stats.airtimeMs, 0);
+
+  return {
+    playerId: shownAs,
+    name: persistence.getPlayerIdentity(shownAs)?.name ?? '',
+    wins: persistence.getAllTimeLeaderboard().find((entry) => entry.id === shownAs)?.wins ?? 0,
+    impressions: delivered.reduce((sum, stats) => sum + stats.impressions, 0),
+    airtimeSeconds: Math.round(airtimeMs / 1000),
+    creatives: delivered.map((stats) => ({
+      creative: stats.creative,
+      impressions: stats.impressions,
+      airtimeSeconds: Math.round(stats.airtimeMs / 1000),
+      firstShown: stats.firstShown,
+      lastShown: stats.lastShown,
+    })),
+  };
+}
@@ -15,12 +15,13 @@ interface SuspiciousResult {
 const clickIntervals: Record<string, number[]> = {};
 const lastClickTime: Record<string, number> = {};
 
+// Intervals kept per player for analysis
+const MAX_INTERVALS = 50;
+
 /**
  * Record a click interval for analysis
  */
-export function recordClickInterval(socketId: string): void {
-  const now = Date.now();
-
+export function recordClickInterval(socketId: string, now: number = Date.now()): void {
   if (lastClickTime[socketId]) {
     const interval = now - lastClickTime[socketId];
 
@@ -28,9 +29,8 @@ export function recordClickInterval(socketId: string): void {
       clickIntervals[socketId] = [];
     }
 
-    // Keep last 50 intervals for analysis
     clickIntervals[socketId].push(interval);
-    if (clickIntervals[socketId].length > 50) {
+    if (clickIntervals[socketId].length > MAX_INTERVALS) {
       clickIntervals[socketId].shift();
     }
   }
@@ -60,8 +60,20 @@ export function calculateCV(intervals: number[]): number | null {
  * Check if a player's click pattern is suspicious
  */
 export function isSuspiciousClicker(socketId: string): SuspiciousResult {
-  const intervals = clickIntervals[socketId];
-  if (!intervals || intervals.length < config.MIN_CLICKS_FOR_ANALYSIS) {
+  return judgeIntervals(clickIntervals[socketId] || []);
+}
+
+/**
+ * Judge a click pattern from the times of the clicks (the round replay
+ * rebuilds bot detection from its event log this way)
+ */
+export function judgeClickTimes(times: number[]): SuspiciousResult {
+  const intervals = times.slice(1).map((time, i) => time - times[i]);
+  return judgeIntervals(intervals.slice(-MAX_INTERVALS));
+}
+
+function judgeIntervals(intervals: number[]): SuspiciousResult {
+  if (intervals.length < config.MIN_CLICKS_FOR_ANALYSIS) {
     return { suspicious: false, reason: null, cv: null };
   }
 
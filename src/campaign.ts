@@ -0,0 +1,157 @@
+// ============================================
+// CAMPAIGN MODE (Budgeted Multi-Round Play)
+// ============================================
+// A campaign is a series of rounds where each DSP has one tap budget for the
+// whole series. Click Auction taps spend it, unspent budget carries over to
+// the next round and every ad slot won is an impression. The standings set
+// impressions won against budget spent - the lesson is pacing.
+
+import { Campaign, Player, Room } from './types';
+
+export interface CampaignStanding {
+  id: string;
+  name: string;
+  color: string;
+  impressions: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface CampaignView {
+  round: number; // Campaign round in progress (or last played)
+  totalRounds: number;
+  budgetPerPlayer: number;
+  complete: boolean;
+  standings: CampaignStanding[];
+}
+
+export interface BudgetStatus {
+  remaining: number;
+  spent: number;
+  total: number;
+  impressions: number;
+  roundsLeft: number; // Rounds still to play, including the one in progress
+}
+
+/**
+ * Start a new campaign - every player gets a fresh budget
+ */
+export function startCampaign(room: Room, totalRounds: number, budgetPerPlayer: number): Campaign {
+  const campaign: Campaign = { totalRounds, budgetPerPlayer, roundsPlayed: 0 };
+  room.gameState.campaign = campaign;
+  Object.values(room.gameState.players).forEach((player) => resetBudget(player, campaign));
+  return campaign;
+}
+
+/**
+ * Leave campaign mode and drop all budgets
+ */
+export function endCampaign(room: Room): void {
+  room.gameState.campaign = null;
+  Object.values(room.gameState.players).forEach((player) => {
+    delete player.budget;
+    delete player.budgetSpent;
+    delete player.impressions;
+  });
+}
+
+function resetBudget(player: Player, campaign: Campaign): void {
+  player.budget = campaign.budgetPerPlayer;
+  player.budgetSpent = 0;
+  player.impressions = 0;
+}
+
+/**
+ * A campaign is running and has rounds left to play
+ */
+export function isCampaignActive(room: Room): boolean {
+  const campaign = room.gameState.campaign;
+  return !!campaign && campaign.roundsPlayed < campaign.totalRounds;
+}
+
+/**
+ * Give a player who joined mid-campaign their budget
+ */
+export function ensureBudget(room: Room, player: Player): void {
+  const campaign = room.gameState.campaign;
+  if (campaign && player.budget === undefined) {
+    resetBudget(player, campaign);
+  }
+}
+
+/**
+ * Spend one tap of a player's budget - false if the budget is used up.
+ * Outside a campaign taps are unlimited.
+ */
+export function spendBudget(room: Room, player: Player): boolean {
+  if (!isCampaignActive(room)) return true;
+  ensureBudget(room, player);
+  if ((player.budget ?? 0) <= 0) return false;
+  player.budget = (player.budget ?? 0) - 1;
+  player.budgetSpent = (player.budgetSpent ?? 0) + 1;
+  return true;
+}
+
+/**
+ * Count a finished round towards the campaign - each slot winner earns an impression.
+ * Returns true if it was the last round.
+ */
+export function recordCampaignRound(room: Room, winnerIds: string[]): boolean {
+  const campaign = room.gameState.campaign;
+  if (!campaign || campaign.roundsPlayed >= campaign.totalRounds) return false;
+
+  campaign.roundsPlayed++;
+  winnerIds.forEach((id) => {
+    const winner = room.gameState.players[id];
+    if (winner) {
+      winner.impressions = (winner.impressions ?? 0) + 1;
+    }
+  });
+  return campaign.roundsPlayed >= campaign.totalRounds;
+}
+
+/**
+ * Most impressions first; on a tie, whoever spent less paced better
+ */
+export function getCampaignStandings(room: Room): CampaignStanding[] {
+  return Object.entries(room.gameState.players)
+    .map(([id, player]) => ({
+      id,
+      name: player.name,
+      color: player.color,
+      impressions: player.impressions ?? 0,
+      spent: player.budgetSpent ?? 0,
+      remaining: player.budget ?? room.gameState.campaign?.budgetPerPlayer ?? 0,
+    }))
+    .sort((a, b) => b.impressions - a.impressions || a.spent - b.spent);
+}
+
+/**
+ * Campaign progress for clients (top 10 standings), null outside a campaign
+ */
+export function getCampaignView(room: Room, inRound: boolean): CampaignView | null {
+  const campaign = room.gameState.campaign;
+  if (!campaign) return null;
+  return {
+    round: Math.min(campaign.roundsPlayed + (inRound ? 1 : 0), campaign.totalRounds),
+    totalRounds: campaign.totalRounds,
+    budgetPerPlayer: campaign.budgetPerPlayer,
+    complete: campaign.roundsPlayed >= campaign.totalRounds,
+    standings: getCampaignStandings(room).slice(0, 10),
+  };
+}
+
+/**
+ * A player's own budget (sent privately - the view only carries the top 10)
+ */
+export function getBudgetStatus(room: Room, player: Player): BudgetStatus | null {
+  const campaign = room.gameState.campaign;
+  if (!campaign) return null;
+  return {
+    remaining: player.budget ?? campaign.budgetPerPlayer,
+    spent: player.budgetSpent ?? 0,
+    total: campaign.budgetPerPlayer,
+    impressions: player.impressions ?? 0,
+    roundsLeft: campaign.totalRounds - campaign.roundsPlayed,
+  };
+}
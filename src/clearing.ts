@@ -0,0 +1,55 @@
+// ============================================
+// AUCTION CLEARING
+// ============================================
+// Decides whether the top bid wins and what the winner pays. First-price:
+// the winner pays their own bid. Second-price (Vickrey): the runner-up's bid
+// plus one. A floor price is the minimum bid that can win - and the least a
+// winner pays. With several ad slots, each slot clears against the bid below
+// it (generalized second-price) and slots go unsold once bids miss the floor.
+
+import { ClearingMode, ClearingResult, LeaderboardEntry } from './types';
+
+/**
+ * Clear the round's auction from the final leaderboard (sorted best first)
+ */
+export function clearAuction(leaderboard: LeaderboardEntry[], mode: ClearingMode, floorPrice: number): ClearingResult {
+  const top = leaderboard[0];
+  if (!top || top.finalScore <= 0 || top.finalScore < floorPrice) {
+    return { mode, floorPrice, winningBid: null, beatBid: null, clearingPrice: null };
+  }
+
+  const winningBid = top.finalScore;
+  const beatBid = leaderboard[1]?.finalScore ?? null;
+  const clearingPrice = mode === 'second_price'
+    ? Math.min(winningBid, Math.max(floorPrice, (beatBid ?? 0) + 1))
+    : winningBid;
+
+  return { mode, floorPrice, winningBid, beatBid, clearingPrice };
+}
+
+/**
+ * Clear each of the round's ad slots, best slot first. Only slots that
+ * cleared are returned - the list is empty if even the top bid didn't.
+ */
+export function clearSlots(leaderboard: LeaderboardEntry[], mode: ClearingMode, floorPrice: number, slots: number): ClearingResult[] {
+  const results: ClearingResult[] = [];
+  for (let slot = 0; slot < slots; slot++) {
+    const result = clearAuction(leaderboard.slice(slot), mode, floorPrice);
+    if (result.clearingPrice === null) break;
+    results.push(result);
+  }
+  return results;
+}
+
+/**
+ * One-line summary for logs and the host panel
+ */
+export function describeClearing(clearing: ClearingResult): string {
+  const mode = clearing.mode === 'second_price' ? 'Second-price' : 'First-price';
+  const floor = clearing.floorPrice > 0 ? ` (floor ${clearing.floorPrice})` : '';
+  if (clearing.clearingPrice === null) {
+    return `${mode}${floor}: no bid cleared`;
+  }
+  const beat = clearing.beatBid === null ? 'unopposed' : `beat ${clearing.beatBid}`;
+  return `${mode}${floor}: bid ${clearing.winningBid} ${beat} → pays ${clearing.clearingPrice}`;
+}
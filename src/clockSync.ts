@@ -0,0 +1,141 @@
+// ============================================
+// CLOCK SYNC (Latency Compensation)
+// ============================================
+// The server pings each socket with its own timestamp; the client answers
+// with its local clock. Over several samples this estimates the round-trip
+// time (RTT) and the client's clock offset, which lets Fastest Finger judge
+// a tap by when the player pressed, not when it reached the server.
+
+import config from './config';
+
+export interface ClockSample {
+  rttMs: number;
+  offsetMs: number; // Client clock minus server clock
+}
+
+export interface ClockEstimate {
+  rttMs: number;
+  offsetMs: number;
+  samples: number;
+}
+
+const pendingPings: Record<string, number[]> = {};
+const clockSamples: Record<string, ClockSample[]> = {};
+
+/**
+ * Start a ping for a socket - returns the timestamp to send as `serverSentAt`
+ */
+export function createPing(socketId: string, now: number = Date.now()): number {
+  if (!pendingPings[socketId]) {
+    pendingPings[socketId] = [];
+  }
+  pendingPings[socketId].push(now);
+  if (pendingPings[socketId].length > config.CLOCK_SYNC_SAMPLES) {
+    pendingPings[socketId].shift();
+  }
+  return now;
+}
+
+/**
+ * Record a pong - only answers to pings we actually sent are accepted
+ */
+export function recordPong(socketId: string, data: unknown, now: number = Date.now()): ClockEstimate | null {
+  if (!data || typeof data !== 'object') return null;
+  const { serverSentAt, clientTime } = data as { serverSentAt?: unknown; clientTime?: unknown };
+  if (typeof serverSentAt !== 'number' || typeof clientTime !== 'number' || !Number.isFinite(clientTime)) {
+    return null;
+  }
+
+  const pending = pendingPings[socketId];
+  const pingIndex = pending ? pending.indexOf(serverSentAt) : -1;
+  if (pingIndex === -1) return null;
+  pending.splice(pingIndex, 1);
+
+  const rttMs = now - serverSentAt;
+  if (rttMs < 0 || rttMs > config.CLOCK_SYNC_MAX_RTT_MS) return null;
+
+  if (!clockSamples[socketId]) {
+    clockSamples[socketId] = [];
+  }
+  clockSamples[socketId].push({
+    rttMs,
+    offsetMs: clientTime - (serverSentAt + rttMs / 2),
+  });
+  if (clockSamples[socketId].length > config.CLOCK_SYNC_SAMPLES) {
+    clockSamples[socketId].shift();
+  }
+
+  return getClockEstimate(socketId);
+}
+
+/**
+ * Current estimate: median RTT, offset from the fastest (least distorted) sample
+ */
+export function getClockEstimate(socketId: string): ClockEstimate | null {
+  const samples = clockSamples[socketId];
+  if (!samples || samples.length === 0) return null;
+
+  const rtts = samples.map((s) => s.rttMs).sort((a, b) => a - b);
+  const fastest = samples.reduce((best, s) => (s.rttMs < best.rttMs ? s : best));
+
+  return {
+    rttMs: Math.round(rtts[Math.floor(rtts.length / 2)]),
+    offsetMs: Math.round(fastest.offsetMs),
+    samples: samples.length,
+  };
+}
+
+/**
+ * Reconstruct a fair reaction time from the client's local tap timestamp.
+ * The claimed time can only ever reduce the server-measured time, and by
+ * no more than the player's measured RTT (capped). A replay passes the
+ * estimate the live round used.
+ */
+export function compensateReactionTime(
+  socketId: string,
+  measuredMs: number,
+  signalSentAt: number,
+  clientTapAt: unknown,
+  estimate: ClockEstimate | null = getClockEstimate(socketId)
+): number {
+  if (!estimate || estimate.samples < config.CLOCK_SYNC_MIN_SAMPLES) return measuredMs;
+  if (typeof clientTapAt !== 'number' || !Number.isFinite(clientTapAt)) return measuredMs;
+
+  // Tap time on the server clock, minus the time the signal took to arrive
+  const claimedMs = (clientTapAt - estimate.offsetMs) - signalSentAt - estimate.rttMs / 2;
+  const maxCompensation = Math.min(estimate.rttMs, config.CLOCK_SYNC_MAX_COMPENSATION_MS);
+  const compensated = Math.min(measuredMs, Math.max(measuredMs - maxCompensation, claimedMs));
+
+  return Math.max(0, Math.round(compensated));
+}
+
+/**
+ * Reset clock sync data for a socket
+ */
+export function resetClockData(socketId: string): void {
+  delete pendingPings[socketId];
+  delete clockSamples[socketId];
+}
+
+/**
+ * Cleanup clock sync data for inactive sockets
+ */
+export function cleanupClockData(activeSocketIds: Set<string>): number {
+  let cleaned = 0;
+
+  for (const socketId of Object.keys(clockSamples)) {
+    if (!activeSocketIds.has(socketId)) {
+      delete clockSamples[socketId];
+      cleaned++;
+    }
+  }
+
+  for (const socketId of Object.keys(pendingPings)) {
+    if (!activeSocketIds.has(socketId)) {
+      delete pendingPings[socketId];
+      cleaned++;
+    }
+  }
+
+  return cleaned;
+}
@@ -2,6 +2,8 @@
 // CONFIGURATION
 // ============================================
 
+import { AchievementMetric, AchievementRule, AdModerationMode, ClearingMode, ExportDataset, ExportFormat, FalseStartPenalty, FastestFingerVariant, LeaderboardCategory, LeaderboardSort, TeamAssignment } from './types';
+
 export interface Config {
   PORT: number | string;
   HOST: string;
@@ -14,6 +16,12 @@ export interface Config {
   RECONNECT_GRACE_PERIOD_MS: number;
   SESSION_CLEANUP_INTERVAL_MS: number;
 
+  // Rooms
+  DEFAULT_ROOM_CODE: string;
+  ROOM_CODE_LENGTH: number;
+  MAX_ROOMS: number;
+  ROOM_IDLE_TIMEOUT_MS: number;
+
   // Host authentication
   HOST_PIN: string | null;
   HOST_AUTH_EXPIRY_MS: number;
@@ -21,6 +29,9 @@ export interface Config {
   // Input validation
   MAX_NAME_LENGTH: number;
   MAX_AD_CONTENT_LENGTH: number;
+  MAX_AD_HEADLINE_LENGTH: number;
+  MAX_AD_TAGLINE_LENGTH: number;
+  MAX_AD_LOGO_LENGTH: number;
   MIN_AUCTION_DURATION: number;
   MAX_AUCTION_DURATION: number;
   MIN_COUNTDOWN_DURATION: number;
@@ -39,6 +50,14 @@ export interface Config {
 
   // Redis
   REDIS_KEY: string;
+  REDIS_TEAM_KEY: string;
+  REDIS_PLAYERS_KEY: string;
+  REDIS_TOURNAMENT_KEY: string;
+  REDIS_ROUNDS_KEY: string;
+  REDIS_EVENT_LOGS_KEY: string;
+  REDIS_AD_IMPRESSIONS_KEY: string;
+  REDIS_ACHIEVEMENTS_KEY: string;
+  REDIS_SEASONS_KEY: string;
 
   // Timing constants
   TICK_INTERVAL_MS: number;
@@ -49,11 +68,129 @@ export interface Config {
   FASTEST_FINGER_COUNTDOWN_DURATION: number;
   FASTEST_FINGER_TAP_TIMEOUT_MS: number;
   FASTEST_FINGER_MULTIPLIERS: number[];
+  FALSE_START_PENALTIES: FalseStartPenalty[];
+  DEFAULT_FALSE_START_PENALTY: FalseStartPenalty;
+  FALSE_START_TIME_PENALTY_MS: number;
+  FALSE_START_SCORE_DEDUCTION_PERCENT: number;
+  FASTEST_FINGER_VARIANTS: FastestFingerVariant[];
+  DEFAULT_FASTEST_FINGER_VARIANT: FastestFingerVariant;
+  GO_NO_GO_DECOYS: [number, number];
+  GO_NO_GO_DECOY_MS: number;
+  GO_NO_GO_GAP_MS: [number, number];
+  MULTI_TARGET_COUNT: number;
+  MULTI_TARGET_SYMBOLS: string[];
+  MULTI_TARGET_GRID_SIZE: number;
+  BEST_OF_ATTEMPTS: number;
+  BEST_OF_WINDOW_MS: number;
+  BEST_OF_GAP_MS: [number, number];
+
+  // Auction clearing
+  CLEARING_MODES: ClearingMode[];
+  DEFAULT_CLEARING_MODE: ClearingMode;
+  DEFAULT_FLOOR_PRICE: number;
+  MAX_FLOOR_PRICE: number;
+  AD_SLOT_LABELS: string[];
+  DEFAULT_AD_SLOTS: number;
+
+  // Ad moderation
+  AD_MODERATION_MODES: AdModerationMode[];
+  DEFAULT_AD_MODERATION: AdModerationMode;
+  AD_BLOCKLIST: string[];
+  HOUSE_AD: string;
+  AD_TEMPLATES: string[];
+  DEFAULT_AD_TEMPLATE: string;
+
+  // Dutch auction
+  DEFAULT_DUTCH_CEILING: number;
+  MAX_DUTCH_CEILING: number;
+  DUTCH_STEP_MS: number;
+  DUTCH_CLAIM_WINDOW_MS: number;
+
+  // Campaign mode
+  DEFAULT_CAMPAIGN_ROUNDS: number;
+  MIN_CAMPAIGN_ROUNDS: number;
+  MAX_CAMPAIGN_ROUNDS: number;
+  DEFAULT_CAMPAIGN_BUDGET: number;
+  MIN_CAMPAIGN_BUDGET: number;
+  MAX_CAMPAIGN_BUDGET: number;
+
+  // Team mode
+  TEAM_ASSIGNMENTS: TeamAssignment[];
+  TEAM_NAMES: string[];
+  TEAM_COLORS: string[];
+  DEFAULT_TEAM_COUNT: number;
+  MIN_TEAMS: number;
+  MAX_TABLE_NUMBER: number;
+
+  // Tournament mode
+  DEFAULT_ELIMINATE_PERCENT: number;
+  MIN_ELIMINATE_PERCENT: number;
+  MAX_ELIMINATE_PERCENT: number;
+  MAX_TOURNAMENT_HISTORY: number;
+
+  // Round history
+  MAX_ROUND_HISTORY: number;
+  DEFAULT_ROUNDS_PAGE_SIZE: number;
+  MAX_ROUNDS_PAGE_SIZE: number;
+
+  // Event log and replay
+  MAX_EVENT_LOG_ROUNDS: number;
+  MAX_CLICK_FIELD_LENGTH: number;
+  REPLAY_FRAME_MS: number;
+  REPLAY_RESULTS_HOLD_MS: number;
+
+  // Lobby ad rotation
+  DEFAULT_AD_DWELL_SECONDS: number;
+  MIN_AD_DWELL_SECONDS: number;
+  MAX_AD_DWELL_SECONDS: number;
+  MAX_AD_INVENTORY: number;
+
+  // Achievements
+  ACHIEVEMENT_METRICS: AchievementMetric[];
+  ACHIEVEMENTS: AchievementRule[];
+  ACHIEVEMENTS_FILE: string | null;
+
+  // Skill rating
+  RATING_INITIAL: number;
+  RATING_K_FACTOR: number;
+  LEADERBOARD_SORTS: LeaderboardSort[];
+
+  // Leaderboard categories
+  LEADERBOARD_CATEGORIES: LeaderboardCategory[];
+  LEADERBOARD_CATEGORY_SIZE: number;
+  WIN_RATE_MIN_ROUNDS: number;
+
+  // Results export
+  EXPORT_DATASETS: ExportDataset[];
+  EXPORT_FORMATS: ExportFormat[];
+
+  // Seasons
+  DEFAULT_SEASON_NAME: string;
+  MAX_SEASON_NAME_LENGTH: number;
+  HALL_OF_FAME_SIZE: number;
+
+  // Clock sync
+  CLOCK_SYNC_INTERVAL_MS: number;
+  CLOCK_SYNC_BURST_SIZE: number;
+  CLOCK_SYNC_BURST_SPACING_MS: number;
+  CLOCK_SYNC_SAMPLES: number;
+  CLOCK_SYNC_MIN_SAMPLES: number;
+  CLOCK_SYNC_MAX_RTT_MS: number;
+  CLOCK_SYNC_MAX_COMPENSATION_MS: number;
+
+  // Round pipeline
+  DEFAULT_ROUND_PHASES: string[];
 
   // VIOOH-inspired DSP colors
   DSP_COLORS: string[];
 }
 
+// Comma-separated env list (null if unset)
+function parseList(value: string | undefined): string[] | null {
+  if (value === undefined) return null;
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
 const config: Config = {
   PORT: process.env.PORT || 3000,
   HOST: '0.0.0.0', // Listen on all network interfaces
@@ -66,6 +203,12 @@ const config: Config = {
   RECONNECT_GRACE_PERIOD_MS: 30000, // 30 seconds to reconnect
   SESSION_CLEANUP_INTERVAL_MS: 10000,
 
+  // Rooms
+  DEFAULT_ROOM_CODE: 'MAIN', // Used when no ?room= code is given (single-session setups)
+  ROOM_CODE_LENGTH: 4,
+  MAX_ROOMS: 20,
+  ROOM_IDLE_TIMEOUT_MS: 2 * 60 * 60 * 1000, // Empty rooms are removed after 2 hours
+
   // Host authentication
   HOST_PIN: process.env.HOST_PIN || null,
   HOST_AUTH_EXPIRY_MS: 24 * 60 * 60 * 1000, // 24 hours
@@ -73,6 +216,9 @@ const config: Config = {
   // Input validation
   MAX_NAME_LENGTH: 50,
   MAX_AD_CONTENT_LENGTH: 200,
+  MAX_AD_HEADLINE_LENGTH: 60,
+  MAX_AD_TAGLINE_LENGTH: 80,
+  MAX_AD_LOGO_LENGTH: 16, // UTF-16 code units - room for a few emoji or one ZWJ sequence
   MIN_AUCTION_DURATION: 1,
   MAX_AUCTION_DURATION: 300, // 5 minutes max
   MIN_COUNTDOWN_DURATION: 1,
@@ -91,9 +237,17 @@ const config: Config = {
 
   // Redis
   REDIS_KEY: 'click-auction:stats',
+  REDIS_TEAM_KEY: 'click-auction:team-stats',
+  REDIS_PLAYERS_KEY: 'click-auction:players',
+  REDIS_TOURNAMENT_KEY: 'click-auction:tournaments',
+  REDIS_ROUNDS_KEY: 'click-auction:rounds',
+  REDIS_EVENT_LOGS_KEY: 'click-auction:event-logs',
+  REDIS_AD_IMPRESSIONS_KEY: 'click-auction:ad-impressions',
+  REDIS_ACHIEVEMENTS_KEY: 'click-auction:achievements',
+  REDIS_SEASONS_KEY: 'click-auction:seasons',
 
   // Timing constants
-  TICK_INTERVAL_MS: 1000, // 1 second tick for countdown/bidding
+  TICK_INTERVAL_MS: 1000, // 1 second state broadcast tick (phases end on their own deadline)
   RATE_LIMIT_WINDOW_MS: 1000, // 1 second window for rate limiting
   STATIC_CACHE_MAX_AGE: 3600, // 1 hour cache for static assets
 
@@ -101,6 +255,124 @@ const config: Config = {
   FASTEST_FINGER_COUNTDOWN_DURATION: 5, // 5 second countdown before "TAP NOW" (gives users time to prepare)
   FASTEST_FINGER_TAP_TIMEOUT_MS: 5000, // 5 seconds to tap before timeout
   FASTEST_FINGER_MULTIPLIERS: [2.0, 1.5, 1.25], // Multipliers for 1st, 2nd, 3rd fastest reaction
+  FALSE_START_PENALTIES: ['disqualify', 'add_time', 'deduct_score'],
+  DEFAULT_FALSE_START_PENALTY: 'disqualify', // No multiplier for tapping before the signal
+  FALSE_START_TIME_PENALTY_MS: 500, // 'add_time': added to the reaction time
+  FALSE_START_SCORE_DEDUCTION_PERCENT: 25, // 'deduct_score': taken off the final score
+  FASTEST_FINGER_VARIANTS: ['classic', 'go_no_go', 'multi_target', 'best_of_three'],
+  DEFAULT_FASTEST_FINGER_VARIANT: 'classic',
+  GO_NO_GO_DECOYS: [1, 3], // Min/max red decoys before the green signal
+  GO_NO_GO_DECOY_MS: 700, // How long each red decoy stays up
+  GO_NO_GO_GAP_MS: [400, 1000], // Random pause before each signal
+  MULTI_TARGET_COUNT: 4, // Buttons shown, one of them correct
+  MULTI_TARGET_SYMBOLS: ['⭐', '🔷', '🔺', '🟢', '🟣', '🍀'],
+  MULTI_TARGET_GRID_SIZE: 3, // Targets are placed in distinct cells of an N x N grid
+  BEST_OF_ATTEMPTS: 3, // Reaction taps averaged in best_of_three
+  BEST_OF_WINDOW_MS: 1500, // Time to answer each signal (a miss counts as the full window)
+  BEST_OF_GAP_MS: [800, 2000], // Random pause before each signal
+
+  // Auction clearing
+  CLEARING_MODES: ['first_price', 'second_price'],
+  DEFAULT_CLEARING_MODE: 'first_price', // Winner pays their own bid
+  DEFAULT_FLOOR_PRICE: 0, // Minimum bid (points) to be eligible to win - 0 = no floor
+  MAX_FLOOR_PRICE: 10000,
+  AD_SLOT_LABELS: ['Premium Billboard', 'Side Panel A', 'Side Panel B', 'Street Panel C', 'Street Panel D'], // Slot 1 first - the count caps slots per round
+  DEFAULT_AD_SLOTS: 1, // Single winner
+
+  // Ad moderation
+  AD_MODERATION_MODES: ['flagged', 'all'],
+  DEFAULT_AD_MODERATION: process.env.AD_MODERATION === 'all' ? 'all' : 'flagged', // 'flagged' = only blocklisted creatives wait for the host
+  AD_BLOCKLIST: parseList(process.env.AD_BLOCKLIST) ?? ['fuck', 'shit', 'cunt', 'bitch', 'bastard', 'dick', 'cock', 'pussy', 'wank', 'slut', 'whore', 'nigger', 'faggot', 'retard', 'nazi', 'porn'], // Comma-separated AD_BLOCKLIST replaces it
+  HOUSE_AD: process.env.HOUSE_AD || 'Your ad here - Click Auction 🎯', // Shown in place of a winner's creative that isn't approved
+  AD_TEMPLATES: ['neon', 'midnight', 'sunset', 'mono', 'arcade'], // Each has its own look and layout (common.css)
+  DEFAULT_AD_TEMPLATE: 'neon',
+
+  // Dutch auction
+  DEFAULT_DUTCH_CEILING: 100, // Starting price - falls to the room's floor price over the auction duration
+  MAX_DUTCH_CEILING: 10000,
+  DUTCH_STEP_MS: 250, // Price drops four times a second
+  DUTCH_CLAIM_WINDOW_MS: 300, // After the first tap, wait this long for earlier taps still in flight
+
+  // Campaign mode
+  DEFAULT_CAMPAIGN_ROUNDS: 3,
+  MIN_CAMPAIGN_ROUNDS: 2,
+  MAX_CAMPAIGN_ROUNDS: 20,
+  DEFAULT_CAMPAIGN_BUDGET: 100, // Click Auction taps per DSP for the whole campaign
+  MIN_CAMPAIGN_BUDGET: 10,
+  MAX_CAMPAIGN_BUDGET: 10000,
+
+  // Team mode
+  TEAM_ASSIGNMENTS: ['choose', 'round_robin', 'table'],
+  TEAM_NAMES: ['Teal Agency', 'Magenta Agency', 'Purple Agency', 'Cyan Agency', 'Gold Agency', 'Green Agency', 'Pink Agency', 'Blue Agency'], // The count caps teams per room
+  TEAM_COLORS: ['#00C9A7', '#E91E8C', '#6B3FA0', '#00D4D4', '#FFB800', '#00E896', '#FF6B9D', '#3498DB'], // Also used for table teams, cycling
+  DEFAULT_TEAM_COUNT: 2,
+  MIN_TEAMS: 2,
+  MAX_TABLE_NUMBER: 99,
+
+  // Tournament mode
+  DEFAULT_ELIMINATE_PERCENT: 50, // Bottom half by final score is knocked out each round
+  MIN_ELIMINATE_PERCENT: 10,
+  MAX_ELIMINATE_PERCENT: 90,
+  MAX_TOURNAMENT_HISTORY: 20, // Finished brackets kept
+
+  // Round history
+  MAX_ROUND_HISTORY: 200, // Completed rounds kept (oldest dropped first)
+  DEFAULT_ROUNDS_PAGE_SIZE: 20,
+  MAX_ROUNDS_PAGE_SIZE: 100,
+
+  // Event log and replay
+  MAX_EVENT_LOG_ROUNDS: 20, // Completed rounds whose event log is kept for replay
+  MAX_CLICK_FIELD_LENGTH: 64, // Longer strings in a click payload are dropped
+  REPLAY_FRAME_MS: 250, // How often a replay on the display advances
+  REPLAY_RESULTS_HOLD_MS: 10000, // Results stay up this long before the display goes back to live
+
+  // Lobby ad rotation
+  DEFAULT_AD_DWELL_SECONDS: 8, // How long each past winner's ad stays up between rounds
+  MIN_AD_DWELL_SECONDS: 3,
+  MAX_AD_DWELL_SECONDS: 60,
+  MAX_AD_INVENTORY: 20, // Newest winning creatives in a room's rotation
+
+  // Achievements - rules are data, an event can add its own (see achievements.ts)
+  ACHIEVEMENT_METRICS: ['won', 'taps', 'reactionTime', 'finalScore', 'rank', 'wins', 'roundsPlayed', 'winStreak', 'wasLast'],
+  ACHIEVEMENTS: [
+    { id: 'first_win', name: 'First Win', icon: '🥇', description: 'Win the premium slot', when: [{ metric: 'won', min: 1 }] },
+    { id: 'lightning', name: 'Lightning Reflexes', icon: '⚡', description: 'React in under 200ms', when: [{ metric: 'reactionTime', max: 199 }] },
+    { id: 'centurion', name: 'Centurion', icon: '💯', description: 'Tap 100 times in one round', when: [{ metric: 'taps', min: 100 }] },
+    { id: 'hat_trick', name: 'Hat Trick', icon: '🎩', description: 'Win three rounds in a row', when: [{ metric: 'winStreak', min: 3 }] },
+    { id: 'comeback', name: 'Comeback Kid', icon: '🔄', description: 'Win right after coming last', when: [{ metric: 'won', min: 1 }, { metric: 'wasLast', min: 1 }] },
+  ],
+  ACHIEVEMENTS_FILE: process.env.ACHIEVEMENTS_FILE || null, // JSON array of extra rules for an event
+
+  // Skill rating - multi-player Elo (see rating.ts)
+  RATING_INITIAL: 1500, // Every player's first rating
+  RATING_K_FACTOR: 32, // Most a rating can move in one round
+  LEADERBOARD_SORTS: ['wins', 'rating'], // All-time leaderboard orders (wins first is the default)
+
+  // Leaderboard categories - the big screen rotates through them in this order (see leaderboards.ts)
+  LEADERBOARD_CATEGORIES: ['fastest_reaction', 'avg_taps', 'win_rate', 'win_streak'],
+  LEADERBOARD_CATEGORY_SIZE: 10, // Players ranked per category
+  WIN_RATE_MIN_ROUNDS: 5, // Fewer rounds than this and a win rate says more about luck
+
+  // Results export - host-only downloads (see resultsExport.ts)
+  EXPORT_DATASETS: ['results', 'stats', 'rounds'], // Latest round, all-time stats, round history
+  EXPORT_FORMATS: ['csv', 'json'], // CSV first is the default
+
+  // Seasons - stats accrue to the current one, closed ones are archived (see seasons.ts)
+  DEFAULT_SEASON_NAME: 'Season 1', // Before the host names one
+  MAX_SEASON_NAME_LENGTH: 40,
+  HALL_OF_FAME_SIZE: 3, // Top players of each archived season in the hall of fame
+
+  // Clock sync
+  CLOCK_SYNC_INTERVAL_MS: 5000, // Ping every socket every 5 seconds
+  CLOCK_SYNC_BURST_SIZE: 3, // Quick pings on connect so estimates are ready before the first round
+  CLOCK_SYNC_BURST_SPACING_MS: 300,
+  CLOCK_SYNC_SAMPLES: 8, // Samples kept per socket
+  CLOCK_SYNC_MIN_SAMPLES: 2, // Below this, reaction times are not compensated
+  CLOCK_SYNC_MAX_RTT_MS: 5000, // Discard samples slower than this
+  CLOCK_SYNC_MAX_COMPENSATION_MS: 500, // Never take more than this off a reaction time
+
+  // Round pipeline
+  DEFAULT_ROUND_PHASES: ['auction_countdown', 'auction', 'fastestFinger_countdown', 'fastestFinger_tap'], // Phase ids (see phases.ts)
 
   // VIOOH-inspired DSP colors (50 colors for up to 200 players with minimal repeats)
   DSP_COLORS: [
@@ -0,0 +1,144 @@
+// ============================================
+// DUTCH AUCTION (Descending Price)
+// ============================================
+// The price starts at the room's ceiling and drops step by step to the floor
+// price over the auction duration. The first player to tap claims the slot at
+// the price showing when they tapped. Taps are ordered like Fastest Finger
+// reactions: by latency-compensated tap time, not arrival order. The claim is
+// settled a short window after the first tap, so an earlier tap still in
+// flight from a slower connection can beat it.
+
+import config from './config';
+import * as clockSync from './clockSync';
+import { scheduleAt } from './scheduler';
+import { ClickPayload, DutchAuction, DutchClaim, Room } from './types';
+
+export interface DutchView {
+  ceiling: number;
+  floor: number;
+  startedAt: number;
+  durationMs: number;
+  stepMs: number;
+  claim: { name: string; price: number } | null;
+}
+
+/**
+ * Start the price falling from the room's ceiling to its floor price
+ */
+export function startDutchAuction(room: Room, now: number = Date.now()): DutchAuction {
+  const gameState = room.gameState;
+  const floor = gameState.floorPrice;
+  const auction: DutchAuction = {
+    ceiling: Math.max(gameState.dutchCeiling, floor + 1),
+    floor,
+    startedAt: now,
+    durationMs: gameState.auctionDuration * 1000,
+    stepMs: config.DUTCH_STEP_MS,
+    taps: [],
+    claim: null,
+  };
+  gameState.dutch = auction;
+  cancelClaimWindow(room);
+  return auction;
+}
+
+/**
+ * Price showing `elapsedMs` after the price started falling
+ */
+export function getDutchPrice(auction: DutchAuction, elapsedMs: number): number {
+  const steps = Math.max(1, Math.ceil(auction.durationMs / auction.stepMs));
+  const step = Math.min(steps, Math.max(0, Math.floor(elapsedMs / auction.stepMs)));
+  return Math.round(auction.ceiling - (auction.ceiling - auction.floor) * (step / steps));
+}
+
+function cancelClaimWindow(room: Room): void {
+  if (room.timers.dutchClaim) {
+    room.timers.dutchClaim.cancel();
+    room.timers.dutchClaim = null;
+  }
+}
+
+/**
+ * Record a tap. The first tap opens the claim window; `onSettled` runs once
+ * it closes and the claim is decided. Returns false if the tap doesn't count
+ * (already tapped, or the slot is already claimed). A replay passes the clock
+ * estimate the live round used.
+ */
+export function recordDutchTap(
+  room: Room,
+  socketId: string,
+  payload: ClickPayload,
+  onSettled: (room: Room) => void,
+  now: number = Date.now(),
+  estimate: clockSync.ClockEstimate | null = clockSync.getClockEstimate(socketId)
+): boolean {
+  const auction = room.gameState.dutch;
+  if (!auction || auction.claim || !room.gameState.players[socketId]) return false;
+  if (auction.taps.some((tap) => tap.playerId === socketId)) return false;
+
+  const measuredMs = now - auction.startedAt;
+  const elapsedMs = clockSync.compensateReactionTime(socketId, measuredMs, auction.startedAt, payload.tapAt, estimate);
+  auction.taps.push({ playerId: socketId, elapsedMs });
+
+  if (auction.taps.length === 1) {
+    room.timers.dutchClaim = scheduleAt(now + config.DUTCH_CLAIM_WINDOW_MS, () => {
+      room.timers.dutchClaim = null;
+      settleDutchClaim(room);
+      onSettled(room);
+    });
+  }
+  return true;
+}
+
+/**
+ * Carry on after a pause: the price picks up where it stopped, and a claim
+ * the pause interrupted gets a fresh claim window
+ */
+export function resumeDutchAuction(room: Room, pausedMs: number, onSettled: (room: Room) => void, now: number = Date.now()): void {
+  const auction = room.gameState.dutch;
+  if (!auction) return;
+  auction.startedAt += pausedMs;
+  if (auction.claim || auction.taps.length === 0) return;
+  cancelClaimWindow(room);
+  room.timers.dutchClaim = scheduleAt(now + config.DUTCH_CLAIM_WINDOW_MS, () => {
+    room.timers.dutchClaim = null;
+    settleDutchClaim(room);
+    onSettled(room);
+  });
+}
+
+/**
+ * Award the slot to the earliest tap (arrival order breaks ties)
+ */
+export function settleDutchClaim(room: Room): DutchClaim | null {
+  const auction = room.gameState.dutch;
+  if (!auction) return null;
+  cancelClaimWindow(room);
+  if (auction.claim || auction.taps.length === 0) return auction.claim;
+
+  const first = auction.taps.reduce((best, tap) => (tap.elapsedMs < best.elapsedMs ? tap : best));
+  const player = room.gameState.players[first.playerId];
+  auction.claim = {
+    playerId: first.playerId,
+    name: player?.name ?? 'Unknown',
+    price: getDutchPrice(auction, first.elapsedMs),
+    elapsedMs: first.elapsedMs,
+  };
+  return auction.claim;
+}
+
+/**
+ * What clients need to animate the falling price themselves
+ */
+export function getDutchView(room: Room): DutchView | null {
+  const auction = room.gameState.dutch;
+  if (!auction) return null;
+  return {
+    ceiling: auction.ceiling,
+    floor: auction.floor,
+    startedAt: auction.startedAt,
+    durationMs: auction.durationMs,
+    stepMs: auction.stepMs,
+    claim: auction.claim ? { name: auction.claim.name, price: auction.claim.price } : null,
+  };
+}
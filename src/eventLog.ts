@@ -0,0 +1,52 @@
+// ============================================
+// EVENT LOG (Append-Only Record of a Room)
+// ============================================
+// Every state-changing action in a room is appended to its event log with
+// the server time it happened: joins and leaves, clicks (with the clock
+// estimate used to compensate them), Fastest Finger signals, host commands,
+// ad creative reviews, pauses and phase transitions. A round's slice of the
+// log is all replay.ts needs to rebuild the round, so it is kept alongside
+// the round history. The round_start event holds the whole room, so a new
+// round starts the log over - the room only ever keeps its current round.
+
+import * as persistence from './persistence';
+import Logger from './logger';
+import { GameEvent, GameEventData, Room } from './types';
+
+/**
+ * Append an event to the room's log. The event is copied, so later changes
+ * to the live state never reach the log - except clicks, whose payload and
+ * clock estimate are built for that click alone (they skip the copy, as they
+ * come in by the thousand).
+ */
+export function logEvent(room: Room, data: GameEventData, now: number = Date.now()): GameEvent {
+  const log = room.eventLog;
+  const last = log[log.length - 1];
+  const entry = { ...data, seq: last ? last.seq + 1 : 0, at: now, round: room.gameState.round };
+  const event = (data.type === 'click' ? entry : JSON.parse(JSON.stringify(entry))) as GameEvent;
+  if (data.type === 'round_start') log.length = 0;
+  log.push(event);
+  return event;
+}
+
+/**
+ * The latest round's events, from its round_start on (empty before the first round)
+ */
+export function getRoundEvents(room: Room): GameEvent[] {
+  const log = room.eventLog;
+  return log.length > 0 && log[0].type === 'round_start' ? [...log] : [];
+}
+
+/**
+ * Keep the finished round's events with its round history record
+ */
+export function archiveRoundEvents(room: Room): void {
+  const recordId = room.gameState.roundSnapshot?.recordId;
+  const events = getRoundEvents(room);
+  if (!recordId || events.length === 0) return;
+
+  persistence.addEventLog({ roundId: recordId, events });
+  persistence.saveEventLogs().catch((err) => {
+    Logger.error('Failed to save event logs:', err);
+  });
+}
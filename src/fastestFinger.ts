@@ -0,0 +1,394 @@
+// ============================================
+// FASTEST FINGER VARIANTS (Server-Driven Signals)
+// ============================================
+// The Fastest Finger tap phase is a sequence of signals planned by the
+// round's variant. The server decides when each signal shows, what it looks
+// like and which target is correct; clients render the active signal and
+// answer with its id. A player's reaction time is averaged over the go signals.
+
+import crypto from 'crypto';
+import config from './config';
+import * as clockSync from './clockSync';
+import { logEvent } from './eventLog';
+import { scheduleAt } from './scheduler';
+import { isSpectator } from './tournament';
+import {
+  ClickPayload,
+  FastestFingerRound,
+  FastestFingerSignal,
+  FastestFingerTarget,
+  FastestFingerVariant,
+  Player,
+  Room,
+} from './types';
+
+export interface VariantDefinition {
+  id: FastestFingerVariant;
+  label: string;
+  instructions: string;
+  planSignals: () => FastestFingerSignal[];
+  penalizeTapsBetweenSignals: boolean; // Tapping while no signal is up counts as a false start
+}
+
+export interface PublicSignal {
+  id: string;
+  kind: 'go' | 'nogo';
+  attempt: number; // 1-based go signal number (0 for decoys)
+  targets?: FastestFingerTarget[];
+  prompt?: string;
+}
+
+export interface FastestFingerView {
+  variant: FastestFingerVariant;
+  label: string;
+  instructions: string;
+  attempts: number; // Go signals in the round
+  signal: PublicSignal | null;
+}
+
+export type TapOutcome = 'reaction' | 'wrong_target' | 'false_start' | 'ignored';
+
+function randomBetween([min, max]: [number, number]): number {
+  return min + Math.floor(Math.random() * (max - min + 1));
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function createSignal(kind: 'go' | 'nogo', at: number, visibleMs: number): FastestFingerSignal {
+  return { id: crypto.randomBytes(6).toString('hex'), kind, at, visibleMs, sentAt: null };
+}
+
+function createTargets(): { targets: FastestFingerTarget[]; correct: FastestFingerTarget } {
+  const grid = config.MULTI_TARGET_GRID_SIZE;
+  const cells = shuffle([...Array(grid * grid).keys()]);
+  const symbols = shuffle(config.MULTI_TARGET_SYMBOLS);
+  const count = Math.min(config.MULTI_TARGET_COUNT, cells.length, symbols.length);
+
+  const targets = Array.from({ length: count }, (_, i) => ({
+    id: crypto.randomBytes(6).toString('hex'),
+    symbol: symbols[i],
+    x: ((cells[i] % grid) + 0.5) / grid,
+    y: (Math.floor(cells[i] / grid) + 0.5) / grid,
+  }));
+  return { targets, correct: targets[Math.floor(Math.random() * targets.length)] };
+}
+
+// ============================================
+// VARIANT REGISTRY
+// ============================================
+
+const variants: Record<FastestFingerVariant, VariantDefinition> = {
+  classic: {
+    id: 'classic',
+    label: 'Classic',
+    instructions: 'Tap the button as soon as it appears!',
+    planSignals: () => [createSignal('go', 0, config.FASTEST_FINGER_TAP_TIMEOUT_MS)],
+    penalizeTapsBetweenSignals: false,
+  },
+
+  go_no_go: {
+    id: 'go_no_go',
+    label: 'Go / No-Go',
+    instructions: 'Tap on GREEN - never on RED!',
+    planSignals: () => {
+      const signals: FastestFingerSignal[] = [];
+      let at = randomBetween(config.GO_NO_GO_GAP_MS);
+      const decoys = randomBetween(config.GO_NO_GO_DECOYS);
+      for (let i = 0; i < decoys; i++) {
+        signals.push(createSignal('nogo', at, config.GO_NO_GO_DECOY_MS));
+        at += config.GO_NO_GO_DECOY_MS + randomBetween(config.GO_NO_GO_GAP_MS);
+      }
+      signals.push(createSignal('go', at, config.FASTEST_FINGER_TAP_TIMEOUT_MS));
+      return signals;
+    },
+    penalizeTapsBetweenSignals: true,
+  },
+
+  multi_target: {
+    id: 'multi_target',
+    label: 'Pick the Target',
+    instructions: 'Find and tap the right symbol!',
+    planSignals: () => {
+      const signal = createSignal('go', 0, config.FASTEST_FINGER_TAP_TIMEOUT_MS);
+      const { targets, correct } = createTargets();
+      return [{ ...signal, targets, correctTargetId: correct.id, prompt: correct.symbol }];
+    },
+    penalizeTapsBetweenSignals: false,
+  },
+
+  best_of_three: {
+    id: 'best_of_three',
+    label: `Best of ${config.BEST_OF_ATTEMPTS}`,
+    instructions: `Tap every signal - your ${config.BEST_OF_ATTEMPTS} reactions are averaged!`,
+    planSignals: () => {
+      const signals: FastestFingerSignal[] = [];
+      let at = 0;
+      for (let i = 0; i < config.BEST_OF_ATTEMPTS; i++) {
+        at += randomBetween(config.BEST_OF_GAP_MS);
+        signals.push(createSignal('go', at, config.BEST_OF_WINDOW_MS));
+        at += config.BEST_OF_WINDOW_MS;
+      }
+      return signals;
+    },
+    penalizeTapsBetweenSignals: false,
+  },
+};
+
+/**
+ * Get a variant by id (falls back to classic)
+ */
+export function getVariant(id: FastestFingerVariant): VariantDefinition {
+  return variants[id] || variants.classic;
+}
+
+// ============================================
+// SIGNALS
+// ============================================
+
+function getActiveSignal(round: FastestFingerRound): FastestFingerSignal | null {
+  return round.signals.find((signal) => signal.id === round.activeSignalId) || null;
+}
+
+function getGoSignals(round: FastestFingerRound): FastestFingerSignal[] {
+  return round.signals.filter((signal) => signal.kind === 'go');
+}
+
+/**
+ * Put a signal up
+ */
+export function showSignal(room: Room, signal: FastestFingerSignal, now: number = Date.now()): void {
+  const round = room.gameState.fastestFinger;
+  if (!round) return;
+  signal.sentAt = now;
+  round.activeSignalId = signal.id;
+  if (signal.kind === 'go') {
+    room.gameState.fastestFingerStartTime = now;
+  }
+}
+
+/**
+ * Take a signal down - returns false if it wasn't up
+ */
+export function hideSignal(room: Room, signal: FastestFingerSignal): boolean {
+  const round = room.gameState.fastestFinger;
+  if (!round || round.activeSignalId !== signal.id) return false;
+  round.activeSignalId = null;
+  return true;
+}
+
+// The live round shows and hides signals through these, so the event log has them
+function revealSignal(room: Room, signal: FastestFingerSignal, now: number = Date.now()): void {
+  showSignal(room, signal, now);
+  logEvent(room, { type: 'signal', signalId: signal.id, shown: true }, now);
+}
+
+function withdrawSignal(room: Room, signal: FastestFingerSignal, now: number = Date.now()): void {
+  if (hideSignal(room, signal)) {
+    logEvent(room, { type: 'signal', signalId: signal.id, shown: false }, now);
+  }
+}
+
+/**
+ * Put a planned set of signals in play (nothing shows yet)
+ */
+export function setSignalPlan(room: Room, signals: FastestFingerSignal[]): FastestFingerRound {
+  const gameState = room.gameState;
+  const round: FastestFingerRound = { variant: getVariant(gameState.fastestFingerVariant).id, signals, activeSignalId: null };
+  gameState.fastestFinger = round;
+  Object.values(gameState.players).forEach((player) => {
+    player.signalReactions = {};
+  });
+  return round;
+}
+
+/**
+ * Plan the room's signals and schedule them. Signals due immediately are shown
+ * before returning; `onChange` runs whenever a later signal shows or hides.
+ */
+export function startSignals(room: Room, onChange: (room: Room) => void, now: number = Date.now()): void {
+  const round = setSignalPlan(room, getVariant(room.gameState.fastestFingerVariant).planSignals());
+  logEvent(room, { type: 'signals', signals: round.signals }, now);
+
+  room.timers.signalTasks.forEach((task) => task.cancel());
+  room.timers.signalTasks = [];
+  round.signals.forEach((signal) => {
+    if (signal.at <= 0) {
+      revealSignal(room, signal, now);
+    } else {
+      room.timers.signalTasks.push(scheduleAt(now + signal.at, () => {
+        revealSignal(room, signal);
+        onChange(room);
+      }));
+    }
+    room.timers.signalTasks.push(scheduleAt(now + signal.at + signal.visibleMs, () => {
+      withdrawSignal(room, signal);
+      onChange(room);
+    }));
+  });
+}
+
+/**
+ * Take the signal down while the round is paused (its scheduled tasks are
+ * cancelled with the other phase timers)
+ */
+export function pauseSignals(room: Room, now: number = Date.now()): void {
+  const round = room.gameState.fastestFinger;
+  const active = round?.signals.find((signal) => signal.id === round.activeSignalId);
+  if (active) withdrawSignal(room, active, now);
+}
+
+/**
+ * Pick the signal plan up `elapsedMs` into the phase. A signal the pause cut
+ * short shows again with a fresh start time, for what was left of its window.
+ */
+export function resumeSignals(room: Room, elapsedMs: number, onChange: (room: Room) => void, now: number = Date.now()): void {
+  const round = room.gameState.fastestFinger;
+  if (!round) return;
+  room.timers.signalTasks.forEach((task) => task.cancel());
+  room.timers.signalTasks = [];
+  round.signals.forEach((signal) => {
+    const endsIn = signal.at + signal.visibleMs - elapsedMs;
+    if (endsIn <= 0) return;
+    if (signal.at <= elapsedMs) {
+      revealSignal(room, signal, now);
+    } else {
+      room.timers.signalTasks.push(scheduleAt(now + signal.at - elapsedMs, () => {
+        revealSignal(room, signal);
+        onChange(room);
+      }));
+    }
+    room.timers.signalTasks.push(scheduleAt(now + endsIn, () => {
+      withdrawSignal(room, signal);
+      onChange(room);
+    }));
+  });
+}
+
+/**
+ * How long the planned signals take (ms) - the tap phase lasts this long
+ */
+export function getSignalPlanDuration(room: Room): number {
+  const signals = room.gameState.fastestFinger?.signals || [];
+  return signals.reduce((end, signal) => Math.max(end, signal.at + signal.visibleMs), 0);
+}
+
+/**
+ * Average reaction over the go signals answered so far. Once the phase is
+ * over (`final`), unanswered signals count as the full window - as long as
+ * the player answered at least one.
+ */
+export function getAverageReaction(round: FastestFingerRound, player: Player, final = false): number | null {
+  const reactions = player.signalReactions || {};
+  const goSignals = getGoSignals(round).filter((signal) => final || signal.id in reactions);
+  const times = goSignals.map((signal) => reactions[signal.id]);
+  if (!times.some((time) => typeof time === 'number')) return null;
+
+  const total = goSignals.reduce((sum, signal, i) => {
+    const time = times[i];
+    return sum + (typeof time === 'number' ? time : signal.visibleMs);
+  }, 0);
+  return Math.round(total / goSignals.length);
+}
+
+/**
+ * Judge a player's tap against the signals, compensated for network latency
+ * (a replay passes the clock estimate the live round used)
+ */
+export function recordSignalTap(
+  room: Room,
+  socketId: string,
+  payload: ClickPayload,
+  now: number = Date.now(),
+  estimate: clockSync.ClockEstimate | null = clockSync.getClockEstimate(socketId)
+): TapOutcome {
+  const round = room.gameState.fastestFinger;
+  const player = room.gameState.players[socketId];
+  if (!round || !player) return 'ignored';
+
+  // A tap names the signal it answers; taps without one answer whatever is up
+  const signal = payload.signalId === undefined
+    ? getActiveSignal(round)
+    : round.signals.find((s) => s.id === payload.signalId) || null;
+
+  if (!signal) {
+    if (payload.signalId !== undefined) return 'ignored';
+    return getVariant(round.variant).penalizeTapsBetweenSignals && !player.falseStart ? 'false_start' : 'ignored';
+  }
+  if (signal.kind === 'nogo') {
+    return signal.sentAt !== null && !player.falseStart ? 'false_start' : 'ignored';
+  }
+
+  // Go signals can only be answered once, while they are up
+  const reactions = player.signalReactions || (player.signalReactions = {});
+  if (signal.id in reactions || signal.sentAt === null || round.activeSignalId !== signal.id) {
+    return 'ignored';
+  }
+
+  if (signal.correctTargetId && payload.targetId !== signal.correctTargetId) {
+    reactions[signal.id] = null;
+    return 'wrong_target';
+  }
+
+  const measuredMs = now - signal.sentAt;
+  reactions[signal.id] = clockSync.compensateReactionTime(socketId, measuredMs, signal.sentAt, payload.tapAt, estimate);
+  player.reactionTime = getAverageReaction(round, player);
+  return 'reaction';
+}
+
+/**
+ * Everyone playing has answered every go signal (the phase can end early).
+ * Tournament spectators and players who dropped can't tap, so they aren't
+ * waited for.
+ */
+export function haveAllPlayersResponded(room: Room, connectedIds: Set<string>): boolean {
+  const round = room.gameState.fastestFinger;
+  if (!round) return false;
+  const goSignals = getGoSignals(round);
+  return Object.entries(room.gameState.players).every(([socketId, player]) => !connectedIds.has(socketId) || isSpectator(room, player) || (
+    goSignals.every((signal) => player.signalReactions && signal.id in player.signalReactions)
+  ));
+}
+
+/**
+ * Settle every player's reaction time when the tap phase ends
+ */
+export function finalizeReactions(room: Room): void {
+  const round = room.gameState.fastestFinger;
+  if (!round) return;
+  round.activeSignalId = null;
+  Object.values(room.gameState.players).forEach((player) => {
+    player.reactionTime = getAverageReaction(round, player, true);
+  });
+}
+
+/**
+ * What clients see: the variant and the active signal (without the answer)
+ */
+export function getFastestFingerView(room: Room): FastestFingerView {
+  const gameState = room.gameState;
+  const variant = getVariant(gameState.fastestFinger?.variant ?? gameState.fastestFingerVariant);
+  const round = gameState.fastestFinger;
+  const goSignals = round ? getGoSignals(round) : [];
+  const active = round ? getActiveSignal(round) : null;
+
+  return {
+    variant: variant.id,
+    label: variant.label,
+    instructions: variant.instructions,
+    attempts: round ? goSignals.length : 0,
+    signal: active && {
+      id: active.id,
+      kind: active.kind,
+      attempt: goSignals.indexOf(active) + 1,
+      targets: active.targets,
+      prompt: active.prompt,
+    },
+  };
+}
@@ -1,34 +1,44 @@
 import { Server } from 'socket.io';
 import config from './config';
 import * as botDetection from './botDetection';
+import * as clockSync from './clockSync';
 import * as persistence from './persistence';
+import * as validation from './validation';
 import Logger from './logger';
-import { GameState, LeaderboardEntry, Player } from './types';
+import { roomChannel } from './rooms';
+import { getRemainingSeconds, scheduleAt } from './scheduler';
+import { syncAdRotation } from './adRotation';
+import { recordAchievements } from './achievements';
+import {
+  ensureBudget,
+  getBudgetStatus,
+  getCampaignStandings,
+  getCampaignView,
+  isCampaignActive,
+  recordCampaignRound,
+} from './campaign';
+import { clearAuction, clearSlots, describeClearing } from './clearing';
+import { getDutchView } from './dutchAuction';
+import { archiveRoundEvents, logEvent } from './eventLog';
+import { getFastestFingerView } from './fastestFinger';
+import { ensureIdentity } from './identity';
+import { getShownAd, getShownCreative } from './moderation';
+import { getPhase, PhaseDefinition, RESULTS_PHASE_ID, WAITING_STATUS } from './phases';
+import { stopReplayPlayback } from './replay';
+import { takeRoundSnapshot } from './roundControl';
+import { recordRatings } from './rating';
+import { recordRound } from './roundHistory';
+import { ensureTeam, getTeamStandings, getTeamView } from './teams';
+import {
+  getTournamentStatus,
+  getTournamentView,
+  isSpectator,
+  isTournamentActive,
+  recordTournamentRound,
+} from './tournament';
+import { ClearingResult, CustomSocket, LeaderboardEntry, Player, Room } from './types';
 import { broadcastToHosts } from './socket';
 
-// Game state
-export const gameState: GameState = {
-  status: 'waiting',
-  players: {},
-  auctionDuration: 10,
-  countdownDuration: 3,
-  timeRemaining: 0,
-  winner: null,
-  winnerAd: null,
-  round: 0,
-  finalLeaderboard: [],
-  auctionScores: {},
-  fastestFingerStartTime: null,
-  fastestFingerCountdownDuration: 3,
-};
-
-// Intervals
-let countdownInterval: ReturnType<typeof setInterval> | null = null;
-let auctionInterval: ReturnType<typeof setInterval> | null = null;
-let fastestFingerCountdownInterval: ReturnType<typeof setInterval> | null = null;
-let fastestFingerTapTimeout: ReturnType<typeof setTimeout> | null = null;
-let colorIndex = 0;
-
 // Socket.io instance (set by server.ts)
 let io: Server;
 
@@ -36,33 +46,39 @@ export function setIO(ioInstance: Server): void {
   io = ioInstance;
 }
 
-export function clearAllIntervals(): void {
-  if (countdownInterval) {
-    clearInterval(countdownInterval);
-    countdownInterval = null;
-  }
-  if (auctionInterval) {
-    clearInterval(auctionInterval);
-    auctionInterval = null;
+export function clearAllIntervals(room: Room): void {
+  if (room.timers.phaseDeadline) {
+    room.timers.phaseDeadline.cancel();
+    room.timers.phaseDeadline = null;
   }
-  if (fastestFingerCountdownInterval) {
-    clearInterval(fastestFingerCountdownInterval);
-    fastestFingerCountdownInterval = null;
+  if (room.timers.phaseInterval) {
+    clearInterval(room.timers.phaseInterval);
+    room.timers.phaseInterval = null;
   }
-  if (fastestFingerTapTimeout) {
-    clearTimeout(fastestFingerTapTimeout);
-    fastestFingerTapTimeout = null;
+  room.timers.signalTasks.forEach((task) => task.cancel());
+  room.timers.signalTasks = [];
+  if (room.timers.dutchClaim) {
+    room.timers.dutchClaim.cancel();
+    room.timers.dutchClaim = null;
   }
 }
 
-export function getNextColor(): string {
-  const color = config.DSP_COLORS[colorIndex % config.DSP_COLORS.length];
-  colorIndex++;
+export function getNextColor(room: Room): string {
+  const color = config.DSP_COLORS[room.colorIndex % config.DSP_COLORS.length];
+  room.colorIndex++;
   return color;
 }
 
-export function resetGame(): void {
-  const connectedSockets = new Set([...io.sockets.sockets.keys()]);
+/**
+ * Ids of the sockets still connected (players who dropped stay in a round until it ends)
+ */
+export function getConnectedSocketIds(): Set<string> {
+  return new Set([...io.sockets.sockets.keys()]);
+}
+
+export function resetGame(room: Room): void {
+  const gameState = room.gameState;
+  const connectedSockets = getConnectedSocketIds();
   Object.keys(gameState.players).forEach((id) => {
     if (!connectedSockets.has(id)) {
       delete gameState.players[id];
@@ -71,20 +87,28 @@ export function resetGame(): void {
       gameState.players[id].suspicious = false;
       gameState.players[id].suspicionReason = null;
       gameState.players[id].reactionTime = null;
+      gameState.players[id].falseStart = false;
+      gameState.players[id].signalReactions = {};
       botDetection.resetBotDetectionData(id);
     }
   });
-  gameState.status = 'waiting';
-  gameState.winner = null;
-  gameState.winnerAd = null;
+  gameState.status = WAITING_STATUS;
+  gameState.winners = [];
+  gameState.clearing = null;
   gameState.timeRemaining = 0;
+  gameState.endsAt = null;
   gameState.finalLeaderboard = [];
   gameState.auctionScores = {};
   gameState.fastestFingerStartTime = null;
+  gameState.fastestFinger = null;
+  gameState.dutch = null;
+  gameState.pause = null;
 }
 
-export function getLeaderboard(): LeaderboardEntry[] {
+export function getLeaderboard(room: Room): LeaderboardEntry[] {
+  const gameState = room.gameState;
   return Object.entries(gameState.players)
+    .filter(([, player]) => !isSpectator(room, player))
     .map(([id, player]) => ({
       id,
       name: player.name,
@@ -92,43 +116,46 @@ export function getLeaderboard(): LeaderboardEntry[] {
       color: player.color,
       suspicious: player.suspicious || false,
       reactionTime: player.reactionTime ?? null,
+      falseStart: player.falseStart || false,
       finalScore: player.clicks, // Default to clicks, updated after Fastest Finger
+      teamId: player.teamId,
     }))
     .sort((a, b) => b.clicks - a.clicks);
 }
 
-export function calculateFinalScores(): LeaderboardEntry[] {
-  const entries = Object.entries(gameState.players).map(([id, player]) => ({
-    id,
-    name: player.name,
-    clicks: player.clicks,
-    color: player.color,
-    suspicious: player.suspicious || false,
-    reactionTime: player.reactionTime ?? null,
-    auctionScore: gameState.auctionScores[id] || player.clicks,
-  }));
-
-  // Sort by reaction time (fastest first, null/no-tap last)
-  const sortedByReaction = [...entries].sort((a, b) => {
-    if (a.reactionTime === null) return 1;
-    if (b.reactionTime === null) return -1;
-    return a.reactionTime - b.reactionTime;
+export function calculateFinalScores(room: Room): LeaderboardEntry[] {
+  const gameState = room.gameState;
+  let entries: LeaderboardEntry[] = Object.entries(gameState.players)
+    .filter(([, player]) => !isSpectator(room, player))
+    .map(([id, player]) => ({
+      id,
+      name: player.name,
+      clicks: player.clicks,
+      color: player.color,
+      suspicious: player.suspicious || false,
+      reactionTime: player.reactionTime ?? null,
+      falseStart: player.falseStart || false,
+      auctionScore: gameState.auctionScores[id] || player.clicks,
+      finalScore: 0,
+      teamId: player.teamId,
+      identityId: player.identityId,
+    }));
+
+  // Each phase of the round contributes to the final score, in round order
+  gameState.roundPhases.forEach((phaseId) => {
+    const phase = getPhase(phaseId);
+    if (phase?.applyScore) {
+      entries = phase.applyScore(room, entries);
+    }
   });
 
-  // Apply multipliers based on reaction time ranking
-  const withMultipliers = sortedByReaction.map((entry, index) => {
-    const multiplier = entry.reactionTime !== null
-      ? (config.FASTEST_FINGER_MULTIPLIERS[index] || 1.0)
-      : 1.0; // No multiplier if didn't tap
-    
-    return {
-      ...entry,
-      finalScore: Math.round(entry.auctionScore * multiplier),
-    };
+  // Sort by final score (highest first), faster reaction breaks ties
+  return entries.sort((a, b) => {
+    if (b.finalScore !== a.finalScore) return b.finalScore - a.finalScore;
+    if (a.reactionTime === null) return b.reactionTime === null ? 0 : 1;
+    if (b.reactionTime === null) return -1;
+    return a.reactionTime - b.reactionTime;
   });
-
-  // Sort by final score (highest first) for winner determination
-  return withMultipliers.sort((a, b) => b.finalScore - a.finalScore);
 }
 
 // Cache all-time leaderboard to avoid recalculating on every broadcast
@@ -145,10 +172,14 @@ function getCachedAllTimeLeaderboard(): persistence.LeaderboardEntry[] {
   return cachedAllTimeLeaderboard;
 }
 
-export function broadcastState(): void {
-  const fullLeaderboard = gameState.status === 'finished' && gameState.finalLeaderboard.length > 0
+/**
+ * What clients are sent as `gameState` (replays build their frames with it too)
+ */
+export function getStatePayload(room: Room, now: number = Date.now()): Record<string, unknown> {
+  const gameState = room.gameState;
+  const fullLeaderboard = gameState.status === RESULTS_PHASE_ID && gameState.finalLeaderboard.length > 0
     ? gameState.finalLeaderboard
-    : getLeaderboard();
+    : getLeaderboard(room);
 
   // OPTIMIZATION: Only send top 10 in the leaderboard to reduce payload size
   // Display page shows top 10, players see their own rank via personal state
@@ -158,208 +189,248 @@ export function broadcastState(): void {
 
   // Base state (always sent)
   const baseState = {
+    roomCode: room.code,
     status: gameState.status,
     timeRemaining: gameState.timeRemaining,
+    endsAt: gameState.endsAt,
+    serverNow: now, // Lets clients correct for clock skew when counting down to endsAt
     leaderboard: slimLeaderboard,
-    winner: gameState.winner,
-    winnerAd: gameState.winnerAd,
+    winners: gameState.winners,
+    clearing: gameState.clearing,
+    campaign: getCampaignView(room, isRoundInProgress(room)),
+    teams: getTeamView(room, fullLeaderboard),
+    tournament: getTournamentView(room),
     round: gameState.round,
+    paused: !!gameState.pause,
     playerCount: playerCount,
+    fastestFinger: getFastestFingerView(room),
+    dutch: getDutchView(room),
   };
 
   // Only include expensive data when needed
-  const isActiveGame = ['auction_countdown', 'auction', 'fastestFinger_countdown', 'fastestFinger_tap'].includes(gameState.status);
-  
-  if (isActiveGame) {
+  if (isRoundInProgress(room)) {
     // During active game, include all data
-    io.emit('gameState', {
+    return {
       ...baseState,
       allTimeLeaderboard: getCachedAllTimeLeaderboard(),
       auctionScores: gameState.auctionScores,
       fastestFingerStartTime: gameState.fastestFingerStartTime,
-    });
-  } else {
-    // When idle (waiting/finished), send minimal payload
-    io.emit('gameState', {
-      ...baseState,
-      allTimeLeaderboard: getCachedAllTimeLeaderboard(),
-      auctionScores: {},
-      fastestFingerStartTime: null,
-    });
+    };
   }
+  // When idle (waiting/finished), send minimal payload
+  return {
+    ...baseState,
+    allTimeLeaderboard: getCachedAllTimeLeaderboard(),
+    auctionScores: {},
+    fastestFingerStartTime: null,
+  };
 }
 
-export function addPlayer(socketId: string, playerData: Player): void {
-  gameState.players[socketId] = playerData;
+export function broadcastState(room: Room): void {
+  io.to(roomChannel(room.code)).emit('gameState', getStatePayload(room));
+  syncAdRotation(room);
 }
 
-export function removePlayer(socketId: string): void {
-  delete gameState.players[socketId];
+export function addPlayer(room: Room, socketId: string, playerData: Player): void {
+  room.gameState.players[socketId] = playerData;
 }
 
-export function getPlayer(socketId: string): Player | undefined {
-  return gameState.players[socketId];
+export function removePlayer(room: Room, socketId: string): void {
+  delete room.gameState.players[socketId];
 }
 
-export function startClickAuction(): void {
-  gameState.status = 'auction';
-  gameState.timeRemaining = gameState.auctionDuration;
+export function getPlayer(room: Room, socketId: string): Player | undefined {
+  return room.gameState.players[socketId];
+}
 
-  const playerCount = Object.keys(gameState.players).length;
-  Logger.info(`🎯 CLICK AUCTION STARTED | Round ${gameState.round} | ${playerCount} players | ${gameState.auctionDuration}s duration`);
-  broadcastToHosts('auction_start', `🎯 CLICK AUCTION STARTED | ${playerCount} players | ${gameState.auctionDuration}s`, 'game');
-
-  broadcastState();
-
-  auctionInterval = setInterval(() => {
-    gameState.timeRemaining--;
-    
-    // Log live stats every second
-    const totalClicks = Object.values(gameState.players).reduce((sum, p) => sum + p.clicks, 0);
-    const topPlayer = Object.values(gameState.players).sort((a, b) => b.clicks - a.clicks)[0];
-    Logger.info(`⏱️  ${gameState.timeRemaining}s remaining | Total clicks: ${totalClicks} | Leader: ${topPlayer?.name || 'N/A'} (${topPlayer?.clicks || 0})`);
-    
-    broadcastState();
-
-    if (gameState.timeRemaining <= 0) {
-      if (auctionInterval) {
-        clearInterval(auctionInterval);
-        auctionInterval = null;
-      }
-      endClickAuction();
-    }
-  }, config.TICK_INTERVAL_MS);
+export function emitToRoom(room: Room, event: string, payload: unknown): void {
+  io.to(roomChannel(room.code)).emit(event, payload);
 }
 
-export function endClickAuction(): void {
-  // Preserve Click Auction scores
-  gameState.auctionScores = {};
-  Object.entries(gameState.players).forEach(([id, player]) => {
-    gameState.auctionScores[id] = player.clicks;
-    // Reset reaction time for Fastest Finger
-    player.reactionTime = null;
+/**
+ * Send each player their own campaign budget
+ */
+export function emitBudgets(room: Room): void {
+  Object.entries(room.gameState.players).forEach(([socketId, player]) => {
+    const status = getBudgetStatus(room, player);
+    if (status) io.to(socketId).emit('campaignBudget', status);
   });
+}
 
-  const totalClicks = Object.values(gameState.auctionScores).reduce((sum, c) => sum + c, 0);
-  const sortedPlayers = Object.values(gameState.players)
-    .map((p) => ({ name: p.name, clicks: p.clicks }))
-    .sort((a, b) => b.clicks - a.clicks);
-  
-  Logger.info(`🏁 CLICK AUCTION ENDED | Total: ${totalClicks} clicks`);
-  Logger.info(`📊 TOP 5: ${sortedPlayers.slice(0, 5).map((p, i) => `${i + 1}. ${p.name} (${p.clicks})`).join(' | ')}`);
-  broadcastToHosts('auction_end', `🏁 AUCTION ENDED | ${totalClicks} clicks`, 'game');
-  broadcastToHosts('auction_top5', `📊 TOP 5: ${sortedPlayers.slice(0, 5).map((p, i) => `${i + 1}. ${p.name} (${p.clicks})`).join(' | ')}`, 'game');
-
-  // Start Fastest Finger countdown
-  gameState.status = 'fastestFinger_countdown';
-  gameState.timeRemaining = gameState.fastestFingerCountdownDuration;
-
-  Logger.info(`⚡ FASTEST FINGER starting in ${gameState.fastestFingerCountdownDuration}s...`);
-
-  broadcastState();
-
-  fastestFingerCountdownInterval = setInterval(() => {
-    gameState.timeRemaining--;
-    broadcastState();
+/**
+ * Send each player their own place in the tournament
+ */
+export function emitTournamentStatuses(room: Room): void {
+  Object.entries(room.gameState.players).forEach(([socketId, player]) => {
+    const status = getTournamentStatus(room, player);
+    if (status) io.to(socketId).emit('tournamentStatus', status);
+  });
+}
 
-    if (gameState.timeRemaining <= 0) {
-      if (fastestFingerCountdownInterval) {
-        clearInterval(fastestFingerCountdownInterval);
-        fastestFingerCountdownInterval = null;
-      }
-      startFastestFingerTap();
-    }
-  }, config.TICK_INTERVAL_MS);
+export function isRoundInProgress(room: Room): boolean {
+  const status = room.gameState.status;
+  return status !== WAITING_STATUS && status !== RESULTS_PHASE_ID;
 }
 
-export function startFastestFingerTap(): void {
-  gameState.status = 'fastestFinger_tap';
-  gameState.fastestFingerStartTime = Date.now();
+/**
+ * Start a new round: runs the room's configured phases in order, then results
+ */
+export function startRound(room: Room): void {
+  const gameState = room.gameState;
+  clearAllIntervals(room);
+  stopReplayPlayback(room);
+  resetGame(room);
+  gameState.round++;
+  gameState.phaseIndex = -1;
+  takeRoundSnapshot(room);
 
   const playerCount = Object.keys(gameState.players).length;
-  Logger.info(`⚡ FASTEST FINGER TAP! | ${playerCount} players racing...`);
-
-  broadcastState();
+  const phaseList = gameState.roundPhases.map((id) => getPhase(id)?.label ?? id).join(' → ');
+  const campaign = isCampaignActive(room) ? gameState.campaign : null;
+  if (campaign) {
+    Object.values(gameState.players).forEach((player) => ensureBudget(room, player));
+    emitBudgets(room);
+  }
+  Object.values(gameState.players).forEach((player) => ensureTeam(room, player));
+  const tournament = isTournamentActive(room) ? gameState.tournament : null;
+  broadcastToHosts(room, 'game_started', `Round ${gameState.round} started with ${playerCount} players`, 'success');
+  Logger.info(`🚀 ═══════════════════════════════════════════════════════════`);
+  Logger.info(`🚀 ROUND ${gameState.round} STARTING! (Room ${room.code})`);
+  Logger.info(`🚀 Players: ${playerCount} | Auction: ${gameState.auctionDuration}s | Countdown: ${gameState.countdownDuration}s`);
+  Logger.info(`🚀 Phases: ${phaseList}`);
+  if (campaign) {
+    Logger.info(`🚀 Campaign round ${campaign.roundsPlayed + 1}/${campaign.totalRounds} | Budget: ${campaign.budgetPerPlayer} taps per DSP`);
+  }
+  if (tournament) {
+    Logger.info(`🚀 Tournament round ${tournament.rounds.length + 1} | ${tournament.alive.length}/${tournament.entrants.length} DSPs left`);
+  }
+  Logger.info(`🚀 ═══════════════════════════════════════════════════════════`);
 
-  // Set timeout for Fastest Finger (players have limited time to tap)
-  fastestFingerTapTimeout = setTimeout(() => {
-    endFastestFinger();
-  }, config.FASTEST_FINGER_TAP_TIMEOUT_MS);
+  // The room as the round begins - a replay of the round starts from here
+  logEvent(room, { type: 'round_start', state: { ...gameState, roundSnapshot: null } });
+  advancePhase(room);
 }
 
-export function recordReactionTime(socketId: string): boolean {
-  // Only record if player hasn't already tapped
-  if (gameState.status !== 'fastestFinger_tap') return false;
-  if (!gameState.players[socketId]) return false;
-  if (gameState.players[socketId].reactionTime !== null && gameState.players[socketId].reactionTime !== undefined) {
-    return false; // Already recorded
-  }
-
-  const reactionTime = Date.now() - (gameState.fastestFingerStartTime || Date.now());
-  gameState.players[socketId].reactionTime = reactionTime;
+/**
+ * Leave the current phase and enter the next one in the round
+ */
+export function advancePhase(room: Room): void {
+  const gameState = room.gameState;
+  clearAllIntervals(room);
 
-  // Check if all players have tapped
-  const allTapped = Object.values(gameState.players).every(
-    (player) => player.reactionTime !== null && player.reactionTime !== undefined
-  );
+  if (isRoundInProgress(room)) {
+    getPhase(gameState.status)?.onExit?.(room);
+  }
 
-  if (allTapped) {
-    if (fastestFingerTapTimeout) {
-      clearTimeout(fastestFingerTapTimeout);
-      fastestFingerTapTimeout = null;
-    }
-    endFastestFinger();
+  gameState.phaseIndex++;
+  const nextPhaseId = gameState.roundPhases[gameState.phaseIndex] ?? RESULTS_PHASE_ID;
+  const nextPhase = getPhase(nextPhaseId) || getPhase(RESULTS_PHASE_ID);
+  if (nextPhase) {
+    enterPhase(room, nextPhase);
   }
+}
 
-  return true;
+function enterPhase(room: Room, phase: PhaseDefinition): void {
+  const gameState = room.gameState;
+  gameState.status = phase.id;
+  phase.onEnter?.(room);
+
+  // Read after onEnter so a phase can size itself from what it set up
+  const duration = phase.getDuration(room);
+  gameState.endsAt = duration === null ? null : Date.now() + duration * 1000;
+  gameState.timeRemaining = gameState.endsAt === null ? 0 : getRemainingSeconds(gameState.endsAt);
+  logEvent(room, { type: 'phase', phase: phase.id, endsAt: gameState.endsAt });
+  if (phase.id === RESULTS_PHASE_ID) archiveRoundEvents(room);
+  broadcastState(room);
+  armPhaseTimers(room, phase);
 }
 
-export function endFastestFinger(): void {
-  if (fastestFingerTapTimeout) {
-    clearTimeout(fastestFingerTapTimeout);
-    fastestFingerTapTimeout = null;
-  }
+/**
+ * Schedule the end of the current phase at gameState.endsAt, with ticks in
+ * between. Phases without a duration stay until the host acts (e.g. results).
+ */
+export function armPhaseTimers(room: Room, phase: PhaseDefinition): void {
+  const gameState = room.gameState;
+  if (gameState.endsAt === null) return;
+  const endsAt = gameState.endsAt;
+
+  // The deadline ends the phase; ticks only refresh clients
+  room.timers.phaseDeadline = scheduleAt(endsAt, () => advancePhase(room));
+  room.timers.phaseInterval = setInterval(() => {
+    gameState.timeRemaining = getRemainingSeconds(endsAt);
+    phase.onTick?.(room);
+    broadcastState(room);
+  }, config.TICK_INTERVAL_MS);
+}
 
-  gameState.status = 'finished';
+/**
+ * Route a player's `click` to the active phase's input handler. Clicks that
+ * get this far are written to the event log.
+ */
+export function handleClick(room: Room, socket: CustomSocket, data?: unknown, now: number = Date.now()): void {
+  const player = room.gameState.players[socket.id];
+  if (!player || room.gameState.pause || isSpectator(room, player)) return;
+  const phase = getPhase(room.gameState.status);
+  if (!phase?.onClick || validation.isRateLimited(socket.id, now)) return;
+
+  const payload = validation.sanitizeClickPayload(data);
+  logEvent(room, { type: 'click', playerId: socket.id, payload, clock: clockSync.getClockEstimate(socket.id) }, now);
+  phase.onClick({ room, socket, payload, now });
+}
+
+/**
+ * Final scores, the clearing and the slot awards - no side effects, so the
+ * round replay scores with it too
+ */
+export function scoreRound(room: Room): LeaderboardEntry[] {
+  const gameState = room.gameState;
 
-  // Calculate final scores with Fastest Finger multipliers
-  const leaderboard = calculateFinalScores();
+  const leaderboard = calculateFinalScores(room);
   gameState.finalLeaderboard = leaderboard;
 
-  // Log fastest finger results
-  const tappedPlayers = leaderboard.filter(p => p.reactionTime !== null).sort((a, b) => (a.reactionTime || 0) - (b.reactionTime || 0));
-  const didntTap = leaderboard.filter(p => p.reactionTime === null).length;
-  
-  Logger.info(`⚡ FASTEST FINGER RESULTS:`);
-  if (tappedPlayers.length > 0) {
-    Logger.info(`   🥇 Fastest: ${tappedPlayers[0].name} (${tappedPlayers[0].reactionTime}ms)`);
-    if (tappedPlayers.length > 1) Logger.info(`   🥈 2nd: ${tappedPlayers[1].name} (${tappedPlayers[1].reactionTime}ms)`);
-    if (tappedPlayers.length > 2) Logger.info(`   🥉 3rd: ${tappedPlayers[2].name} (${tappedPlayers[2].reactionTime}ms)`);
-    
-    // Broadcast fastest finger top 3 to host
-    let ffResults = `⚡ FASTEST FINGER: 🥇 ${tappedPlayers[0].name} (${tappedPlayers[0].reactionTime}ms)`;
-    if (tappedPlayers.length > 1) ffResults += ` | 🥈 ${tappedPlayers[1].name} (${tappedPlayers[1].reactionTime}ms)`;
-    if (tappedPlayers.length > 2) ffResults += ` | 🥉 ${tappedPlayers[2].name} (${tappedPlayers[2].reactionTime}ms)`;
-    broadcastToHosts('fastest_finger', ffResults, 'game');
-  }
-  if (didntTap > 0) Logger.info(`   ❌ ${didntTap} player(s) didn't tap`);
-
-  let winnerName: string | null = null;
-  if (leaderboard.length > 0 && leaderboard[0].finalScore > 0) {
-    const winnerId = leaderboard[0].id;
-    gameState.winner = {
-      ...gameState.players[winnerId],
-      id: winnerId,
+  // The top N final scores each win a slot, as long as their bid clears.
+  // A Dutch auction claimant pays the price they accepted.
+  const clearingMode = gameState.dutch?.claim ? 'first_price' : gameState.clearingMode;
+  const slotResults = clearSlots(leaderboard, clearingMode, gameState.floorPrice, gameState.adSlots);
+  gameState.clearing = slotResults[0] ?? clearAuction(leaderboard, clearingMode, gameState.floorPrice);
+  gameState.winners = slotResults.map((result, slot) => {
+    const entry = leaderboard[slot];
+    const player = gameState.players[entry.id];
+    return {
+      ...player,
+      adContent: getShownAd(room, player), // The house ad until the creative is approved
+      creative: getShownCreative(room, player),
+      id: entry.id,
+      slot,
+      slotLabel: config.AD_SLOT_LABELS[slot],
+      finalScore: entry.finalScore,
+      clearingPrice: result.clearingPrice ?? entry.finalScore,
     };
-    gameState.winnerAd = gameState.players[winnerId].adContent;
-    winnerName = gameState.winner.name;
-  }
+  });
+  return leaderboard;
+}
+
+/**
+ * Results phase: compute final scores, award the ad slots and record all-time stats
+ */
+export function finishRound(room: Room): void {
+  const gameState = room.gameState;
+  const leaderboard = scoreRound(room);
+  const clearing = gameState.clearing as ClearingResult; // Always set by scoreRound
+  const winnerName = gameState.winners[0]?.name ?? null;
 
   // Log final results
   Logger.info(`🏆 ═══════════════════════════════════════════════════════════`);
-  Logger.info(`🏆 ROUND ${gameState.round} COMPLETE!`);
+  Logger.info(`🏆 ROUND ${gameState.round} COMPLETE! (Room ${room.code})`);
   Logger.info(`🏆 ═══════════════════════════════════════════════════════════`);
   Logger.info(`🏆 WINNER: ${winnerName || 'No winner'} with ${leaderboard[0]?.finalScore || 0} points`);
+  Logger.info(`💰 CLEARING: ${describeClearing(clearing)}`);
+  if (gameState.adSlots > 1) {
+    Logger.info(`🖼️ SLOTS: ${gameState.winners.length}/${gameState.adSlots} sold`);
+    gameState.winners.forEach((award) => {
+      Logger.info(`   ${award.slot + 1}. ${award.slotLabel}: ${award.name} (bid ${award.finalScore}, pays ${award.clearingPrice})`);
+    });
+  }
   Logger.info(`📊 FINAL LEADERBOARD:`);
   leaderboard.slice(0, 10).forEach((player, i) => {
     const medal = i === 0 ? '🥇' : i === 1 ? '🥈' : i === 2 ? '🥉' : `${i + 1}.`;
@@ -372,50 +443,150 @@ export function endFastestFinger(): void {
   Logger.info(`🏆 ═══════════════════════════════════════════════════════════`);
 
   // Broadcast winner and top 3 to host
-  broadcastToHosts('round_complete', `🏆 ROUND ${gameState.round} COMPLETE!`, 'success');
-  broadcastToHosts('winner', `🏆 WINNER: ${winnerName || 'No winner'} with ${leaderboard[0]?.finalScore || 0} points`, 'success');
+  broadcastToHosts(room, 'round_complete', `🏆 ROUND ${gameState.round} COMPLETE!`, 'success');
+  broadcastToHosts(room, 'winner', `🏆 WINNER: ${winnerName || 'No winner'} with ${leaderboard[0]?.finalScore || 0} points`, 'success');
+  broadcastToHosts(room, 'clearing', `💰 ${describeClearing(clearing)}`, 'game');
+  if (gameState.adSlots > 1) {
+    const awards = gameState.winners.map((award) => `${award.slotLabel}: ${award.name} (pays ${award.clearingPrice})`).join(' | ');
+    broadcastToHosts(room, 'slot_awards', `🖼️ ${gameState.winners.length}/${gameState.adSlots} slots sold${awards ? ` - ${awards}` : ''}`, 'game');
+  }
   
   const top3 = leaderboard.slice(0, 3).map((p, i) => {
     const medal = i === 0 ? '🥇' : i === 1 ? '🥈' : '🥉';
     return `${medal} ${p.name}: ${p.finalScore} pts`;
   }).join(' | ');
-  broadcastToHosts('leaderboard_top3', `📊 ${top3}`, 'game');
+  broadcastToHosts(room, 'leaderboard_top3', `📊 ${top3}`, 'game');
 
-  leaderboard.forEach((player) => {
-    // Track auction taps, reaction time, and final score
+  const record = recordRound(room, leaderboard);
+  // All-time stats are kept by persistent player id
+  const playerIds = leaderboard.map((entry) => ensureIdentity(gameState.players[entry.id]));
+
+  // An aborted round puts these records back
+  if (gameState.roundSnapshot) {
+    gameState.roundSnapshot.stats = persistence.takeStatsSnapshot(
+      playerIds,
+      getTeamStandings(room, leaderboard).map((team) => team.name)
+    );
+    gameState.roundSnapshot.recordId = record.id;
+  }
+
+  // Best slot each player won (awards are best slot first)
+  const wonSlots: Record<string, number> = {};
+  gameState.winners.forEach((award) => {
+    const playerId = playerIds[leaderboard.findIndex((entry) => entry.id === award.id)];
+    if (playerId !== undefined && wonSlots[playerId] === undefined) wonSlots[playerId] = award.slot;
+  });
+
+  leaderboard.forEach((player, i) => {
+    // A player on two devices counts once, with their best placement (as in the ratings)
+    if (playerIds.indexOf(playerIds[i]) !== i) return;
+    // Track auction taps, reaction time, final score and any slot won
     const auctionTaps = player.auctionScore ?? player.clicks;
     persistence.updatePlayerStats(
-      player.name,
+      playerIds[i],
       auctionTaps,
-      player.reactionTime,
+      player.falseStart ? null : player.reactionTime, // A false start can't set a best reaction time
       player.finalScore,
-      player.name === winnerName
+      wonSlots[playerIds[i]] ?? null
     );
   });
 
+  // Each player's rating moves with where they placed against everyone else
+  const ratingChanges = recordRatings(playerIds, leaderboard.map((player) => player.finalScore));
+  leaderboard.forEach((player, i) => {
+    io.to(player.id).emit('ratingUpdate', ratingChanges[playerIds[i]]);
+  });
+
+  recordAchievements(room, leaderboard, playerIds).forEach((unlock) => {
+    const { icon, name } = unlock.achievement;
+    io.to(unlock.socketId).emit('achievementUnlocked', unlock.achievement);
+    Logger.gameEvent('Achievement unlocked', { room: room.code, player: unlock.name, achievement: unlock.achievement.id });
+    broadcastToHosts(room, 'achievement', `${icon} ${unlock.name} unlocked ${name}`, 'player');
+  });
+
+  if (isCampaignActive(room)) {
+    recordCampaignStanding(room, gameState.winners.map((award) => award.id));
+  }
+
+  if (gameState.teams) {
+    recordTeamResults(room, leaderboard);
+  }
+
+  if (isTournamentActive(room)) {
+    recordTournamentStanding(room, leaderboard);
+  }
+
   persistence.saveScores().catch((err) => {
     Logger.error('Failed to save scores:', err);
   });
-
-  broadcastState();
+  persistence.saveRounds().catch((err) => {
+    Logger.error('Failed to save round history:', err);
+  });
+  persistence.saveAchievements().catch((err) => {
+    Logger.error('Failed to save achievements:', err);
+  });
 }
 
-// Legacy aliases for backwards compatibility
-export function startBidding(): void {
-  startClickAuction();
+/**
+ * Count the round towards the campaign and report the standings
+ */
+function recordCampaignStanding(room: Room, winnerIds: string[]): void {
+  const campaign = room.gameState.campaign;
+  if (!campaign) return;
+  const isComplete = recordCampaignRound(room, winnerIds);
+  const top3 = getCampaignStandings(room).slice(0, 3)
+    .map((s, i) => `${i + 1}. ${s.name} (${s.impressions} imp, ${s.spent} spent)`)
+    .join(' | ');
+
+  if (isComplete) {
+    Logger.info(`📣 CAMPAIGN COMPLETE after ${campaign.totalRounds} rounds | ${top3}`);
+    broadcastToHosts(room, 'campaign_complete', `📣 CAMPAIGN COMPLETE: ${top3}`, 'success');
+  } else {
+    Logger.info(`📣 Campaign round ${campaign.roundsPlayed}/${campaign.totalRounds} | ${top3}`);
+    broadcastToHosts(room, 'campaign_round', `📣 Campaign ${campaign.roundsPlayed}/${campaign.totalRounds}: ${top3}`, 'game');
+  }
+  emitBudgets(room);
 }
 
-export function endAuction(): void {
-  endClickAuction();
-}
+/**
+ * Report the team standings and record all-time team stats. The top team wins
+ * the round if it scored at all.
+ */
+function recordTeamResults(room: Room, leaderboard: LeaderboardEntry[]): void {
+  const standings = getTeamStandings(room, leaderboard).filter((team) => team.members > 0);
+  const winner = standings[0] && standings[0].finalScore > 0 ? standings[0] : null;
+  standings.forEach((team) => {
+    persistence.updateTeamStats(team.name, team.taps, team.finalScore, team === winner);
+  });
 
-export function setCountdownInterval(interval: ReturnType<typeof setInterval>): void {
-  countdownInterval = interval;
+  const summary = standings.slice(0, 3)
+    .map((team, i) => `${i + 1}. ${team.name}: ${team.finalScore} pts (${team.members} DSPs)`)
+    .join(' | ');
+  Logger.info(`🤝 TEAMS: ${summary || 'no team played'}`);
+  broadcastToHosts(room, 'team_results', `🤝 Team winner: ${winner ? winner.name : 'none'}${summary ? ` - ${summary}` : ''}`, 'game');
 }
 
-export function clearCountdownInterval(): void {
-  if (countdownInterval) {
-    clearInterval(countdownInterval);
-    countdownInterval = null;
+/**
+ * Knock out the bottom of the round, tell everyone where they stand and save
+ * the bracket
+ */
+function recordTournamentStanding(room: Room, leaderboard: LeaderboardEntry[]): void {
+  const tournament = room.gameState.tournament;
+  const round = recordTournamentRound(room, leaderboard);
+  if (!tournament || !round) return;
+
+  const knockedOut = round.results.filter((r) => r.eliminated).map((r) => r.name);
+  const summary = `${knockedOut.length} knocked out${knockedOut.length ? ` (${knockedOut.slice(0, 5).join(', ')}${knockedOut.length > 5 ? ', ...' : ''})` : ''}`;
+  if (tournament.endedAt) {
+    Logger.info(`👑 TOURNAMENT COMPLETE after ${round.round} rounds | Champion: ${tournament.champion ?? 'none'}`);
+    broadcastToHosts(room, 'tournament_complete', `👑 TOURNAMENT CHAMPION: ${tournament.champion ?? 'none'} (${tournament.entrants.length} entrants, ${round.round} rounds)`, 'success');
+  } else {
+    Logger.info(`🏟️ Tournament round ${round.round}: ${summary} | ${tournament.alive.length} left`);
+    broadcastToHosts(room, 'tournament_round', `🏟️ Tournament round ${round.round}: ${summary} - ${tournament.alive.length} left`, 'game');
   }
+  emitTournamentStatuses(room);
+
+  persistence.saveTournaments().catch((err) => {
+    Logger.error('Failed to save tournaments:', err);
+  });
 }
@@ -0,0 +1,129 @@
+// ============================================
+// PLAYER IDENTITY (Persistent Player Ids)
+// ============================================
+// The first time a device joins it is issued a player id and a secret key,
+// which it keeps in localStorage next to its session token. All-time stats
+// are kept under the id, so the name is only a display attribute: two
+// players called "Alex" stay apart, and a returning player can change
+// theirs. Only a hash of the key is stored.
+//
+// The host can merge identities that belong to the same person (e.g. a
+// record migrated from the old name-keyed stats into the player's new
+// identity) and split a merged identity off again.
+
+import crypto from 'crypto';
+import * as persistence from './persistence';
+import Logger from './logger';
+import type { PlayerIdentity } from './persistence';
+import { Player } from './types';
+
+export interface PlayerCredentials {
+  id: string;
+  key: string;
+}
+
+export interface IdentityJoin {
+  identity: PlayerIdentity;
+  credentials: PlayerCredentials | null; // Newly issued - the device must keep them
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function keysMatch(key: string, keyHash: string): boolean {
+  return crypto.timingSafeEqual(Buffer.from(hashKey(key)), Buffer.from(keyHash));
+}
+
+function saveIdentities(): void {
+  persistence.savePlayerIdentities().catch((err) => {
+    Logger.error('Failed to save player identities:', err);
+  });
+}
+
+/**
+ * Issue a new player identity. With `withKey` false no device can ever
+ * claim it (players that joined without one).
+ */
+export function issueIdentity(name: string, withKey = true, now: number = Date.now()): IdentityJoin {
+  const key = withKey ? 'key_' + crypto.randomBytes(24).toString('base64url') : null;
+  const identity: PlayerIdentity = {
+    id: 'plr_' + crypto.randomBytes(16).toString('base64url'),
+    name,
+    keyHash: key ? hashKey(key) : null,
+    mergedInto: null,
+    createdAt: new Date(now).toISOString(),
+    lastSeen: new Date(now).toISOString(),
+  };
+  persistence.setPlayerIdentity(identity);
+  return { identity, credentials: key ? { id: identity.id, key } : null };
+}
+
+/**
+ * The identity a device's stored credentials belong to (null if they don't check out)
+ */
+export function verifyCredentials(credentials: unknown): PlayerIdentity | null {
+  if (!credentials || typeof credentials !== 'object') return null;
+  const { id, key } = credentials as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof key !== 'string') return null;
+
+  const identity = persistence.getPlayerIdentity(id);
+  if (!identity?.keyHash || !keysMatch(key, identity.keyHash)) return null;
+  return identity;
+}
+
+/**
+ * Identify a joining player: the device's own identity if its credentials
+ * check out (taking on the name it joined with), otherwise a new one
+ */
+export function joinAsIdentity(credentials: unknown, name: string, now: number = Date.now()): IdentityJoin {
+  const identity = verifyCredentials(credentials);
+  if (!identity) {
+    const issued = issueIdentity(name, true, now);
+    saveIdentities();
+    return issued;
+  }
+
+  persistence.setPlayerIdentity({ ...identity, name, lastSeen: new Date(now).toISOString() });
+  saveIdentities();
+  return { identity: persistence.getPlayerIdentity(identity.id) as PlayerIdentity, credentials: null };
+}
+
+/**
+ * The player id a player's stats are recorded under (one is issued if the
+ * player has none)
+ */
+export function ensureIdentity(player: Player, now: number = Date.now()): string {
+  if (!player.identityId) {
+    player.identityId = issueIdentity(player.name, false, now).identity.id;
+  }
+  return player.identityId;
+}
+
+/**
+ * Merge one identity into another: its stats count towards the other's
+ * from now on. Refused if either is unknown or they are already one player.
+ */
+export function mergeIdentities(sourceId: string, targetId: string): boolean {
+  const source = persistence.getPlayerIdentity(sourceId);
+  if (!source || !persistence.getPlayerIdentity(targetId)) return false;
+
+  const target = persistence.resolvePlayerId(targetId);
+  if (persistence.resolvePlayerId(sourceId) === target) return false;
+
+  persistence.setPlayerIdentity({ ...source, mergedInto: target });
+  saveIdentities();
+  return true;
+}
+
+/**
+ * Split a merged identity off again, with the stats it brought along
+ */
+export function splitIdentity(id: string): boolean {
+  const identity = persistence.getPlayerIdentity(id);
+  if (!identity?.mergedInto) return false;
+
+  persistence.setPlayerIdentity({ ...identity, mergedInto: null });
+  saveIdentities();
+  return true;
+}
@@ -5,6 +5,7 @@ export * as session from './session';
 export * as auth from './auth';
 export * as botDetection from './botDetection';
 export * as persistence from './persistence';
+export * as rooms from './rooms';
 export { default as Logger } from './logger';
 export * as middleware from './middleware';
 
@@ -0,0 +1,105 @@
+// ============================================
+// LEADERBOARD CATEGORIES
+// ============================================
+// The all-time leaderboard ranks by wins (or rating); the categories rank
+// the same players by one stat each - fastest reaction ever, average taps
+// per round, win rate and longest win streak. Each category says how to
+// read its value off a player's stats and who qualifies, so they work on
+// any season's leaderboard, live or archived. The big screen rotates
+// through them in the order set in config.
+
+import config from './config';
+import * as persistence from './persistence';
+import type { LeaderboardEntry } from './persistence';
+import { LeaderboardCategory } from './types';
+
+export interface CategoryInfo {
+  id: LeaderboardCategory;
+  title: string;
+  icon: string;
+  unit: string;
+  description: string;
+}
+
+export interface CategoryEntry {
+  id: string; // Player id
+  name: string;
+  value: number;
+  roundsPlayed: number;
+}
+
+export interface CategoryLeaderboard {
+  category: CategoryInfo;
+  entries: CategoryEntry[];
+}
+
+interface CategoryDefinition extends Omit<CategoryInfo, 'id'> {
+  lowerIsBetter?: boolean;
+  value: (stats: LeaderboardEntry) => number | null; // null = doesn't qualify
+}
+
+const CATEGORIES: Record<LeaderboardCategory, CategoryDefinition> = {
+  fastest_reaction: {
+    title: 'Fastest Reaction',
+    icon: '⚡',
+    unit: 'ms',
+    description: 'Best Fastest Finger reaction ever',
+    lowerIsBetter: true,
+    value: (stats) => stats.bestReactionTime,
+  },
+  avg_taps: {
+    title: 'Average Taps',
+    icon: '👆',
+    unit: 'taps',
+    description: 'Auction taps per round played',
+    value: (stats) => (stats.roundsPlayed > 0 ? Math.round((stats.totalAuctionTaps / stats.roundsPlayed) * 10) / 10 : null),
+  },
+  win_rate: {
+    title: 'Win Rate',
+    icon: '🎯',
+    unit: '%',
+    description: `Rounds won, with at least ${config.WIN_RATE_MIN_ROUNDS} played`,
+    value: (stats) => (stats.roundsPlayed >= config.WIN_RATE_MIN_ROUNDS ? Math.round((stats.wins / stats.roundsPlayed) * 100) : null),
+  },
+  win_streak: {
+    title: 'Longest Win Streak',
+    icon: '🔥',
+    unit: 'wins',
+    description: 'Most rounds won in a row',
+    value: (stats) => (stats.longestWinStreak ? stats.longestWinStreak : null),
+  },
+};
+
+/**
+ * What a category ranks by
+ */
+export function getCategoryInfo(category: LeaderboardCategory): CategoryInfo {
+  const { title, icon, unit, description } = CATEGORIES[category];
+  return { id: category, title, icon, unit, description };
+}
+
+/**
+ * Every category, in the order the big screen rotates through them
+ */
+export function getCategories(): CategoryInfo[] {
+  return config.LEADERBOARD_CATEGORIES.map(getCategoryInfo);
+}
+
+/**
+ * Rank players by one category. Defaults to the current season's players;
+ * pass an archived season's leaderboard to rank that instead. Ties go to
+ * whoever played more rounds.
+ */
+export function getCategoryLeaderboard(
+  category: LeaderboardCategory,
+  players: LeaderboardEntry[] = persistence.getAllTimeLeaderboard(),
+  size: number = config.LEADERBOARD_CATEGORY_SIZE
+): CategoryLeaderboard {
+  const definition = CATEGORIES[category];
+  const direction = definition.lowerIsBetter ? 1 : -1;
+  const entries = players
+    .map((stats) => ({ id: stats.id, name: stats.name, value: definition.value(stats), roundsPlayed: stats.roundsPlayed }))
+    .filter((entry): entry is CategoryEntry => entry.value !== null)
+    .sort((a, b) => direction * (a.value - b.value) || b.roundsPlayed - a.roundsPlayed);
+  return { category: getCategoryInfo(category), entries: entries.slice(0, size) };
+}
@@ -0,0 +1,179 @@
+// ============================================
+// AD MODERATION (Creative Review Queue)
+// ============================================
+// Whatever a player types as their ad creative would otherwise go straight
+// onto the big screen when they win. Creatives are screened against a
+// configurable blocklist as players join; depending on the room's setting
+// either only flagged creatives or all of them wait in the host panel's
+// queue for approval. A winner whose creative isn't approved gets the house
+// ad on the displays instead.
+//
+// Reviews are logged as events, so a round replays with the ads that were
+// actually shown.
+
+import config from './config';
+import { logEvent } from './eventLog';
+import { AdCreative, AdModerationMode, AdReview, Player, Room } from './types';
+
+export interface AdQueueItem {
+  playerId: string;
+  name: string;
+  color: string;
+  adContent: string;
+  flagged: string[];
+}
+
+// Common character swaps used to get around a blocklist
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+// Lowercase words separated by single spaces, accents and lookalikes undone
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[013457@$]/g, (c) => LOOKALIKES[c])
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Blocklist terms found in a text, matched as whole words
+ */
+export function findBlockedTerms(text: string, blocklist: string[] = config.AD_BLOCKLIST): string[] {
+  const words = ` ${normalize(text)} `;
+  return blocklist.filter((term) => {
+    const normalized = normalize(term);
+    return normalized !== '' && words.includes(` ${normalized} `);
+  });
+}
+
+/**
+ * The plain text of a creative - what is screened and kept as adContent
+ */
+export function creativeText(creative: AdCreative): string {
+  return [creative.headline, creative.tagline].filter(Boolean).join(' - ');
+}
+
+/**
+ * A plain-text ad as a creative (clients without the ad composer send text)
+ */
+export function plainCreative(adContent: string): AdCreative {
+  return { headline: adContent, tagline: '', template: config.DEFAULT_AD_TEMPLATE, logo: null };
+}
+
+/**
+ * The creative shown in place of one that isn't approved
+ */
+export function getHouseCreative(): AdCreative {
+  return plainCreative(config.HOUSE_AD);
+}
+
+/**
+ * Screen a creative with the room's setting: flagged creatives (and every
+ * creative with the 'all' setting) wait for the host
+ */
+export function screenCreative(room: Room, adContent: string): AdReview {
+  const flagged = findBlockedTerms(adContent);
+  const needsReview = flagged.length > 0 || room.gameState.adModeration === 'all';
+  return { status: needsReview ? 'pending' : 'approved', flagged, byHost: false };
+}
+
+/**
+ * A player's creative review (screened now if it never was)
+ */
+export function getAdReview(room: Room, player: Player): AdReview {
+  return player.adReview ?? screenCreative(room, player.adContent);
+}
+
+/**
+ * The ad the displays may show for a player: the house ad unless their
+ * creative is approved
+ */
+export function getShownAd(room: Room, player: Player): string {
+  return getAdReview(room, player).status === 'approved' ? player.adContent : config.HOUSE_AD;
+}
+
+/**
+ * The creative the displays may show for a player (undefined for players
+ * that only have a plain-text ad)
+ */
+export function getShownCreative(room: Room, player: Player): AdCreative | undefined {
+  return getAdReview(room, player).status === 'approved' ? player.creative : getHouseCreative();
+}
+
+/**
+ * Bring the slot awards on show in line with the winners' reviews
+ */
+export function refreshWinnerAds(room: Room): void {
+  room.gameState.winners.forEach((award) => {
+    const player = room.gameState.players[award.id];
+    if (!player) return;
+    award.adContent = getShownAd(room, player);
+    award.creative = getShownCreative(room, player);
+  });
+}
+
+/**
+ * Remember where a player's creative stands, so the lobby rotation keeps to
+ * it after the player has left
+ */
+export function keepCreativeReview(room: Room, player: Player): void {
+  if (!player.identityId) return;
+  room.creativeReviews[player.identityId] = {
+    creative: player.creative ?? plainCreative(player.adContent),
+    approved: getAdReview(room, player).status === 'approved',
+  };
+}
+
+function setAdReview(room: Room, playerId: string, review: AdReview, now: number): void {
+  const player = room.gameState.players[playerId];
+  player.adReview = review;
+  keepCreativeReview(room, player);
+  logEvent(room, { type: 'ad_review', playerId, review }, now);
+  refreshWinnerAds(room);
+}
+
+/**
+ * Host decision on a player's creative (null if the player isn't in the room)
+ */
+export function reviewCreative(room: Room, playerId: string, approved: boolean, now: number = Date.now()): Player | null {
+  const player = room.gameState.players[playerId];
+  if (!player) return null;
+
+  const { flagged } = getAdReview(room, player);
+  setAdReview(room, playerId, { status: approved ? 'approved' : 'rejected', flagged, byHost: true }, now);
+  return player;
+}
+
+/**
+ * Change which creatives need approval. Creatives the host hasn't decided
+ * on are screened again; returns how many now wait in the queue.
+ */
+export function setAdModeration(room: Room, mode: AdModerationMode, now: number = Date.now()): number {
+  room.gameState.adModeration = mode;
+  Object.entries(room.gameState.players).forEach(([playerId, player]) => {
+    const current = player.adReview;
+    if (current?.byHost) return;
+    const review = screenCreative(room, player.adContent);
+    if (current?.status !== review.status) setAdReview(room, playerId, review, now);
+  });
+  return getReviewQueue(room).length;
+}
+
+/**
+ * Creatives waiting for the host, flagged ones first
+ */
+export function getReviewQueue(room: Room): AdQueueItem[] {
+  return Object.entries(room.gameState.players)
+    .map(([playerId, player]) => ({ playerId, player, review: getAdReview(room, player) }))
+    .filter(({ review }) => review.status === 'pending')
+    .sort((a, b) => b.review.flagged.length - a.review.flagged.length)
+    .map(({ playerId, player, review }) => ({
+      playerId,
+      name: player.name,
+      color: player.color,
+      adContent: player.adContent,
+      flagged: review.flagged,
+    }));
+}
@@ -4,14 +4,26 @@
 
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import { Redis } from '@upstash/redis';
 import config from './config';
 import Logger from './logger';
+import { AdCreative, LeaderboardSort, RoundEventLog, RoundRecord, StatsSnapshot, Tournament } from './types';
 
 const SCORES_FILE = path.join(__dirname, '..', 'scores.json');
+const TEAM_SCORES_FILE = path.join(__dirname, '..', 'team-scores.json');
+const PLAYERS_FILE = path.join(__dirname, '..', 'players.json');
+const TOURNAMENTS_FILE = path.join(__dirname, '..', 'tournaments.json');
+const ROUNDS_FILE = path.join(__dirname, '..', 'rounds.json');
+const EVENT_LOGS_FILE = path.join(__dirname, '..', 'event-logs.json');
+const EVENT_LOGS_DIR = path.join(__dirname, '..', 'event-logs');
+const AD_IMPRESSIONS_FILE = path.join(__dirname, '..', 'ad-impressions.json');
+const ACHIEVEMENTS_FILE = path.join(__dirname, '..', 'achievements.json');
+const SEASONS_FILE = path.join(__dirname, '..', 'seasons.json');
 
 export interface PlayerStats {
-  wins: number;
+  wins: number; // Outright wins (the premium slot)
+  slotWins?: number; // Other ad slots won in multi-slot rounds (missing in older records)
   totalClicks: number;
   roundsPlayed: number;
   bestRound: number;
@@ -20,10 +32,76 @@ export interface PlayerStats {
   totalAuctionTaps: number;
   bestReactionTime: number | null; // Best (fastest) reaction time ever
   totalFinalScore: number; // Cumulative final score after multipliers
+  rating?: number; // Skill rating (missing in records from before ratings - see rating.ts)
+  winStreak?: number; // Rounds won in a row up to the latest (missing in older records)
+  longestWinStreak?: number;
 }
 
 export interface LeaderboardEntry extends PlayerStats {
+  id: string; // Player id the stats are shown under
   name: string;
+  rating: number;
+  merged: { id: string; name: string }[]; // Identities the host merged into this one
+}
+
+export interface PlayerIdentity {
+  id: string;
+  name: string; // Display name the player last joined under
+  keyHash: string | null; // SHA-256 of the device key (null: no device can claim it)
+  mergedInto: string | null; // Set when the host merged it into another identity
+  createdAt: string;
+  lastSeen: string | null;
+}
+
+export interface TeamStats {
+  wins: number; // Rounds the team scored highest
+  roundsPlayed: number;
+  totalTaps: number; // Click Auction taps of all members
+  totalFinalScore: number;
+  bestRound: number;
+  lastPlayed: string | null;
+}
+
+export interface TeamLeaderboardEntry extends TeamStats {
+  name: string;
+}
+
+export interface TournamentStore {
+  active: Record<string, Tournament>; // By room code - restored into their rooms on startup
+  history: Tournament[]; // Finished brackets, newest first
+}
+
+export interface AdImpressionStats {
+  key: string; // One creative of one player (see adRotation.ts)
+  playerId: string | null; // Player id of the winner (null for rounds from before player ids)
+  name: string;
+  creative: AdCreative;
+  impressions: number; // One per display each time the ad goes up
+  airtimeMs: number; // Time on screen, summed over displays
+  firstShown: string; // ISO timestamp
+  lastShown: string;
+}
+
+export interface PlayerAchievements {
+  unlocked: Record<string, string>; // Rule id -> when it was first unlocked (ISO timestamp)
+  wasLast: boolean; // Came last (of two or more) in the latest round played
+}
+
+export interface SeasonInfo {
+  id: string;
+  name: string; // e.g. "Cannes 2026 Day 1"
+  startedAt: string;
+}
+
+export interface Season extends SeasonInfo {
+  endedAt: string;
+  leaderboard: LeaderboardEntry[]; // Frozen when the season closed
+  teams: TeamLeaderboardEntry[];
+}
+
+export interface SeasonStore {
+  current: SeasonInfo; // The season the stats above accrue to
+  archive: Season[]; // Closed seasons, newest first
 }
 
 // Initialize Redis if credentials are provided
@@ -38,13 +116,41 @@ if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN)
   Logger.info('📁 Using local file storage (set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN for cloud persistence)');
 }
 
-// All-time stats structure: { "PlayerName": { wins, totalClicks, roundsPlayed, bestRound, lastPlayed } }
+// All-time stats by player id: { "plr_...": { wins, slotWins, totalClicks, roundsPlayed, bestRound, lastPlayed } }
 let allTimeStats: Record<string, PlayerStats> = {};
 
+// Persistent player identities by id (names live here, not in the stats)
+let playerIdentities: Record<string, PlayerIdentity> = {};
+
 // Cached leaderboard (only recalculated when stats change)
 let cachedLeaderboard: LeaderboardEntry[] = [];
 let leaderboardDirty = true;
 
+// All-time team stats, kept as their own table: { "Teal Agency": { wins, roundsPlayed, ... } }
+let allTimeTeamStats: Record<string, TeamStats> = {};
+
+// Running and finished tournaments
+let tournamentStore: TournamentStore = { active: {}, history: [] };
+
+// Completed rounds, newest first
+let roundHistory: RoundRecord[] = [];
+
+// Event logs of the latest completed rounds, newest first
+let eventLogs: RoundEventLog[] = [];
+
+// Round ids whose event log has to be written or deleted on the next save
+let unsavedEventLogs = new Set<string>();
+let removedEventLogs = new Set<string>();
+
+// Lobby ad rotation delivery by creative key
+let adImpressions: Record<string, AdImpressionStats> = {};
+
+// Unlocked achievements by player id
+let playerAchievements: Record<string, PlayerAchievements> = {};
+
+// The running season and the frozen leaderboards of closed ones
+let seasonStore: SeasonStore = { current: firstSeason(), archive: [] };
+
 /**
  * Load scores from storage
  */
@@ -61,6 +167,16 @@ export async function loadScores(): Promise<void> {
       } else {
         Logger.warn('⚠️ No data found in Redis (key may not exist yet)');
       }
+      const teamData = await redis.get<string | Record<string, TeamStats>>(config.REDIS_TEAM_KEY);
+      if (teamData) {
+        allTimeTeamStats = typeof teamData === 'string' ? JSON.parse(teamData) : teamData;
+        Logger.info(`📊 Loaded ${Object.keys(allTimeTeamStats).length} team records from Redis`);
+      }
+      const playerData = await redis.get<string | Record<string, PlayerIdentity>>(config.REDIS_PLAYERS_KEY);
+      if (playerData) {
+        playerIdentities = typeof playerData === 'string' ? JSON.parse(playerData) : playerData;
+        Logger.info(`📊 Loaded ${Object.keys(playerIdentities).length} player identities from Redis`);
+      }
     } else if (fs.existsSync(SCORES_FILE)) {
       const data = fs.readFileSync(SCORES_FILE, 'utf8');
       try {
@@ -80,6 +196,11 @@ export async function loadScores(): Promise<void> {
         allTimeStats = {};
       }
     }
+    if (!redis) {
+      loadTeamScoresFile();
+      loadPlayersFile();
+    }
+    await migrateNameKeyedStats();
   } catch (err) {
     const error = err as Error;
     Logger.error('❌ CRITICAL: Error loading scores:', error.message);
@@ -88,6 +209,82 @@ export async function loadScores(): Promise<void> {
   }
 }
 
+// Team stats live in their own file; a corrupt one is backed up without touching player stats
+function loadTeamScoresFile(): void {
+  if (!fs.existsSync(TEAM_SCORES_FILE)) return;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(TEAM_SCORES_FILE, 'utf8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('Invalid team scores format');
+    }
+    allTimeTeamStats = parsed;
+    Logger.info(`📊 Loaded ${Object.keys(allTimeTeamStats).length} team records from team-scores.json`);
+  } catch (parseErr) {
+    Logger.warn('⚠️ Corrupt team-scores.json detected, backing up and starting fresh:', (parseErr as Error).message);
+    fs.renameSync(TEAM_SCORES_FILE, `${TEAM_SCORES_FILE}.corrupt.${Date.now()}`);
+    allTimeTeamStats = {};
+  }
+}
+
+// Player identities live in their own file too
+function loadPlayersFile(): void {
+  if (!fs.existsSync(PLAYERS_FILE)) return;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(PLAYERS_FILE, 'utf8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('Invalid players format');
+    }
+    playerIdentities = parsed;
+    Logger.info(`📊 Loaded ${Object.keys(playerIdentities).length} player identities from players.json`);
+  } catch (parseErr) {
+    Logger.warn('⚠️ Corrupt players.json detected, backing up and starting fresh:', (parseErr as Error).message);
+    fs.renameSync(PLAYERS_FILE, `${PLAYERS_FILE}.corrupt.${Date.now()}`);
+    playerIdentities = {};
+  }
+}
+
+/**
+ * Id a record migrated from the name-keyed stats gets (the same on every
+ * server, so migrating twice lands in the same place)
+ */
+export function legacyPlayerId(name: string): string {
+  return 'plr_' + crypto.createHash('sha256').update(`legacy:${name}`).digest('base64url').substring(0, 22);
+}
+
+// Stats used to be keyed by display name. Each record not kept under a known
+// player id becomes an identity of its own that no device holds - the host
+// merges it into the player's new identity. The old data is copied aside first.
+async function migrateNameKeyedStats(): Promise<void> {
+  const names = Object.keys(allTimeStats).filter((key) => !playerIdentities[key]);
+  if (names.length === 0) return;
+
+  const legacy = JSON.stringify(allTimeStats);
+  if (redis) {
+    await redis.set(`${config.REDIS_KEY}:pre-migration`, legacy);
+  } else if (!fs.existsSync(`${SCORES_FILE}.pre-migration`)) {
+    fs.writeFileSync(`${SCORES_FILE}.pre-migration`, legacy);
+  }
+
+  const now = new Date().toISOString();
+  names.forEach((name) => {
+    const id = legacyPlayerId(name);
+    const stats = allTimeStats[name];
+    delete allTimeStats[name];
+    allTimeStats[id] = allTimeStats[id] ? combineStats(allTimeStats[id], stats) : stats;
+    playerIdentities[id] = playerIdentities[id] || {
+      id,
+      name,
+      keyHash: null,
+      mergedInto: null,
+      createdAt: now,
+      lastSeen: stats.lastPlayed,
+    };
+  });
+  leaderboardDirty = true;
+  Logger.info(`🔀 Migrated ${names.length} name-keyed player records to player ids`);
+  await saveScores();
+}
+
 /**
  * Save scores to storage
  */
@@ -103,9 +300,21 @@ export async function saveScores(): Promise<void> {
       const dataToSave = JSON.stringify(allTimeStats);
       Logger.info(`💾 Saving ${recordCount} player records to Redis...`);
       await redis.set(config.REDIS_KEY, dataToSave);
+      if (Object.keys(allTimeTeamStats).length > 0) {
+        await redis.set(config.REDIS_TEAM_KEY, JSON.stringify(allTimeTeamStats));
+      }
+      if (Object.keys(playerIdentities).length > 0) {
+        await redis.set(config.REDIS_PLAYERS_KEY, JSON.stringify(playerIdentities));
+      }
       Logger.info('💾 Scores saved to Redis successfully');
     } else {
       fs.writeFileSync(SCORES_FILE, JSON.stringify(allTimeStats, null, 2));
+      if (Object.keys(allTimeTeamStats).length > 0) {
+        fs.writeFileSync(TEAM_SCORES_FILE, JSON.stringify(allTimeTeamStats, null, 2));
+      }
+      if (Object.keys(playerIdentities).length > 0) {
+        fs.writeFileSync(PLAYERS_FILE, JSON.stringify(playerIdentities, null, 2));
+      }
       Logger.debug('💾 Scores saved to scores.json');
     }
   } catch (err) {
@@ -114,18 +323,20 @@ export async function saveScores(): Promise<void> {
 }
 
 /**
- * Update stats for a player after a round
+ * Update stats for a player after a round. `wonSlot` is the ad slot won
+ * (0 = premium, an outright win) or null.
  */
 export function updatePlayerStats(
-  name: string,
+  playerId: string,
   auctionTaps: number,
   reactionTime: number | null,
   finalScore: number,
-  isWinner: boolean
+  wonSlot: number | null
 ): void {
-  if (!allTimeStats[name]) {
-    allTimeStats[name] = {
+  if (!allTimeStats[playerId]) {
+    allTimeStats[playerId] = {
       wins: 0,
+      slotWins: 0,
       totalClicks: 0,
       roundsPlayed: 0,
       bestRound: 0,
@@ -137,64 +348,811 @@ export function updatePlayerStats(
   }
 
   // Legacy fields (keep for backwards compatibility)
-  allTimeStats[name].totalClicks += finalScore;
-  allTimeStats[name].roundsPlayed += 1;
-  allTimeStats[name].bestRound = Math.max(allTimeStats[name].bestRound, finalScore);
-  allTimeStats[name].lastPlayed = new Date().toISOString();
+  allTimeStats[playerId].totalClicks += finalScore;
+  allTimeStats[playerId].roundsPlayed += 1;
+  allTimeStats[playerId].bestRound = Math.max(allTimeStats[playerId].bestRound, finalScore);
+  allTimeStats[playerId].lastPlayed = new Date().toISOString();
 
   // New cumulative fields
-  allTimeStats[name].totalAuctionTaps += auctionTaps;
-  allTimeStats[name].totalFinalScore += finalScore;
+  allTimeStats[playerId].totalAuctionTaps += auctionTaps;
+  allTimeStats[playerId].totalFinalScore += finalScore;
   
   // Best reaction time (lower is better, so we want the minimum)
   if (reactionTime !== null) {
-    if (allTimeStats[name].bestReactionTime === null) {
-      allTimeStats[name].bestReactionTime = reactionTime;
+    if (allTimeStats[playerId].bestReactionTime === null) {
+      allTimeStats[playerId].bestReactionTime = reactionTime;
     } else {
-      allTimeStats[name].bestReactionTime = Math.min(
-        allTimeStats[name].bestReactionTime,
+      allTimeStats[playerId].bestReactionTime = Math.min(
+        allTimeStats[playerId].bestReactionTime,
         reactionTime
       );
     }
   }
 
-  if (isWinner) {
-    allTimeStats[name].wins += 1;
+  if (wonSlot === 0) {
+    allTimeStats[playerId].wins += 1;
+  } else if (wonSlot !== null) {
+    allTimeStats[playerId].slotWins = (allTimeStats[playerId].slotWins ?? 0) + 1;
   }
+
+  // Win streaks (only the premium slot counts as a win)
+  const winStreak = wonSlot === 0 ? (allTimeStats[playerId].winStreak ?? 0) + 1 : 0;
+  allTimeStats[playerId].winStreak = winStreak;
+  allTimeStats[playerId].longestWinStreak = Math.max(allTimeStats[playerId].longestWinStreak ?? 0, winStreak);
   
   // Mark leaderboard cache as dirty
   leaderboardDirty = true;
 }
 
 /**
- * Get all-time leaderboard (cached for performance)
+ * A player's skill rating (the starting rating until they have one)
  */
-export function getAllTimeLeaderboard(): LeaderboardEntry[] {
-  if (leaderboardDirty || cachedLeaderboard.length === 0) {
-    cachedLeaderboard = Object.entries(allTimeStats)
-      .map(([name, stats]) => ({
-        name,
-        ...stats,
-      }))
-      .sort((a, b) => b.wins - a.wins || b.totalClicks - a.totalClicks);
-    leaderboardDirty = false;
+export function getPlayerRating(playerId: string): number {
+  return allTimeStats[playerId]?.rating ?? config.RATING_INITIAL;
+}
+
+/**
+ * Move a player's skill rating after a round (their stats must exist)
+ */
+export function adjustPlayerRating(playerId: string, delta: number): number {
+  const stats = allTimeStats[playerId];
+  if (!stats) return config.RATING_INITIAL;
+  stats.rating = Math.round(((stats.rating ?? config.RATING_INITIAL) + delta) * 10) / 10;
+  leaderboardDirty = true;
+  return stats.rating;
+}
+
+/**
+ * Update a team's all-time stats after a round
+ */
+export function updateTeamStats(name: string, taps: number, finalScore: number, won: boolean): void {
+  if (!allTimeTeamStats[name]) {
+    allTimeTeamStats[name] = {
+      wins: 0,
+      roundsPlayed: 0,
+      totalTaps: 0,
+      totalFinalScore: 0,
+      bestRound: 0,
+      lastPlayed: null,
+    };
+  }
+
+  const stats = allTimeTeamStats[name];
+  stats.roundsPlayed += 1;
+  stats.totalTaps += taps;
+  stats.totalFinalScore += finalScore;
+  stats.bestRound = Math.max(stats.bestRound, finalScore);
+  stats.lastPlayed = new Date().toISOString();
+  if (won) {
+    stats.wins += 1;
+  }
+}
+
+/**
+ * Get all-time team leaderboard (most wins, then highest total score)
+ */
+export function getAllTimeTeamLeaderboard(): TeamLeaderboardEntry[] {
+  return Object.entries(allTimeTeamStats)
+    .map(([name, stats]) => ({ name, ...stats }))
+    .sort((a, b) => b.wins - a.wins || b.totalFinalScore - a.totalFinalScore);
+}
+
+// ============================================
+// PLAYER IDENTITIES
+// ============================================
+// All-time stats are kept by persistent player id (see identity.ts). An
+// identity the host merged into another keeps its own stats; they are added
+// to the other's wherever stats are shown, so a merge can be split again.
+
+/**
+ * Get a player identity by id
+ */
+export function getPlayerIdentity(id: string): PlayerIdentity | null {
+  return playerIdentities[id] || null;
+}
+
+/**
+ * Add or update a player identity
+ */
+export function setPlayerIdentity(identity: PlayerIdentity): void {
+  playerIdentities[identity.id] = identity;
+  leaderboardDirty = true;
+}
+
+/**
+ * Get all player identities (for testing)
+ */
+export function getPlayerIdentities(): Record<string, PlayerIdentity> {
+  return playerIdentities;
+}
+
+/**
+ * Follow merges to the identity a player's stats are shown under
+ */
+export function resolvePlayerId(id: string): string {
+  const seen = new Set<string>();
+  let current = id;
+  while (playerIdentities[current]?.mergedInto && !seen.has(current)) {
+    seen.add(current);
+    current = playerIdentities[current].mergedInto as string;
+  }
+  return current;
+}
+
+/**
+ * Save player identities to storage
+ */
+export async function savePlayerIdentities(): Promise<void> {
+  try {
+    if (redis) {
+      await redis.set(config.REDIS_PLAYERS_KEY, JSON.stringify(playerIdentities));
+    } else {
+      fs.writeFileSync(PLAYERS_FILE, JSON.stringify(playerIdentities, null, 2));
+    }
+    Logger.debug('💾 Player identities saved');
+  } catch (err) {
+    Logger.error('Error saving player identities:', err);
+  }
+}
+
+// Stats of two identities shown as one
+function combineStats(a: PlayerStats, b: PlayerStats): PlayerStats {
+  const bestReactionTimes = [a.bestReactionTime, b.bestReactionTime].filter((t): t is number => t !== null);
+  return {
+    wins: a.wins + b.wins,
+    slotWins: (a.slotWins ?? 0) + (b.slotWins ?? 0),
+    totalClicks: a.totalClicks + b.totalClicks,
+    roundsPlayed: a.roundsPlayed + b.roundsPlayed,
+    bestRound: Math.max(a.bestRound, b.bestRound),
+    lastPlayed: [a.lastPlayed, b.lastPlayed].sort().pop() ?? null,
+    totalAuctionTaps: a.totalAuctionTaps + b.totalAuctionTaps,
+    bestReactionTime: bestReactionTimes.length > 0 ? Math.min(...bestReactionTimes) : null,
+    totalFinalScore: a.totalFinalScore + b.totalFinalScore,
+    // The rating of the identity with more rounds behind it counts for more
+    rating: a.roundsPlayed + b.roundsPlayed > 0
+      ? ((a.rating ?? config.RATING_INITIAL) * a.roundsPlayed + (b.rating ?? config.RATING_INITIAL) * b.roundsPlayed) / (a.roundsPlayed + b.roundsPlayed)
+      : config.RATING_INITIAL,
+    // The streak still running is the one of the identity played last
+    winStreak: ((a.lastPlayed ?? '') >= (b.lastPlayed ?? '') ? a.winStreak : b.winStreak) ?? 0,
+    longestWinStreak: Math.max(a.longestWinStreak ?? 0, b.longestWinStreak ?? 0),
+  };
+}
+
+// ============================================
+// TOURNAMENTS
+// ============================================
+// Brackets are saved on every change so a tournament survives a server
+// restart mid-way. They are kept apart from the all-time stats.
+
+/**
+ * Load running and finished tournaments from storage
+ */
+export async function loadTournaments(): Promise<void> {
+  try {
+    if (redis) {
+      const data = await redis.get<string | TournamentStore>(config.REDIS_TOURNAMENT_KEY);
+      if (data) {
+        tournamentStore = typeof data === 'string' ? JSON.parse(data) : data;
+      }
+    } else if (fs.existsSync(TOURNAMENTS_FILE)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(TOURNAMENTS_FILE, 'utf8'));
+        if (!parsed || typeof parsed.active !== 'object' || !Array.isArray(parsed.history)) {
+          throw new Error('Invalid tournaments format');
+        }
+        tournamentStore = parsed;
+      } catch (parseErr) {
+        Logger.warn('⚠️ Corrupt tournaments.json detected, backing up and starting fresh:', (parseErr as Error).message);
+        fs.renameSync(TOURNAMENTS_FILE, `${TOURNAMENTS_FILE}.corrupt.${Date.now()}`);
+        tournamentStore = { active: {}, history: [] };
+      }
+    }
+    Logger.info(`🏟️ Loaded ${Object.keys(tournamentStore.active).length} running and ${tournamentStore.history.length} finished tournaments`);
+  } catch (err) {
+    Logger.error('❌ Error loading tournaments:', (err as Error).message);
+    tournamentStore = { active: {}, history: [] };
+  }
+}
+
+/**
+ * Save running and finished tournaments to storage
+ */
+export async function saveTournaments(): Promise<void> {
+  try {
+    if (redis) {
+      await redis.set(config.REDIS_TOURNAMENT_KEY, JSON.stringify(tournamentStore));
+    } else {
+      fs.writeFileSync(TOURNAMENTS_FILE, JSON.stringify(tournamentStore, null, 2));
+    }
+    Logger.debug('💾 Tournaments saved');
+  } catch (err) {
+    Logger.error('Error saving tournaments:', err);
+  }
+}
+
+/**
+ * Track a room's running tournament (null when it ends)
+ */
+export function setActiveTournament(roomCode: string, tournament: Tournament | null): void {
+  if (tournament) {
+    tournamentStore.active[roomCode] = tournament;
+  } else {
+    delete tournamentStore.active[roomCode];
+  }
+}
+
+/**
+ * Add a finished tournament to the history (oldest dropped past the limit)
+ */
+export function archiveTournament(tournament: Tournament): void {
+  delete tournamentStore.active[tournament.roomCode];
+  tournamentStore.history.unshift(tournament);
+  tournamentStore.history.length = Math.min(tournamentStore.history.length, config.MAX_TOURNAMENT_HISTORY);
+}
+
+/**
+ * Put a crowned tournament back to running (its last round was aborted)
+ */
+export function unarchiveTournament(tournament: Tournament): void {
+  tournamentStore.history = tournamentStore.history.filter((t) => t.id !== tournament.id);
+  tournamentStore.active[tournament.roomCode] = tournament;
+}
+
+/**
+ * Running tournaments by room code
+ */
+export function getActiveTournaments(): Record<string, Tournament> {
+  return tournamentStore.active;
+}
+
+/**
+ * Finished tournaments, newest first
+ */
+export function getTournamentHistory(): Tournament[] {
+  return tournamentStore.history;
+}
+
+// ============================================
+// ROUND HISTORY
+// ============================================
+// Every completed round is kept as a record (settings, full leaderboard,
+// winners) so past rounds can be looked up after the next one starts. Only
+// the newest MAX_ROUND_HISTORY rounds are kept.
+
+/**
+ * Load the round history from storage
+ */
+export async function loadRounds(): Promise<void> {
+  try {
+    if (redis) {
+      const data = await redis.get<string | RoundRecord[]>(config.REDIS_ROUNDS_KEY);
+      if (data) {
+        roundHistory = typeof data === 'string' ? JSON.parse(data) : data;
+      }
+    } else if (fs.existsSync(ROUNDS_FILE)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(ROUNDS_FILE, 'utf8'));
+        if (!Array.isArray(parsed)) {
+          throw new Error('Invalid rounds format');
+        }
+        roundHistory = parsed;
+      } catch (parseErr) {
+        Logger.warn('⚠️ Corrupt rounds.json detected, backing up and starting fresh:', (parseErr as Error).message);
+        fs.renameSync(ROUNDS_FILE, `${ROUNDS_FILE}.corrupt.${Date.now()}`);
+        roundHistory = [];
+      }
+    }
+    Logger.info(`📜 Loaded ${roundHistory.length} past rounds`);
+  } catch (err) {
+    Logger.error('❌ Error loading round history:', (err as Error).message);
+    roundHistory = [];
+  }
+}
+
+/**
+ * Save the round history to storage
+ */
+export async function saveRounds(): Promise<void> {
+  try {
+    if (redis) {
+      await redis.set(config.REDIS_ROUNDS_KEY, JSON.stringify(roundHistory));
+    } else {
+      fs.writeFileSync(ROUNDS_FILE, JSON.stringify(roundHistory, null, 2));
+    }
+    Logger.debug('💾 Round history saved');
+  } catch (err) {
+    Logger.error('Error saving round history:', err);
+  }
+}
+
+/**
+ * Add a completed round to the history (oldest dropped past the limit)
+ */
+export function addRound(record: RoundRecord): void {
+  roundHistory.unshift(record);
+  roundHistory.length = Math.min(roundHistory.length, config.MAX_ROUND_HISTORY);
+}
+
+/**
+ * Drop a round from the history (it was aborted)
+ */
+export function removeRound(id: string): void {
+  roundHistory = roundHistory.filter((record) => record.id !== id);
+}
+
+/**
+ * Completed rounds, newest first
+ */
+export function getRounds(): RoundRecord[] {
+  return roundHistory;
+}
+
+/**
+ * A completed round by id
+ */
+export function getRound(id: string): RoundRecord | null {
+  return roundHistory.find((record) => record.id === id) || null;
+}
+
+// ============================================
+// ROUND EVENT LOGS
+// ============================================
+// The event log of each completed round (see eventLog.ts), so the round can
+// be replayed later. Logs are much bigger than round records, so only the
+// newest MAX_EVENT_LOG_ROUNDS are kept, and each is stored under its own key
+// (its own file in event-logs/) - a save writes only the logs that changed.
+// The event-logs key itself holds the ids of the kept logs, newest first.
+
+function eventLogKey(roundId: string): string {
+  return `${config.REDIS_EVENT_LOGS_KEY}:${roundId}`;
+}
+
+function eventLogFile(roundId: string): string {
+  return path.join(EVENT_LOGS_DIR, `${roundId}.json`);
+}
+
+async function readEventLog(roundId: string): Promise<RoundEventLog | null> {
+  try {
+    if (redis) {
+      const data = await redis.get<string | RoundEventLog>(eventLogKey(roundId));
+      return data ? (typeof data === 'string' ? JSON.parse(data) : data) : null;
+    }
+    return fs.existsSync(eventLogFile(roundId)) ? JSON.parse(fs.readFileSync(eventLogFile(roundId), 'utf8')) : null;
+  } catch (err) {
+    Logger.warn(`⚠️ Event log of round ${roundId} could not be read:`, (err as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Load the round event logs from storage
+ */
+export async function loadEventLogs(): Promise<void> {
+  try {
+    let index: string[] = [];
+    if (redis) {
+      const data = await redis.get<string | string[]>(config.REDIS_EVENT_LOGS_KEY);
+      if (data) {
+        index = typeof data === 'string' ? JSON.parse(data) : data;
+      }
+    } else if (fs.existsSync(EVENT_LOGS_FILE)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(EVENT_LOGS_FILE, 'utf8'));
+        if (!Array.isArray(parsed)) {
+          throw new Error('Invalid event logs format');
+        }
+        index = parsed;
+      } catch (parseErr) {
+        Logger.warn('⚠️ Corrupt event-logs.json detected, backing up and starting fresh:', (parseErr as Error).message);
+        fs.renameSync(EVENT_LOGS_FILE, `${EVENT_LOGS_FILE}.corrupt.${Date.now()}`);
+      }
+    }
+
+    const logs = await Promise.all(index.map(readEventLog));
+    eventLogs = logs.filter((log): log is RoundEventLog => log !== null);
+    Logger.info(`🎞️ Loaded event logs for ${eventLogs.length} rounds`);
+  } catch (err) {
+    Logger.error('❌ Error loading event logs:', (err as Error).message);
+    eventLogs = [];
+  }
+}
+
+/**
+ * Save the round event logs that changed since the last save
+ */
+export async function saveEventLogs(): Promise<void> {
+  const unsaved = eventLogs.filter((log) => unsavedEventLogs.has(log.roundId));
+  const removed = [...removedEventLogs];
+  const index = eventLogs.map((log) => log.roundId);
+  unsavedEventLogs = new Set();
+  removedEventLogs = new Set();
+  try {
+    if (redis) {
+      for (const log of unsaved) {
+        await redis.set(eventLogKey(log.roundId), JSON.stringify(log));
+      }
+      await redis.set(config.REDIS_EVENT_LOGS_KEY, JSON.stringify(index));
+      if (removed.length > 0) {
+        await redis.del(...removed.map(eventLogKey));
+      }
+    } else {
+      fs.mkdirSync(EVENT_LOGS_DIR, { recursive: true });
+      unsaved.forEach((log) => fs.writeFileSync(eventLogFile(log.roundId), JSON.stringify(log)));
+      fs.writeFileSync(EVENT_LOGS_FILE, JSON.stringify(index));
+      removed.forEach((roundId) => fs.rmSync(eventLogFile(roundId), { force: true }));
+    }
+    Logger.debug(`💾 Event logs saved (${unsaved.length} written, ${removed.length} dropped)`);
+  } catch (err) {
+    // Try again on the next save
+    unsaved.forEach((log) => unsavedEventLogs.add(log.roundId));
+    removed.forEach((roundId) => removedEventLogs.add(roundId));
+    Logger.error('Error saving event logs:', err);
+  }
+}
+
+/**
+ * Keep a completed round's event log (oldest dropped past the limit)
+ */
+export function addEventLog(log: RoundEventLog): void {
+  eventLogs = [log, ...eventLogs.filter((existing) => existing.roundId !== log.roundId)];
+  eventLogs.splice(config.MAX_EVENT_LOG_ROUNDS).forEach((dropped) => removeEventLog(dropped.roundId));
+  unsavedEventLogs.add(log.roundId);
+  removedEventLogs.delete(log.roundId);
+}
+
+/**
+ * Drop a round's event log (it was aborted, or is past the limit)
+ */
+export function removeEventLog(roundId: string): void {
+  eventLogs = eventLogs.filter((log) => log.roundId !== roundId);
+  unsavedEventLogs.delete(roundId);
+  removedEventLogs.add(roundId);
+}
+
+/**
+ * A completed round's events, if its log is still kept
+ */
+export function getEventLog(roundId: string): RoundEventLog | null {
+  return eventLogs.find((log) => log.roundId === roundId) || null;
+}
+
+// ============================================
+// AD IMPRESSIONS
+// ============================================
+// Delivery of past winners' creatives in the lobby ad rotation: impressions
+// and time on screen per creative, for the players' campaign reports.
+
+/**
+ * Load the ad impression counts from storage
+ */
+export async function loadAdImpressions(): Promise<void> {
+  try {
+    if (redis) {
+      const data = await redis.get<string | Record<string, AdImpressionStats>>(config.REDIS_AD_IMPRESSIONS_KEY);
+      if (data) {
+        adImpressions = typeof data === 'string' ? JSON.parse(data) : data;
+      }
+    } else if (fs.existsSync(AD_IMPRESSIONS_FILE)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(AD_IMPRESSIONS_FILE, 'utf8'));
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+          throw new Error('Invalid ad impressions format');
+        }
+        adImpressions = parsed;
+      } catch (parseErr) {
+        Logger.warn('⚠️ Corrupt ad-impressions.json detected, backing up and starting fresh:', (parseErr as Error).message);
+        fs.renameSync(AD_IMPRESSIONS_FILE, `${AD_IMPRESSIONS_FILE}.corrupt.${Date.now()}`);
+        adImpressions = {};
+      }
+    }
+    Logger.info(`📺 Loaded impressions for ${Object.keys(adImpressions).length} creatives`);
+  } catch (err) {
+    Logger.error('❌ Error loading ad impressions:', (err as Error).message);
+    adImpressions = {};
+  }
+}
+
+/**
+ * Save the ad impression counts to storage
+ */
+export async function saveAdImpressions(): Promise<void> {
+  try {
+    if (redis) {
+      await redis.set(config.REDIS_AD_IMPRESSIONS_KEY, JSON.stringify(adImpressions));
+    } else {
+      fs.writeFileSync(AD_IMPRESSIONS_FILE, JSON.stringify(adImpressions, null, 2));
+    }
+    Logger.debug('💾 Ad impressions saved');
+  } catch (err) {
+    Logger.error('Error saving ad impressions:', err);
+  }
+}
+
+/**
+ * Count a creative going up on a number of displays
+ */
+export function recordAdImpressions(
+  entry: Pick<AdImpressionStats, 'key' | 'playerId' | 'name' | 'creative'>,
+  displays: number,
+  now: number = Date.now()
+): void {
+  const shownAt = new Date(now).toISOString();
+  const stats = adImpressions[entry.key] ?? { ...entry, impressions: 0, airtimeMs: 0, firstShown: shownAt, lastShown: shownAt };
+  adImpressions[entry.key] = { ...stats, name: entry.name, impressions: stats.impressions + displays, lastShown: shownAt };
+}
+
+/**
+ * Add time on screen to a creative
+ */
+export function addAdAirtime(key: string, airtimeMs: number): void {
+  const stats = adImpressions[key];
+  if (stats) stats.airtimeMs += airtimeMs;
+}
+
+/**
+ * Delivery of every creative that has been in a lobby rotation
+ */
+export function getAdImpressions(): AdImpressionStats[] {
+  return Object.values(adImpressions);
+}
+
+// ============================================
+// ACHIEVEMENTS
+// ============================================
+// Badges each player has unlocked (see achievements.ts), with what the
+// rules need to remember between rounds. Win streaks are kept in the stats.
+
+/**
+ * Load the unlocked achievements from storage
+ */
+export async function loadAchievements(): Promise<void> {
+  try {
+    if (redis) {
+      const data = await redis.get<string | Record<string, PlayerAchievements>>(config.REDIS_ACHIEVEMENTS_KEY);
+      if (data) {
+        playerAchievements = typeof data === 'string' ? JSON.parse(data) : data;
+      }
+    } else if (fs.existsSync(ACHIEVEMENTS_FILE)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(ACHIEVEMENTS_FILE, 'utf8'));
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+          throw new Error('Invalid achievements format');
+        }
+        playerAchievements = parsed;
+      } catch (parseErr) {
+        Logger.warn('⚠️ Corrupt achievements.json detected, backing up and starting fresh:', (parseErr as Error).message);
+        fs.renameSync(ACHIEVEMENTS_FILE, `${ACHIEVEMENTS_FILE}.corrupt.${Date.now()}`);
+        playerAchievements = {};
+      }
+    }
+    Logger.info(`🏅 Loaded achievements for ${Object.keys(playerAchievements).length} players`);
+  } catch (err) {
+    Logger.error('❌ Error loading achievements:', (err as Error).message);
+    playerAchievements = {};
   }
-  return cachedLeaderboard;
 }
 
 /**
- * Reset all stats (and force save)
+ * Save the unlocked achievements to storage
  */
-export async function resetAllStats(): Promise<void> {
-  Logger.warn('🗑️ Resetting ALL stats (intentional)');
+export async function saveAchievements(): Promise<void> {
+  try {
+    if (redis) {
+      await redis.set(config.REDIS_ACHIEVEMENTS_KEY, JSON.stringify(playerAchievements));
+    } else {
+      fs.writeFileSync(ACHIEVEMENTS_FILE, JSON.stringify(playerAchievements, null, 2));
+    }
+    Logger.debug('💾 Achievements saved');
+  } catch (err) {
+    Logger.error('Error saving achievements:', err);
+  }
+}
+
+/**
+ * A player's achievements (null if they have never finished a round)
+ */
+export function getPlayerAchievements(id: string): PlayerAchievements | null {
+  return playerAchievements[id] || null;
+}
+
+/**
+ * Replace a player's achievements
+ */
+export function setPlayerAchievements(id: string, achievements: PlayerAchievements): void {
+  playerAchievements[id] = achievements;
+}
+
+// ============================================
+// SEASONS
+// ============================================
+// The all-time stats above belong to the current season (see seasons.ts).
+// Closing a season freezes its leaderboards into the archive and starts the
+// next one with empty stats - nothing is deleted.
+
+function firstSeason(): SeasonInfo {
+  return { id: 'season-1', name: config.DEFAULT_SEASON_NAME, startedAt: new Date().toISOString() };
+}
+
+/**
+ * Load the current season and the archive from storage
+ */
+export async function loadSeasons(): Promise<void> {
+  try {
+    if (redis) {
+      const data = await redis.get<string | SeasonStore>(config.REDIS_SEASONS_KEY);
+      if (data) {
+        seasonStore = typeof data === 'string' ? JSON.parse(data) : data;
+      } else {
+        await saveSeasons(); // The first season starts now, not at the next restart
+      }
+    } else if (fs.existsSync(SEASONS_FILE)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(SEASONS_FILE, 'utf8'));
+        if (!parsed || typeof parsed.current !== 'object' || !Array.isArray(parsed.archive)) {
+          throw new Error('Invalid seasons format');
+        }
+        seasonStore = parsed;
+      } catch (parseErr) {
+        Logger.warn('⚠️ Corrupt seasons.json detected, backing up and starting fresh:', (parseErr as Error).message);
+        fs.renameSync(SEASONS_FILE, `${SEASONS_FILE}.corrupt.${Date.now()}`);
+        seasonStore = { current: firstSeason(), archive: [] };
+      }
+    } else {
+      await saveSeasons();
+    }
+    Logger.info(`🗓️ Season "${seasonStore.current.name}" running, ${seasonStore.archive.length} archived`);
+  } catch (err) {
+    Logger.error('❌ Error loading seasons:', (err as Error).message);
+    seasonStore = { current: firstSeason(), archive: [] };
+  }
+}
+
+/**
+ * Save the current season and the archive to storage
+ */
+export async function saveSeasons(): Promise<void> {
+  try {
+    if (redis) {
+      await redis.set(config.REDIS_SEASONS_KEY, JSON.stringify(seasonStore));
+    } else {
+      fs.writeFileSync(SEASONS_FILE, JSON.stringify(seasonStore, null, 2));
+    }
+    Logger.debug('💾 Seasons saved');
+  } catch (err) {
+    Logger.error('Error saving seasons:', err);
+  }
+}
+
+/**
+ * The season stats are accruing to
+ */
+export function getCurrentSeason(): SeasonInfo {
+  return seasonStore.current;
+}
+
+/**
+ * Closed seasons, newest first
+ */
+export function getArchivedSeasons(): Season[] {
+  return seasonStore.archive;
+}
+
+/**
+ * Close the current season - its leaderboards are frozen into the archive -
+ * and start `next` with empty stats. Both are saved straight away.
+ */
+export async function archiveSeason(next: SeasonInfo, now: number = Date.now()): Promise<Season> {
+  const closed: Season = {
+    ...seasonStore.current,
+    endedAt: new Date(now).toISOString(),
+    leaderboard: getAllTimeLeaderboard(),
+    teams: getAllTimeTeamLeaderboard(),
+  };
+  seasonStore = { current: next, archive: [closed, ...seasonStore.archive] };
   allTimeStats = {};
+  allTimeTeamStats = {};
   cachedLeaderboard = [];
   leaderboardDirty = true;
-  // Force save the empty state
+
+  // Saved even though empty (saveScores won't overwrite Redis with nothing)
   if (redis) {
     await redis.set(config.REDIS_KEY, JSON.stringify(allTimeStats));
-    Logger.info('💾 Stats reset saved to Redis');
+    await redis.set(config.REDIS_TEAM_KEY, JSON.stringify(allTimeTeamStats));
+  } else {
+    fs.writeFileSync(SCORES_FILE, JSON.stringify(allTimeStats, null, 2));
+    if (fs.existsSync(TEAM_SCORES_FILE)) {
+      fs.writeFileSync(TEAM_SCORES_FILE, JSON.stringify(allTimeTeamStats, null, 2));
+    }
+  }
+  await saveSeasons();
+  Logger.info(`🗓️ Season "${closed.name}" archived with ${closed.leaderboard.length} players`);
+  return closed;
+}
+
+/**
+ * Get all-time leaderboard (cached for performance) - most wins first, or
+ * highest skill rating first
+ */
+export function getAllTimeLeaderboard(sort: LeaderboardSort = 'wins'): LeaderboardEntry[] {
+  if (leaderboardDirty || cachedLeaderboard.length === 0) {
+    const combined: Record<string, PlayerStats> = {};
+    Object.entries(allTimeStats).forEach(([id, stats]) => {
+      const shownAs = resolvePlayerId(id);
+      combined[shownAs] = combined[shownAs] ? combineStats(combined[shownAs], stats) : stats;
+    });
+    const merged: Record<string, PlayerIdentity[]> = {};
+    Object.values(playerIdentities).forEach((identity) => {
+      if (!identity.mergedInto) return;
+      const shownAs = resolvePlayerId(identity.id);
+      (merged[shownAs] = merged[shownAs] || []).push(identity);
+    });
+
+    cachedLeaderboard = Object.entries(combined)
+      .map(([id, stats]) => {
+        const identities = [playerIdentities[id], ...(merged[id] || [])].filter(Boolean);
+        // Shown under the name last played with
+        const latest = identities.reduce<PlayerIdentity | undefined>(
+          (best, identity) => (!best || (identity.lastSeen ?? '') > (best.lastSeen ?? '') ? identity : best),
+          undefined
+        );
+        return {
+          id,
+          name: latest?.name ?? id,
+          merged: (merged[id] || []).map((identity) => ({ id: identity.id, name: identity.name })),
+          ...stats,
+          rating: Math.round(stats.rating ?? config.RATING_INITIAL),
+        };
+      })
+      .sort((a, b) => b.wins - a.wins || (b.slotWins ?? 0) - (a.slotWins ?? 0) || b.totalClicks - a.totalClicks);
+    leaderboardDirty = false;
   }
+  if (sort === 'rating') {
+    return [...cachedLeaderboard].sort((a, b) => b.rating - a.rating || b.wins - a.wins);
+  }
+  return cachedLeaderboard;
+}
+
+/**
+ * Copy the records a round's results are about to change
+ */
+export function takeStatsSnapshot(playerIds: string[], teamNames: string[]): StatsSnapshot {
+  const snapshot: StatsSnapshot = { players: {}, teams: {}, achievements: {} };
+  playerIds.forEach((id) => {
+    snapshot.players[id] = allTimeStats[id] ? { ...allTimeStats[id] } : null;
+    snapshot.achievements[id] = playerAchievements[id] ? JSON.parse(JSON.stringify(playerAchievements[id])) : null;
+  });
+  teamNames.forEach((name) => {
+    snapshot.teams[name] = allTimeTeamStats[name] ? { ...allTimeTeamStats[name] } : null;
+  });
+  return snapshot;
+}
+
+/**
+ * Put records back as they were in a snapshot (an aborted round never happened)
+ */
+export function restoreStatsSnapshot(snapshot: StatsSnapshot): void {
+  Object.entries(snapshot.players).forEach(([id, stats]) => {
+    if (stats) {
+      allTimeStats[id] = stats;
+    } else {
+      delete allTimeStats[id];
+    }
+  });
+  Object.entries(snapshot.teams).forEach(([name, stats]) => {
+    if (stats) {
+      allTimeTeamStats[name] = stats;
+    } else {
+      delete allTimeTeamStats[name];
+    }
+  });
+  Object.entries(snapshot.achievements).forEach(([id, achievements]) => {
+    if (achievements) {
+      playerAchievements[id] = achievements;
+    } else {
+      delete playerAchievements[id];
+    }
+  });
+  leaderboardDirty = true;
 }
 
 /**
@@ -204,3 +1162,10 @@ export function getStats(): Record<string, PlayerStats> {
   return allTimeStats;
 }
 
+/**
+ * Get team stats (for testing)
+ */
+export function getTeamStats(): Record<string, TeamStats> {
+  return allTimeTeamStats;
+}
+
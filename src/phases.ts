@@ -0,0 +1,519 @@
+// ============================================
+// ROUND PHASES (Pluggable Round Pipeline)
+// ============================================
+// A round is an ordered list of phases, configurable per room by the host.
+// Each phase declares how long it lasts, what a `click` does while it is
+// active and how it contributes to the final score. While a phase is
+// active, the game status is its id. A phase also says how the round replay
+// rebuilds its state from the event log (see replay.ts).
+
+import config from './config';
+import * as botDetection from './botDetection';
+import * as clockSync from './clockSync';
+import Logger from './logger';
+import { broadcastState, emitToRoom, finishRound, advancePhase, scoreRound, getConnectedSocketIds } from './game';
+import { spendBudget } from './campaign';
+import { getDutchPrice, recordDutchTap, resumeDutchAuction, settleDutchClaim, startDutchAuction } from './dutchAuction';
+import {
+  finalizeReactions,
+  getFastestFingerView,
+  getSignalPlanDuration,
+  getVariant,
+  haveAllPlayersResponded,
+  pauseSignals,
+  recordSignalTap,
+  resumeSignals,
+  startSignals,
+} from './fastestFinger';
+import { broadcastToHosts } from './socket';
+import { ClickPayload, CustomSocket, LeaderboardEntry, Player, Room } from './types';
+
+export interface ClickContext {
+  room: Room;
+  socket: CustomSocket;
+  payload: ClickPayload;
+  now: number; // Server time the click arrived
+}
+
+export interface ReplayClickContext {
+  room: Room;
+  playerId: string;
+  payload: ClickPayload;
+  at: number; // Server time the click arrived
+  clock: clockSync.ClockEstimate | null; // Latency compensation the live round used
+  clickTimes: number[]; // The player's counted Click Auction taps this round (for bot detection)
+}
+
+// Only the state changes of a phase - no broadcasts, timers or logging
+export interface PhaseReplay {
+  onEnter?: (room: Room, at: number) => void;
+  onExit?: (room: Room) => void;
+  onResume?: (room: Room, pausedMs: number) => void;
+  onClick?: (ctx: ReplayClickContext) => void;
+}
+
+export interface PhaseDefinition {
+  id: string;
+  label: string;
+  group: string; // Host panel toggles phases by group (e.g. both Fastest Finger phases)
+  getDuration: (room: Room) => number | null; // Seconds; null = until the host acts
+  onEnter?: (room: Room) => void;
+  onTick?: (room: Room) => void;
+  onExit?: (room: Room) => void;
+  onPause?: (room: Room) => void; // Phase timers are already cancelled
+  onResume?: (room: Room, pausedMs: number) => void; // Before the phase deadline is re-armed
+  onClick?: (ctx: ClickContext) => void;
+  applyScore?: (room: Room, entries: LeaderboardEntry[]) => LeaderboardEntry[];
+  replay?: PhaseReplay; // How the round replay rebuilds the phase
+}
+
+export interface PhaseCatalogEntry {
+  id: string;
+  label: string;
+  group: string;
+}
+
+export const WAITING_STATUS = 'waiting';
+export const RESULTS_PHASE_ID = 'finished';
+
+const phaseRegistry: Record<string, PhaseDefinition> = {};
+
+/**
+ * Register a phase so rounds can include it
+ */
+export function registerPhase(phase: PhaseDefinition): void {
+  if (phase.id === WAITING_STATUS) {
+    throw new Error(`"${WAITING_STATUS}" is reserved and cannot be a phase id`);
+  }
+  phaseRegistry[phase.id] = phase;
+}
+
+/**
+ * Get a registered phase by id
+ */
+export function getPhase(id: string): PhaseDefinition | null {
+  return phaseRegistry[id] || null;
+}
+
+/**
+ * Phases a host can put in a round (results always ends the round)
+ */
+export function getPhaseCatalog(): PhaseCatalogEntry[] {
+  return Object.values(phaseRegistry)
+    .filter((phase) => phase.id !== RESULTS_PHASE_ID)
+    .map(({ id, label, group }) => ({ id, label, group }));
+}
+
+/**
+ * Validate a host-supplied round: known phases, no duplicates, at least one phase
+ */
+export function resolveRoundPhases(phaseIds: unknown): string[] | null {
+  if (!Array.isArray(phaseIds)) return null;
+  const resolved: string[] = [];
+  for (const id of phaseIds) {
+    if (typeof id !== 'string' || id === RESULTS_PHASE_ID || !phaseRegistry[id]) return null;
+    if (!resolved.includes(id)) resolved.push(id);
+  }
+  return resolved.length > 0 ? resolved : null;
+}
+
+/**
+ * Flag a Fastest Finger false start (penalised in applyScore) - once per round
+ */
+function recordFalseStart(room: Room, socket: CustomSocket): void {
+  const player = room.gameState.players[socket.id];
+  if (player.falseStart) return;
+  player.falseStart = true;
+
+  const penalty = room.gameState.falseStartPenalty;
+  Logger.info(`🚫 FALSE START: ${player.name} (penalty: ${penalty})`);
+  broadcastToHosts(room, 'false_start', `🚫 FALSE START: ${player.name}`, 'warning');
+  socket.emit('falseStart', {
+    penalty,
+    timePenaltyMs: config.FALSE_START_TIME_PENALTY_MS,
+    scoreDeductionPercent: config.FALSE_START_SCORE_DEDUCTION_PERCENT,
+  });
+}
+
+/**
+ * Count a Click Auction tap and flag the player if their timing looks like a bot
+ */
+function countAuctionTap(player: Player, check: ReturnType<typeof botDetection.judgeClickTimes>): void {
+  player.clicks++;
+  player.suspicious = check.suspicious;
+  if (check.suspicious) {
+    player.suspicionReason = check.reason;
+  }
+}
+
+/**
+ * Preserve Click Auction scores for later phases and the results
+ */
+function saveAuctionScores(room: Room): void {
+  const gameState = room.gameState;
+  gameState.auctionScores = {};
+  Object.entries(gameState.players).forEach(([id, player]) => {
+    gameState.auctionScores[id] = player.clicks;
+  });
+}
+
+/**
+ * End the Fastest Finger tap phase early once everyone still connected has
+ * answered every signal. Checked on each tap and when a player drops.
+ */
+export function endTapPhaseIfAnswered(room: Room): boolean {
+  const gameState = room.gameState;
+  if (gameState.status !== 'fastestFinger_tap' || gameState.pause) return false;
+  if (!haveAllPlayersResponded(room, getConnectedSocketIds())) return false;
+  advancePhase(room);
+  return true;
+}
+
+/**
+ * Clear reaction times and false starts before Fastest Finger
+ */
+function resetReactions(room: Room): void {
+  Object.values(room.gameState.players).forEach((player) => {
+    player.reactionTime = null;
+    player.falseStart = false;
+    player.signalReactions = {};
+  });
+  room.gameState.fastestFinger = null;
+}
+
+// ============================================
+// BUILT-IN PHASES
+// ============================================
+
+registerPhase({
+  id: 'auction_countdown',
+  label: 'Click Auction countdown',
+  group: 'Click Auction',
+  getDuration: (room) => room.gameState.countdownDuration,
+});
+
+registerPhase({
+  id: 'auction',
+  label: 'Click Auction',
+  group: 'Click Auction',
+  getDuration: (room) => room.gameState.auctionDuration,
+
+  onEnter: (room) => {
+    const gameState = room.gameState;
+    const playerCount = Object.keys(gameState.players).length;
+    Logger.info(`🎯 CLICK AUCTION STARTED | Room ${room.code} | Round ${gameState.round} | ${playerCount} players | ${gameState.auctionDuration}s duration`);
+    broadcastToHosts(room, 'auction_start', `🎯 CLICK AUCTION STARTED | ${playerCount} players | ${gameState.auctionDuration}s`, 'game');
+  },
+
+  onTick: (room) => {
+    // Log live stats every second
+    const gameState = room.gameState;
+    const totalClicks = Object.values(gameState.players).reduce((sum, p) => sum + p.clicks, 0);
+    const topPlayer = Object.values(gameState.players).sort((a, b) => b.clicks - a.clicks)[0];
+    Logger.info(`⏱️  ${gameState.timeRemaining}s remaining | Total clicks: ${totalClicks} | Leader: ${topPlayer?.name || 'N/A'} (${topPlayer?.clicks || 0})`);
+  },
+
+  onClick: ({ room, socket, now }) => {
+    const player = room.gameState.players[socket.id];
+
+    // Campaign taps beyond the budget are rejected
+    if (!spendBudget(room, player)) {
+      socket.emit('budgetExhausted', { remaining: 0 });
+      return;
+    }
+
+    botDetection.recordClickInterval(socket.id, now);
+    countAuctionTap(player, botDetection.isSuspiciousClicker(socket.id));
+
+    // Send click confirmation only to the player who clicked (not everyone)
+    // Throttled broadcast is handled by the 1-second gameState broadcast
+    socket.emit('clickConfirm', {
+      clicks: player.clicks,
+      budget: player.budget,
+    });
+  },
+
+  onExit: (room) => {
+    const gameState = room.gameState;
+    saveAuctionScores(room);
+
+    const totalClicks = Object.values(gameState.auctionScores).reduce((sum, c) => sum + c, 0);
+    const top5 = Object.values(gameState.players)
+      .map((p) => ({ name: p.name, clicks: p.clicks }))
+      .sort((a, b) => b.clicks - a.clicks)
+      .slice(0, 5)
+      .map((p, i) => `${i + 1}. ${p.name} (${p.clicks})`)
+      .join(' | ');
+
+    Logger.info(`🏁 CLICK AUCTION ENDED | Total: ${totalClicks} clicks`);
+    Logger.info(`📊 TOP 5: ${top5}`);
+    broadcastToHosts(room, 'auction_end', `🏁 AUCTION ENDED | ${totalClicks} clicks`, 'game');
+    broadcastToHosts(room, 'auction_top5', `📊 TOP 5: ${top5}`, 'game');
+  },
+
+  // Each Click Auction tap is worth one point
+  applyScore: (_room, entries) => entries.map((entry) => ({
+    ...entry,
+    finalScore: entry.finalScore + (entry.auctionScore ?? entry.clicks),
+  })),
+
+  replay: {
+    onClick: ({ room, playerId, at, clickTimes }) => {
+      const player = room.gameState.players[playerId];
+      if (!spendBudget(room, player)) return;
+      clickTimes.push(at);
+      countAuctionTap(player, botDetection.judgeClickTimes(clickTimes));
+    },
+    onExit: saveAuctionScores,
+  },
+});
+
+registerPhase({
+  id: 'fastestFinger_countdown',
+  label: 'Fastest Finger countdown',
+  group: 'Fastest Finger',
+  getDuration: (room) => room.gameState.fastestFingerCountdownDuration,
+
+  onEnter: (room) => {
+    resetReactions(room);
+    const variant = getVariant(room.gameState.fastestFingerVariant);
+    Logger.info(`⚡ FASTEST FINGER (${variant.label}) starting in ${room.gameState.fastestFingerCountdownDuration}s...`);
+  },
+
+  // Tapping before the signal is a false start (penalised in applyScore)
+  onClick: ({ room, socket }) => recordFalseStart(room, socket),
+
+  replay: {
+    onEnter: resetReactions,
+    onClick: ({ room, playerId }) => {
+      room.gameState.players[playerId].falseStart = true;
+    },
+  },
+});
+
+registerPhase({
+  id: 'fastestFinger_tap',
+  label: 'Fastest Finger',
+  group: 'Fastest Finger',
+  // Lasts as long as the variant's planned signals (set up in onEnter)
+  getDuration: (room) => getSignalPlanDuration(room) / 1000,
+
+  onEnter: (room) => {
+    startSignals(room, broadcastState);
+    const variant = getVariant(room.gameState.fastestFingerVariant);
+    const playerCount = Object.keys(room.gameState.players).length;
+    Logger.info(`⚡ FASTEST FINGER TAP! (${variant.label}) | ${playerCount} players racing...`);
+  },
+
+  onPause: (room) => pauseSignals(room),
+
+  // Signals carry on from where the plan stopped
+  onResume: (room) => {
+    const remainingMs = room.gameState.pause?.remainingMs ?? 0;
+    resumeSignals(room, getSignalPlanDuration(room) - remainingMs, broadcastState);
+  },
+
+  onClick: ({ room, socket, payload, now }) => {
+    const attempt = getFastestFingerView(room).signal?.attempt;
+    const outcome = recordSignalTap(room, socket.id, payload, now);
+    const player = room.gameState.players[socket.id];
+
+    if (outcome === 'false_start') {
+      recordFalseStart(room, socket);
+      return;
+    }
+    if (outcome === 'wrong_target') {
+      Logger.info(`❌ WRONG TARGET: ${player.name}`);
+      socket.emit('wrongTarget', {});
+    } else if (outcome === 'reaction') {
+      const rtt = clockSync.getClockEstimate(socket.id)?.rttMs;
+      Logger.info(`⚡ TAP: ${player.name} - ${player.reactionTime}ms (attempt ${attempt ?? 1}, RTT ${rtt ?? '?'}ms)`);
+      emitToRoom(room, 'reactionTimeRecorded', {
+        playerId: socket.id,
+        playerName: player.name,
+        reactionTime: player.reactionTime,
+        attempt,
+      });
+    } else {
+      return;
+    }
+
+    if (!endTapPhaseIfAnswered(room)) broadcastState(room);
+  },
+
+  onExit: (room) => {
+    finalizeReactions(room);
+    const players = Object.values(room.gameState.players);
+    const disqualified = (p: Player): boolean => !!p.falseStart && room.gameState.falseStartPenalty === 'disqualify';
+    const tappedPlayers = players
+      .filter((p) => p.reactionTime !== null && p.reactionTime !== undefined && !disqualified(p))
+      .sort((a, b) => (a.reactionTime || 0) - (b.reactionTime || 0));
+    const didntTap = players.filter((p) => p.reactionTime === null || p.reactionTime === undefined).length;
+    const falseStarts = players.filter((p) => p.falseStart).length;
+    const wrongTargets = players.filter((p) => Object.values(p.signalReactions || {}).includes(null)).length;
+
+    Logger.info(`⚡ FASTEST FINGER RESULTS:`);
+    if (tappedPlayers.length > 0) {
+      const medals = ['🥇', '🥈', '🥉'];
+      const top3 = tappedPlayers.slice(0, 3);
+      top3.forEach((p, i) => {
+        Logger.info(`   ${medals[i]} ${i === 0 ? 'Fastest' : `${i + 1}${i === 1 ? 'nd' : 'rd'}`}: ${p.name} (${p.reactionTime}ms)`);
+      });
+
+      // Broadcast fastest finger top 3 to host
+      const ffResults = top3.map((p, i) => `${medals[i]} ${p.name} (${p.reactionTime}ms)`).join(' | ');
+      broadcastToHosts(room, 'fastest_finger', `⚡ FASTEST FINGER: ${ffResults}`, 'game');
+    }
+    if (didntTap > 0) Logger.info(`   ❌ ${didntTap} player(s) didn't tap`);
+    if (falseStarts > 0) Logger.info(`   🚫 ${falseStarts} false start(s)`);
+    if (wrongTargets > 0) Logger.info(`   ❌ ${wrongTargets} wrong target(s)`);
+  },
+
+  // Multipliers for the fastest reactions (no multiplier if didn't tap),
+  // then the room's false start penalty.
+  // With no earlier scoring phase in the round, each tap is worth one point.
+  applyScore: (room, entries) => {
+    const { roundPhases, falseStartPenalty } = room.gameState;
+    const isFirstScoringPhase = !roundPhases
+      .slice(0, roundPhases.indexOf('fastestFinger_tap'))
+      .some((id) => getPhase(id)?.applyScore);
+
+    // 'add_time' false starters race with a slower reaction time
+    const adjusted = entries.map((entry) => (
+      entry.falseStart && falseStartPenalty === 'add_time' && entry.reactionTime !== null
+        ? { ...entry, reactionTime: entry.reactionTime + config.FALSE_START_TIME_PENALTY_MS }
+        : entry
+    ));
+
+    // Disqualified false starters don't take a multiplier slot
+    const ranked = adjusted
+      .filter((entry) => entry.reactionTime !== null && !(entry.falseStart && falseStartPenalty === 'disqualify'))
+      .sort((a, b) => (a.reactionTime as number) - (b.reactionTime as number));
+
+    return adjusted.map((entry) => {
+      const rank = ranked.indexOf(entry);
+      const multiplier = rank === -1 ? 1.0 : (config.FASTEST_FINGER_MULTIPLIERS[rank] || 1.0);
+      const baseScore = isFirstScoringPhase && entry.reactionTime !== null ? 1 : entry.finalScore;
+      let finalScore = Math.round(baseScore * multiplier);
+      if (entry.falseStart && falseStartPenalty === 'deduct_score') {
+        finalScore = Math.round(finalScore * (1 - config.FALSE_START_SCORE_DEDUCTION_PERCENT / 100));
+      }
+      return { ...entry, multiplier, finalScore };
+    });
+  },
+
+  // Signals show and hide as logged; a round ended early ends with its phase event
+  replay: {
+    onExit: finalizeReactions,
+    onClick: ({ room, playerId, payload, at, clock }) => {
+      if (recordSignalTap(room, playerId, payload, at, clock) === 'false_start') {
+        room.gameState.players[playerId].falseStart = true;
+      }
+    },
+  },
+});
+
+registerPhase({
+  id: 'dutch_countdown',
+  label: 'Dutch Auction countdown',
+  group: 'Dutch Auction',
+  getDuration: (room) => room.gameState.countdownDuration,
+
+  onEnter: (room) => {
+    room.gameState.dutch = null;
+    Logger.info(`🔨 DUTCH AUCTION starting in ${room.gameState.countdownDuration}s...`);
+  },
+
+  replay: {
+    onEnter: (room) => {
+      room.gameState.dutch = null;
+    },
+  },
+});
+
+registerPhase({
+  id: 'dutch',
+  label: 'Dutch Auction',
+  group: 'Dutch Auction',
+  // Ends early once the slot is claimed
+  getDuration: (room) => (room.gameState.dutch?.durationMs ?? room.gameState.auctionDuration * 1000) / 1000,
+
+  onEnter: (room) => {
+    const auction = startDutchAuction(room);
+    const playerCount = Object.keys(room.gameState.players).length;
+    Logger.info(`🔨 DUTCH AUCTION STARTED | Room ${room.code} | ${playerCount} players | ${auction.ceiling} → ${auction.floor} over ${auction.durationMs / 1000}s`);
+    broadcastToHosts(room, 'dutch_start', `🔨 DUTCH AUCTION | price falling ${auction.ceiling} → ${auction.floor}`, 'game');
+  },
+
+  onTick: (room) => {
+    const auction = room.gameState.dutch;
+    if (!auction || auction.claim) return;
+    Logger.info(`⏱️  Dutch price: ${getDutchPrice(auction, Date.now() - auction.startedAt)} | ${room.gameState.timeRemaining}s to the floor`);
+  },
+
+  onResume: (room, pausedMs) => resumeDutchAuction(room, pausedMs, advancePhase),
+
+  // The first tap claims the slot once the claim window closes
+  onClick: ({ room, socket, payload, now }) => {
+    if (!recordDutchTap(room, socket.id, payload, advancePhase, now)) return;
+
+    const auction = room.gameState.dutch;
+    const tap = auction?.taps[auction.taps.length - 1];
+    const rtt = clockSync.getClockEstimate(socket.id)?.rttMs;
+    Logger.info(`🔨 DUTCH TAP: ${room.gameState.players[socket.id].name} at ${tap?.elapsedMs}ms (RTT ${rtt ?? '?'}ms)`);
+    socket.emit('dutchTapReceived', {});
+  },
+
+  onExit: (room) => {
+    // A tap just before the deadline still claims the slot
+    const claim = settleDutchClaim(room);
+    if (claim) {
+      Logger.info(`🔨 SOLD: ${claim.name} at ${claim.price} (${claim.elapsedMs}ms into the auction)`);
+      broadcastToHosts(room, 'dutch_claim', `🔨 SOLD to ${claim.name} at ${claim.price}`, 'game');
+    } else {
+      Logger.info(`🔨 DUTCH AUCTION ENDED - no taps before the floor`);
+      broadcastToHosts(room, 'dutch_claim', '🔨 Dutch auction ended unsold', 'warning');
+    }
+  },
+
+  // The claimant bids the price they accepted
+  applyScore: (room, entries) => {
+    const claim = room.gameState.dutch?.claim;
+    if (!claim) return entries;
+    return entries.map((entry) => (
+      entry.id === claim.playerId
+        ? { ...entry, dutchPrice: claim.price, finalScore: entry.finalScore + claim.price }
+        : entry
+    ));
+  },
+
+  // A claim settled by its claim window ends the phase, so it is settled on exit here
+  replay: {
+    onEnter: (room, at) => {
+      startDutchAuction(room, at);
+    },
+    onResume: (room, pausedMs) => {
+      if (room.gameState.dutch) room.gameState.dutch.startedAt += pausedMs;
+    },
+    onClick: ({ room, playerId, payload, at, clock }) => {
+      recordDutchTap(room, playerId, payload, () => undefined, at, clock);
+    },
+    onExit: (room) => {
+      settleDutchClaim(room);
+    },
+  },
+});
+
+registerPhase({
+  id: RESULTS_PHASE_ID,
+  label: 'Results',
+  group: 'Results',
+  getDuration: () => null,
+  onEnter: (room) => finishRound(room),
+
+  replay: {
+    onEnter: (room) => {
+      scoreRound(room);
+    },
+  },
+});
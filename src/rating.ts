@@ -0,0 +1,62 @@
+// ============================================
+// SKILL RATING (Multi-player Elo)
+// ============================================
+// Wins and taps reward whoever played the most rounds; the rating rewards
+// how well they placed. After each round every player is scored against
+// every other participant as if in a head-to-head Elo match - beating
+// someone rated higher earns more than beating someone rated lower - and
+// the pairwise results are scaled so one round moves a rating by at most
+// the K factor, however many players took part.
+
+import config from './config';
+import * as persistence from './persistence';
+
+export interface RatingChange {
+  rating: number; // Rating after the round
+  delta: number;
+}
+
+/**
+ * Chance a player rated `rating` places above one rated `opponent`
+ */
+export function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+}
+
+/**
+ * Rating changes for one round. `ratings` are in finishing order (winner
+ * first), with each player's final score in `scores` - players on the same
+ * score draw with each other. The changes come back in the same order.
+ */
+export function calculateRatingChanges(
+  ratings: number[],
+  scores: number[] = ratings.map((_, i) => -i),
+  k: number = config.RATING_K_FACTOR
+): number[] {
+  if (ratings.length < 2) return ratings.map(() => 0);
+  return ratings.map((rating, i) => {
+    const score = ratings.reduce((sum, opponent, j) => {
+      if (i === j) return sum;
+      const actual = scores[i] === scores[j] ? 0.5 : i < j ? 1 : 0;
+      return sum + actual - expectedScore(rating, opponent);
+    }, 0);
+    return (k * score) / (ratings.length - 1);
+  });
+}
+
+/**
+ * Rate a finished round and keep the new ratings. `playerIds` are in
+ * finishing order with their final scores in `scores`, and their all-time
+ * stats must already include the round.
+ */
+export function recordRatings(playerIds: string[], scores: number[]): Record<string, RatingChange> {
+  const places = playerIds.map((_, i) => i).filter((i) => playerIds.indexOf(playerIds[i]) === i); // A player on two devices places once
+  const ranked = places.map((i) => playerIds[i]);
+  const before = ranked.map((id) => persistence.getPlayerRating(id));
+  const changes: Record<string, RatingChange> = {};
+  calculateRatingChanges(before, places.map((i) => scores[i])).forEach((delta, i) => {
+    const rating = persistence.adjustPlayerRating(ranked[i], delta);
+    changes[ranked[i]] = { rating: Math.round(rating), delta: Math.round(rating - before[i]) };
+  });
+  return changes;
+}
@@ -0,0 +1,284 @@
+// ============================================
+// ROUND REPLAY (Deterministic Rebuild)
+// ============================================
+// Rebuilds a round's game state from its event log (see eventLog.ts). Events
+// are applied in order, at their logged server time, to a room of the
+// replay's own through the phases' replay hooks - a replay never broadcasts,
+// schedules or records anything, and its clock is whatever time it is asked
+// to replay up to. Taps are judged with the clock estimates logged with them
+// and bot detection works from the logged click times, so a log always
+// replays to the same state, scored by the rules the server runs now.
+
+import * as persistence from './persistence';
+import config from './config';
+import { stopAdRotation, syncAdRotation } from './adRotation';
+import { clearAllIntervals, emitToRoom, getStatePayload, isRoundInProgress } from './game';
+import { hideSignal, setSignalPlan, showSignal } from './fastestFinger';
+import { refreshWinnerAds } from './moderation';
+import { getPhase, RESULTS_PHASE_ID, WAITING_STATUS } from './phases';
+import { buildRoom } from './rooms';
+import { toRecordAwards } from './roundHistory';
+import { getRemainingSeconds } from './scheduler';
+import { ClearingResult, GameEvent, GameState, LeaderboardEntry, Room, RoundRecord, RoundRecordAward } from './types';
+
+export interface Replay {
+  room: Room; // Holds the rebuilt state (not listed with the live rooms)
+  events: GameEvent[];
+  next: number; // Index of the next event to apply
+  clickTimes: Record<string, number[]>; // Counted Click Auction taps by player
+}
+
+export interface ReplayedResults {
+  id: string;
+  round: number;
+  finalLeaderboard: LeaderboardEntry[];
+  winners: RoundRecordAward[];
+  clearing: ClearingResult | null;
+  changed: boolean; // The results differ from the ones recorded when the round was played
+}
+
+type EventHandler<T extends GameEvent['type']> = (replay: Replay, event: Extract<GameEvent, { type: T }>) => void;
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// ============================================
+// EVENT HANDLERS
+// ============================================
+
+const eventHandlers: { [T in GameEvent['type']]: EventHandler<T> } = {
+  round_start: (replay, event) => {
+    replay.room.gameState = copy(event.state);
+    replay.clickTimes = {};
+  },
+
+  join: (replay, event) => {
+    replay.room.gameState.players[event.playerId] = copy(event.player);
+  },
+
+  leave: (replay, event) => {
+    delete replay.room.gameState.players[event.playerId];
+  },
+
+  // Host commands are an audit trail - what they changed has its own events
+  host: () => undefined,
+
+  phase: (replay, event) => {
+    const room = replay.room;
+    const gameState = room.gameState;
+    if (isRoundInProgress(room)) {
+      getPhase(gameState.status)?.replay?.onExit?.(room);
+    }
+    gameState.status = event.phase;
+    gameState.phaseIndex++;
+    getPhase(event.phase)?.replay?.onEnter?.(room, event.at);
+    gameState.endsAt = event.endsAt;
+  },
+
+  signals: (replay, event) => {
+    setSignalPlan(replay.room, copy(event.signals));
+  },
+
+  signal: (replay, event) => {
+    const signal = replay.room.gameState.fastestFinger?.signals.find((s) => s.id === event.signalId);
+    if (!signal) return;
+    if (event.shown) {
+      showSignal(replay.room, signal, event.at);
+    } else {
+      hideSignal(replay.room, signal);
+    }
+  },
+
+  click: (replay, event) => {
+    const room = replay.room;
+    if (!room.gameState.players[event.playerId]) return;
+    const clickTimes = replay.clickTimes[event.playerId] || (replay.clickTimes[event.playerId] = []);
+    getPhase(room.gameState.status)?.replay?.onClick?.({
+      room,
+      playerId: event.playerId,
+      payload: event.payload,
+      at: event.at,
+      clock: event.clock,
+      clickTimes,
+    });
+  },
+
+  ad_review: (replay, event) => {
+    const player = replay.room.gameState.players[event.playerId];
+    if (!player) return;
+    player.adReview = copy(event.review);
+    refreshWinnerAds(replay.room);
+  },
+
+  pause: (replay, event) => {
+    const gameState = replay.room.gameState;
+    if (gameState.endsAt !== null) gameState.timeRemaining = getRemainingSeconds(gameState.endsAt, event.at);
+    gameState.pause = {
+      pausedAt: event.at,
+      remainingMs: gameState.endsAt === null ? null : Math.max(0, gameState.endsAt - event.at),
+    };
+    gameState.endsAt = null;
+  },
+
+  resume: (replay, event) => {
+    const gameState = replay.room.gameState;
+    const pause = gameState.pause;
+    if (!pause) return;
+    getPhase(gameState.status)?.replay?.onResume?.(replay.room, event.at - pause.pausedAt);
+    gameState.pause = null;
+    gameState.endsAt = pause.remainingMs === null ? null : event.at + pause.remainingMs;
+  },
+
+  abort: (replay) => {
+    const gameState = replay.room.gameState;
+    gameState.status = WAITING_STATUS;
+    gameState.endsAt = null;
+    gameState.pause = null;
+  },
+};
+
+function shiftEvent(event: GameEvent, shiftMs: number): GameEvent {
+  const shifted = { ...event, at: event.at + shiftMs };
+  if (shifted.type === 'phase' && shifted.endsAt !== null) {
+    shifted.endsAt += shiftMs;
+  }
+  return shifted;
+}
+
+// ============================================
+// REPLAY ENGINE
+// ============================================
+
+/**
+ * Set up a replay of one round's events (they must start with its
+ * round_start). With `startAt`, the round replays as if it had started then.
+ */
+export function createReplay(events: GameEvent[], roomCode: string, startAt: number | null = null): Replay | null {
+  const first = events[0];
+  if (!first || first.type !== 'round_start') return null;
+
+  const shiftMs = startAt === null ? 0 : startAt - first.at;
+  return {
+    room: buildRoom(roomCode, first.at + shiftMs),
+    events: shiftMs === 0 ? events : events.map((event) => shiftEvent(event, shiftMs)),
+    next: 0,
+    clickTimes: {},
+  };
+}
+
+/**
+ * Apply every event up to `now` and return the state at that moment
+ */
+export function replayUntil(replay: Replay, now: number): GameState {
+  while (replay.next < replay.events.length && replay.events[replay.next].at <= now) {
+    const event = replay.events[replay.next++];
+    (eventHandlers[event.type] as EventHandler<GameEvent['type']>)(replay, event as never);
+    // Live helpers may arm timers (e.g. a Dutch claim window) - the log already says what they did
+    clearAllIntervals(replay.room);
+  }
+
+  const gameState = replay.room.gameState;
+  if (gameState.endsAt !== null) {
+    gameState.timeRemaining = getRemainingSeconds(gameState.endsAt, now);
+  }
+  return gameState;
+}
+
+/**
+ * Every event has been applied
+ */
+export function isReplayComplete(replay: Replay): boolean {
+  return replay.next >= replay.events.length;
+}
+
+/**
+ * Rebuild the state a round's events end in (null if they don't start a round)
+ */
+export function replayRound(events: GameEvent[], roomCode: string): GameState | null {
+  const replay = createReplay(events, roomCode);
+  return replay && replayUntil(replay, Infinity);
+}
+
+/**
+ * Score a past round again from its event log, with the current scoring
+ * rules. Null if the round's log is no longer kept or never reached results.
+ */
+export function regenerateResults(record: RoundRecord): ReplayedResults | null {
+  const log = persistence.getEventLog(record.id);
+  const gameState = log && replayRound(log.events, record.roomCode);
+  if (!gameState || gameState.status !== RESULTS_PHASE_ID) return null;
+
+  const results = {
+    finalLeaderboard: gameState.finalLeaderboard,
+    winners: toRecordAwards(gameState.winners),
+    clearing: gameState.clearing,
+  };
+  const recorded = { finalLeaderboard: record.finalLeaderboard, winners: record.winners, clearing: record.clearing };
+  return {
+    id: record.id,
+    round: record.round,
+    ...results,
+    changed: JSON.stringify(results) !== JSON.stringify(recorded),
+  };
+}
+
+// ============================================
+// PLAYBACK ON THE DISPLAYS
+// ============================================
+// The host can play a past round back on the room's displays between
+// rounds. Frames have the same shape as `gameState`; displays show them
+// instead of the live state until `replayEnded`. The lobby ad rotation
+// makes way while a replay is on.
+
+interface Playback {
+  roundId: string;
+  timer: ReturnType<typeof setInterval>;
+}
+
+const playbacks: Record<string, Playback> = {}; // By room code
+
+/**
+ * Play a past round back on the room's displays, starting now
+ */
+export function startReplayPlayback(room: Room, record: RoundRecord, events: GameEvent[], now: () => number = Date.now): boolean {
+  const replay = createReplay(events, room.code, now());
+  if (!replay) return false;
+  stopReplayPlayback(room);
+  stopAdRotation(room);
+
+  const endsAt = replay.events[replay.events.length - 1].at + config.REPLAY_RESULTS_HOLD_MS;
+  const showFrame = (): void => {
+    const time = now();
+    replayUntil(replay, time);
+    emitToRoom(room, 'replayFrame', getStatePayload(replay.room, time));
+    if (time >= endsAt) {
+      stopReplayPlayback(room);
+      syncAdRotation(room);
+    }
+  };
+
+  emitToRoom(room, 'replayStarted', { roundId: record.id, round: record.round });
+  playbacks[room.code] = { roundId: record.id, timer: setInterval(showFrame, config.REPLAY_FRAME_MS) };
+  showFrame();
+  return true;
+}
+
+/**
+ * Stop the room's playback, if one is running (displays go back to the live state)
+ */
+export function stopReplayPlayback(room: Room): boolean {
+  const playback = playbacks[room.code];
+  if (!playback) return false;
+  clearInterval(playback.timer);
+  delete playbacks[room.code];
+  emitToRoom(room, 'replayEnded', { roundId: playback.roundId });
+  return true;
+}
+
+/**
+ * A past round is playing on the room's displays
+ */
+export function isReplayPlaying(room: Room): boolean {
+  return !!playbacks[room.code];
+}
@@ -0,0 +1,174 @@
+// ============================================
+// RESULTS EXPORT (CSV & JSON)
+// ============================================
+// Organisers want the results after the event. The host can download the
+// current round's results, the all-time stats and the full round history,
+// each as CSV or JSON. Every export is a table with a fixed column order -
+// the same in both formats - so spreadsheets and scripts built on one
+// export keep working on the next.
+
+import * as persistence from './persistence';
+import { ExportDataset, ExportFormat, LeaderboardEntry, Room, RoundRecordAward, Team } from './types';
+
+type ExportValue = string | number | boolean | null;
+
+export interface ExportTable {
+  columns: string[];
+  rows: Record<string, ExportValue>[];
+}
+
+// One row per player in a round, finishing order
+const RESULT_COLUMNS = [
+  'rank',
+  'playerId',
+  'name',
+  'team',
+  'auctionTaps',
+  'reactionTime',
+  'falseStart',
+  'multiplier',
+  'finalScore',
+  'slot',
+  'clearingPrice',
+  'suspicious',
+];
+
+const ROUND_COLUMNS = ['roundId', 'room', 'round', 'finishedAt', ...RESULT_COLUMNS];
+
+const STATS_COLUMNS = [
+  'playerId',
+  'name',
+  'shownAs',
+  'wins',
+  'slotWins',
+  'roundsPlayed',
+  'totalAuctionTaps',
+  'bestReactionTime',
+  'totalFinalScore',
+  'bestRound',
+  'rating',
+  'longestWinStreak',
+  'lastPlayed',
+];
+
+function resultRows(leaderboard: LeaderboardEntry[], awards: RoundRecordAward[], teams: Team[] = []): Record<string, ExportValue>[] {
+  return leaderboard.map((entry, i) => {
+    const award = awards.find((a) => a.id === entry.id);
+    return {
+      rank: i + 1,
+      playerId: entry.identityId ?? null,
+      name: entry.name,
+      team: teams.find((team) => team.id === entry.teamId)?.name ?? null,
+      auctionTaps: entry.auctionScore ?? entry.clicks,
+      reactionTime: entry.reactionTime,
+      falseStart: entry.falseStart ?? false,
+      multiplier: entry.multiplier ?? null,
+      finalScore: entry.finalScore,
+      slot: award ? award.slotLabel : null,
+      clearingPrice: award ? award.clearingPrice : null,
+      suspicious: entry.suspicious,
+    };
+  });
+}
+
+/**
+ * A room's latest round results - the round on show, or once the lobby has
+ * opened again the room's last recorded round (null before its first round
+ * has finished)
+ */
+export function exportRoundResults(room: Room): ExportTable | null {
+  const { finalLeaderboard, winners, teams } = room.gameState;
+  if (finalLeaderboard.length > 0) {
+    return { columns: RESULT_COLUMNS, rows: resultRows(finalLeaderboard, winners, teams?.teams) };
+  }
+  const record = persistence.getRounds().find((r) => r.roomCode === room.code);
+  if (!record) return null;
+  return { columns: RESULT_COLUMNS, rows: resultRows(record.finalLeaderboard, record.winners, record.teams) };
+}
+
+/**
+ * The current season's stats, one row per player id (merged ids included,
+ * with the id they are shown as)
+ */
+export function exportAllTimeStats(): ExportTable {
+  const rows = Object.entries(persistence.getStats()).map(([id, stats]) => ({
+    playerId: id,
+    name: persistence.getPlayerIdentity(id)?.name ?? id,
+    shownAs: persistence.resolvePlayerId(id),
+    wins: stats.wins,
+    slotWins: stats.slotWins ?? 0,
+    roundsPlayed: stats.roundsPlayed,
+    totalAuctionTaps: stats.totalAuctionTaps,
+    bestReactionTime: stats.bestReactionTime,
+    totalFinalScore: stats.totalFinalScore,
+    bestRound: stats.bestRound,
+    rating: Math.round(persistence.getPlayerRating(id)),
+    longestWinStreak: stats.longestWinStreak ?? 0,
+    lastPlayed: stats.lastPlayed,
+  }));
+  rows.sort((a, b) => b.wins - a.wins || b.totalFinalScore - a.totalFinalScore || a.playerId.localeCompare(b.playerId));
+  return { columns: STATS_COLUMNS, rows };
+}
+
+/**
+ * Every round in the history, oldest first, one row per player
+ */
+export function exportRoundHistory(): ExportTable {
+  const rows = [...persistence.getRounds()]
+    .reverse()
+    .flatMap((record) =>
+      resultRows(record.finalLeaderboard, record.winners, record.teams).map((row) => ({
+        roundId: record.id,
+        room: record.roomCode,
+        round: record.round,
+        finishedAt: record.finishedAt,
+        ...row,
+      }))
+    );
+  return { columns: ROUND_COLUMNS, rows };
+}
+
+/**
+ * Build an export (null when there is nothing to export yet)
+ */
+export function buildExport(dataset: ExportDataset, room: Room): ExportTable | null {
+  switch (dataset) {
+    case 'results':
+      return exportRoundResults(room);
+    case 'stats':
+      return exportAllTimeStats();
+    case 'rounds':
+      return exportRoundHistory();
+  }
+}
+
+function csvCell(value: ExportValue): string {
+  if (value === null) return '';
+  let text = String(value);
+  // Spreadsheets run cells starting like a formula - player names are untrusted
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render an export as CSV (header row first, CRLF line endings)
+ */
+export function toCsv(table: ExportTable): string {
+  const lines = [table.columns.join(','), ...table.rows.map((row) => table.columns.map((column) => csvCell(row[column] ?? null)).join(','))];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Render an export as JSON: one object per row, keys in column order
+ */
+export function toJson(table: ExportTable): string {
+  const rows = table.rows.map((row) => Object.fromEntries(table.columns.map((column) => [column, row[column] ?? null])));
+  return JSON.stringify(rows, null, 2);
+}
+
+/**
+ * Render an export in the requested format
+ */
+export function formatExport(table: ExportTable, format: ExportFormat): string {
+  return format === 'csv' ? toCsv(table) : toJson(table);
+}
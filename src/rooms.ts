@@ -0,0 +1,176 @@
+
+// ============================================
+// GAME ROOMS (Concurrent Auctions)
+// ============================================
+// Each room runs its own auction: state, timers, hosts and leaderboard.
+// Players, displays and hosts are bound to a room by its join code.
+
+import crypto from 'crypto';
+import config from './config';
+import Logger from './logger';
+import * as validation from './validation';
+import { GameState, Room } from './types';
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes are easy to read off a projector
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+const rooms: Record<string, Room> = {};
+
+/**
+ * Create a fresh game state for a new room
+ */
+export function createGameState(): GameState {
+  return {
+    status: 'waiting',
+    players: {},
+    auctionDuration: 10,
+    countdownDuration: 3,
+    timeRemaining: 0,
+    endsAt: null,
+    winners: [],
+    adSlots: config.DEFAULT_AD_SLOTS,
+    clearing: null,
+    clearingMode: config.DEFAULT_CLEARING_MODE,
+    floorPrice: config.DEFAULT_FLOOR_PRICE,
+    adModeration: config.DEFAULT_AD_MODERATION,
+    adDwellSeconds: config.DEFAULT_AD_DWELL_SECONDS,
+    campaign: null,
+    teams: null,
+    tournament: null,
+    dutchCeiling: config.DEFAULT_DUTCH_CEILING,
+    dutch: null,
+    round: 0,
+    pause: null,
+    roundSnapshot: null,
+    finalLeaderboard: [],
+    auctionScores: {},
+    fastestFingerStartTime: null,
+    fastestFingerCountdownDuration: 3,
+    falseStartPenalty: config.DEFAULT_FALSE_START_PENALTY,
+    fastestFingerVariant: config.DEFAULT_FASTEST_FINGER_VARIANT,
+    fastestFinger: null,
+    roundPhases: [...config.DEFAULT_ROUND_PHASES],
+    phaseIndex: -1,
+  };
+}
+
+/**
+ * Socket.io channel name for a room's broadcasts
+ */
+export function roomChannel(code: string): string {
+  return `room:${code}`;
+}
+
+/**
+ * Generate a short, unused join code
+ */
+export function generateRoomCode(): string {
+  let code: string;
+  do {
+    code = '';
+    const bytes = crypto.randomBytes(config.ROOM_CODE_LENGTH);
+    for (let i = 0; i < config.ROOM_CODE_LENGTH; i++) {
+      code += ROOM_CODE_ALPHABET[bytes[i] % ROOM_CODE_ALPHABET.length];
+    }
+  } while (rooms[code]);
+  return code;
+}
+
+/**
+ * Create a new room (returns null when the room limit is reached)
+ */
+export function createRoom(code: string = generateRoomCode()): Room | null {
+  if (rooms[code]) return rooms[code];
+  if (Object.keys(rooms).length >= config.MAX_ROOMS) {
+    Logger.warn(`❌ Room not created - MAX_ROOMS (${config.MAX_ROOMS}) reached`);
+    return null;
+  }
+
+  rooms[code] = buildRoom(code);
+  Logger.info(`🏠 Room created: ${code}`);
+  return rooms[code];
+}
+
+/**
+ * A room that isn't listed with the others (the round replay rebuilds its state in one)
+ */
+export function buildRoom(code: string, now: number = Date.now()): Room {
+  return {
+    code,
+    gameState: createGameState(),
+    timers: {
+      phaseDeadline: null,
+      phaseInterval: null,
+      signalTasks: [],
+      dutchClaim: null,
+    },
+    hostSocketIds: new Set(),
+    displaySocketIds: new Set(),
+    colorIndex: 0,
+    eventLog: [],
+    creativeReviews: {},
+    createdAt: now,
+    lastActivityAt: now,
+  };
+}
+
+/**
+ * Get the default room (always exists)
+ */
+export function getDefaultRoom(): Room {
+  return rooms[config.DEFAULT_ROOM_CODE] || (createRoom(config.DEFAULT_ROOM_CODE) as Room);
+}
+
+/**
+ * Resolve a join code to a room. A missing code means the default room.
+ */
+export function resolveRoom(code: unknown): Room | null {
+  if (code === undefined || code === null || code === '') {
+    return getDefaultRoom();
+  }
+  const normalized = validation.normalizeRoomCode(code);
+  if (!normalized) return null;
+  if (normalized === config.DEFAULT_ROOM_CODE) return getDefaultRoom();
+  return rooms[normalized] || null;
+}
+
+/**
+ * Get a room by its exact code
+ */
+export function getRoom(code: string): Room | null {
+  return rooms[code] || null;
+}
+
+/**
+ * Get all rooms
+ */
+export function getAllRooms(): Room[] {
+  return Object.values(rooms);
+}
+
+/**
+ * Mark a room as recently used (keeps it from idle cleanup)
+ */
+export function touchRoom(room: Room): void {
+  room.lastActivityAt = Date.now();
+}
+
+/**
+ * Remove empty rooms that have been idle too long (the default room is kept,
+ * and so is a room whose tournament is still running - its bracket lives there)
+ */
+export function cleanupIdleRooms(): number {
+  const now = Date.now();
+  let removed = 0;
+  for (const room of Object.values(rooms)) {
+    if (room.code === config.DEFAULT_ROOM_CODE) continue;
+    if (room.gameState.tournament && room.gameState.tournament.endedAt === null) continue;
+    const isEmpty = Object.keys(room.gameState.players).length === 0 && room.hostSocketIds.size === 0 && room.displaySocketIds.size === 0;
+    if (isEmpty && now - room.lastActivityAt > config.ROOM_IDLE_TIMEOUT_MS) {
+      delete rooms[room.code];
+      Logger.info(`🏚️ Room removed after inactivity: ${room.code}`);
+      removed++;
+    }
+  }
+  return removed;
+}
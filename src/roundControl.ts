@@ -0,0 +1,166 @@
+// ============================================
+// ROUND CONTROL (Pause, Resume, Abort)
+// ============================================
+// The host can freeze a running round - the phase clock stops, clicks are
+// rejected and every screen shows a pause overlay - and pick it up later
+// where it stopped. Aborting throws the round away as if it never started:
+// campaign budgets, the tournament bracket and any all-time stats the round
+// already recorded go back to how they were before it, and the round is
+// dropped from the round history. Pauses, resumes and aborts are written to
+// the room's event log.
+
+import * as persistence from './persistence';
+import Logger from './logger';
+import { logEvent } from './eventLog';
+import {
+  advancePhase,
+  armPhaseTimers,
+  broadcastState,
+  clearAllIntervals,
+  emitBudgets,
+  emitTournamentStatuses,
+  isRoundInProgress,
+  resetGame,
+} from './game';
+import { getPhase, RESULTS_PHASE_ID } from './phases';
+import { getRemainingSeconds } from './scheduler';
+import { Room, RoundSnapshot } from './types';
+
+/**
+ * Remember what a round can change, so it can be aborted
+ */
+export function takeRoundSnapshot(room: Room): RoundSnapshot {
+  const gameState = room.gameState;
+  const budgets: RoundSnapshot['budgets'] = {};
+  Object.entries(gameState.players).forEach(([id, player]) => {
+    budgets[id] = { budget: player.budget, budgetSpent: player.budgetSpent, impressions: player.impressions };
+  });
+  const snapshot: RoundSnapshot = {
+    round: gameState.round,
+    campaign: gameState.campaign ? { ...gameState.campaign } : null,
+    budgets,
+    tournament: gameState.tournament ? JSON.parse(JSON.stringify(gameState.tournament)) : null,
+    stats: null,
+    recordId: null,
+  };
+  gameState.roundSnapshot = snapshot;
+  return snapshot;
+}
+
+/**
+ * The round is frozen by the host
+ */
+export function isPaused(room: Room): boolean {
+  return !!room.gameState.pause;
+}
+
+/**
+ * Freeze the running phase. Returns false if there is nothing to pause.
+ */
+export function pauseRound(room: Room, now: number = Date.now()): boolean {
+  const gameState = room.gameState;
+  if (!isRoundInProgress(room) || gameState.pause) return false;
+
+  clearAllIntervals(room);
+  if (gameState.endsAt !== null) gameState.timeRemaining = getRemainingSeconds(gameState.endsAt, now);
+  gameState.pause = {
+    pausedAt: now,
+    remainingMs: gameState.endsAt === null ? null : Math.max(0, gameState.endsAt - now),
+  };
+  gameState.endsAt = null; // Clients stop counting down; timeRemaining stays frozen
+  logEvent(room, { type: 'pause' }, now);
+  getPhase(gameState.status)?.onPause?.(room);
+  broadcastState(room);
+  return true;
+}
+
+/**
+ * Pick a paused round up where it stopped. Returns false if it isn't paused.
+ */
+export function resumeRound(room: Room, now: number = Date.now()): boolean {
+  const gameState = room.gameState;
+  const pause = gameState.pause;
+  if (!pause || !isRoundInProgress(room)) return false;
+
+  const phase = getPhase(gameState.status);
+  logEvent(room, { type: 'resume' }, now);
+  phase?.onResume?.(room, now - pause.pausedAt);
+  gameState.pause = null;
+  gameState.endsAt = pause.remainingMs === null ? null : now + pause.remainingMs;
+  broadcastState(room);
+  if (phase) {
+    armPhaseTimers(room, phase);
+  } else {
+    advancePhase(room);
+  }
+  return true;
+}
+
+/**
+ * Throw away the running round (or the results it just recorded) and go back
+ * to the lobby. Returns false if there is no round to abort.
+ */
+export function abortRound(room: Room): boolean {
+  const gameState = room.gameState;
+  const snapshot = gameState.roundSnapshot;
+  const isShowingResults = gameState.status === RESULTS_PHASE_ID && snapshot?.round === gameState.round;
+  if (!snapshot || (!isRoundInProgress(room) && !isShowingResults)) return false;
+
+  clearAllIntervals(room);
+  logEvent(room, { type: 'abort' });
+
+  // Campaign: budgets spent and impressions won this round come back
+  if (snapshot.campaign) {
+    gameState.campaign = snapshot.campaign;
+    Object.entries(snapshot.budgets).forEach(([id, budget]) => {
+      const player = gameState.players[id];
+      if (player) Object.assign(player, budget);
+    });
+  }
+
+  // Tournament: nobody is knocked out (or crowned) by an aborted round
+  const tournament = gameState.tournament;
+  if (tournament && snapshot.tournament?.id === tournament.id) {
+    const wasCrowned = tournament.endedAt !== null && snapshot.tournament.endedAt === null;
+    Object.assign(tournament, snapshot.tournament);
+    if (wasCrowned) {
+      persistence.unarchiveTournament(tournament);
+    } else {
+      persistence.setActiveTournament(room.code, tournament);
+    }
+  }
+
+  // All-time stats the results already recorded
+  if (snapshot.stats) {
+    persistence.restoreStatsSnapshot(snapshot.stats);
+    persistence.saveScores().catch((err) => {
+      Logger.error('Failed to save scores:', err);
+    });
+    persistence.saveAchievements().catch((err) => {
+      Logger.error('Failed to save achievements:', err);
+    });
+  }
+  if (snapshot.recordId) {
+    persistence.removeRound(snapshot.recordId);
+    persistence.removeEventLog(snapshot.recordId);
+    persistence.saveRounds().catch((err) => {
+      Logger.error('Failed to save round history:', err);
+    });
+    persistence.saveEventLogs().catch((err) => {
+      Logger.error('Failed to save event logs:', err);
+    });
+  }
+  if (tournament) {
+    persistence.saveTournaments().catch((err) => {
+      Logger.error('Failed to save tournaments:', err);
+    });
+  }
+
+  resetGame(room);
+  gameState.round = snapshot.round - 1;
+  gameState.roundSnapshot = null;
+  emitBudgets(room);
+  emitTournamentStatuses(room);
+  broadcastState(room);
+  return true;
+}
@@ -0,0 +1,107 @@
+// ============================================
+// ROUND HISTORY (Past Rounds)
+// ============================================
+// When a round's results are in it is written down as a record, so the host
+// can page back through earlier rounds (and /api/rounds can serve them) long
+// after the next round has started. Records live in persistence.
+
+import * as persistence from './persistence';
+import { LeaderboardEntry, Room, RoundRecord, RoundRecordAward, SlotAward } from './types';
+
+export interface RoundSummary {
+  id: string;
+  roomCode: string;
+  round: number;
+  finishedAt: string;
+  players: number;
+  winner: string | null;
+  winningScore: number | null;
+  phases: string[];
+}
+
+export interface RoundPage {
+  total: number; // Matching rounds, before paging
+  offset: number;
+  limit: number;
+  rounds: RoundSummary[]; // Newest first
+}
+
+/**
+ * Write down a finished round from its final leaderboard and awards
+ */
+export function recordRound(room: Room, leaderboard: LeaderboardEntry[], now: number = Date.now()): RoundRecord {
+  const gameState = room.gameState;
+  const premium = gameState.winners[0];
+  const record: RoundRecord = {
+    id: `${room.code}-${gameState.round}-${now}`,
+    roomCode: room.code,
+    round: gameState.round,
+    finishedAt: new Date(now).toISOString(),
+    settings: {
+      phases: [...gameState.roundPhases],
+      auctionDuration: gameState.auctionDuration,
+      countdownDuration: gameState.countdownDuration,
+      adSlots: gameState.adSlots,
+      clearingMode: gameState.clearingMode,
+      floorPrice: gameState.floorPrice,
+      falseStartPenalty: gameState.falseStartPenalty,
+      fastestFingerVariant: gameState.fastestFingerVariant,
+      dutchCeiling: gameState.dutchCeiling,
+    },
+    finalLeaderboard: leaderboard.map((entry) => ({ ...entry })),
+    winner: premium?.name ?? null,
+    winnerAd: premium?.adContent ?? null,
+    winners: toRecordAwards(gameState.winners),
+    clearing: gameState.clearing ? { ...gameState.clearing } : null,
+  };
+  if (gameState.teams) record.teams = gameState.teams.teams.map((team) => ({ ...team }));
+  persistence.addRound(record);
+  return record;
+}
+
+/**
+ * The part of each slot award a round record keeps
+ */
+export function toRecordAwards(winners: SlotAward[]): RoundRecordAward[] {
+  return winners.map((award) => ({
+    id: award.id,
+    name: award.name,
+    color: award.color,
+    adContent: award.adContent,
+    creative: award.creative,
+    slot: award.slot,
+    slotLabel: award.slotLabel,
+    finalScore: award.finalScore,
+    clearingPrice: award.clearingPrice,
+    reactionTime: award.reactionTime ?? null,
+  }));
+}
+
+/**
+ * One line per round for listings
+ */
+export function summarizeRound(record: RoundRecord): RoundSummary {
+  return {
+    id: record.id,
+    roomCode: record.roomCode,
+    round: record.round,
+    finishedAt: record.finishedAt,
+    players: record.finalLeaderboard.length,
+    winner: record.winner,
+    winningScore: record.winners[0]?.finalScore ?? null,
+    phases: record.settings.phases,
+  };
+}
+
+/**
+ * A page of past rounds, newest first, optionally for one room only
+ */
+export function queryRounds(roomCode: string | null, offset: number, limit: number): RoundPage {
+  const matching = persistence.getRounds().filter((record) => !roomCode || record.roomCode === roomCode);
+  return {
+    total: matching.length,
+    offset,
+    limit,
+    rounds: matching.slice(offset, offset + limit).map(summarizeRound),
+  };
+}
@@ -1,11 +1,22 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import path from 'path';
 import os from 'os';
 import config from './config';
 import * as auth from './auth';
 import * as persistence from './persistence';
-import { gameState } from './game';
+import * as rooms from './rooms';
+import * as validation from './validation';
 import Logger from './logger';
+import { getUnlockedAchievements } from './achievements';
+import { getAdReport } from './adRotation';
+import { getLeaderboard } from './game';
+import { getCategories, getCategoryLeaderboard } from './leaderboards';
+import { regenerateResults } from './replay';
+import { buildExport, formatExport } from './resultsExport';
+import { getHallOfFame, getSeasonStandings } from './seasons';
+import { runNewGame, runResetAuction, runStartAuction, runStartSeason, SEASON_SAVE_ERROR } from './socket';
+import { queryRounds } from './roundHistory';
+import { LeaderboardEntry, Room, SlotAward } from './types';
 
 const router = Router();
 const publicDir = path.join(process.cwd(), 'public');
@@ -33,14 +44,100 @@ function getLocalIP(): string | null {
   return null;
 }
 
+// Host auth token the host panel sends: ?auth= (straight after login) or the hostAuth cookie
+function getHostAuthToken(req: Request): string | undefined {
+  const cookieHeader = req.headers.cookie || '';
+  return (req.query.auth as string) || cookieHeader.match(/hostAuth=([^;]+)/)?.[1];
+}
+
+// Host auth token an integration sends: an Authorization: Bearer header only, so
+// tokens stay out of URLs (and logs) and a browser's cookie can't be ridden (CSRF)
+function getBearerToken(req: Request): string | undefined {
+  return req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+}
+
+// Host-only endpoints need a valid host token (open when no PIN is set)
+function hostAuth(getToken: (req: Request) => string | undefined): (req: Request, res: Response, next: NextFunction) => void {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!config.HOST_PIN || auth.isValidHostAuthToken(getToken(req))) {
+      next();
+      return;
+    }
+    Logger.security('Unauthorized host API attempt', req.ip || 'unknown');
+    res.status(401).json({ error: 'Host authentication required' });
+  };
+}
+
+const requireHostAuth = hostAuth(getHostAuthToken);
+const requireHostBearer = hostAuth(getBearerToken);
+
+// The room a host request is for: ?room=CODE, or the default room (null for an unknown code)
+function getRequestedRoom(req: Request): Room | null {
+  return rooms.resolveRoom(req.query.room);
+}
+
+// Where a room's game stands, as the host API reports it
+interface GameStatus {
+  roomCode: string;
+  status: string;
+  round: number;
+  paused: boolean;
+  playerCount: number;
+  timeRemaining: number;
+  endsAt: number | null;
+  winners: SlotAward[];
+  leaderboard: LeaderboardEntry[]; // Top 10
+  season: persistence.SeasonInfo;
+}
+
+function getGameStatus(room: Room): GameStatus {
+  const gameState = room.gameState;
+  const leaderboard = gameState.finalLeaderboard.length > 0 ? gameState.finalLeaderboard : getLeaderboard(room);
+  return {
+    roomCode: room.code,
+    status: gameState.status,
+    round: gameState.round,
+    paused: !!gameState.pause,
+    playerCount: Object.keys(gameState.players).length,
+    timeRemaining: gameState.timeRemaining,
+    endsAt: gameState.endsAt,
+    winners: gameState.winners,
+    leaderboard: leaderboard.slice(0, 10),
+    season: persistence.getCurrentSeason(),
+  };
+}
+
+// Run a host command for the requested room; a refused command answers 409 with the reason
+async function sendHostCommand(
+  req: Request,
+  res: Response,
+  command: string,
+  run: (room: Room) => string | null | Promise<string | null>
+): Promise<void> {
+  const room = getRequestedRoom(req);
+  if (!room) {
+    res.status(404).json({ error: 'Room not found' });
+    return;
+  }
+  const refused = await run(room);
+  Logger.info(`🎛️ Host API ${command} in room ${room.code}${refused ? ` refused: ${refused}` : ''}`);
+  if (refused) {
+    res.status(409).json({ success: false, error: refused, game: getGameStatus(room) });
+    return;
+  }
+  res.json({ success: true, game: getGameStatus(room) });
+}
+
 // Health check
 router.get('/health', (_req: Request, res: Response) => {
+  const allRooms = rooms.getAllRooms();
   res.json({
     status: 'healthy',
     uptime: process.uptime(),
     timestamp: new Date().toISOString(),
-    players: Object.keys(gameState.players).length,
-    round: gameState.round,
+    players: allRooms.reduce((sum, room) => sum + Object.keys(room.gameState.players).length, 0),
+    round: rooms.getDefaultRoom().gameState.round,
+    rooms: allRooms.length,
   });
 });
 
@@ -77,8 +174,7 @@ router.get('/host', (req: Request, res: Response): void => {
     return;
   }
 
-  const cookieHeader = req.headers.cookie || '';
-  const authToken = (req.query.auth as string) || cookieHeader.match(/hostAuth=([^;]+)/)?.[1];
+  const authToken = getHostAuthToken(req);
 
   Logger.debug(`Host access attempt - token: ${authToken ? 'found' : 'missing'}`);
 
@@ -115,15 +211,180 @@ router.post('/api/host/auth', (req: Request, res: Response): void => {
   res.json(result);
 });
 
-// API stats
-router.get('/api/stats', (_req: Request, res: Response) => {
+// API stats for the current season, or an archived one with ?season=ID
+// (?sort=rating ranks the leaderboard by skill rating)
+router.get('/api/stats', (req: Request, res: Response): void => {
+  const seasonId = typeof req.query.season === 'string' ? req.query.season : null;
+  const standings = getSeasonStandings(seasonId, validation.validateLeaderboardSort(req.query.sort) ?? 'wins');
+  if (!standings) {
+    res.status(404).json({ error: 'Season not found' });
+    return;
+  }
   res.json({
-    allTime: persistence.getAllTimeLeaderboard(),
-    totalRounds: gameState.round,
-    totalPlayers: persistence.getStats() ? Object.keys(persistence.getStats()).length : 0,
+    ...standings,
+    totalRounds: rooms.getAllRooms().reduce((sum, room) => sum + room.gameState.round, 0),
+    totalPlayers: standings.allTime.length,
+  });
+});
+
+// Host control API for stage-control systems and presenter remotes: the host panel's
+// commands over HTTP (?room=CODE, default room otherwise), authorised with
+// `Authorization: Bearer <token>` from POST /api/host/auth. Each answers with the game status.
+router.get('/api/host/status', requireHostBearer, (req: Request, res: Response): void => {
+  const room = getRequestedRoom(req);
+  if (!room) {
+    res.status(404).json({ error: 'Room not found' });
+    return;
+  }
+  res.json({ success: true, game: getGameStatus(room) });
+});
+
+router.post('/api/host/start-auction', requireHostBearer, (req: Request, res: Response, next: NextFunction) => {
+  sendHostCommand(req, res, 'startAuction', (room) => runStartAuction(room, req.body)).catch(next);
+});
+
+router.post('/api/host/new-game', requireHostBearer, (req: Request, res: Response, next: NextFunction) => {
+  sendHostCommand(req, res, 'newGame', runNewGame).catch(next);
+});
+
+router.post('/api/host/reset-auction', requireHostBearer, (req: Request, res: Response, next: NextFunction) => {
+  sendHostCommand(req, res, 'resetAuction', runResetAuction).catch(next);
+});
+
+// Resetting all-time stats starts a new season ({ "name": "..." } to name it)
+router.post('/api/host/reset-all-time-stats', requireHostBearer, (req: Request, res: Response) => {
+  sendHostCommand(req, res, 'resetAllTimeStats', (room) => runStartSeason(room, 'resetAllTimeStats', req.body?.name)).catch((err: Error) => {
+    Logger.error('❌ Error starting a new season:', err.message);
+    res.status(500).json({ success: false, error: SEASON_SAVE_ERROR });
   });
 });
 
+// Results export for organisers (host only): ?format=csv|json, ?room=CODE for a room's latest round
+router.get('/api/host/export/:dataset', requireHostAuth, (req: Request, res: Response): void => {
+  const dataset = validation.validateExportDataset(req.params.dataset);
+  if (!dataset) {
+    res.status(404).json({ error: 'Export not found' });
+    return;
+  }
+  const room = getRequestedRoom(req);
+  if (!room) {
+    res.status(404).json({ error: 'Room not found' });
+    return;
+  }
+  const table = buildExport(dataset, room);
+  if (!table) {
+    res.status(404).json({ error: 'No results yet' });
+    return;
+  }
+  const format = validation.validateExportFormat(req.query.format);
+  const name = dataset === 'results' ? `results-${room.code}-round-${room.gameState.round}` : dataset;
+  Logger.info(`📤 Exported ${dataset} as ${format.toUpperCase()} (${table.rows.length} rows)`);
+  res.attachment(`click-auction-${name}.${format}`);
+  res.send(formatExport(table, format));
+});
+
+// Leaderboard categories, in the order the big screen rotates through them
+router.get('/api/leaderboards', (_req: Request, res: Response) => {
+  res.json({ categories: getCategories() });
+});
+
+// One category's leaderboard (?season=ID for an archived season)
+router.get('/api/leaderboards/:category', (req: Request, res: Response): void => {
+  const category = validation.validateLeaderboardCategory(req.params.category);
+  if (!category) {
+    res.status(404).json({ error: 'Leaderboard not found' });
+    return;
+  }
+  const seasonId = typeof req.query.season === 'string' ? req.query.season : null;
+  const standings = getSeasonStandings(seasonId);
+  if (!standings) {
+    res.status(404).json({ error: 'Season not found' });
+    return;
+  }
+  res.json({ season: standings.season, ...getCategoryLeaderboard(category, standings.allTime) });
+});
+
+// Seasons: the current one and the champions of every archived one
+router.get('/api/seasons', (_req: Request, res: Response) => {
+  res.json({ current: persistence.getCurrentSeason(), hallOfFame: getHallOfFame() });
+});
+
+// One player identity: its display name, what it is merged into and its own stats (never the device key)
+router.get('/api/players/:id', (req: Request, res: Response): void => {
+  const identity = persistence.getPlayerIdentity(req.params.id);
+  if (!identity) {
+    res.status(404).json({ error: 'Player not found' });
+    return;
+  }
+  const { keyHash, ...profile } = identity;
+  res.json({
+    ...profile,
+    linkedDevice: keyHash !== null,
+    shownAs: persistence.resolvePlayerId(identity.id),
+    stats: persistence.getStats()[identity.id] ?? null,
+    achievements: getUnlockedAchievements(identity.id),
+  });
+});
+
+// Campaign report: impressions and airtime a player's winning ads earned in the lobby rotations
+router.get('/api/players/:id/ad-report', (req: Request, res: Response): void => {
+  const report = getAdReport(req.params.id);
+  if (!report) {
+    res.status(404).json({ error: 'Player not found' });
+    return;
+  }
+  res.json(report);
+});
+
+// Tournament brackets: running ones by room code, finished ones newest first
+router.get('/api/tournaments', (_req: Request, res: Response) => {
+  res.json({
+    active: Object.values(persistence.getActiveTournaments()),
+    history: persistence.getTournamentHistory(),
+  });
+});
+
+// Past rounds, newest first: ?room=CODE to narrow to one room, offset/limit to page
+router.get('/api/rounds', (req: Request, res: Response): void => {
+  const roomCode = req.query.room === undefined ? null : validation.normalizeRoomCode(req.query.room);
+  if (req.query.room !== undefined && !roomCode) {
+    res.status(400).json({ error: 'Invalid room code' });
+    return;
+  }
+  res.json(queryRounds(roomCode, validation.validatePageOffset(req.query.offset), validation.validatePageLimit(req.query.limit)));
+});
+
+// One past round in full
+router.get('/api/rounds/:id', (req: Request, res: Response): void => {
+  const record = persistence.getRound(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: 'Round not found' });
+    return;
+  }
+  res.json(record);
+});
+
+// Everything that happened in a past round, in order (kept for the latest rounds only)
+router.get('/api/rounds/:id/events', (req: Request, res: Response): void => {
+  const log = persistence.getRound(req.params.id) ? persistence.getEventLog(req.params.id) : null;
+  if (!log) {
+    res.status(404).json({ error: 'Event log not found' });
+    return;
+  }
+  res.json(log);
+});
+
+// A past round's results, rebuilt from its event log with the current scoring rules
+router.get('/api/rounds/:id/replay', (req: Request, res: Response): void => {
+  const record = persistence.getRound(req.params.id);
+  const results = record && regenerateResults(record);
+  if (!results) {
+    res.status(404).json({ error: 'Event log not found' });
+    return;
+  }
+  res.json(results);
+});
+
 export default router;
 export { getLocalIP };
 
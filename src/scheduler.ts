@@ -0,0 +1,48 @@
+// ============================================
+// DEADLINE SCHEDULER
+// ============================================
+// Runs callbacks at absolute server timestamps instead of counting ticks.
+// Node timers can fire slightly early and drift under event-loop load, so
+// a task re-arms until its deadline has really passed.
+
+import { ScheduledTask } from './types';
+
+/**
+ * Run `callback` once the clock reaches `deadline` (ms since epoch)
+ */
+export function scheduleAt(deadline: number, callback: () => void, now: () => number = Date.now): ScheduledTask {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let cancelled = false;
+
+  const arm = (): void => {
+    timer = setTimeout(() => {
+      timer = null;
+      if (cancelled) return;
+      if (now() < deadline) {
+        arm();
+        return;
+      }
+      cancelled = true;
+      callback();
+    }, Math.max(0, deadline - now()));
+  };
+  arm();
+
+  return {
+    deadline,
+    cancel: () => {
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
+
+/**
+ * Whole seconds left until a deadline (rounded up, never negative)
+ */
+export function getRemainingSeconds(deadline: number, now: number = Date.now()): number {
+  return Math.max(0, Math.ceil((deadline - now) / 1000));
+}
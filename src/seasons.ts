@@ -0,0 +1,92 @@
+// ============================================
+// SEASONS (Event-scoped Leaderboards)
+// ============================================
+// The host runs named seasons - "Cannes 2026 Day 1" - and all-time stats
+// accrue to the one that is open. Starting the next season closes the
+// current one: its leaderboard is frozen into the archive and the new
+// season starts from empty stats. Resetting the stats is starting a new
+// season, so no results are ever deleted. The hall of fame lists the top
+// players of every archived season.
+
+import config from './config';
+import * as persistence from './persistence';
+import * as validation from './validation';
+import { isRoundInProgress } from './game';
+import { getAllRooms } from './rooms';
+import type { LeaderboardEntry, Season, SeasonInfo, TeamLeaderboardEntry } from './persistence';
+import { LeaderboardSort } from './types';
+
+export interface SeasonStandings {
+  season: SeasonInfo & { endedAt: string | null };
+  allTime: LeaderboardEntry[];
+  teams: TeamLeaderboardEntry[];
+}
+
+export interface HallOfFameEntry extends SeasonInfo {
+  endedAt: string;
+  players: number;
+  champions: LeaderboardEntry[]; // Top players when the season closed
+}
+
+/**
+ * Whether a round is being played in any room (seasons can't change then)
+ */
+export function isAnyRoundInProgress(): boolean {
+  return getAllRooms().some((room) => isRoundInProgress(room));
+}
+
+/**
+ * Close the current season and start a new one. An empty or invalid name
+ * falls back to "Season N". Returns the season just closed, or null while
+ * a round is in progress.
+ */
+export async function startSeason(name: unknown, now: number = Date.now()): Promise<Season | null> {
+  if (isAnyRoundInProgress()) return null;
+  const next: SeasonInfo = {
+    id: `season-${now}`,
+    name: validation.validateSeasonName(name) ?? `Season ${persistence.getArchivedSeasons().length + 2}`,
+    startedAt: new Date(now).toISOString(),
+  };
+  // Results on screen belong to the season being closed - an abort can no longer take them back
+  getAllRooms().forEach((room) => {
+    if (room.gameState.roundSnapshot) room.gameState.roundSnapshot.stats = null;
+  });
+  return persistence.archiveSeason(next, now);
+}
+
+/**
+ * A season's leaderboards: the live ones for the current season, the frozen
+ * ones for an archived season (null for an unknown season id)
+ */
+export function getSeasonStandings(seasonId: string | null, sort: LeaderboardSort = 'wins'): SeasonStandings | null {
+  const current = persistence.getCurrentSeason();
+  if (!seasonId || seasonId === current.id) {
+    return {
+      season: { ...current, endedAt: null },
+      allTime: persistence.getAllTimeLeaderboard(sort),
+      teams: persistence.getAllTimeTeamLeaderboard(),
+    };
+  }
+  const archived = persistence.getArchivedSeasons().find((season) => season.id === seasonId);
+  if (!archived) return null;
+  const { leaderboard, teams, ...season } = archived;
+  return {
+    season,
+    allTime: sort === 'rating' ? [...leaderboard].sort((a, b) => b.rating - a.rating || b.wins - a.wins) : leaderboard,
+    teams,
+  };
+}
+
+/**
+ * The champions of every archived season, newest first
+ */
+export function getHallOfFame(size: number = config.HALL_OF_FAME_SIZE): HallOfFameEntry[] {
+  return persistence.getArchivedSeasons().map((season) => ({
+    id: season.id,
+    name: season.name,
+    startedAt: season.startedAt,
+    endedAt: season.endedAt,
+    players: season.leaderboard.length,
+    champions: season.leaderboard.slice(0, size),
+  }));
+}
@@ -6,11 +6,16 @@ import config from './config';
 import * as persistence from './persistence';
 import * as validation from './validation';
 import * as botDetection from './botDetection';
+import * as clockSync from './clockSync';
 import * as session from './session';
 import * as auth from './auth';
+import * as rooms from './rooms';
 import Logger from './logger';
-import { setIO, gameState, clearAllIntervals } from './game';
-import { setupSocketIO } from './socket';
+import { loadEventAchievements } from './achievements';
+import { stopAdRotation } from './adRotation';
+import { setIO, clearAllIntervals } from './game';
+import { setupSocketIO, syncClocks } from './socket';
+import { restoreTournaments } from './tournament';
 import { getLocalIP } from './routes';
 
 // Create server
@@ -38,7 +43,9 @@ setupSocketIO(io);
 
 // Memory cleanup
 function cleanupStaleData(): void {
-  const activeSocketIds = new Set(Object.keys(gameState.players));
+  const activeSocketIds = new Set(
+    rooms.getAllRooms().flatMap((room) => Object.keys(room.gameState.players))
+  );
   let cleanedCount = 0;
 
   const timestamps = validation.getClickTimestamps();
@@ -50,6 +57,7 @@ function cleanupStaleData(): void {
   }
 
   cleanedCount += botDetection.cleanupBotDetectionData(activeSocketIds);
+  cleanedCount += clockSync.cleanupClockData(new Set(io.sockets.sockets.keys()));
 
   if (cleanedCount > 0) {
     Logger.debug(`Memory cleanup: removed ${cleanedCount} stale entries`);
@@ -57,9 +65,11 @@ function cleanupStaleData(): void {
 
   session.cleanupExpiredSessions();
   auth.cleanupExpiredHostTokens();
+  rooms.cleanupIdleRooms();
 }
 
 const cleanupIntervalId = setInterval(cleanupStaleData, config.CLEANUP_INTERVAL_MS);
+const clockSyncIntervalId = setInterval(syncClocks, config.CLOCK_SYNC_INTERVAL_MS);
 
 // Error handling
 process.on('uncaughtException', (err: Error) => {
@@ -78,19 +88,25 @@ io.engine.on('connection_error', (err: Error) => {
 process.on('SIGTERM', () => {
   Logger.info('Received SIGTERM, cleaning up...');
   clearInterval(cleanupIntervalId);
-  clearAllIntervals();
-  persistence.saveScores().then(() => process.exit(0));
+  clearInterval(clockSyncIntervalId);
+  rooms.getAllRooms().forEach(clearAllIntervals);
+  rooms.getAllRooms().forEach((room) => stopAdRotation(room)); // Credits the airtime of the ads on screen
+  persistence.saveScores().then(() => persistence.saveAdImpressions()).then(() => persistence.saveAchievements()).then(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
   Logger.info('Received SIGINT, cleaning up...');
   clearInterval(cleanupIntervalId);
-  clearAllIntervals();
-  persistence.saveScores().then(() => process.exit(0));
+  clearInterval(clockSyncIntervalId);
+  rooms.getAllRooms().forEach(clearAllIntervals);
+  rooms.getAllRooms().forEach((room) => stopAdRotation(room)); // Credits the airtime of the ads on screen
+  persistence.saveScores().then(() => persistence.saveAdImpressions()).then(() => persistence.saveAchievements()).then(() => process.exit(0));
 });
 
-// Start server
-persistence.loadScores().then(() => {
+// Start server (running tournaments go back into their rooms first)
+persistence.loadScores().then(() => persistence.loadTournaments()).then(() => persistence.loadRounds()).then(() => persistence.loadEventLogs()).then(() => persistence.loadAdImpressions()).then(() => persistence.loadAchievements()).then(() => persistence.loadSeasons()).then(() => {
+  loadEventAchievements();
+  restoreTournaments();
   server.listen(Number(config.PORT), config.HOST, () => {
     const localIP = getLocalIP() || 'localhost';
     console.log(`
@@ -114,7 +130,13 @@ persistence.loadScores().then(() => {
 ║    /           - Main display (big screen + QR code)             ║
 ║    /play       - Player page (DSPs join here)                    ║
 ║    /host       - Host control panel                              ║
+║    ?room=CODE  - Scope any page above to a room                  ║
 ║    /api/config - Get current configuration                       ║
+║    /api/tournaments - Tournament brackets and champions          ║
+║    /api/rounds - Past rounds (?room=CODE&offset=0&limit=20)      ║
+║    /api/rounds/:id/replay - Results rebuilt from the event log   ║
+║    /api/players/:id - A player identity and its own stats        ║
+║    /api/players/:id/ad-report - Airtime of a player's ads        ║
 ║    /health     - Health check (for monitoring)                   ║
 ╚══════════════════════════════════════════════════════════════════╝
     `);
@@ -122,4 +144,4 @@ persistence.loadScores().then(() => {
 });
 
 // Export for testing
-export { app, server, io, gameState };
+export { app, server, io, rooms };
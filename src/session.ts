@@ -8,6 +8,7 @@ import Logger from './logger';
 
 export interface PlayerData {
   name: string;
+  identityId?: string;
   color: string;
   clicks: number;
   adContent: string;
@@ -17,6 +18,7 @@ export interface PlayerData {
 
 export interface Session {
   playerId: string | null;
+  roomCode: string;
   playerData: PlayerData;
   disconnectedAt: number | null;
   timeoutId: ReturnType<typeof setTimeout> | null;
@@ -35,10 +37,11 @@ export function generateSessionToken(): string {
 /**
  * Create a new session for a player
  */
-export function createSession(socketId: string, playerData: PlayerData): string {
+export function createSession(socketId: string, playerData: PlayerData, roomCode: string = config.DEFAULT_ROOM_CODE): string {
   const token = generateSessionToken();
   playerSessions[token] = {
     playerId: socketId,
+    roomCode,
     playerData: { ...playerData },
     disconnectedAt: null,
     timeoutId: null,
@@ -4,36 +4,148 @@ import * as validation from './validation';
 import * as session from './session';
 import * as auth from './auth';
 import * as botDetection from './botDetection';
+import * as clockSync from './clockSync';
 import * as persistence from './persistence';
+import * as rooms from './rooms';
 import Logger from './logger';
 import {
-  gameState,
   getLeaderboard,
   broadcastState,
   getNextColor,
   clearAllIntervals,
   resetGame,
-  startClickAuction,
-  setCountdownInterval,
-  clearCountdownInterval,
-  recordReactionTime,
+  startRound,
+  handleClick,
+  isRoundInProgress,
+  emitTournamentStatuses,
+  emitToRoom,
 } from './game';
-import { CustomSocket, Player } from './types';
+import {
+  endCampaign,
+  ensureBudget,
+  getBudgetStatus,
+  getCampaignView,
+  isCampaignActive,
+  startCampaign,
+} from './campaign';
+import { addAdDisplay, getRotatingAd, removeAdDisplay } from './adRotation';
+import { getDutchView } from './dutchAuction';
+import { logEvent } from './eventLog';
+import { joinAsIdentity, mergeIdentities, splitIdentity } from './identity';
+import { creativeText, getAdReview, getReviewQueue, keepCreativeReview, reviewCreative, screenCreative, setAdModeration } from './moderation';
+import { startReplayPlayback } from './replay';
+import { abortRound, pauseRound, resumeRound } from './roundControl';
+import { startSeason } from './seasons';
+import { getFastestFingerView } from './fastestFinger';
+import { endTapPhaseIfAnswered, getPhaseCatalog, resolveRoundPhases, RESULTS_PHASE_ID, WAITING_STATUS } from './phases';
+import { assignTeam, endTeams, ensureTeam, getTeam, getTeamView, startTeams } from './teams';
+import { endTournament, getTournamentStatus, getTournamentView, isTournamentActive, startTournament } from './tournament';
+import { CustomSocket, Player, Room, StartAuctionSettings } from './types';
 
 // Track connections by IP
 const connectionsByIP: Record<string, number> = {};
 
-// Track authenticated host sockets
-const authenticatedHostSockets = new Set<string>();
-
 // Store io instance for broadcasting
 let ioInstance: Server | null = null;
 
-// Broadcast event to all authenticated hosts
-export function broadcastToHosts(type: string, message: string, level: 'info' | 'success' | 'warning' | 'error' | 'player' | 'game' = 'info'): void {
+// Broadcast event to a room's authenticated hosts (null = hosts of every room)
+export function broadcastToHosts(room: Room | null, type: string, message: string, level: 'info' | 'success' | 'warning' | 'error' | 'player' | 'game' = 'info'): void {
   if (!ioInstance) return;
-  authenticatedHostSockets.forEach((socketId) => {
-    ioInstance!.to(socketId).emit('hostEvent', { type, message, level });
+  const targetRooms = room ? [room] : rooms.getAllRooms();
+  targetRooms.forEach((targetRoom) => {
+    targetRoom.hostSocketIds.forEach((socketId) => {
+      ioInstance!.to(socketId).emit('hostEvent', { type, message, level });
+    });
+  });
+}
+
+// Ask a socket for its clock (answered with `clockPong`)
+function sendClockPing(socket: CustomSocket): void {
+  if (!socket.connected) return;
+  socket.emit('clockPing', { serverSentAt: clockSync.createPing(socket.id) });
+}
+
+// Send each room's hosts the estimated RTT of its players
+function emitPlayerLatency(room: Room): void {
+  if (!ioInstance || room.hostSocketIds.size === 0) return;
+  const players = Object.entries(room.gameState.players)
+    .map(([id, player]) => {
+      const estimate = clockSync.getClockEstimate(id);
+      return { id, name: player.name, color: player.color, rttMs: estimate ? estimate.rttMs : null };
+    })
+    .sort((a, b) => (b.rttMs ?? -1) - (a.rttMs ?? -1));
+
+  room.hostSocketIds.forEach((socketId) => {
+    ioInstance!.to(socketId).emit('playerLatency', { players });
+  });
+}
+
+// Send a room's hosts the ad creatives waiting for review
+function emitAdQueue(room: Room): void {
+  if (!ioInstance || room.hostSocketIds.size === 0) return;
+  const queue = { mode: room.gameState.adModeration, items: getReviewQueue(room) };
+  room.hostSocketIds.forEach((socketId) => {
+    ioInstance!.to(socketId).emit('adQueue', queue);
+  });
+}
+
+/**
+ * Clock sync round: ping every connected socket, then report latency to hosts
+ */
+export function syncClocks(): void {
+  if (!ioInstance) return;
+  ioInstance.sockets.sockets.forEach((socket) => sendClockPing(socket));
+  rooms.getAllRooms().forEach(emitPlayerLatency);
+}
+
+// Send the current room state to a single socket (slim payload - top 10 leaderboard only)
+function emitInitialState(socket: CustomSocket, room: Room): void {
+  const gameState = room.gameState;
+  const fullLeaderboard = gameState.status === RESULTS_PHASE_ID && gameState.finalLeaderboard.length > 0
+    ? gameState.finalLeaderboard
+    : getLeaderboard(room);
+
+  socket.emit('gameState', {
+    roomCode: room.code,
+    status: gameState.status,
+    timeRemaining: gameState.timeRemaining,
+    endsAt: gameState.endsAt,
+    serverNow: Date.now(),
+    leaderboard: fullLeaderboard.slice(0, 10),
+    winners: gameState.winners,
+    clearing: gameState.clearing,
+    campaign: getCampaignView(room, isRoundInProgress(room)),
+    teams: getTeamView(room, fullLeaderboard),
+    tournament: getTournamentView(room),
+    round: gameState.round,
+    paused: !!gameState.pause,
+    playerCount: Object.keys(gameState.players).length,
+    fastestFinger: getFastestFingerView(room),
+    dutch: getDutchView(room),
+    allTimeLeaderboard: persistence.getAllTimeLeaderboard().slice(0, 20),
+  });
+}
+
+// A player's own campaign budget (nothing outside a campaign)
+function emitBudget(socket: CustomSocket, room: Room, player: Player): void {
+  const status = getBudgetStatus(room, player);
+  if (status) socket.emit('campaignBudget', status);
+}
+
+// A player's own creative review (the house ad runs in its place until approved)
+function emitAdReview(socket: CustomSocket, room: Room, player: Player): void {
+  socket.emit('adReview', { status: getAdReview(room, player).status });
+}
+
+// A player's own place in the tournament (nothing outside a tournament)
+function emitTournamentStatus(socket: CustomSocket, room: Room, player: Player): void {
+  const status = getTournamentStatus(room, player);
+  if (status) socket.emit('tournamentStatus', status);
+}
+
+function saveTournaments(): void {
+  persistence.saveTournaments().catch((err) => {
+    Logger.error('Failed to save tournaments:', err);
   });
 }
 
@@ -46,6 +158,167 @@ function getClientIP(socket: CustomSocket): string {
   return socket.handshake.address;
 }
 
+// ============================================
+// HOST COMMANDS
+// ============================================
+// What the host's controls do, shared by the host panel's socket events and
+// the host REST API (see routes.ts) so both validate and broadcast alike.
+// Each returns null once the command has run, or why it was refused - the
+// room's hosts are told either way.
+
+// Tell the room's hosts a command was refused, and why
+function refuse(room: Room, type: string, message: string): string {
+  broadcastToHosts(room, type, message, 'error');
+  return message;
+}
+
+/**
+ * Start a round with the host's settings
+ */
+export function runStartAuction(room: Room, settings?: StartAuctionSettings): string | null {
+  const gameState = room.gameState;
+  clearAllIntervals(room);
+
+  if (settings && typeof settings === 'object') {
+    if (settings.duration !== undefined) {
+      gameState.auctionDuration = validation.validateAuctionDuration(settings.duration);
+    }
+    if (settings.countdown !== undefined) {
+      gameState.countdownDuration = validation.validateCountdownDuration(settings.countdown);
+    }
+    if (settings.phases !== undefined) {
+      const roundPhases = resolveRoundPhases(settings.phases);
+      if (!roundPhases) {
+        return refuse(room, 'start_error', 'Cannot start - pick at least one valid game phase!');
+      }
+      gameState.roundPhases = roundPhases;
+    }
+    if (settings.falseStartPenalty !== undefined) {
+      gameState.falseStartPenalty = validation.validateFalseStartPenalty(settings.falseStartPenalty) ?? gameState.falseStartPenalty;
+    }
+    if (settings.fastestFingerVariant !== undefined) {
+      gameState.fastestFingerVariant = validation.validateFastestFingerVariant(settings.fastestFingerVariant) ?? gameState.fastestFingerVariant;
+    }
+    if (settings.clearingMode !== undefined) {
+      gameState.clearingMode = validation.validateClearingMode(settings.clearingMode) ?? gameState.clearingMode;
+    }
+    if (settings.floorPrice !== undefined) {
+      gameState.floorPrice = validation.validateFloorPrice(settings.floorPrice);
+    }
+    if (settings.adSlots !== undefined) {
+      gameState.adSlots = validation.validateAdSlots(settings.adSlots);
+    }
+    if (settings.dutchCeiling !== undefined) {
+      gameState.dutchCeiling = validation.validateDutchCeiling(settings.dutchCeiling);
+    }
+  }
+
+  gameState.countdownDuration = validation.validateCountdownDuration(gameState.countdownDuration);
+
+  const playerCount = Object.keys(gameState.players).length;
+  if (playerCount === 0) {
+    return refuse(room, 'start_error', 'Cannot start - no players connected!');
+  }
+
+  // Campaign settings start a new campaign; once one is over, rounds are back to unlimited taps
+  if (settings && typeof settings.campaign === 'object' && settings.campaign !== null) {
+    if (!isCampaignActive(room)) {
+      const campaign = startCampaign(
+        room,
+        validation.validateCampaignRounds(settings.campaign.rounds ?? config.DEFAULT_CAMPAIGN_ROUNDS),
+        validation.validateCampaignBudget(settings.campaign.budget ?? config.DEFAULT_CAMPAIGN_BUDGET)
+      );
+      Logger.gameEvent('Campaign started', { room: room.code, rounds: campaign.totalRounds, budget: campaign.budgetPerPlayer });
+      broadcastToHosts(room, 'campaign_started', `📣 Campaign started: ${campaign.totalRounds} rounds, ${campaign.budgetPerPlayer} taps per DSP`, 'success');
+    }
+  } else if (gameState.campaign && !isCampaignActive(room)) {
+    endCampaign(room);
+  }
+
+  // Tournament settings start a new bracket with everyone in the room; a crowned one is put away
+  if (settings && typeof settings.tournament === 'object' && settings.tournament !== null) {
+    if (!isTournamentActive(room)) {
+      const tournament = startTournament(
+        room,
+        validation.validateEliminatePercent(settings.tournament.eliminatePercent ?? config.DEFAULT_ELIMINATE_PERCENT)
+      );
+      Logger.gameEvent('Tournament started', { room: room.code, entrants: tournament.entrants.length, eliminatePercent: tournament.eliminatePercent });
+      broadcastToHosts(room, 'tournament_started', `🏟️ Tournament started: ${tournament.entrants.length} DSPs, bottom ${tournament.eliminatePercent}% out each round`, 'success');
+      emitTournamentStatuses(room);
+      saveTournaments();
+    }
+  } else if (gameState.tournament && !isTournamentActive(room)) {
+    endTournament(room);
+  }
+
+  logEvent(room, { type: 'host', command: 'startAuction', data: settings });
+  startRound(room);
+  return null;
+}
+
+/**
+ * Open the lobby for the next round - players stay, their clicks reset
+ */
+export function runNewGame(room: Room): string | null {
+  const gameState = room.gameState;
+  clearAllIntervals(room);
+
+  // Reset player clicks for new round but KEEP player data
+  Object.values(gameState.players).forEach((player) => {
+    player.clicks = 0;
+    player.suspicious = false;
+    player.suspicionReason = null;
+    player.reactionTime = null;
+  });
+  
+  gameState.status = WAITING_STATUS;
+  gameState.winners = [];
+  gameState.clearing = null;
+  gameState.timeRemaining = 0;
+  gameState.endsAt = null;
+  gameState.finalLeaderboard = [];
+  gameState.auctionScores = {};
+  gameState.fastestFingerStartTime = null;
+  gameState.fastestFinger = null;
+  gameState.dutch = null;
+  gameState.pause = null;
+  
+  logEvent(room, { type: 'host', command: 'newGame' });
+  Logger.gameEvent('New game lobby opened', { room: room.code, round: gameState.round + 1 });
+  broadcastState(room);
+  return null;
+}
+
+/**
+ * Reset the room's game back to the lobby - disconnected players are dropped
+ */
+export function runResetAuction(room: Room): string | null {
+  clearAllIntervals(room);
+  resetGame(room);
+  logEvent(room, { type: 'host', command: 'resetAuction' });
+  broadcastState(room);
+  return null;
+}
+
+/**
+ * Close the current season (its leaderboard is archived) and start the next.
+ * Resetting all-time stats is the same command under another name.
+ */
+export async function runStartSeason(room: Room, command: string, name?: unknown): Promise<string | null> {
+  const closed = await startSeason(name);
+  if (!closed) return refuse(room, 'season_error', 'Finish the running round before starting a new season');
+  const season = persistence.getCurrentSeason();
+  logEvent(room, { type: 'host', command, data: { name: season.name } });
+  Logger.gameEvent('Season started', { season: season.id, name: season.name, archived: closed.id });
+  rooms.getAllRooms().forEach((other) => {
+    broadcastToHosts(other, 'season_started', `🗓️ Season "${season.name}" started - "${closed.name}" archived with ${closed.leaderboard.length} players`, 'success');
+    broadcastState(other);
+  });
+  return null;
+}
+
+export const SEASON_SAVE_ERROR = 'Could not save the new season - check the server storage';
+
 export function setupSocketIO(io: Server): void {
   ioInstance = io;
 
@@ -59,7 +332,7 @@ export function setupSocketIO(io: Server): void {
 
     if (connectionsByIP[ip] >= config.MAX_CONNECTIONS_PER_IP) {
       Logger.security('Connection rejected - limit reached', ip, { limit: config.MAX_CONNECTIONS_PER_IP });
-      broadcastToHosts('connection_rejected', `Connection rejected from ${ip} (IP limit: ${config.MAX_CONNECTIONS_PER_IP})`, 'error');
+      broadcastToHosts(null, 'connection_rejected', `Connection rejected from ${ip} (IP limit: ${config.MAX_CONNECTIONS_PER_IP})`, 'error');
       return next(new Error('Too many connections from this IP'));
     }
 
@@ -85,68 +358,190 @@ export function setupSocketIO(io: Server): void {
   io.on('connection', (socket: CustomSocket) => {
     Logger.debug(`Client connected: ${socket.id}`);
 
+    // Quick burst of clock pings so latency is known before the first round
+    for (let i = 0; i < config.CLOCK_SYNC_BURST_SIZE; i++) {
+      setTimeout(() => sendClockPing(socket), i * config.CLOCK_SYNC_BURST_SPACING_MS);
+    }
+
+    socket.on('clockPong', (data: unknown) => {
+      const estimate = clockSync.recordPong(socket.id, data);
+      if (estimate) {
+        socket.emit('clockEstimate', { rttMs: estimate.rttMs, offsetMs: estimate.offsetMs });
+      }
+    });
+
+    // The room this socket is bound to (null if its join code was not found)
+    const getSocketRoom = (): Room | null => (socket.roomCode ? rooms.getRoom(socket.roomCode) : null);
+
+    const joinRoom = (room: Room): void => {
+      if (socket.roomCode === room.code) return;
+      if (socket.roomCode) {
+        socket.leave(rooms.roomChannel(socket.roomCode));
+        // A player switching rooms leaves the old one's game
+        const previous = rooms.getRoom(socket.roomCode);
+        if (previous?.gameState.players[socket.id]) {
+          Logger.info(`🚪 PLAYER MOVED: ${previous.gameState.players[socket.id].name} | Room ${previous.code} → ${room.code}`);
+          delete previous.gameState.players[socket.id];
+          logEvent(previous, { type: 'leave', playerId: socket.id });
+          emitAdQueue(previous);
+          broadcastState(previous);
+        }
+      }
+      socket.join(rooms.roomChannel(room.code));
+      socket.roomCode = room.code;
+      rooms.touchRoom(room);
+    };
+
+    // Bind to the room from the ?room= join code (default room when absent)
+    const initialRoom = rooms.resolveRoom(socket.handshake.query.room);
+    if (initialRoom) {
+      joinRoom(initialRoom);
+      emitInitialState(socket, initialRoom);
+    } else {
+      socket.emit('roomError', { message: 'Room not found' });
+    }
+
+    // Displays register so the lobby ad rotation knows who is watching
+    socket.on('registerDisplay', () => {
+      const room = getSocketRoom();
+      if (!room) return;
+      addAdDisplay(room, socket.id);
+      socket.emit('adRotation', getRotatingAd(room));
+    });
+
     // Host authentication
     socket.on('authenticateHost', (data: { token?: string }) => {
       const token = data && data.token;
       if (token && auth.isValidHostAuthToken(token)) {
-        authenticatedHostSockets.add(socket.id);
-        socket.emit('hostAuthenticated', { success: true });
-        Logger.debug(`Host socket authenticated: ${socket.id.substring(0, 8)}`);
+        const room = getSocketRoom();
+        if (room) {
+          room.hostSocketIds.add(socket.id);
+        }
+        socket.emit('hostAuthenticated', {
+          success: true,
+          roomCode: room?.code ?? null,
+          phases: getPhaseCatalog(),
+          roundPhases: room?.gameState.roundPhases ?? config.DEFAULT_ROUND_PHASES,
+          falseStartPenalty: room?.gameState.falseStartPenalty ?? config.DEFAULT_FALSE_START_PENALTY,
+          fastestFingerVariant: room?.gameState.fastestFingerVariant ?? config.DEFAULT_FASTEST_FINGER_VARIANT,
+          clearingMode: room?.gameState.clearingMode ?? config.DEFAULT_CLEARING_MODE,
+          adModeration: room?.gameState.adModeration ?? config.DEFAULT_AD_MODERATION,
+          adDwellSeconds: room?.gameState.adDwellSeconds ?? config.DEFAULT_AD_DWELL_SECONDS,
+          floorPrice: room?.gameState.floorPrice ?? config.DEFAULT_FLOOR_PRICE,
+          adSlots: room?.gameState.adSlots ?? config.DEFAULT_AD_SLOTS,
+          dutchCeiling: room?.gameState.dutchCeiling ?? config.DEFAULT_DUTCH_CEILING,
+          teamAssignment: room?.gameState.teams?.assignment ?? null,
+          teamCount: room?.gameState.teams?.teams.length || config.DEFAULT_TEAM_COUNT,
+          adSlotLabels: config.AD_SLOT_LABELS,
+          season: persistence.getCurrentSeason(),
+        });
+        if (room) emitAdQueue(room);
+        Logger.debug(`Host socket authenticated: ${socket.id.substring(0, 8)} (room ${room?.code ?? 'none'})`);
       } else {
         socket.emit('hostAuthenticated', { success: false });
       }
     });
 
-    const isAuthenticatedHost = (): boolean => authenticatedHostSockets.has(socket.id);
-
-    // Send initial state (slim payload - top 10 leaderboard only)
-    const initialLeaderboard = gameState.status === 'finished' && gameState.finalLeaderboard.length > 0
-      ? gameState.finalLeaderboard.slice(0, 10)
-      : getLeaderboard().slice(0, 10);
-    
-    socket.emit('gameState', {
-      status: gameState.status,
-      timeRemaining: gameState.timeRemaining,
-      leaderboard: initialLeaderboard,
-      winner: gameState.winner,
-      winnerAd: gameState.winnerAd,
-      round: gameState.round,
-      playerCount: Object.keys(gameState.players).length,
-      allTimeLeaderboard: persistence.getAllTimeLeaderboard().slice(0, 20),
+    const isAuthenticatedHost = (): boolean => getSocketRoom()?.hostSocketIds.has(socket.id) ?? false;
+
+    // A season that fails to save is reported to the host who started it
+    const startSeasonForHost = async (command: string, name?: unknown): Promise<void> => {
+      try {
+        await runStartSeason(getSocketRoom() as Room, command, name);
+      } catch (err) {
+        Logger.error('❌ Error starting a new season:', (err as Error).message);
+        socket.emit('hostEvent', { type: 'season_error', message: SEASON_SAVE_ERROR, level: 'error' });
+      }
+    };
+
+    // Create a new room (hosts only) - the host panel then switches to it
+    socket.on('createRoom', () => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized createRoom attempt', socket.id);
+        return;
+      }
+
+      const room = rooms.createRoom();
+      if (!room) {
+        socket.emit('roomError', { message: `Room limit reached (${config.MAX_ROOMS})` });
+        return;
+      }
+
+      broadcastToHosts(getSocketRoom(), 'room_created', `Room ${room.code} created`, 'success');
+      socket.emit('roomCreated', { code: room.code });
     });
 
     // Join game
-    socket.on('joinGame', (data: { name?: string; adContent?: string }) => {
+    socket.on('joinGame', (data: { name?: string; adContent?: string; ad?: { headline?: string; tagline?: string; template?: string; logo?: string }; roomCode?: string; teamId?: string; table?: number; player?: { id?: string; key?: string } }) => {
+      const safeData = data && typeof data === 'object' ? data : {};
+
+      // Players may type a join code on the form instead of using a ?room= link
+      if (safeData.roomCode) {
+        const requestedRoom = rooms.resolveRoom(safeData.roomCode);
+        if (!requestedRoom) {
+          socket.emit('roomError', { message: 'Room not found. Check the join code.' });
+          return;
+        }
+        joinRoom(requestedRoom);
+      }
+
+      const room = getSocketRoom();
+      if (!room) {
+        socket.emit('roomError', { message: 'Room not found. Check the join code.' });
+        return;
+      }
+      const gameState = room.gameState;
+
       const playerCount = Object.keys(gameState.players).length;
       if (playerCount >= config.MAX_PLAYERS) {
         socket.emit('joinError', { message: 'Game is full! Maximum players reached.' });
-        broadcastToHosts('max_players', `Player rejected - MAX_PLAYERS (${config.MAX_PLAYERS}) reached!`, 'error');
-        Logger.warn(`❌ Player rejected - game full (${playerCount}/${config.MAX_PLAYERS})`);
+        broadcastToHosts(room, 'max_players', `Player rejected - MAX_PLAYERS (${config.MAX_PLAYERS}) reached!`, 'error');
+        Logger.warn(`❌ Player rejected - room ${room.code} full (${playerCount}/${config.MAX_PLAYERS})`);
         return;
       }
 
-      const safeData = data && typeof data === 'object' ? data : {};
       const name = validation.sanitizeString(safeData.name, config.MAX_NAME_LENGTH);
       const adContent = validation.sanitizeString(safeData.adContent, config.MAX_AD_CONTENT_LENGTH);
 
       const playerName = name || `DSP-${socket.id.substring(0, 4)}`;
+      // The device's persistent player id (a new one if it has none yet)
+      const { identity, credentials } = joinAsIdentity(safeData.player, playerName);
+      // Clients without the ad composer send a plain adContent - it becomes the headline
+      const creative = validation.validateAdCreative(safeData.ad, adContent || `${playerName} wins! 🎉`);
+      const text = creativeText(creative);
 
       const playerData: Player = {
         name: playerName,
+        identityId: identity.id,
         clicks: 0,
-        color: getNextColor(),
-        adContent: adContent || `${playerName} wins! 🎉`,
+        color: getNextColor(room),
+        adContent: text,
+        creative,
+        adReview: screenCreative(room, text),
       };
 
+      const team = assignTeam(room, playerData, { teamId: safeData.teamId, table: safeData.table });
       gameState.players[socket.id] = playerData;
+      ensureBudget(room, playerData);
+      keepCreativeReview(room, playerData);
+      logEvent(room, { type: 'join', playerId: socket.id, player: playerData, rejoined: false });
 
-      const sessionToken = session.createSession(socket.id, playerData);
-      socket.emit('sessionCreated', { token: sessionToken });
+      const sessionToken = session.createSession(socket.id, playerData, room.code);
+      socket.emit('sessionCreated', { token: sessionToken, roomCode: room.code, team, playerId: identity.id, credentials });
+      emitBudget(socket, room, playerData);
+      emitTournamentStatus(socket, room, playerData);
+      emitAdReview(socket, room, playerData);
 
       const newCount = Object.keys(gameState.players).length;
-      Logger.info(`✅ PLAYER JOINED: ${playerName} | Total players: ${newCount}/${config.MAX_PLAYERS}`);
-      broadcastToHosts('player_joined', `${playerName} joined (${newCount}/${config.MAX_PLAYERS})`, 'player');
-      broadcastState();
+      const teamText = team ? ` (${team.name})` : '';
+      Logger.info(`✅ PLAYER JOINED: ${playerName}${teamText} | Room ${room.code} | Total players: ${newCount}/${config.MAX_PLAYERS}`);
+      broadcastToHosts(room, 'player_joined', `${playerName}${teamText} joined (${newCount}/${config.MAX_PLAYERS})`, 'player');
+      if (playerData.adReview?.status === 'pending') {
+        const flaggedText = playerData.adReview.flagged.length > 0 ? ' (flagged by the blocklist)' : '';
+        broadcastToHosts(room, 'ad_pending', `🛡️ ${playerName}'s ad is waiting for review${flaggedText}`, 'warning');
+        emitAdQueue(room);
+      }
+      broadcastState(room);
     });
 
     // Rejoin game
@@ -170,6 +565,14 @@ export function setupSocketIO(io: Server): void {
         return;
       }
 
+      const room = rooms.getRoom(sessionData.roomCode);
+      if (!room) {
+        socket.emit('rejoinError', { message: 'Room no longer exists' });
+        return;
+      }
+      joinRoom(room);
+      const gameState = room.gameState;
+
       const playerData = session.restoreSession(token, socket.id);
       if (!playerData) {
         socket.emit('rejoinError', { message: 'Failed to restore session' });
@@ -181,139 +584,216 @@ export function setupSocketIO(io: Server): void {
       }
 
       gameState.players[socket.id] = { ...playerData };
+      ensureTeam(room, gameState.players[socket.id]);
+      logEvent(room, { type: 'join', playerId: socket.id, player: gameState.players[socket.id], rejoined: true });
 
       socket.emit('rejoinSuccess', {
         token,
+        roomCode: room.code,
         playerData: {
           name: playerData.name,
           clicks: playerData.clicks,
           color: playerData.color,
         },
+        team: getTeam(room, gameState.players[socket.id].teamId),
       });
 
       Logger.playerAction('reconnected', playerData.name);
-      broadcastState();
+      emitInitialState(socket, room);
+      emitBudget(socket, room, gameState.players[socket.id]);
+      emitTournamentStatus(socket, room, gameState.players[socket.id]);
+      emitAdReview(socket, room, gameState.players[socket.id]);
+      emitAdQueue(room);
+      broadcastState(room);
     });
 
-    // Click
-    socket.on('click', () => {
-      // Click Auction phase - count clicks
-      if (gameState.status === 'auction' && gameState.players[socket.id]) {
-        if (validation.isRateLimited(socket.id)) {
-          return;
-        }
+    // Click - what a click does depends on the active round phase
+    socket.on('click', (data?: unknown) => {
+      const room = getSocketRoom();
+      if (!room) return;
+      handleClick(room, socket, data);
+    });
 
-        botDetection.recordClickInterval(socket.id);
-        gameState.players[socket.id].clicks++;
+    // Start auction
+    socket.on('startAuction', (settings?: StartAuctionSettings) => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized startAuction attempt', socket.id);
+        return;
+      }
+      runStartAuction(getSocketRoom() as Room, settings);
+    });
 
-        const suspicionCheck = botDetection.isSuspiciousClicker(socket.id);
-        gameState.players[socket.id].suspicious = suspicionCheck.suspicious;
-        if (suspicionCheck.suspicious) {
-          gameState.players[socket.id].suspicionReason = suspicionCheck.reason;
-        }
+    // New Game - opens lobby for new round, keeps cumulative stats
+    socket.on('newGame', () => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized newGame attempt', socket.id);
+        return;
+      }
+      runNewGame(getSocketRoom() as Room);
+    });
 
-        // Send click confirmation only to the player who clicked (not everyone)
-        socket.emit('clickConfirm', {
-          clicks: gameState.players[socket.id].clicks,
-        });
-        
-        // Throttled broadcast is handled by the 1-second gameState broadcast
-        // No longer broadcasting every click to all clients - too expensive with 200 players
-      }
-      // Fastest Finger phase - record reaction time
-      else if (gameState.status === 'fastestFinger_tap' && gameState.players[socket.id]) {
-        const recorded = recordReactionTime(socket.id);
-        if (recorded) {
-          const playerName = gameState.players[socket.id].name;
-          const reactionTime = gameState.players[socket.id].reactionTime;
-          Logger.info(`⚡ TAP: ${playerName} - ${reactionTime}ms`);
-          io.emit('reactionTimeRecorded', {
-            playerId: socket.id,
-            playerName: playerName,
-            reactionTime: reactionTime,
-          });
-          broadcastState();
-        }
+    // Pause the running round - the clock stops and clicks are rejected
+    socket.on('pauseRound', () => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized pauseRound attempt', socket.id);
+        return;
       }
+
+      const room = getSocketRoom() as Room;
+      if (!pauseRound(room)) {
+        broadcastToHosts(room, 'pause_error', 'Nothing to pause - no round is running', 'error');
+        return;
+      }
+      logEvent(room, { type: 'host', command: 'pauseRound' });
+      Logger.gameEvent('Round paused', { room: room.code, round: room.gameState.round, phase: room.gameState.status });
+      broadcastToHosts(room, 'round_paused', `⏸️ Round ${room.gameState.round} paused`, 'warning');
     });
 
-    // Start auction
-    socket.on('startAuction', (settings?: { duration?: number; countdown?: number }) => {
+    // Resume a paused round where it stopped
+    socket.on('resumeRound', () => {
       if (!isAuthenticatedHost()) {
-        Logger.security('Unauthorized startAuction attempt', socket.id);
+        Logger.security('Unauthorized resumeRound attempt', socket.id);
         return;
       }
 
-      clearAllIntervals();
+      const room = getSocketRoom() as Room;
+      if (!resumeRound(room)) return;
+      logEvent(room, { type: 'host', command: 'resumeRound' });
+      Logger.gameEvent('Round resumed', { room: room.code, round: room.gameState.round, phase: room.gameState.status });
+      broadcastToHosts(room, 'round_resumed', `▶️ Round ${room.gameState.round} resumed`, 'success');
+    });
 
-      if (settings && typeof settings === 'object') {
-        if (settings.duration !== undefined) {
-          gameState.auctionDuration = validation.validateAuctionDuration(settings.duration);
-        }
-        if (settings.countdown !== undefined) {
-          gameState.countdownDuration = validation.validateCountdownDuration(settings.countdown);
-        }
+    // Abort the round - budgets, brackets and all-time stats go back to before it
+    socket.on('abortRound', () => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized abortRound attempt', socket.id);
+        return;
       }
 
-      gameState.countdownDuration = validation.validateCountdownDuration(gameState.countdownDuration);
+      const room = getSocketRoom() as Room;
+      const round = room.gameState.round;
+      if (!abortRound(room)) {
+        broadcastToHosts(room, 'abort_error', 'Nothing to abort - no round is running', 'error');
+        return;
+      }
+      logEvent(room, { type: 'host', command: 'abortRound', data: { round } });
+      Logger.gameEvent('Round aborted', { room: room.code, round });
+      broadcastToHosts(room, 'round_aborted', `⏹️ Round ${round} aborted - nothing from it was recorded`, 'warning');
+    });
 
-      const playerCount = Object.keys(gameState.players).length;
-      if (playerCount === 0) {
-        broadcastToHosts('start_error', 'Cannot start - no players connected!', 'error');
+    // Put a past round's winner back up on the room's displays (between rounds only)
+    socket.on('showPastWinner', (data?: { roundId?: string }) => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized showPastWinner attempt', socket.id);
         return;
       }
 
-      resetGame();
-      gameState.round++;
-      gameState.status = 'auction_countdown';
-      gameState.timeRemaining = gameState.countdownDuration;
+      const room = getSocketRoom() as Room;
+      const record = typeof data?.roundId === 'string' ? persistence.getRound(data.roundId) : null;
+      if (!record || record.roomCode !== room.code) {
+        broadcastToHosts(room, 'past_winner_error', 'That round is not in this room\'s history', 'error');
+        return;
+      }
+      if (isRoundInProgress(room)) {
+        broadcastToHosts(room, 'past_winner_error', 'Wait for the round to finish before showing a past winner', 'error');
+        return;
+      }
+      emitToRoom(room, 'pastWinner', record);
+      logEvent(room, { type: 'host', command: 'showPastWinner', data: { roundId: record.id } });
+      Logger.gameEvent('Past winner shown', { room: room.code, round: record.round });
+      broadcastToHosts(room, 'past_winner', `📺 Showing round ${record.round} winner: ${record.winner ?? 'no winner'}`, 'info');
+    });
 
-      broadcastToHosts('game_started', `Round ${gameState.round} started with ${playerCount} players`, 'success');
-      Logger.info(`🚀 ═══════════════════════════════════════════════════════════`);
-      Logger.info(`🚀 ROUND ${gameState.round} STARTING!`);
-      Logger.info(`🚀 Players: ${playerCount} | Auction: ${gameState.auctionDuration}s | Countdown: ${gameState.countdownDuration}s`);
-      Logger.info(`🚀 ═══════════════════════════════════════════════════════════`);
-      broadcastState();
+    // Play a past round back on the room's displays from its event log (between rounds only)
+    socket.on('replayRound', (data?: { roundId?: string }) => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized replayRound attempt', socket.id);
+        return;
+      }
 
-      const interval = setInterval(() => {
-        gameState.timeRemaining--;
-        broadcastState();
+      const room = getSocketRoom() as Room;
+      const record = typeof data?.roundId === 'string' ? persistence.getRound(data.roundId) : null;
+      if (!record || record.roomCode !== room.code) {
+        broadcastToHosts(room, 'replay_error', 'That round is not in this room\'s history', 'error');
+        return;
+      }
+      if (isRoundInProgress(room)) {
+        broadcastToHosts(room, 'replay_error', 'Wait for the round to finish before replaying one', 'error');
+        return;
+      }
+      const log = persistence.getEventLog(record.id);
+      if (!log || !startReplayPlayback(room, record, log.events)) {
+        broadcastToHosts(room, 'replay_error', `Round ${record.round} can't be replayed - its event log is no longer kept`, 'error');
+        return;
+      }
+      logEvent(room, { type: 'host', command: 'replayRound', data: { roundId: record.id } });
+      Logger.gameEvent('Round replay started', { room: room.code, round: record.round });
+      broadcastToHosts(room, 'replay_started', `⏪ Replaying round ${record.round} on the displays`, 'info');
+    });
 
-        if (gameState.timeRemaining <= 0) {
-          clearCountdownInterval();
-          startClickAuction();
-        }
-      }, config.TICK_INTERVAL_MS);
-      setCountdownInterval(interval);
+    // End campaign - back to rounds with unlimited taps
+    socket.on('endCampaign', () => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized endCampaign attempt', socket.id);
+        return;
+      }
+
+      const room = getSocketRoom() as Room;
+      if (!room.gameState.campaign) return;
+      endCampaign(room);
+      logEvent(room, { type: 'host', command: 'endCampaign' });
+      Logger.gameEvent('Campaign ended', { room: room.code });
+      broadcastToHosts(room, 'campaign_ended', '📣 Campaign ended', 'info');
+      broadcastState(room);
     });
 
-    // New Game - opens lobby for new round, keeps cumulative stats
-    socket.on('newGame', () => {
+    // End tournament - everyone plays again (an unfinished bracket is dropped)
+    socket.on('endTournament', () => {
       if (!isAuthenticatedHost()) {
-        Logger.security('Unauthorized newGame attempt', socket.id);
+        Logger.security('Unauthorized endTournament attempt', socket.id);
         return;
       }
 
-      clearAllIntervals();
-      
-      // Reset player clicks for new round but KEEP player data
-      Object.values(gameState.players).forEach((player) => {
-        player.clicks = 0;
-        player.suspicious = false;
-        player.suspicionReason = null;
-        player.reactionTime = null;
+      const room = getSocketRoom() as Room;
+      if (!room.gameState.tournament) return;
+      endTournament(room);
+      logEvent(room, { type: 'host', command: 'endTournament' });
+      saveTournaments();
+      Logger.gameEvent('Tournament ended', { room: room.code });
+      broadcastToHosts(room, 'tournament_ended', '🏟️ Tournament ended - everyone plays again', 'info');
+      broadcastState(room);
+    });
+
+    // Configure teams between rounds - null assignment goes back to solo play
+    socket.on('configureTeams', (data?: { assignment?: string | null; count?: number }) => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized configureTeams attempt', socket.id);
+        return;
+      }
+
+      const room = getSocketRoom() as Room;
+      if (isRoundInProgress(room)) {
+        broadcastToHosts(room, 'teams_error', 'Teams can only change between rounds', 'error');
+        return;
+      }
+
+      const assignment = validation.validateTeamAssignment(data && data.assignment);
+      if (!assignment) {
+        if (!room.gameState.teams) return;
+        endTeams(room);
+        Logger.gameEvent('Team mode ended', { room: room.code });
+        broadcastToHosts(room, 'teams_ended', '🤝 Team mode off - everyone bids alone', 'info');
+      } else {
+        const setup = startTeams(room, assignment, validation.validateTeamCount(data?.count));
+        const teamText = assignment === 'table' ? 'one team per table' : setup.teams.map((team) => team.name).join(', ');
+        Logger.gameEvent('Team mode started', { room: room.code, assignment, teams: setup.teams.length });
+        broadcastToHosts(room, 'teams_configured', `🤝 Team mode (${assignment.replace('_', '-')}): ${teamText}`, 'success');
+      }
+      logEvent(room, { type: 'host', command: 'configureTeams', data: { assignment, count: data?.count } });
+      Object.entries(room.gameState.players).forEach(([socketId, player]) => {
+        ioInstance?.to(socketId).emit('teamAssigned', { team: getTeam(room, player.teamId) });
       });
-      
-      gameState.status = 'waiting';
-      gameState.winner = null;
-      gameState.winnerAd = null;
-      gameState.timeRemaining = 0;
-      gameState.finalLeaderboard = [];
-      gameState.auctionScores = {};
-      gameState.fastestFingerStartTime = null;
-      
-      Logger.gameEvent('New game lobby opened', { round: gameState.round + 1 });
-      broadcastState();
+      broadcastState(room);
     });
 
     // Reset auction (legacy - same as newGame for now)
@@ -322,36 +802,151 @@ export function setupSocketIO(io: Server): void {
         Logger.security('Unauthorized resetAuction attempt', socket.id);
         return;
       }
+      runResetAuction(getSocketRoom() as Room);
+    });
 
-      clearAllIntervals();
-      resetGame();
-      broadcastState();
+    // Close the current season (its leaderboard is archived) and start the next
+    socket.on('startSeason', async (data?: { name?: string }) => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized startSeason attempt', socket.id);
+        return;
+      }
+      await startSeasonForHost('startSeason', data?.name);
     });
 
-    // Reset all-time stats
+    // Reset all-time stats - a new season, so the old stats stay in the archive
     socket.on('resetAllTimeStats', async () => {
       if (!isAuthenticatedHost()) {
         Logger.security('Unauthorized resetAllTimeStats attempt', socket.id);
         return;
       }
+      await startSeasonForHost('resetAllTimeStats');
+    });
 
-      await persistence.resetAllStats();
-      Logger.info('All-time stats reset by host');
-      broadcastState();
+    // Merge two player identities that are the same person (all-time stats add up)
+    socket.on('mergePlayers', (data?: { sourceId?: string; targetId?: string }) => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized mergePlayers attempt', socket.id);
+        return;
+      }
+
+      const room = getSocketRoom() as Room;
+      const source = typeof data?.sourceId === 'string' ? persistence.getPlayerIdentity(data.sourceId) : null;
+      const target = typeof data?.targetId === 'string' ? persistence.getPlayerIdentity(data.targetId) : null;
+      if (!source || !target) {
+        broadcastToHosts(room, 'merge_error', 'Pick two known player ids to merge', 'error');
+        return;
+      }
+      if (!mergeIdentities(source.id, target.id)) {
+        broadcastToHosts(room, 'merge_error', `${source.name} and ${target.name} are already merged`, 'error');
+        return;
+      }
+      Logger.gameEvent('Players merged', { source: source.id, target: target.id });
+      broadcastToHosts(room, 'players_merged', `🔗 ${source.name} (${source.id}) now counts as ${target.name}`, 'success');
+      rooms.getAllRooms().forEach((other) => broadcastState(other));
+    });
+
+    // Split a merged player identity off again
+    socket.on('splitPlayer', (data?: { playerId?: string }) => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized splitPlayer attempt', socket.id);
+        return;
+      }
+
+      const room = getSocketRoom() as Room;
+      const identity = typeof data?.playerId === 'string' ? persistence.getPlayerIdentity(data.playerId) : null;
+      if (!identity || !splitIdentity(identity.id)) {
+        broadcastToHosts(room, 'split_error', 'That player id is not merged into another', 'error');
+        return;
+      }
+      Logger.gameEvent('Player split off', { player: identity.id });
+      broadcastToHosts(room, 'player_split', `✂️ ${identity.name} (${identity.id}) has stats of their own again`, 'success');
+      rooms.getAllRooms().forEach((other) => broadcastState(other));
+    });
+
+    // Approve or reject a player's ad creative
+    socket.on('reviewAd', (data?: { playerId?: string; approved?: boolean }) => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized reviewAd attempt', socket.id);
+        return;
+      }
+
+      const room = getSocketRoom() as Room;
+      const approved = data?.approved === true;
+      const playerId = typeof data?.playerId === 'string' ? data.playerId : '';
+      const player = reviewCreative(room, playerId, approved);
+      if (!player) {
+        broadcastToHosts(room, 'ad_review_error', 'That player has left the room', 'error');
+        emitAdQueue(room);
+        return;
+      }
+      logEvent(room, { type: 'host', command: 'reviewAd', data: { playerId, approved } });
+      Logger.gameEvent(approved ? 'Ad approved' : 'Ad rejected', { room: room.code, player: player.name });
+      broadcastToHosts(room, 'ad_reviewed', approved ? `✅ ${player.name}'s ad approved` : `🚫 ${player.name}'s ad rejected - the house ad runs if they win`, approved ? 'success' : 'warning');
+      ioInstance?.to(playerId).emit('adReview', { status: approved ? 'approved' : 'rejected' });
+      emitAdQueue(room);
+      broadcastState(room);
+    });
+
+    // Choose which ad creatives wait for approval: blocklist-flagged ones or all of them
+    socket.on('setAdModeration', (data?: { mode?: string }) => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized setAdModeration attempt', socket.id);
+        return;
+      }
+
+      const room = getSocketRoom() as Room;
+      const mode = validation.validateAdModerationMode(data?.mode);
+      if (!mode) {
+        broadcastToHosts(room, 'ad_moderation_error', 'Unknown ad review setting', 'error');
+        return;
+      }
+      const waiting = setAdModeration(room, mode);
+      logEvent(room, { type: 'host', command: 'setAdModeration', data: { mode } });
+      Logger.gameEvent('Ad moderation changed', { room: room.code, mode });
+      const modeText = mode === 'all' ? 'every ad needs approval' : 'only flagged ads need approval';
+      broadcastToHosts(room, 'ad_moderation', `🛡️ Ad review: ${modeText} (${waiting} waiting)`, 'info');
+      Object.entries(room.gameState.players).forEach(([socketId, player]) => {
+        ioInstance?.to(socketId).emit('adReview', { status: getAdReview(room, player).status });
+      });
+      emitAdQueue(room);
+      broadcastState(room);
+    });
+
+    // How long each past winner's ad stays up in the lobby rotation (from the next ad on)
+    socket.on('setAdDwell', (data?: { seconds?: number }) => {
+      if (!isAuthenticatedHost()) {
+        Logger.security('Unauthorized setAdDwell attempt', socket.id);
+        return;
+      }
+
+      const room = getSocketRoom() as Room;
+      const seconds = validation.validateAdDwell(data?.seconds);
+      room.gameState.adDwellSeconds = seconds;
+      logEvent(room, { type: 'host', command: 'setAdDwell', data: { seconds } });
+      Logger.gameEvent('Ad dwell time changed', { room: room.code, seconds });
+      broadcastToHosts(room, 'ad_dwell', `📺 Lobby ads stay up ${seconds}s each`, 'info');
     });
 
     // Disconnect
     socket.on('disconnect', () => {
       validation.cleanupRateLimitData(socket.id);
       botDetection.resetBotDetectionData(socket.id);
-      
-      const wasHost = authenticatedHostSockets.has(socket.id);
-      authenticatedHostSockets.delete(socket.id);
+      clockSync.resetClockData(socket.id);
+
+      const room = getSocketRoom();
+      if (!room) return;
+      const gameState = room.gameState;
+
+      const wasHost = room.hostSocketIds.has(socket.id);
+      room.hostSocketIds.delete(socket.id);
+      removeAdDisplay(room, socket.id);
+      rooms.touchRoom(room);
 
       if (gameState.players[socket.id]) {
         const playerName = gameState.players[socket.id].name;
         const playerClicks = gameState.players[socket.id].clicks;
-        const isActiveAuction = gameState.status === 'auction_countdown' || gameState.status === 'auction';
+        const roundInProgress = isRoundInProgress(room);
 
         const token = session.markSessionDisconnected(socket.id);
 
@@ -364,16 +959,18 @@ export function setupSocketIO(io: Server): void {
             sessionData.playerData.disconnectedRound = gameState.round;
           }
           Logger.warn(`⚠️  PLAYER DISCONNECTED: ${playerName} (clicks: ${playerClicks}) - can reconnect | Remaining: ${remainingPlayers}`);
-          broadcastToHosts('player_disconnected', `${playerName} disconnected (can reconnect)`, 'warning');
+          broadcastToHosts(room, 'player_disconnected', `${playerName} disconnected (can reconnect)`, 'warning');
         } else {
           Logger.warn(`👋 PLAYER LEFT: ${playerName} (clicks: ${playerClicks}) | Remaining: ${remainingPlayers}`);
-          broadcastToHosts('player_disconnected', `${playerName} left`, 'warning');
+          broadcastToHosts(room, 'player_disconnected', `${playerName} left`, 'warning');
         }
 
-        if (!isActiveAuction) {
+        if (!roundInProgress) {
           delete gameState.players[socket.id];
+          logEvent(room, { type: 'leave', playerId: socket.id });
+          emitAdQueue(room);
         }
-        broadcastState();
+        if (!endTapPhaseIfAnswered(room)) broadcastState(room);
       } else if (wasHost) {
         Logger.info(`🎛️  Host disconnected`);
       }
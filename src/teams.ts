@@ -0,0 +1,155 @@
+// ============================================
+// TEAM MODE (DSP Agencies)
+// ============================================
+// For table-based workshops players bid for a team. Players pick their team
+// when they join, get dealt onto the smallest team (round-robin), or join the
+// team of the table they sit at. A team scores the sum of its members' final
+// scores, so member taps and reaction multipliers both count.
+
+import config from './config';
+import { validateTableNumber } from './validation';
+import { LeaderboardEntry, Player, Room, Team, TeamAssignment, TeamSetup } from './types';
+
+export interface TeamStanding {
+  id: string;
+  name: string;
+  color: string;
+  members: number;
+  taps: number; // Click Auction taps of all members
+  finalScore: number; // Sum of members' final scores
+}
+
+export interface TeamView {
+  assignment: TeamAssignment;
+  teams: Team[]; // What players can pick from when they join
+  standings: TeamStanding[];
+}
+
+// What a player asked for on the join form (untrusted)
+export interface TeamRequest {
+  teamId?: unknown;
+  table?: unknown;
+}
+
+/**
+ * Turn team mode on - every player already in the room is assigned again
+ */
+export function startTeams(room: Room, assignment: TeamAssignment, count: number): TeamSetup {
+  const teams = assignment === 'table'
+    ? []
+    : config.TEAM_NAMES.slice(0, count).map((name, i) => ({
+      id: `team-${i + 1}`,
+      name,
+      color: config.TEAM_COLORS[i % config.TEAM_COLORS.length],
+    }));
+  const setup: TeamSetup = { assignment, teams };
+  room.gameState.teams = setup;
+
+  const players = Object.values(room.gameState.players);
+  players.forEach((player) => delete player.teamId);
+  players.forEach((player) => assignTeam(room, player));
+  return setup;
+}
+
+/**
+ * Leave team mode - everyone bids alone again
+ */
+export function endTeams(room: Room): void {
+  room.gameState.teams = null;
+  Object.values(room.gameState.players).forEach((player) => delete player.teamId);
+}
+
+/**
+ * A team of this room by id
+ */
+export function getTeam(room: Room, teamId: string | undefined): Team | null {
+  return room.gameState.teams?.teams.find((team) => team.id === teamId) ?? null;
+}
+
+// The team of a table number, created the first time someone sits there
+function getTableTeam(setup: TeamSetup, table: number): Team {
+  const id = `table-${table}`;
+  let team = setup.teams.find((t) => t.id === id);
+  if (!team) {
+    team = { id, name: `Table ${table}`, color: config.TEAM_COLORS[(table - 1) % config.TEAM_COLORS.length] };
+    setup.teams.push(team);
+  }
+  return team;
+}
+
+// Fewest members first; the earlier team wins a tie
+function getSmallestTeam(room: Room, setup: TeamSetup): Team | null {
+  const counts: Record<string, number> = {};
+  Object.values(room.gameState.players).forEach((player) => {
+    if (player.teamId) counts[player.teamId] = (counts[player.teamId] ?? 0) + 1;
+  });
+  return setup.teams.reduce<Team | null>(
+    (smallest, team) => (!smallest || (counts[team.id] ?? 0) < (counts[smallest.id] ?? 0) ? team : smallest),
+    null
+  );
+}
+
+/**
+ * Put a player on a team. Players who didn't ask for a valid team (or a
+ * room dealing teams round-robin) go to the smallest team.
+ */
+export function assignTeam(room: Room, player: Player, request: TeamRequest = {}): Team | null {
+  const setup = room.gameState.teams;
+  if (!setup) return null;
+
+  let team: Team | null = null;
+  if (setup.assignment === 'choose') {
+    team = setup.teams.find((t) => t.id === request.teamId) ?? null;
+  } else if (setup.assignment === 'table') {
+    const table = validateTableNumber(request.table);
+    if (table !== null) team = getTableTeam(setup, table);
+  }
+  team = team ?? getSmallestTeam(room, setup) ?? getTableTeam(setup, 1);
+  player.teamId = team.id;
+  return team;
+}
+
+/**
+ * Fix up a returning player's team after the room's teams changed
+ */
+export function ensureTeam(room: Room, player: Player): void {
+  if (!room.gameState.teams) {
+    delete player.teamId;
+  } else if (!getTeam(room, player.teamId)) {
+    assignTeam(room, player);
+  }
+}
+
+/**
+ * Team totals from a leaderboard, highest score first (more taps break ties)
+ */
+export function getTeamStandings(room: Room, leaderboard: LeaderboardEntry[]): TeamStanding[] {
+  const setup = room.gameState.teams;
+  if (!setup) return [];
+
+  const standings = new Map<string, TeamStanding>(setup.teams.map((team) => [
+    team.id,
+    { id: team.id, name: team.name, color: team.color, members: 0, taps: 0, finalScore: 0 },
+  ]));
+  leaderboard.forEach((entry) => {
+    const standing = entry.teamId ? standings.get(entry.teamId) : undefined;
+    if (!standing) return;
+    standing.members++;
+    standing.taps += entry.auctionScore ?? entry.clicks;
+    standing.finalScore += entry.finalScore;
+  });
+  return [...standings.values()].sort((a, b) => b.finalScore - a.finalScore || b.taps - a.taps);
+}
+
+/**
+ * Teams and their standings for clients, null outside team mode
+ */
+export function getTeamView(room: Room, leaderboard: LeaderboardEntry[]): TeamView | null {
+  const setup = room.gameState.teams;
+  if (!setup) return null;
+  return {
+    assignment: setup.assignment,
+    teams: setup.teams,
+    standings: getTeamStandings(room, leaderboard),
+  };
+}
@@ -0,0 +1,199 @@
+// ============================================
+// TOURNAMENT MODE (Elimination Bracket)
+// ============================================
+// Every round knocks out the bottom share of the survivors by final score
+// until one DSP is left as champion. Knocked-out players stay in the room as
+// spectators. Entrants are tracked by persistent player id (two DSPs may
+// share a name, and a knocked-out player can't come back under a survivor's),
+// and the bracket is kept in persistence so a tournament picks up where it
+// left off after a restart.
+
+import * as persistence from './persistence';
+import { ensureIdentity } from './identity';
+import Logger from './logger';
+import { createRoom } from './rooms';
+import { LeaderboardEntry, Player, Room, Tournament, TournamentRound } from './types';
+
+const MAX_VIEW_NAMES = 16; // Survivors/knockouts listed per round in the view
+
+export interface TournamentRoundView {
+  round: number;
+  players: number;
+  survivors: number;
+  knockedOut: string[]; // Best first, capped
+}
+
+export interface TournamentView {
+  eliminatePercent: number;
+  entrants: number;
+  alive: string[]; // Capped
+  aliveCount: number;
+  rounds: TournamentRoundView[];
+  champion: string | null;
+  complete: boolean;
+}
+
+export interface TournamentStatus {
+  spectator: boolean;
+  knockedOutRound: number | null; // Round the player went out in (null if still in, or never entered)
+  aliveCount: number;
+  champion: string | null;
+  isChampion: boolean;
+}
+
+/**
+ * Start a tournament - everyone in the room now is an entrant
+ */
+export function startTournament(room: Room, eliminatePercent: number): Tournament {
+  const names: Record<string, string> = {};
+  Object.values(room.gameState.players).forEach((player) => {
+    names[ensureIdentity(player)] = player.name;
+  });
+  const entrants = Object.keys(names);
+  const tournament: Tournament = {
+    id: `${room.code}-${Date.now()}`,
+    roomCode: room.code,
+    eliminatePercent,
+    startedAt: new Date().toISOString(),
+    endedAt: null,
+    entrants,
+    alive: [...entrants],
+    names,
+    rounds: [],
+    champion: null,
+  };
+  room.gameState.tournament = tournament;
+  persistence.setActiveTournament(room.code, tournament);
+  return tournament;
+}
+
+/**
+ * Leave tournament mode - everyone plays again. An unfinished bracket is dropped.
+ */
+export function endTournament(room: Room): void {
+  room.gameState.tournament = null;
+  persistence.setActiveTournament(room.code, null);
+}
+
+/**
+ * A tournament is running and has no champion yet
+ */
+export function isTournamentActive(room: Room): boolean {
+  const tournament = room.gameState.tournament;
+  return !!tournament && tournament.endedAt === null;
+}
+
+/**
+ * Knocked out (or joined after the tournament started) - watches but can't bid
+ */
+export function isSpectator(room: Room, player: Player): boolean {
+  if (!isTournamentActive(room)) return false;
+  return !player.identityId || !room.gameState.tournament?.alive.includes(player.identityId);
+}
+
+/**
+ * Players knocked out of a round: the share rounded down, but always at least
+ * one and never the last survivor
+ */
+export function getEliminationCount(alive: number, eliminatePercent: number): number {
+  return Math.max(0, Math.min(alive - 1, Math.max(1, Math.floor((alive * eliminatePercent) / 100))));
+}
+
+/**
+ * Knock out the bottom of a finished round. Survivors who left the room score
+ * 0. Returns the round, or null outside a running tournament.
+ */
+export function recordTournamentRound(room: Room, leaderboard: LeaderboardEntry[]): TournamentRound | null {
+  const tournament = room.gameState.tournament;
+  if (!tournament || !isTournamentActive(room)) return null;
+
+  // The leaderboard is already in final order (reaction time breaks ties)
+  const ranked: { id: string; name: string; finalScore: number }[] = [];
+  leaderboard.forEach((entry) => {
+    const id = entry.identityId;
+    if (id && tournament.alive.includes(id) && !ranked.some((r) => r.id === id)) {
+      tournament.names[id] = entry.name;
+      ranked.push({ id, name: entry.name, finalScore: entry.finalScore });
+    }
+  });
+  tournament.alive
+    .filter((id) => !ranked.some((r) => r.id === id))
+    .forEach((id) => ranked.push({ id, name: tournament.names[id] ?? id, finalScore: 0 }));
+
+  const cut = ranked.length - getEliminationCount(ranked.length, tournament.eliminatePercent);
+  const round: TournamentRound = {
+    round: tournament.rounds.length + 1,
+    results: ranked.map((r, i) => ({ ...r, eliminated: i >= cut })),
+  };
+  tournament.rounds.push(round);
+  tournament.alive = round.results.filter((r) => !r.eliminated).map((r) => r.id);
+
+  if (tournament.alive.length <= 1) {
+    tournament.champion = tournament.alive.length > 0 ? tournament.names[tournament.alive[0]] ?? null : null;
+    tournament.endedAt = new Date().toISOString();
+    persistence.archiveTournament(tournament);
+  } else {
+    persistence.setActiveTournament(room.code, tournament);
+  }
+  return round;
+}
+
+/**
+ * Bracket progression for clients, null outside a tournament
+ */
+export function getTournamentView(room: Room): TournamentView | null {
+  const tournament = room.gameState.tournament;
+  if (!tournament) return null;
+  return {
+    eliminatePercent: tournament.eliminatePercent,
+    entrants: tournament.entrants.length,
+    alive: tournament.alive.slice(0, MAX_VIEW_NAMES).map((id) => tournament.names[id] ?? id),
+    aliveCount: tournament.alive.length,
+    rounds: tournament.rounds.map((round) => {
+      const knockedOut = round.results.filter((r) => r.eliminated);
+      return {
+        round: round.round,
+        players: round.results.length,
+        survivors: round.results.length - knockedOut.length,
+        knockedOut: knockedOut.slice(0, MAX_VIEW_NAMES).map((r) => r.name),
+      };
+    }),
+    champion: tournament.champion,
+    complete: tournament.endedAt !== null,
+  };
+}
+
+/**
+ * A player's own place in the tournament (sent privately)
+ */
+export function getTournamentStatus(room: Room, player: Player): TournamentStatus | null {
+  const tournament = room.gameState.tournament;
+  if (!tournament) return null;
+  const id = player.identityId;
+  const knockedOut = tournament.rounds.find((round) => round.results.some((r) => r.id === id && r.eliminated));
+  return {
+    spectator: isSpectator(room, player),
+    knockedOutRound: knockedOut ? knockedOut.round : null,
+    aliveCount: tournament.alive.length,
+    champion: tournament.champion,
+    isChampion: tournament.champion !== null && !!id && tournament.alive[0] === id,
+  };
+}
+
+/**
+ * Put running tournaments back into their rooms after a restart
+ */
+export function restoreTournaments(): number {
+  let restored = 0;
+  Object.values(persistence.getActiveTournaments()).forEach((tournament) => {
+    const room = createRoom(tournament.roomCode);
+    if (!room) {
+      Logger.warn(`⚠️ Tournament ${tournament.id} not restored - no room for ${tournament.roomCode}`);
+      return;
+    }
+    room.gameState.tournament = tournament;
+    restored++;
+    Logger.info(`🏟️ Tournament restored in room ${room.code}: ${tournament.alive.length}/${tournament.entrants.length} left after ${tournament.rounds.length} rounds`);
+  });
+  return restored;
+}
@@ -1,22 +1,184 @@
 import { Socket } from 'socket.io';
+import type { ClockEstimate } from './clockSync';
+import type { PlayerAchievements, PlayerStats, TeamStats } from './persistence';
 
 export interface CustomSocket extends Socket {
   clientIP?: string;
+  roomCode?: string;
 }
 
 export interface Player {
   name: string;
+  identityId?: string; // Persistent player id the device joined with (all-time stats are kept under it)
   clicks: number;
+  budget?: number; // Campaign taps left (carries over between rounds; undefined outside a campaign)
+  budgetSpent?: number; // Campaign taps spent so far
+  impressions?: number; // Campaign ad slots won
+  teamId?: string; // Team the player bids for (undefined outside team mode)
   color: string;
-  adContent: string;
+  adContent: string; // Plain-text form of the creative (history, moderation, side panels of older clients)
+  creative?: AdCreative;
+  adReview?: AdReview; // Moderation of adContent (screened when the player joins)
   suspicious?: boolean;
   suspicionReason?: string | null;
   disconnectedRound?: number;
   reactionTime?: number | null;
+  falseStart?: boolean; // Tapped during the Fastest Finger countdown
+  signalReactions?: Record<string, number | null>; // Per go signal id: reaction ms, null = wrong target
+}
+
+// A player's ad, as laid out on the billboard
+export interface AdCreative {
+  headline: string;
+  tagline: string; // '' for none
+  template: string; // One of config.AD_TEMPLATES
+  logo: string | null; // A few emoji standing in for a brand logo
+}
+
+export type AdModerationMode = 'flagged' | 'all'; // Which creatives wait for the host's approval
+
+export interface AdReview {
+  status: 'pending' | 'approved' | 'rejected';
+  flagged: string[]; // Blocklist terms found in the creative
+  byHost: boolean; // Decided by the host rather than the blocklist screen
+}
+
+// The latest review of a player's creative, kept by the room after the player leaves
+export interface CreativeReview {
+  creative: AdCreative;
+  approved: boolean;
+}
+
+export type FalseStartPenalty = 'disqualify' | 'add_time' | 'deduct_score';
+
+export type LeaderboardSort = 'wins' | 'rating';
+
+export type LeaderboardCategory = 'fastest_reaction' | 'avg_taps' | 'win_rate' | 'win_streak';
+
+export type ExportDataset = 'results' | 'stats' | 'rounds';
+
+// Round settings the host starts an auction with (untrusted - every field is validated)
+export interface StartAuctionSettings {
+  duration?: number;
+  countdown?: number;
+  phases?: string[];
+  falseStartPenalty?: string;
+  fastestFingerVariant?: string;
+  clearingMode?: string;
+  floorPrice?: number;
+  adSlots?: number;
+  dutchCeiling?: number;
+  campaign?: { rounds?: number; budget?: number };
+  tournament?: { eliminatePercent?: number };
+}
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface Campaign {
+  totalRounds: number;
+  budgetPerPlayer: number; // Taps each DSP gets for the whole campaign
+  roundsPlayed: number;
+}
+
+export interface TournamentResult {
+  id: string; // Persistent player id - entrants survive reconnects and restarts, and two DSPs can share a name
+  name: string;
+  finalScore: number; // 0 if the player left before the round ended
+  eliminated: boolean;
+}
+
+export interface TournamentRound {
+  round: number; // 1-based round of the tournament
+  results: TournamentResult[]; // Best first
+}
+
+export interface Tournament {
+  id: string;
+  roomCode: string;
+  eliminatePercent: number; // Share of the survivors knocked out each round (at least one)
+  startedAt: string;
+  endedAt: string | null;
+  entrants: string[]; // Player ids
+  alive: string[]; // Player ids still in the tournament
+  names: Record<string, string>; // Display name by player id
+  rounds: TournamentRound[];
+  champion: string | null; // Champion's name
+}
+
+export type TeamAssignment = 'choose' | 'round_robin' | 'table';
+
+export interface Team {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface TeamSetup {
+  assignment: TeamAssignment; // How players end up on a team
+  teams: Team[]; // In table mode, one team per table number players entered
+}
+
+export type ClearingMode = 'first_price' | 'second_price';
+
+export interface ClearingResult {
+  mode: ClearingMode;
+  floorPrice: number;
+  winningBid: number | null; // Winner's final score, null if nobody cleared the floor
+  beatBid: number | null; // Runner-up's final score (the bid the winner beat)
+  clearingPrice: number | null; // What the winner pays
+}
+
+export interface DutchTap {
+  playerId: string;
+  elapsedMs: number; // When the player tapped, ms after the price started falling (latency compensated)
+}
+
+export interface DutchClaim {
+  playerId: string;
+  name: string;
+  price: number;
+  elapsedMs: number;
+}
+
+export interface DutchAuction {
+  ceiling: number; // Starting price
+  floor: number; // The price never falls below this
+  startedAt: number; // Server timestamp (ms) when the price started falling
+  durationMs: number; // Time to fall from the ceiling to the floor
+  stepMs: number; // The price drops once per step
+  taps: DutchTap[]; // Taps received while the claim is being settled
+  claim: DutchClaim | null;
+}
+
+export type FastestFingerVariant = 'classic' | 'go_no_go' | 'multi_target' | 'best_of_three';
+
+export interface FastestFingerTarget {
+  id: string;
+  symbol: string;
+  x: number; // Position as a fraction of the play area (0-1)
+  y: number;
+}
+
+export interface FastestFingerSignal {
+  id: string;
+  kind: 'go' | 'nogo'; // 'nogo' is a red decoy - tapping it is a false start
+  at: number; // ms after the tap phase starts
+  visibleMs: number;
+  targets?: FastestFingerTarget[];
+  correctTargetId?: string; // Never sent to clients
+  prompt?: string; // Symbol of the correct target
+  sentAt: number | null;
+}
+
+export interface FastestFingerRound {
+  variant: FastestFingerVariant;
+  signals: FastestFingerSignal[];
+  activeSignalId: string | null;
 }
 
 export interface LeaderboardEntry {
   id: string;
+  identityId?: string; // Persistent player id
   name: string;
   clicks: number;
   color: string;
@@ -24,25 +186,189 @@ export interface LeaderboardEntry {
   reactionTime: number | null;
   finalScore: number;
   auctionScore?: number; // Click Auction taps (may differ from clicks after Fastest Finger)
+  falseStart?: boolean;
+  multiplier?: number; // Fastest Finger multiplier applied to the score
+  dutchPrice?: number; // Price accepted in a Dutch auction
+  teamId?: string;
+}
+
+export interface ClickPayload {
+  tapAt?: unknown; // Client clock (ms) when the player tapped - untrusted
+  signalId?: unknown; // Fastest Finger signal the tap answers
+  targetId?: unknown; // Fastest Finger target picked (multi_target)
+}
+
+export interface RoundPause {
+  pausedAt: number; // Server timestamp (ms) when the host paused
+  remainingMs: number | null; // What was left of the phase (null if untimed)
+}
+
+// All-time records as they were before a round's results (null = no record yet)
+export interface StatsSnapshot {
+  players: Record<string, PlayerStats | null>; // By player id
+  teams: Record<string, TeamStats | null>;
+  achievements: Record<string, PlayerAchievements | null>; // By player id
+}
+
+// What an achievement rule can look at, per player after a round (see achievements.ts)
+export type AchievementMetric =
+  | 'won' // 1 if the player won the premium slot this round
+  | 'taps' // Click Auction taps this round
+  | 'reactionTime' // Fastest Finger reaction this round (ms, false starts excluded)
+  | 'finalScore'
+  | 'rank' // Place on this round's leaderboard, from 1
+  | 'wins' // All-time premium wins, this round included
+  | 'roundsPlayed'
+  | 'winStreak' // Rounds won in a row, this round included
+  | 'wasLast'; // 1 if the player came last (of two or more) in their previous round
+
+export interface AchievementCondition {
+  metric: AchievementMetric;
+  min?: number;
+  max?: number;
+}
+
+export interface AchievementRule {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  when: AchievementCondition[]; // All must hold
+}
+
+// What an aborted round puts back
+export interface RoundSnapshot {
+  round: number; // The round being played
+  campaign: Campaign | null;
+  budgets: Record<string, Pick<Player, 'budget' | 'budgetSpent' | 'impressions'>>; // By socket id
+  tournament: Tournament | null; // Copy of the bracket at round start
+  stats: StatsSnapshot | null; // Taken when results are recorded
+  recordId: string | null; // Round history record, once results are recorded
 }
 
 export interface Winner extends Player {
   id: string;
 }
 
+// Settings a round was played with
+export interface RoundSettings {
+  phases: string[];
+  auctionDuration: number;
+  countdownDuration: number;
+  adSlots: number;
+  clearingMode: ClearingMode;
+  floorPrice: number;
+  falseStartPenalty: FalseStartPenalty;
+  fastestFingerVariant: FastestFingerVariant;
+  dutchCeiling: number;
+}
+
+export type RoundRecordAward = Pick<SlotAward, 'id' | 'name' | 'color' | 'adContent' | 'creative' | 'slot' | 'slotLabel' | 'finalScore' | 'clearingPrice' | 'reactionTime'>;
+
+// A completed round, as kept in the round history
+export interface RoundRecord {
+  id: string;
+  roomCode: string;
+  round: number;
+  finishedAt: string; // ISO timestamp
+  settings: RoundSettings;
+  finalLeaderboard: LeaderboardEntry[]; // Reaction times and suspicious flags included
+  winner: string | null; // Premium slot winner (null if no bid cleared the floor)
+  winnerAd: string | null;
+  winners: RoundRecordAward[]; // One per ad slot sold, best slot first
+  clearing: ClearingResult | null;
+  teams?: Team[]; // Teams bidding in the round (absent outside team mode and in older records)
+}
+
+export interface SlotAward extends Winner {
+  slot: number; // 0 is the premium slot; the top N final scores win slots 0..N-1
+  slotLabel: string;
+  finalScore: number;
+  clearingPrice: number; // What this slot's winner pays
+}
+
 export interface GameState {
-  status: 'waiting' | 'auction_countdown' | 'auction' | 'fastestFinger_countdown' | 'fastestFinger_tap' | 'finished';
+  status: string; // 'waiting', 'finished' or the id of the active round phase (see phases.ts)
   players: Record<string, Player>;
   auctionDuration: number;
   countdownDuration: number;
-  timeRemaining: number;
-  winner: Winner | null;
-  winnerAd: string | null;
+  timeRemaining: number; // Whole seconds left in the phase (derived from endsAt)
+  endsAt: number | null; // Server timestamp (ms) when the current phase ends, null if untimed
+  winners: SlotAward[]; // One award per ad slot won, best slot first (empty if no bid cleared)
+  adSlots: number; // Ad slots on offer each round
+  clearing: ClearingResult | null; // How the premium slot cleared
+  clearingMode: ClearingMode;
+  floorPrice: number;
+  adModeration: AdModerationMode;
+  adDwellSeconds: number; // How long each past winner's ad stays up in the lobby rotation
+  campaign: Campaign | null;
+  teams: TeamSetup | null; // null = everyone bids alone
+  tournament: Tournament | null; // Knocked-out players spectate until a champion is crowned
+  dutchCeiling: number; // Starting price of Dutch auctions
+  dutch: DutchAuction | null; // The current round's Dutch auction
   round: number;
+  pause: RoundPause | null; // Set while the host has the round paused
+  roundSnapshot: RoundSnapshot | null; // Lets the host abort the current round
   finalLeaderboard: LeaderboardEntry[];
   auctionScores: Record<string, number>;
   fastestFingerStartTime: number | null;
   fastestFingerCountdownDuration: number;
+  falseStartPenalty: FalseStartPenalty;
+  fastestFingerVariant: FastestFingerVariant;
+  fastestFinger: FastestFingerRound | null; // Signals of the current Fastest Finger tap phase
+  roundPhases: string[]; // Phase ids played each round, in order
+  phaseIndex: number; // Index into roundPhases (-1 before the first phase)
 }
 
 
+// A state-changing action, as written to the room's event log (see eventLog.ts)
+export type GameEventData =
+  | { type: 'join'; playerId: string; player: Player; rejoined: boolean }
+  | { type: 'leave'; playerId: string }
+  | { type: 'host'; command: string; data?: unknown } // Audit trail only - its effects are logged as their own events
+  | { type: 'round_start'; state: GameState } // The room as the round begins
+  | { type: 'phase'; phase: string; endsAt: number | null }
+  | { type: 'signals'; signals: FastestFingerSignal[] } // The Fastest Finger plan, answers included
+  | { type: 'signal'; signalId: string; shown: boolean }
+  | { type: 'click'; playerId: string; payload: ClickPayload; clock: ClockEstimate | null } // Clock estimate used for latency compensation
+  | { type: 'ad_review'; playerId: string; review: AdReview }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'abort' };
+
+export type GameEvent = GameEventData & {
+  seq: number; // Position in the room's log
+  at: number; // Server timestamp (ms)
+  round: number; // Round the event belongs to (0 before the first)
+};
+
+// A finished round's slice of the event log, kept for replay
+export interface RoundEventLog {
+  roundId: string; // Round history record id
+  events: GameEvent[];
+}
+
+export interface ScheduledTask {
+  deadline: number;
+  cancel: () => void;
+}
+
+export interface RoomTimers {
+  phaseDeadline: ScheduledTask | null; // Ends the current phase at gameState.endsAt
+  phaseInterval: ReturnType<typeof setInterval> | null; // Periodic state broadcasts
+  signalTasks: ScheduledTask[]; // Show/hide Fastest Finger signals
+  dutchClaim: ScheduledTask | null; // Settles a Dutch auction claim once the claim window closes
+}
+
+export interface Room {
+  code: string;
+  gameState: GameState;
+  timers: RoomTimers;
+  hostSocketIds: Set<string>;
+  displaySocketIds: Set<string>; // Big screens showing the room (they count ad impressions)
+  colorIndex: number;
+  eventLog: GameEvent[]; // Append-only, started over by each round_start
+  creativeReviews: Record<string, CreativeReview>; // By player id - decides which past winning ads the lobby rotation may show
+  createdAt: number;
+  lastActivityAt: number;
+}
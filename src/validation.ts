@@ -5,6 +5,7 @@
  */
 
 import config from './config';
+import { AchievementCondition, AchievementRule, AdCreative, AdModerationMode, ClearingMode, ClickPayload, ExportDataset, ExportFormat, FalseStartPenalty, FastestFingerVariant, LeaderboardCategory, LeaderboardSort, TeamAssignment } from './types';
 
 /**
  * Sanitize a string by trimming whitespace and limiting length
@@ -14,6 +15,70 @@ export function sanitizeString(str: unknown, maxLength: number): string {
   return str.trim().slice(0, maxLength);
 }
 
+// Emoji only (with the joiners, modifiers and flags that build them)
+const EMOJI_LOGO = /^(?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u200d|\ufe0f|\s)+$/u;
+const EMOJI = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+
+/**
+ * Validate an ad template id
+ */
+export function validateAdTemplate(template: unknown): string | null {
+  return config.AD_TEMPLATES.find((t) => t === template) ?? null;
+}
+
+/**
+ * Validate an emoji logo (null if missing, too long or not all emoji)
+ */
+export function validateAdLogo(logo: unknown): string | null {
+  if (typeof logo !== 'string') return null;
+  const trimmed = logo.trim();
+  if (!trimmed || trimmed.length > config.MAX_AD_LOGO_LENGTH) return null;
+  return EMOJI_LOGO.test(trimmed) && EMOJI.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Validate a structured ad creative. Missing or invalid fields fall back:
+ * the headline to `fallbackHeadline`, the template to the default one.
+ */
+export function validateAdCreative(creative: unknown, fallbackHeadline: string): AdCreative {
+  const safe = creative && typeof creative === 'object' ? creative as Record<string, unknown> : {};
+  return {
+    headline: sanitizeString(safe.headline, config.MAX_AD_HEADLINE_LENGTH) || sanitizeString(fallbackHeadline, config.MAX_AD_HEADLINE_LENGTH),
+    tagline: sanitizeString(safe.tagline, config.MAX_AD_TAGLINE_LENGTH),
+    template: validateAdTemplate(safe.template) ?? config.DEFAULT_AD_TEMPLATE,
+    logo: validateAdLogo(safe.logo),
+  };
+}
+
+const ACHIEVEMENT_ID = /^[a-z0-9_-]{1,32}$/;
+
+/**
+ * Validate an achievement rule declared as data (null if it isn't one)
+ */
+export function validateAchievementRule(rule: unknown): AchievementRule | null {
+  if (!rule || typeof rule !== 'object') return null;
+  const safe = rule as Record<string, unknown>;
+  if (typeof safe.id !== 'string' || !ACHIEVEMENT_ID.test(safe.id) || !Array.isArray(safe.when)) return null;
+
+  const when = safe.when.map((condition: unknown): AchievementCondition | null => {
+    const c = condition && typeof condition === 'object' ? condition as Record<string, unknown> : {};
+    const metric = config.ACHIEVEMENT_METRICS.find((m) => m === c.metric);
+    const bounds = [c.min, c.max].filter((bound) => bound !== undefined);
+    if (!metric || bounds.length === 0 || !bounds.every((bound) => typeof bound === 'number' && isFinite(bound))) return null;
+    return { metric, ...(c.min !== undefined && { min: c.min as number }), ...(c.max !== undefined && { max: c.max as number }) };
+  });
+  const name = sanitizeString(safe.name, config.MAX_NAME_LENGTH);
+  if (!name || when.length === 0 || when.includes(null)) return null;
+
+  return {
+    id: safe.id,
+    name,
+    icon: validateAdLogo(safe.icon) ?? '🏅',
+    description: sanitizeString(safe.description, config.MAX_AD_TAGLINE_LENGTH),
+    when: when as AchievementCondition[],
+  };
+}
+
 /**
  * Validate and clamp auction duration to allowed range
  */
@@ -34,6 +99,196 @@ export function validateCountdownDuration(duration: unknown): number {
   return Math.floor(num);
 }
 
+/**
+ * Validate a false start penalty mode
+ */
+export function validateFalseStartPenalty(penalty: unknown): FalseStartPenalty | null {
+  return config.FALSE_START_PENALTIES.find((p) => p === penalty) ?? null;
+}
+
+/**
+ * Validate an auction clearing mode
+ */
+export function validateClearingMode(mode: unknown): ClearingMode | null {
+  return config.CLEARING_MODES.find((m) => m === mode) ?? null;
+}
+
+/**
+ * Validate an ad moderation mode
+ */
+export function validateAdModerationMode(mode: unknown): AdModerationMode | null {
+  return config.AD_MODERATION_MODES.find((m) => m === mode) ?? null;
+}
+
+/**
+ * Validate and clamp how long each ad stays up in the lobby rotation
+ */
+export function validateAdDwell(seconds: unknown): number {
+  const num = Number(seconds);
+  if (isNaN(num) || num < config.MIN_AD_DWELL_SECONDS) return config.MIN_AD_DWELL_SECONDS;
+  if (num > config.MAX_AD_DWELL_SECONDS) return config.MAX_AD_DWELL_SECONDS;
+  return Math.floor(num);
+}
+
+/**
+ * Validate and clamp a floor price to allowed range
+ */
+export function validateFloorPrice(price: unknown): number {
+  const num = Number(price);
+  if (isNaN(num) || num < 0) return 0;
+  if (num > config.MAX_FLOOR_PRICE) return config.MAX_FLOOR_PRICE;
+  return Math.floor(num);
+}
+
+/**
+ * Validate and clamp a Dutch auction starting price
+ */
+export function validateDutchCeiling(price: unknown): number {
+  const num = Number(price);
+  if (isNaN(num) || num < 1) return 1;
+  if (num > config.MAX_DUTCH_CEILING) return config.MAX_DUTCH_CEILING;
+  return Math.floor(num);
+}
+
+/**
+ * Validate and clamp the number of ad slots per round
+ */
+export function validateAdSlots(slots: unknown): number {
+  const num = Number(slots);
+  if (isNaN(num) || num < 1) return 1;
+  if (num > config.AD_SLOT_LABELS.length) return config.AD_SLOT_LABELS.length;
+  return Math.floor(num);
+}
+
+/**
+ * Validate and clamp the number of rounds in a campaign
+ */
+export function validateCampaignRounds(rounds: unknown): number {
+  const num = Number(rounds);
+  if (isNaN(num) || num < config.MIN_CAMPAIGN_ROUNDS) return config.MIN_CAMPAIGN_ROUNDS;
+  if (num > config.MAX_CAMPAIGN_ROUNDS) return config.MAX_CAMPAIGN_ROUNDS;
+  return Math.floor(num);
+}
+
+/**
+ * Validate and clamp a campaign tap budget
+ */
+export function validateCampaignBudget(budget: unknown): number {
+  const num = Number(budget);
+  if (isNaN(num) || num < config.MIN_CAMPAIGN_BUDGET) return config.MIN_CAMPAIGN_BUDGET;
+  if (num > config.MAX_CAMPAIGN_BUDGET) return config.MAX_CAMPAIGN_BUDGET;
+  return Math.floor(num);
+}
+
+/**
+ * Validate and clamp a tournament elimination percentage
+ */
+export function validateEliminatePercent(percent: unknown): number {
+  const num = Number(percent);
+  if (isNaN(num)) return config.DEFAULT_ELIMINATE_PERCENT;
+  if (num < config.MIN_ELIMINATE_PERCENT) return config.MIN_ELIMINATE_PERCENT;
+  if (num > config.MAX_ELIMINATE_PERCENT) return config.MAX_ELIMINATE_PERCENT;
+  return Math.floor(num);
+}
+
+/**
+ * Validate an all-time leaderboard order
+ */
+export function validateLeaderboardSort(sort: unknown): LeaderboardSort | null {
+  return config.LEADERBOARD_SORTS.find((s) => s === sort) ?? null;
+}
+
+/**
+ * Validate a leaderboard category id
+ */
+export function validateLeaderboardCategory(category: unknown): LeaderboardCategory | null {
+  return config.LEADERBOARD_CATEGORIES.find((c) => c === category) ?? null;
+}
+
+/**
+ * Validate an export dataset name
+ */
+export function validateExportDataset(dataset: unknown): ExportDataset | null {
+  return config.EXPORT_DATASETS.find((d) => d === dataset) ?? null;
+}
+
+/**
+ * Validate an export format (CSV unless JSON is asked for)
+ */
+export function validateExportFormat(format: unknown): ExportFormat {
+  return config.EXPORT_FORMATS.find((f) => f === format) ?? config.EXPORT_FORMATS[0];
+}
+
+/**
+ * Validate a season name (null if empty)
+ */
+export function validateSeasonName(name: unknown): string | null {
+  return sanitizeString(name, config.MAX_SEASON_NAME_LENGTH) || null;
+}
+
+/**
+ * Validate a page size for round history listings
+ */
+export function validatePageLimit(limit: unknown): number {
+  const num = Number(limit);
+  if (isNaN(num)) return config.DEFAULT_ROUNDS_PAGE_SIZE;
+  if (num < 1) return 1;
+  if (num > config.MAX_ROUNDS_PAGE_SIZE) return config.MAX_ROUNDS_PAGE_SIZE;
+  return Math.floor(num);
+}
+
+/**
+ * Validate a listing offset (rounds to skip)
+ */
+export function validatePageOffset(offset: unknown): number {
+  const num = Number(offset);
+  if (isNaN(num) || num < 0) return 0;
+  return Math.floor(num);
+}
+
+/**
+ * Validate a team assignment mode
+ */
+export function validateTeamAssignment(assignment: unknown): TeamAssignment | null {
+  return config.TEAM_ASSIGNMENTS.find((a) => a === assignment) ?? null;
+}
+
+/**
+ * Validate and clamp the number of teams
+ */
+export function validateTeamCount(count: unknown): number {
+  const num = Number(count);
+  if (isNaN(num) || num < config.MIN_TEAMS) return config.MIN_TEAMS;
+  if (num > config.TEAM_NAMES.length) return config.TEAM_NAMES.length;
+  return Math.floor(num);
+}
+
+/**
+ * Validate a table number (null if it isn't a whole number in range)
+ */
+export function validateTableNumber(table: unknown): number | null {
+  const num = Number(table);
+  if (!Number.isInteger(num) || num < 1 || num > config.MAX_TABLE_NUMBER) return null;
+  return num;
+}
+
+/**
+ * Validate a Fastest Finger variant
+ */
+export function validateFastestFingerVariant(variant: unknown): FastestFingerVariant | null {
+  return config.FASTEST_FINGER_VARIANTS.find((v) => v === variant) ?? null;
+}
+
+/**
+ * Normalize a room join code (case-insensitive, alphanumeric only)
+ */
+export function normalizeRoomCode(code: unknown): string | null {
+  if (typeof code !== 'string') return null;
+  const normalized = code.trim().toUpperCase();
+  if (!/^[A-Z0-9]{1,10}$/.test(normalized)) return null;
+  return normalized;
+}
+
 /**
  * Validate socket ID format
  */
@@ -41,14 +296,29 @@ export function isValidSocketId(id: unknown): boolean {
   return typeof id === 'string' && id.length > 0 && id.length < 50;
 }
 
+/**
+ * Keep only the fields a click can carry. Values other than numbers and short
+ * strings become null, which matches no signal or target.
+ */
+export function sanitizeClickPayload(data: unknown): ClickPayload {
+  if (!data || typeof data !== 'object') return {};
+  const payload: ClickPayload = {};
+  (['tapAt', 'signalId', 'targetId'] as const).forEach((field) => {
+    const value = (data as Record<string, unknown>)[field];
+    if (value === undefined) return;
+    const isShortString = typeof value === 'string' && value.length <= config.MAX_CLICK_FIELD_LENGTH;
+    payload[field] = typeof value === 'number' || isShortString ? value : null;
+  });
+  return payload;
+}
+
 /** Click timestamps by socket ID */
 const clickTimestamps: Record<string, number[]> = {};
 
 /**
  * Check if a socket is rate limited (too many clicks per second)
  */
-export function isRateLimited(socketId: string): boolean {
-  const now = Date.now();
+export function isRateLimited(socketId: string, now: number = Date.now()): boolean {
   const windowStart = now - config.RATE_LIMIT_WINDOW_MS;
 
   if (!clickTimestamps[socketId]) {
@@ -0,0 +1,180 @@
+/**
+ * Tests for the achievements engine and its data-declared rules
+ */
+
+import fs from 'fs';
+import * as persistence from '../src/persistence';
+import { addAchievementRules, getAchievementRules, getUnlockedAchievements, recordAchievements } from '../src/achievements';
+import { handleClick, startRound } from '../src/game';
+import { issueIdentity, mergeIdentities } from '../src/identity';
+import { abortRound } from '../src/roundControl';
+import { startSeason } from '../src/seasons';
+import { validateAchievementRule } from '../src/validation';
+import { CustomSocket, LeaderboardEntry, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+let emit: jest.Mock;
+
+function setupRoom(names: string[]): Room {
+  emit = jest.fn();
+  const players = Object.fromEntries(names.map((id) => [id, testPlayer(id, { identityId: issueIdentity(id).identity.id })]));
+  return setupTestRoom('AC', players, () => emit);
+}
+
+function entry(id: string, finalScore: number, extra: Partial<LeaderboardEntry> = {}): LeaderboardEntry {
+  return { id, name: id, clicks: finalScore, color: '#fff', suspicious: false, reactionTime: null, finalScore, ...extra };
+}
+
+// Score a round straight from its leaderboard (first place takes the premium slot)
+function scoreRound(room: Room, leaderboard: LeaderboardEntry[]): string[] {
+  room.gameState.winners = [{ ...leaderboard[0], slot: 0, slotLabel: 'Premium', clearingPrice: 0, adContent: '' }];
+  const ids = leaderboard.map((e) => room.gameState.players[e.id].identityId as string);
+  leaderboard.forEach((e, i) => persistence.updatePlayerStats(ids[i], e.clicks, e.reactionTime, e.finalScore, i === 0 ? 0 : null));
+  return recordAchievements(room, leaderboard, ids).map((unlock) => `${unlock.name}:${unlock.achievement.id}`);
+}
+
+describe('Achievements', () => {
+  beforeEach(() => {
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'savePlayerIdentities').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('after a round', () => {
+    beforeEach(() => jest.useFakeTimers());
+
+    test('the winner unlocks their first win, told on their phone', () => {
+      const room = setupRoom(['ac-a', 'ac-b']);
+      startRound(room);
+      handleClick(room, { id: 'ac-a', emit: jest.fn() } as unknown as CustomSocket);
+      jest.advanceTimersByTime(5000);
+
+      const id = room.gameState.players['ac-a'].identityId as string;
+      expect(getUnlockedAchievements(id).map((a) => a.id)).toEqual(['first_win']);
+      expect(getUnlockedAchievements(room.gameState.players['ac-b'].identityId as string)).toEqual([]);
+      expect(emit).toHaveBeenCalledWith('achievementUnlocked', expect.objectContaining({ id: 'first_win', icon: '🥇' }));
+      expect(persistence.saveAchievements).toHaveBeenCalled();
+    });
+
+    test('an aborted round takes its unlocks back', () => {
+      const room = setupRoom(['ac-c']);
+      startRound(room);
+      handleClick(room, { id: 'ac-c', emit: jest.fn() } as unknown as CustomSocket);
+      jest.advanceTimersByTime(5000);
+      const id = room.gameState.players['ac-c'].identityId as string;
+      expect(getUnlockedAchievements(id)).toHaveLength(1);
+
+      abortRound(room);
+      expect(getUnlockedAchievements(id)).toEqual([]);
+      expect(persistence.getPlayerAchievements(id)).toBeNull();
+    });
+  });
+
+  describe('default rules', () => {
+    test('fast reactions and 100 taps unlock once', () => {
+      const room = setupRoom(['ac-d', 'ac-e']);
+      expect(scoreRound(room, [entry('ac-d', 120, { auctionScore: 120 }), entry('ac-e', 5, { reactionTime: 150 })]))
+        .toEqual(['ac-d:first_win', 'ac-d:centurion', 'ac-e:lightning']);
+      expect(scoreRound(room, [entry('ac-d', 130, { auctionScore: 130 }), entry('ac-e', 5, { reactionTime: 150 })])).toEqual([]);
+    });
+
+    test('a false start never counts as a fast reaction', () => {
+      const room = setupRoom(['ac-f', 'ac-g']);
+      expect(scoreRound(room, [entry('ac-f', 10), entry('ac-g', 5, { reactionTime: 50, falseStart: true })])).toEqual(['ac-f:first_win']);
+    });
+
+    test('three wins in a row make a hat trick - a loss starts over', () => {
+      const room = setupRoom(['ac-h', 'ac-i']);
+      const h = entry('ac-h', 10);
+      const i = entry('ac-i', 5);
+      scoreRound(room, [h, i]);
+      scoreRound(room, [h, i]);
+      scoreRound(room, [i, h]);
+      scoreRound(room, [h, i]);
+      expect(scoreRound(room, [h, i])).toEqual([]);
+      expect(scoreRound(room, [h, i])).toEqual(['ac-h:hat_trick']);
+    });
+
+    test('a new season starts the win streak over for the hat trick and the streak board alike', async () => {
+      jest.spyOn(fs, 'writeFileSync').mockImplementation(() => undefined);
+      const room = setupRoom(['ac-s', 'ac-t']);
+      const s = entry('ac-s', 10);
+      const t = entry('ac-t', 5);
+      const id = room.gameState.players['ac-s'].identityId as string;
+      scoreRound(room, [s, t]);
+      scoreRound(room, [s, t]);
+      await startSeason('Streak reset');
+
+      expect(scoreRound(room, [s, t])).toEqual([]);
+      expect(persistence.getStats()[id]).toMatchObject({ winStreak: 1, longestWinStreak: 1 });
+      scoreRound(room, [s, t]);
+      expect(scoreRound(room, [s, t])).toEqual(['ac-s:hat_trick']);
+      expect(persistence.getStats()[id]).toMatchObject({ winStreak: 3, longestWinStreak: 3 });
+    });
+
+    test('winning straight after coming last is a comeback', () => {
+      const room = setupRoom(['ac-j', 'ac-k', 'ac-l']);
+      scoreRound(room, [entry('ac-k', 10), entry('ac-l', 5), entry('ac-j', 1)]);
+      expect(scoreRound(room, [entry('ac-j', 10), entry('ac-k', 5), entry('ac-l', 1)])).toEqual(['ac-j:first_win', 'ac-j:comeback']);
+    });
+  });
+
+  describe('rules as data', () => {
+    test('event rules are validated and added once', () => {
+      const rule = { id: 'ac_regular', name: 'Regular', icon: '🎟️', description: 'Play 2 rounds', when: [{ metric: 'roundsPlayed', min: 2 }] };
+      expect(validateAchievementRule(rule)).toEqual(rule);
+      expect(validateAchievementRule({ ...rule, icon: 'VIP' })?.icon).toBe('🏅');
+      expect(validateAchievementRule({ ...rule, id: 'Has spaces' })).toBeNull();
+      expect(validateAchievementRule({ ...rule, when: [] })).toBeNull();
+      expect(validateAchievementRule({ ...rule, when: [{ metric: 'luck', min: 1 }] })).toBeNull();
+      expect(validateAchievementRule({ ...rule, when: [{ metric: 'taps' }] })).toBeNull();
+
+      expect(addAchievementRules([rule, { ...rule }, { id: 'broken' }, { ...rule, id: 'first_win' }])).toBe(1);
+      expect(addAchievementRules('not a list')).toBe(0);
+      expect(getAchievementRules().map((r) => r.id)).toContain('ac_regular');
+    });
+
+    test('event rules unlock like the defaults', () => {
+      addAchievementRules([{ id: 'ac_close', name: 'Close Call', icon: '😅', when: [{ metric: 'rank', min: 2, max: 2 }, { metric: 'finalScore', min: 9 }] }]);
+      const room = setupRoom(['ac-m', 'ac-n']);
+      expect(scoreRound(room, [entry('ac-m', 10), entry('ac-n', 9)])).toEqual(['ac-m:first_win', 'ac-n:ac_close']);
+    });
+  });
+
+  describe('profile', () => {
+    test('merged identities list their badges together, earliest unlock kept', () => {
+      const room = setupRoom(['ac-o', 'ac-p']);
+      const [oldId, newId] = ['ac-o', 'ac-p'].map((id) => room.gameState.players[id].identityId as string);
+      persistence.setPlayerAchievements(oldId, { unlocked: { first_win: '2026-01-01T00:00:00.000Z', gone_rule: '2026-01-02T00:00:00.000Z' }, wasLast: false });
+      persistence.setPlayerAchievements(newId, { unlocked: { first_win: '2026-03-01T00:00:00.000Z', lightning: '2026-02-01T00:00:00.000Z' }, wasLast: false });
+
+      mergeIdentities(oldId, newId);
+      expect(getUnlockedAchievements(newId).map((a) => [a.id, a.unlockedAt.slice(0, 10)])).toEqual([
+        ['first_win', '2026-01-01'],
+        ['gone_rule', '2026-01-02'],
+        ['lightning', '2026-02-01'],
+      ]);
+      expect(getUnlockedAchievements(oldId)).toHaveLength(3);
+      expect(getUnlockedAchievements(newId)[1]).toMatchObject({ name: 'gone_rule', icon: '🏅' });
+    });
+  });
+});
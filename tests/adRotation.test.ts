@@ -0,0 +1,165 @@
+/**
+ * Tests for the lobby ad rotation and its impression accounting
+ */
+
+import config from '../src/config';
+import * as persistence from '../src/persistence';
+import { addAdDisplay, getAdInventory, getAdReport, getRotatingAd, removeAdDisplay } from '../src/adRotation';
+import { broadcastState, handleClick, resetGame, startRound } from '../src/game';
+import { issueIdentity, mergeIdentities } from '../src/identity';
+import { reviewCreative } from '../src/moderation';
+import { validateAdDwell } from '../src/validation';
+import { CustomSocket, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+let emit: jest.Mock;
+
+function setupRoom(ads: Record<string, string>): Room {
+  emit = jest.fn();
+  const players = Object.fromEntries(Object.entries(ads).map(([id, adContent]) => [id, testPlayer(id, { identityId: issueIdentity(id).identity.id, adContent })]));
+  return setupTestRoom('AR', players, () => emit);
+}
+
+// Play a round the player wins, then open the lobby again
+function winRound(room: Room, winnerId: string): void {
+  startRound(room);
+  handleClick(room, { id: winnerId, emit: jest.fn() } as unknown as CustomSocket);
+  jest.advanceTimersByTime(5000);
+  resetGame(room);
+  broadcastState(room);
+}
+
+function shownAds(): (string | null)[] {
+  return emit.mock.calls
+    .filter(([event]) => event === 'adRotation')
+    .map(([, ad]) => ad?.creative.headline ?? null);
+}
+
+describe('Lobby ad rotation', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+    jest.spyOn(persistence, 'savePlayerIdentities').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAdImpressions').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('inventory', () => {
+    test('past winning creatives of the room, newest first, without repeats or house ads', () => {
+      const room = setupRoom({ 'ar-a': 'First ad', 'ar-b': 'Second ad', 'ar-c': 'shit ad' });
+      winRound(room, 'ar-a');
+      winRound(room, 'ar-b');
+      winRound(room, 'ar-a');
+      winRound(room, 'ar-c'); // Flagged - the house ad ran instead
+
+      expect(getAdInventory(room.code).map((item) => [item.name, item.round])).toEqual([['ar-a', 3], ['ar-b', 2]]);
+      expect(getAdInventory(room.code)[0].playerId).toBe(room.gameState.players['ar-a'].identityId);
+      expect(getAdInventory(room.code, 1)).toHaveLength(1);
+      expect(getAdInventory('NONE')).toEqual([]);
+    });
+
+    test('a creative rejected after its round leaves the rotation, even once its player has gone', () => {
+      const room = setupRoom({ 'ar-d': 'Fine ad', 'ar-e': 'Other ad' });
+      winRound(room, 'ar-d');
+      winRound(room, 'ar-e');
+      expect(getAdInventory(room.code).map((item) => item.name)).toEqual(['ar-e', 'ar-d']);
+
+      reviewCreative(room, 'ar-d', false);
+      delete room.gameState.players['ar-d'];
+      expect(getAdInventory(room.code).map((item) => item.name)).toEqual(['ar-e']);
+    });
+
+    test('a creative approved after its round joins the rotation', () => {
+      const room = setupRoom({ 'ar-f': 'shit ad' });
+      winRound(room, 'ar-f'); // Still pending - the house ad ran instead
+      expect(getAdInventory(room.code)).toEqual([]);
+
+      reviewCreative(room, 'ar-f', true);
+      expect(getAdInventory(room.code).map((item) => [item.name, item.creative.headline])).toEqual([['ar-f', 'shit ad']]);
+    });
+  });
+
+  describe('on the displays', () => {
+    test('nothing rotates until a display is watching', () => {
+      const room = setupRoom({ 'ar-d': 'Watch me' });
+      winRound(room, 'ar-d');
+      expect(getRotatingAd(room)).toBeNull();
+
+      addAdDisplay(room, 'ar-screen-1');
+      expect(getRotatingAd(room)).toMatchObject({ name: 'ar-d', dwellMs: config.DEFAULT_AD_DWELL_SECONDS * 1000 });
+    });
+
+    test('ads take turns for the dwell time and stop when a round starts', () => {
+      const room = setupRoom({ 'ar-e': 'Ad E', 'ar-f': 'Ad F' });
+      winRound(room, 'ar-e');
+      winRound(room, 'ar-f');
+      room.gameState.adDwellSeconds = 5;
+      addAdDisplay(room, 'ar-screen-2');
+
+      jest.advanceTimersByTime(5000);
+      jest.advanceTimersByTime(5000);
+      expect(shownAds().slice(-3)).toEqual(['Ad F', 'Ad E', 'Ad F']);
+
+      startRound(room);
+      expect(getRotatingAd(room)).toBeNull();
+      expect(shownAds().slice(-1)).toEqual([null]);
+    });
+
+    test('each display counts an impression and its time on screen', () => {
+      const room = setupRoom({ 'ar-g': 'Counted ad' });
+      winRound(room, 'ar-g');
+      addAdDisplay(room, 'ar-screen-3');
+      addAdDisplay(room, 'ar-screen-4');
+      jest.advanceTimersByTime(2000);
+      removeAdDisplay(room, 'ar-screen-4');
+      removeAdDisplay(room, 'ar-screen-3');
+
+      const report = getAdReport(room.gameState.players['ar-g'].identityId as string);
+      expect(report).toMatchObject({ name: 'ar-g', wins: 1, impressions: 2, airtimeSeconds: 4 });
+      expect(report?.creatives[0].creative.headline).toBe('Counted ad');
+      expect(getRotatingAd(room)).toBeNull();
+    });
+  });
+
+  describe('ad report', () => {
+    test('merged identities report together', () => {
+      const room = setupRoom({ 'ar-h': 'Old name ad', 'ar-i': 'New name ad' });
+      winRound(room, 'ar-h');
+      winRound(room, 'ar-i');
+      addAdDisplay(room, 'ar-screen-5');
+      jest.advanceTimersByTime(config.DEFAULT_AD_DWELL_SECONDS * 2000 - 1); // Both ads, just before the first comes round again
+      removeAdDisplay(room, 'ar-screen-5');
+
+      const [oldId, newId] = ['ar-h', 'ar-i'].map((id) => room.gameState.players[id].identityId as string);
+      mergeIdentities(oldId, newId);
+      expect(getAdReport(oldId)).toMatchObject({ playerId: newId, impressions: 2, airtimeSeconds: config.DEFAULT_AD_DWELL_SECONDS * 2 });
+      expect(getAdReport(oldId)?.creatives).toHaveLength(2);
+      expect(getAdReport('plr_unknown')).toBeNull();
+    });
+
+    test('dwell times are clamped', () => {
+      expect(validateAdDwell(1)).toBe(config.MIN_AD_DWELL_SECONDS);
+      expect(validateAdDwell(999)).toBe(config.MAX_AD_DWELL_SECONDS);
+      expect(validateAdDwell('12.7')).toBe(12);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for campaign mode budgets and standings
+ */
+
+import config from '../src/config';
+import * as campaign from '../src/campaign';
+import { validateCampaignBudget, validateCampaignRounds } from '../src/validation';
+import { Player, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+// A player joining after the room was set up
+function addPlayer(room: Room, id: string): Player {
+  room.gameState.players[id] = testPlayer(id);
+  return room.gameState.players[id];
+}
+
+function setupRoom(playerIds: string[] = ['a', 'b']): Room {
+  return setupTestRoom('CP', Object.fromEntries(playerIds.map((id) => [id, testPlayer(id)])));
+}
+
+function spend(room: Room, player: Player, taps: number): number {
+  let accepted = 0;
+  for (let i = 0; i < taps; i++) {
+    if (campaign.spendBudget(room, player)) accepted++;
+  }
+  return accepted;
+}
+
+describe('Campaign', () => {
+  describe('budgets', () => {
+    test('taps are unlimited outside a campaign', () => {
+      const room = setupRoom();
+      const player = room.gameState.players.a;
+
+      expect(spend(room, player, 500)).toBe(500);
+      expect(player.budget).toBeUndefined();
+      expect(campaign.getBudgetStatus(room, player)).toBeNull();
+    });
+
+    test('starting a campaign gives every player a fresh budget', () => {
+      const room = setupRoom();
+      room.gameState.players.a.impressions = 4;
+
+      campaign.startCampaign(room, 3, 20);
+
+      Object.values(room.gameState.players).forEach((player) => {
+        expect(player.budget).toBe(20);
+        expect(player.budgetSpent).toBe(0);
+        expect(player.impressions).toBe(0);
+      });
+      expect(campaign.isCampaignActive(room)).toBe(true);
+    });
+
+    test('taps beyond the budget are rejected', () => {
+      const room = setupRoom();
+      const player = room.gameState.players.a;
+      campaign.startCampaign(room, 3, 10);
+
+      expect(spend(room, player, 15)).toBe(10);
+      expect(player.budget).toBe(0);
+      expect(player.budgetSpent).toBe(10);
+      expect(campaign.spendBudget(room, player)).toBe(false);
+    });
+
+    test('unspent budget carries over to the next round', () => {
+      const room = setupRoom();
+      const player = room.gameState.players.a;
+      campaign.startCampaign(room, 3, 10);
+
+      spend(room, player, 4);
+      campaign.recordCampaignRound(room, ['a']);
+
+      expect(campaign.getBudgetStatus(room, player)).toEqual({
+        remaining: 6, spent: 4, total: 10, impressions: 1, roundsLeft: 2,
+      });
+      expect(spend(room, player, 10)).toBe(6);
+    });
+
+    test('players joining mid-campaign get the full budget', () => {
+      const room = setupRoom();
+      campaign.startCampaign(room, 3, 10);
+      campaign.recordCampaignRound(room, []);
+
+      const late = addPlayer(room, 'late');
+      campaign.ensureBudget(room, late);
+
+      expect(late.budget).toBe(10);
+      expect(late.impressions).toBe(0);
+    });
+
+    test('ending a campaign drops all budgets', () => {
+      const room = setupRoom();
+      campaign.startCampaign(room, 3, 10);
+      campaign.endCampaign(room);
+
+      expect(room.gameState.campaign).toBeNull();
+      expect(room.gameState.players.a.budget).toBeUndefined();
+      expect(room.gameState.players.a.impressions).toBeUndefined();
+      expect(campaign.getCampaignView(room, false)).toBeNull();
+    });
+  });
+
+  describe('rounds and standings', () => {
+    test('the last round completes the campaign', () => {
+      const room = setupRoom();
+      campaign.startCampaign(room, 2, 10);
+
+      expect(campaign.recordCampaignRound(room, ['a'])).toBe(false);
+      expect(campaign.recordCampaignRound(room, ['b'])).toBe(true);
+      expect(campaign.isCampaignActive(room)).toBe(false);
+      // Rounds after completion don't count
+      expect(campaign.recordCampaignRound(room, ['a'])).toBe(false);
+      expect(room.gameState.players.a.impressions).toBe(1);
+    });
+
+    test('every ad slot won counts as an impression', () => {
+      const room = setupRoom(['a', 'b', 'c']);
+      campaign.startCampaign(room, 2, 10);
+      campaign.recordCampaignRound(room, ['a', 'b']);
+
+      expect(room.gameState.players.a.impressions).toBe(1);
+      expect(room.gameState.players.b.impressions).toBe(1);
+      expect(room.gameState.players.c.impressions).toBe(0);
+    });
+
+    test('budgets stop being enforced once the campaign is complete', () => {
+      const room = setupRoom();
+      const player = room.gameState.players.a;
+      campaign.startCampaign(room, 2, 10);
+      spend(room, player, 10);
+      campaign.recordCampaignRound(room, ['a']);
+      campaign.recordCampaignRound(room, ['a']);
+
+      expect(campaign.spendBudget(room, player)).toBe(true);
+    });
+
+    test('standings rank impressions first, then the lower spend', () => {
+      const room = setupRoom(['a', 'b', 'c']);
+      campaign.startCampaign(room, 5, 50);
+      spend(room, room.gameState.players.a, 30);
+      spend(room, room.gameState.players.b, 10);
+      spend(room, room.gameState.players.c, 40);
+      campaign.recordCampaignRound(room, ['a']);
+      campaign.recordCampaignRound(room, ['b']);
+      campaign.recordCampaignRound(room, ['c']);
+      campaign.recordCampaignRound(room, ['c']);
+
+      const standings = campaign.getCampaignStandings(room);
+
+      expect(standings.map((s) => s.id)).toEqual(['c', 'b', 'a']);
+      expect(standings[0]).toMatchObject({ impressions: 2, spent: 40, remaining: 10 });
+    });
+
+    test('the view counts the round in progress', () => {
+      const room = setupRoom();
+      campaign.startCampaign(room, 3, 10);
+      campaign.recordCampaignRound(room, ['a']);
+
+      expect(campaign.getCampaignView(room, true)?.round).toBe(2);
+      expect(campaign.getCampaignView(room, false)?.round).toBe(1);
+      expect(campaign.getCampaignView(room, false)?.complete).toBe(false);
+    });
+  });
+
+  describe('validation', () => {
+    test('rounds are clamped to the configured range', () => {
+      expect(validateCampaignRounds(5)).toBe(5);
+      expect(validateCampaignRounds(1)).toBe(config.MIN_CAMPAIGN_ROUNDS);
+      expect(validateCampaignRounds(999)).toBe(config.MAX_CAMPAIGN_ROUNDS);
+      expect(validateCampaignRounds('nope')).toBe(config.MIN_CAMPAIGN_ROUNDS);
+    });
+
+    test('budgets are clamped to the configured range', () => {
+      expect(validateCampaignBudget(75.5)).toBe(75);
+      expect(validateCampaignBudget(0)).toBe(config.MIN_CAMPAIGN_BUDGET);
+      expect(validateCampaignBudget(1e9)).toBe(config.MAX_CAMPAIGN_BUDGET);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for auction clearing rules
+ */
+
+import config from '../src/config';
+import { clearAuction, clearSlots, describeClearing } from '../src/clearing';
+import { validateAdSlots, validateClearingMode, validateFloorPrice } from '../src/validation';
+import { LeaderboardEntry } from '../src/types';
+
+function bids(...scores: number[]): LeaderboardEntry[] {
+  return scores.map((finalScore, i) => ({
+    id: `p${i}`,
+    name: `Player ${i}`,
+    clicks: finalScore,
+    color: '#fff',
+    suspicious: false,
+    reactionTime: null,
+    finalScore,
+  }));
+}
+
+describe('Clearing', () => {
+  describe('first-price', () => {
+    test('winner pays their own bid', () => {
+      expect(clearAuction(bids(42, 37, 10), 'first_price', 0)).toEqual({
+        mode: 'first_price',
+        floorPrice: 0,
+        winningBid: 42,
+        beatBid: 37,
+        clearingPrice: 42,
+      });
+    });
+  });
+
+  describe('second-price', () => {
+    test('winner pays the runner-up bid plus one', () => {
+      expect(clearAuction(bids(42, 37, 10), 'second_price', 0).clearingPrice).toBe(38);
+    });
+
+    test('never pays more than their own bid on a tie', () => {
+      expect(clearAuction(bids(20, 20), 'second_price', 0).clearingPrice).toBe(20);
+    });
+
+    test('an unopposed winner pays the floor (or one)', () => {
+      expect(clearAuction(bids(30), 'second_price', 0)).toMatchObject({ beatBid: null, clearingPrice: 1 });
+      expect(clearAuction(bids(30), 'second_price', 12).clearingPrice).toBe(12);
+    });
+
+    test('the floor raises the price above a low runner-up', () => {
+      expect(clearAuction(bids(50, 5), 'second_price', 25).clearingPrice).toBe(25);
+    });
+  });
+
+  describe('floor price', () => {
+    test('no winner when the top bid is below the floor', () => {
+      expect(clearAuction(bids(9, 4), 'first_price', 10)).toMatchObject({
+        winningBid: null,
+        beatBid: null,
+        clearingPrice: null,
+      });
+    });
+
+    test('a bid equal to the floor is eligible', () => {
+      expect(clearAuction(bids(10, 4), 'first_price', 10).clearingPrice).toBe(10);
+    });
+
+    test('a zero score never wins', () => {
+      expect(clearAuction(bids(0, 0), 'first_price', 0).winningBid).toBeNull();
+      expect(clearAuction([], 'second_price', 0).winningBid).toBeNull();
+    });
+  });
+
+  describe('multiple ad slots', () => {
+    test('the top N bids each win a slot', () => {
+      const slots = clearSlots(bids(42, 37, 20, 5), 'first_price', 0, 3);
+      expect(slots.map((s) => s.winningBid)).toEqual([42, 37, 20]);
+      expect(slots.map((s) => s.clearingPrice)).toEqual([42, 37, 20]);
+    });
+
+    test('second-price slots pay the bid below them plus one', () => {
+      const slots = clearSlots(bids(42, 37, 20, 5), 'second_price', 0, 3);
+      expect(slots.map((s) => s.clearingPrice)).toEqual([38, 21, 6]);
+      expect(slots.map((s) => s.beatBid)).toEqual([37, 20, 5]);
+    });
+
+    test('slots go unsold when there are too few bids', () => {
+      expect(clearSlots(bids(42, 0), 'first_price', 0, 3)).toHaveLength(1);
+      expect(clearSlots(bids(42), 'second_price', 0, 2)).toHaveLength(1);
+    });
+
+    test('slots below the floor go unsold', () => {
+      const slots = clearSlots(bids(42, 37, 20), 'second_price', 25, 3);
+      expect(slots.map((s) => s.clearingPrice)).toEqual([38, 25]);
+      expect(clearSlots(bids(20, 10), 'first_price', 25, 2)).toEqual([]);
+    });
+
+    test('a single slot clears like the plain auction', () => {
+      expect(clearSlots(bids(42, 37), 'second_price', 0, 1))
+        .toEqual([clearAuction(bids(42, 37), 'second_price', 0)]);
+    });
+  });
+
+  describe('validation', () => {
+    test('ad slots are clamped to the configured slots', () => {
+      expect(validateAdSlots(3)).toBe(3);
+      expect(validateAdSlots(0)).toBe(1);
+      expect(validateAdSlots('two')).toBe(1);
+      expect(validateAdSlots(99)).toBe(config.AD_SLOT_LABELS.length);
+    });
+
+    test('only known clearing modes are accepted', () => {
+      expect(validateClearingMode('second_price')).toBe('second_price');
+      expect(validateClearingMode('vickrey')).toBeNull();
+    });
+
+    test('floor price is clamped to a whole, non-negative number', () => {
+      expect(validateFloorPrice(12.7)).toBe(12);
+      expect(validateFloorPrice(-5)).toBe(0);
+      expect(validateFloorPrice('abc')).toBe(0);
+      expect(validateFloorPrice(1e9)).toBe(config.MAX_FLOOR_PRICE);
+    });
+  });
+
+  test('describeClearing summarises the result', () => {
+    expect(describeClearing(clearAuction(bids(42, 37), 'second_price', 0)))
+      .toBe('Second-price: bid 42 beat 37 → pays 38');
+    expect(describeClearing(clearAuction(bids(5), 'first_price', 10)))
+      .toBe('First-price (floor 10): no bid cleared');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for clock sync and latency compensation
+ */
+
+import config from '../src/config';
+import * as clockSync from '../src/clockSync';
+
+// Simulate a ping/pong with a given RTT and client clock offset
+function samplePing(socketId: string, sentAt: number, rttMs: number, clientOffsetMs: number): void {
+  const serverSentAt = clockSync.createPing(socketId, sentAt);
+  clockSync.recordPong(
+    socketId,
+    { serverSentAt, clientTime: sentAt + rttMs / 2 + clientOffsetMs },
+    sentAt + rttMs
+  );
+}
+
+describe('Clock Sync', () => {
+  afterEach(() => {
+    ['a', 'b', 'c'].forEach(clockSync.resetClockData);
+  });
+
+  describe('recordPong', () => {
+    test('estimates RTT and client clock offset', () => {
+      samplePing('a', 1000, 100, 5000);
+      samplePing('a', 2000, 120, 5000);
+      samplePing('a', 3000, 80, 5000);
+
+      expect(clockSync.getClockEstimate('a')).toEqual({ rttMs: 100, offsetMs: 5000, samples: 3 });
+    });
+
+    test('rejects pongs for pings that were never sent', () => {
+      expect(clockSync.recordPong('a', { serverSentAt: 1234, clientTime: 1300 }, 1400)).toBeNull();
+      expect(clockSync.getClockEstimate('a')).toBeNull();
+    });
+
+    test('rejects malformed pongs', () => {
+      const serverSentAt = clockSync.createPing('a', 1000);
+      expect(clockSync.recordPong('a', null, 1100)).toBeNull();
+      expect(clockSync.recordPong('a', { serverSentAt, clientTime: 'soon' }, 1100)).toBeNull();
+      expect(clockSync.recordPong('a', { serverSentAt, clientTime: Infinity }, 1100)).toBeNull();
+    });
+
+    test('each ping can only be answered once', () => {
+      const serverSentAt = clockSync.createPing('a', 1000);
+      expect(clockSync.recordPong('a', { serverSentAt, clientTime: 1050 }, 1100)).not.toBeNull();
+      expect(clockSync.recordPong('a', { serverSentAt, clientTime: 1050 }, 1100)).toBeNull();
+    });
+
+    test('keeps a bounded number of samples', () => {
+      for (let i = 0; i < config.CLOCK_SYNC_SAMPLES + 5; i++) {
+        samplePing('a', i * 1000, 50, 0);
+      }
+      expect(clockSync.getClockEstimate('a')?.samples).toBe(config.CLOCK_SYNC_SAMPLES);
+    });
+  });
+
+  describe('compensateReactionTime', () => {
+    test('removes network latency from the measured reaction time', () => {
+      const rtt = 200;
+      const offset = -3000;
+      samplePing('a', 1000, rtt, offset);
+      samplePing('a', 2000, rtt, offset);
+
+      // Signal sent at 10000, seen at 10100, tapped 250ms later, tap arrives at 10450
+      const signalSentAt = 10000;
+      const tapAt = 10350 + offset;
+      expect(clockSync.compensateReactionTime('a', 450, signalSentAt, tapAt)).toBe(250);
+    });
+
+    test('never credits more than the measured RTT', () => {
+      samplePing('a', 1000, 100, 0);
+      samplePing('a', 2000, 100, 0);
+
+      // Client claims it tapped instantly
+      expect(clockSync.compensateReactionTime('a', 400, 10000, 10000)).toBe(300);
+    });
+
+    test('never adds time to the measured reaction', () => {
+      samplePing('a', 1000, 100, 0);
+      samplePing('a', 2000, 100, 0);
+
+      expect(clockSync.compensateReactionTime('a', 400, 10000, 99999)).toBe(400);
+    });
+
+    test('uses the measured time without enough samples or a tap timestamp', () => {
+      samplePing('a', 1000, 100, 0);
+      expect(clockSync.compensateReactionTime('a', 400, 10000, 10100)).toBe(400);
+
+      samplePing('b', 1000, 100, 0);
+      samplePing('b', 2000, 100, 0);
+      expect(clockSync.compensateReactionTime('b', 400, 10000, undefined)).toBe(400);
+      expect(clockSync.compensateReactionTime('c', 400, 10000, 10100)).toBe(400);
+    });
+  });
+
+  describe('cleanupClockData', () => {
+    test('removes data for inactive sockets', () => {
+      samplePing('a', 1000, 100, 0);
+      samplePing('b', 1000, 100, 0);
+
+      expect(clockSync.cleanupClockData(new Set(['a']))).toBeGreaterThan(0);
+      expect(clockSync.getClockEstimate('a')).not.toBeNull();
+      expect(clockSync.getClockEstimate('b')).toBeNull();
+    });
+  });
+});
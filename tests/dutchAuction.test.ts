@@ -0,0 +1,162 @@
+/**
+ * Tests for the Dutch (descending-price) auction
+ */
+
+import config from '../src/config';
+import * as clockSync from '../src/clockSync';
+import * as dutch from '../src/dutchAuction';
+import { calculateFinalScores } from '../src/game';
+import { validateDutchCeiling } from '../src/validation';
+import { DutchAuction, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const START = 1_000_000;
+
+function setupRoom(playerIds: string[] = ['a', 'b']): Room {
+  const room = setupTestRoom('DA', Object.fromEntries(playerIds.map((id) => [id, testPlayer(id)])));
+  room.gameState.auctionDuration = 10;
+  return room;
+}
+
+function auction(overrides: Partial<DutchAuction> = {}): DutchAuction {
+  return { ceiling: 100, floor: 0, startedAt: START, durationMs: 10000, stepMs: 250, taps: [], claim: null, ...overrides };
+}
+
+describe('Dutch Auction', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    ['a', 'b'].forEach(clockSync.resetClockData);
+  });
+
+  describe('price', () => {
+    test('falls step by step from the ceiling to the floor', () => {
+      const a = auction();
+      expect(dutch.getDutchPrice(a, 0)).toBe(100);
+      expect(dutch.getDutchPrice(a, 249)).toBe(100);
+      expect(dutch.getDutchPrice(a, 250)).toBe(98);
+      expect(dutch.getDutchPrice(a, 5000)).toBe(50);
+      expect(dutch.getDutchPrice(a, 10000)).toBe(0);
+    });
+
+    test('never drops below the floor', () => {
+      expect(dutch.getDutchPrice(auction({ floor: 20 }), 60000)).toBe(20);
+      expect(dutch.getDutchPrice(auction(), -500)).toBe(100);
+    });
+
+    test('starts from the room ceiling, always above the floor price', () => {
+      const room = setupRoom();
+      room.gameState.dutchCeiling = 100;
+      room.gameState.floorPrice = 150;
+
+      const started = dutch.startDutchAuction(room, START);
+
+      expect(started).toMatchObject({ ceiling: 151, floor: 150, startedAt: START, durationMs: 10000 });
+      expect(room.gameState.dutch).toBe(started);
+    });
+  });
+
+  describe('claims', () => {
+    test('the first tap claims the slot once the claim window closes', () => {
+      const room = setupRoom();
+      const onSettled = jest.fn();
+      dutch.startDutchAuction(room, START);
+
+      jest.setSystemTime(START + 5000);
+      expect(dutch.recordDutchTap(room, 'a', {}, onSettled)).toBe(true);
+      expect(room.gameState.dutch?.claim).toBeNull();
+
+      jest.advanceTimersByTime(config.DUTCH_CLAIM_WINDOW_MS);
+
+      expect(onSettled).toHaveBeenCalledTimes(1);
+      expect(room.gameState.dutch?.claim).toEqual({ playerId: 'a', name: 'a', price: 50, elapsedMs: 5000 });
+    });
+
+    test('an earlier tap from a slower connection beats the first to arrive', () => {
+      const room = setupRoom();
+      // b has a 200ms round trip and a synced clock
+      for (let i = 0; i < config.CLOCK_SYNC_MIN_SAMPLES; i++) {
+        const sentAt = START - 10000 + i * 1000;
+        const serverSentAt = clockSync.createPing('b', sentAt);
+        clockSync.recordPong('b', { serverSentAt, clientTime: sentAt + 100 }, sentAt + 200);
+      }
+      dutch.startDutchAuction(room, START);
+
+      dutch.recordDutchTap(room, 'a', {}, jest.fn(), START + 1000);
+      dutch.recordDutchTap(room, 'b', { tapAt: START + 950 }, jest.fn(), START + 1100);
+      const claim = dutch.settleDutchClaim(room);
+
+      expect(claim?.playerId).toBe('b');
+      expect(claim?.elapsedMs).toBe(900);
+    });
+
+    test('each player taps once and nobody taps after the claim', () => {
+      const room = setupRoom(['a', 'b', 'c']);
+      dutch.startDutchAuction(room, START);
+
+      expect(dutch.recordDutchTap(room, 'a', {}, jest.fn(), START + 500)).toBe(true);
+      expect(dutch.recordDutchTap(room, 'a', {}, jest.fn(), START + 510)).toBe(false);
+      dutch.settleDutchClaim(room);
+
+      expect(dutch.recordDutchTap(room, 'b', {}, jest.fn(), START + 900)).toBe(false);
+      expect(dutch.recordDutchTap(room, 'ghost', {}, jest.fn(), START + 900)).toBe(false);
+    });
+
+    test('nothing is sold without a tap', () => {
+      const room = setupRoom();
+      dutch.startDutchAuction(room, START);
+
+      expect(dutch.settleDutchClaim(room)).toBeNull();
+      expect(dutch.getDutchView(room)?.claim).toBeNull();
+    });
+
+    test('the view carries the claim but not who else tapped', () => {
+      const room = setupRoom();
+      dutch.startDutchAuction(room, START);
+      dutch.recordDutchTap(room, 'a', {}, jest.fn(), START + 2500);
+      dutch.recordDutchTap(room, 'b', {}, jest.fn(), START + 2600);
+      dutch.settleDutchClaim(room);
+
+      const view = dutch.getDutchView(room);
+      expect(view?.claim).toEqual({ name: 'a', price: 75 });
+      expect(view).not.toHaveProperty('taps');
+    });
+  });
+
+  describe('scoring', () => {
+    test('the claimant bids the price they accepted', () => {
+      const room = setupRoom();
+      room.gameState.roundPhases = ['dutch_countdown', 'dutch'];
+      dutch.startDutchAuction(room, START);
+      dutch.recordDutchTap(room, 'b', {}, jest.fn(), START + 2500);
+      dutch.settleDutchClaim(room);
+
+      const leaderboard = calculateFinalScores(room);
+
+      expect(leaderboard[0]).toMatchObject({ id: 'b', finalScore: 75, dutchPrice: 75 });
+      expect(leaderboard[1]).toMatchObject({ id: 'a', finalScore: 0 });
+    });
+  });
+
+  test('ceiling is clamped to a whole, positive price', () => {
+    expect(validateDutchCeiling(250.9)).toBe(250);
+    expect(validateDutchCeiling(0)).toBe(1);
+    expect(validateDutchCeiling('high')).toBe(1);
+    expect(validateDutchCeiling(1e9)).toBe(config.MAX_DUTCH_CEILING);
+  });
+});
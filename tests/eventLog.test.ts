@@ -0,0 +1,193 @@
+/**
+ * Tests for the room event log
+ */
+
+import fs from 'fs';
+import config from '../src/config';
+import * as clockSync from '../src/clockSync';
+import * as persistence from '../src/persistence';
+import { archiveRoundEvents, getRoundEvents, logEvent } from '../src/eventLog';
+import { handleClick, startRound } from '../src/game';
+import { abortRound } from '../src/roundControl';
+import { sanitizeClickPayload } from '../src/validation';
+import { CustomSocket, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+const START = 3_000_000;
+function setupRoom(playerIds: string[]): Room {
+  return setupTestRoom('EL', Object.fromEntries(playerIds.map((id) => [id, testPlayer(id)])));
+}
+
+function click(room: Room, id: string, data?: unknown): void {
+  handleClick(room, { id, emit: jest.fn() } as unknown as CustomSocket, data);
+}
+
+describe('Event log', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(START);
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('logging', () => {
+    test('events are numbered, timed and copied', () => {
+      const room = setupRoom(['el-a']);
+      const player = room.gameState.players['el-a'];
+      logEvent(room, { type: 'join', playerId: 'el-a', player, rejoined: false }, 100);
+      const event = logEvent(room, { type: 'leave', playerId: 'el-a' }, 200);
+
+      expect(room.eventLog.map((e) => [e.seq, e.at, e.round])).toEqual([[0, 100, 0], [1, 200, 0]]);
+      expect(event).toBe(room.eventLog[1]);
+      player.clicks = 9;
+      expect(room.eventLog[0]).toMatchObject({ player: { clicks: 0 } });
+    });
+
+    test('a new round starts the log over', () => {
+      const room = setupRoom(['el-g']);
+      logEvent(room, { type: 'pause' }, 1);
+      startRound(room);
+      jest.advanceTimersByTime(5000);
+      logEvent(room, { type: 'leave', playerId: 'el-g' });
+      startRound(room);
+
+      expect(room.eventLog[0]).toMatchObject({ type: 'round_start', round: 2 });
+      expect(room.eventLog.every((e) => e.round === 2)).toBe(true);
+      expect(room.eventLog[1].seq).toBe(room.eventLog[0].seq + 1);
+    });
+
+    test("a round's start is never dropped, however many clicks it takes", () => {
+      const room = setupRoom(['el-h']);
+      startRound(room);
+      for (let i = 0; i < 60000; i++) {
+        logEvent(room, { type: 'click', playerId: 'el-h', payload: {}, clock: null }, START + i);
+      }
+
+      const events = getRoundEvents(room);
+      expect(events).toHaveLength(60002);
+      expect(events[0].type).toBe('round_start');
+    });
+
+    test('a round logs its start, phases and clicks with their clock estimate', () => {
+      const room = setupRoom(['el-b']);
+      [0, 200].forEach((sentAt) => {
+        clockSync.createPing('el-b', START + sentAt);
+        clockSync.recordPong('el-b', { serverSentAt: START + sentAt, clientTime: START + sentAt + 50 }, START + sentAt + 100);
+      });
+
+      startRound(room);
+      click(room, 'el-b', { tapAt: START, extra: 'dropped' });
+      jest.advanceTimersByTime(5000);
+
+      expect(room.eventLog.map((e) => e.type)).toEqual(['round_start', 'phase', 'click', 'phase']);
+      const [start, , clicked, results] = room.eventLog;
+      expect(start).toMatchObject({ round: 1, state: { status: 'waiting', round: 1, roundSnapshot: null } });
+      expect(clicked).toMatchObject({ playerId: 'el-b', payload: { tapAt: START }, clock: { rttMs: 100 }, round: 1 });
+      expect(results).toMatchObject({ phase: 'finished', at: START + 5000 });
+    });
+
+    test('rejected clicks are left out', () => {
+      const room = setupRoom(['el-c']);
+      click(room, 'el-c'); // Before the round
+      startRound(room);
+      for (let i = 0; i < config.MAX_CLICKS_PER_SECOND + 5; i++) click(room, 'el-c');
+
+      const clicks = room.eventLog.filter((e) => e.type === 'click');
+      expect(clicks).toHaveLength(config.MAX_CLICKS_PER_SECOND);
+    });
+
+    test('click payloads keep only short known fields', () => {
+      expect(sanitizeClickPayload(undefined)).toEqual({});
+      expect(sanitizeClickPayload({ tapAt: 5, signalId: 'a', other: 1 })).toEqual({ tapAt: 5, signalId: 'a' });
+      expect(sanitizeClickPayload({ targetId: 'x'.repeat(config.MAX_CLICK_FIELD_LENGTH + 1), tapAt: {} }))
+        .toEqual({ targetId: null, tapAt: null });
+    });
+  });
+
+  describe('round events', () => {
+    test('the latest round is sliced from its start', () => {
+      const room = setupRoom(['el-d']);
+      expect(getRoundEvents(room)).toEqual([]);
+
+      startRound(room);
+      jest.advanceTimersByTime(5000);
+      startRound(room);
+
+      const events = getRoundEvents(room);
+      expect(events[0]).toMatchObject({ type: 'round_start', round: 2 });
+      expect(events.every((e) => e.round === 2)).toBe(true);
+    });
+
+    test('a finished round is archived with its history record', () => {
+      const room = setupRoom(['el-e']);
+      startRound(room);
+      click(room, 'el-e');
+      jest.advanceTimersByTime(5000);
+
+      const [record] = persistence.getRounds();
+      expect(persistence.getEventLog(record.id)?.events).toEqual(getRoundEvents(room));
+      expect(persistence.saveEventLogs).toHaveBeenCalled();
+
+      archiveRoundEvents(room); // Archiving again replaces the copy
+      expect(persistence.getEventLog(record.id)?.events).toHaveLength(getRoundEvents(room).length);
+    });
+
+    test('each round log is saved on its own, and dropped logs are deleted', async () => {
+      (persistence.saveEventLogs as jest.Mock).mockRestore();
+      jest.spyOn(fs, 'mkdirSync').mockImplementation(() => undefined);
+      const write = jest.spyOn(fs, 'writeFileSync').mockImplementation(() => undefined);
+      const remove = jest.spyOn(fs, 'rmSync').mockImplementation(() => undefined);
+      await persistence.saveEventLogs();
+      write.mockClear();
+      remove.mockClear();
+
+      const maxRounds = config.MAX_EVENT_LOG_ROUNDS;
+      config.MAX_EVENT_LOG_ROUNDS = 1;
+      try {
+        persistence.addEventLog({ roundId: 'EL-1-1', events: [] });
+        persistence.addEventLog({ roundId: 'EL-1-2', events: [] });
+      } finally {
+        config.MAX_EVENT_LOG_ROUNDS = maxRounds;
+      }
+      await persistence.saveEventLogs();
+
+      const written = write.mock.calls.map(([file]) => String(file).split(/[\\/]/).pop());
+      expect(written).toEqual(['EL-1-2.json', 'event-logs.json']);
+      expect(JSON.parse(write.mock.calls[1][1] as string)).toEqual(['EL-1-2']);
+      const removed = remove.mock.calls.map(([file]) => String(file).split(/[\\/]/).pop());
+      expect(removed).toContain('EL-1-1.json');
+      expect(removed).not.toContain('EL-1-2.json');
+      expect(persistence.getEventLog('EL-1-1')).toBeNull();
+    });
+
+    test('an aborted round takes its log with it', () => {
+      const room = setupRoom(['el-f']);
+      startRound(room);
+      jest.advanceTimersByTime(5000);
+      const [record] = persistence.getRounds();
+
+      abortRound(room);
+      expect(persistence.getEventLog(record.id)).toBeNull();
+      expect(room.eventLog[room.eventLog.length - 1].type).toBe('abort');
+    });
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Tests for Fastest Finger variants and signals
+ */
+
+import config from '../src/config';
+import * as fastestFinger from '../src/fastestFinger';
+import { getConnectedSocketIds } from '../src/game';
+import { validateFastestFingerVariant } from '../src/validation';
+import { FastestFingerSignal, FastestFingerVariant, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+function setupRoom(variant: FastestFingerVariant, playerIds: string[] = ['a', 'b']): Room {
+  const room = setupTestRoom('FF', Object.fromEntries(playerIds.map((id) => [id, testPlayer(id)])));
+  room.gameState.fastestFingerVariant = variant;
+  return room;
+}
+
+function signals(room: Room): FastestFingerSignal[] {
+  return room.gameState.fastestFinger?.signals || [];
+}
+
+describe('Fastest Finger', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('variants', () => {
+    test('every configured variant is registered', () => {
+      config.FASTEST_FINGER_VARIANTS.forEach((id) => {
+        expect(fastestFinger.getVariant(id).id).toBe(id);
+      });
+    });
+
+    test('only known variants are accepted', () => {
+      expect(validateFastestFingerVariant('go_no_go')).toBe('go_no_go');
+      expect(validateFastestFingerVariant('bogus')).toBeNull();
+      expect(validateFastestFingerVariant(undefined)).toBeNull();
+    });
+
+    test('go/no-go shows red decoys before a single green signal', () => {
+      const plan = fastestFinger.getVariant('go_no_go').planSignals();
+      const decoys = plan.filter((s) => s.kind === 'nogo');
+      expect(decoys.length).toBeGreaterThanOrEqual(config.GO_NO_GO_DECOYS[0]);
+      expect(decoys.length).toBeLessThanOrEqual(config.GO_NO_GO_DECOYS[1]);
+      expect(plan[plan.length - 1].kind).toBe('go');
+      expect(plan.filter((s) => s.kind === 'go')).toHaveLength(1);
+    });
+
+    test('multi-target picks one correct target among distinct positions', () => {
+      const [signal] = fastestFinger.getVariant('multi_target').planSignals();
+      const targets = signal.targets || [];
+      expect(targets).toHaveLength(config.MULTI_TARGET_COUNT);
+      expect(targets.map((t) => t.id)).toContain(signal.correctTargetId);
+      expect(new Set(targets.map((t) => `${t.x},${t.y}`)).size).toBe(targets.length);
+      expect(targets.find((t) => t.id === signal.correctTargetId)?.symbol).toBe(signal.prompt);
+    });
+
+    test('best of three plans spaced go signals', () => {
+      const plan = fastestFinger.getVariant('best_of_three').planSignals();
+      expect(plan).toHaveLength(config.BEST_OF_ATTEMPTS);
+      plan.slice(1).forEach((signal, i) => {
+        expect(signal.at).toBeGreaterThan(plan[i].at + plan[i].visibleMs);
+      });
+    });
+  });
+
+  describe('startSignals', () => {
+    test('classic shows its signal immediately', () => {
+      const room = setupRoom('classic');
+      fastestFinger.startSignals(room, jest.fn(), Date.now());
+
+      expect(fastestFinger.getFastestFingerView(room).signal?.kind).toBe('go');
+      expect(room.gameState.fastestFingerStartTime).toBe(Date.now());
+      expect(fastestFinger.getSignalPlanDuration(room)).toBe(config.FASTEST_FINGER_TAP_TIMEOUT_MS);
+    });
+
+    test('later signals show and hide on schedule', () => {
+      const room = setupRoom('best_of_three');
+      const onChange = jest.fn();
+      fastestFinger.startSignals(room, onChange, Date.now());
+      const [first] = signals(room);
+
+      expect(fastestFinger.getFastestFingerView(room).signal).toBeNull();
+      jest.advanceTimersByTime(first.at);
+      expect(fastestFinger.getFastestFingerView(room).signal).toMatchObject({ kind: 'go', attempt: 1 });
+      jest.advanceTimersByTime(first.visibleMs);
+      expect(fastestFinger.getFastestFingerView(room).signal).toBeNull();
+      expect(onChange).toHaveBeenCalledTimes(2);
+    });
+
+    test('the client view never reveals the correct target', () => {
+      const room = setupRoom('multi_target');
+      fastestFinger.startSignals(room, jest.fn(), Date.now());
+
+      const view = fastestFinger.getFastestFingerView(room);
+      expect(view.signal?.targets).toHaveLength(config.MULTI_TARGET_COUNT);
+      expect(JSON.stringify(view)).not.toContain('correctTargetId');
+    });
+  });
+
+  describe('recordSignalTap', () => {
+    test('records the reaction to the active signal once', () => {
+      const room = setupRoom('classic');
+      const start = Date.now();
+      fastestFinger.startSignals(room, jest.fn(), start);
+      const [signal] = signals(room);
+
+      expect(fastestFinger.recordSignalTap(room, 'a', { signalId: signal.id }, start + 250)).toBe('reaction');
+      expect(room.gameState.players.a.reactionTime).toBe(250);
+      expect(fastestFinger.recordSignalTap(room, 'a', { signalId: signal.id }, start + 300)).toBe('ignored');
+      expect(room.gameState.players.a.reactionTime).toBe(250);
+    });
+
+    test('go/no-go: tapping a red decoy or before green is a false start', () => {
+      const room = setupRoom('go_no_go');
+      fastestFinger.startSignals(room, jest.fn(), Date.now());
+      const decoy = signals(room)[0];
+
+      expect(fastestFinger.recordSignalTap(room, 'a', {})).toBe('false_start');
+      jest.advanceTimersByTime(decoy.at);
+      expect(fastestFinger.recordSignalTap(room, 'b', { signalId: decoy.id })).toBe('false_start');
+    });
+
+    test('go/no-go: green taps still count after a false start', () => {
+      const room = setupRoom('go_no_go');
+      fastestFinger.startSignals(room, jest.fn(), Date.now());
+      const go = signals(room)[signals(room).length - 1];
+      room.gameState.players.a.falseStart = true;
+
+      jest.advanceTimersByTime(go.at + 200);
+      expect(fastestFinger.recordSignalTap(room, 'a', { signalId: go.id })).toBe('reaction');
+      expect(room.gameState.players.a.reactionTime).toBe(200);
+    });
+
+    test('multi-target: only the server-issued target id counts', () => {
+      const room = setupRoom('multi_target');
+      const start = Date.now();
+      fastestFinger.startSignals(room, jest.fn(), start);
+      const [signal] = signals(room);
+      const wrong = signal.targets?.find((t) => t.id !== signal.correctTargetId);
+
+      expect(fastestFinger.recordSignalTap(room, 'a', { signalId: signal.id, targetId: wrong?.id }, start + 100)).toBe('wrong_target');
+      expect(fastestFinger.recordSignalTap(room, 'a', { signalId: signal.id, targetId: signal.correctTargetId }, start + 150)).toBe('ignored');
+      expect(fastestFinger.recordSignalTap(room, 'b', { signalId: signal.id, targetId: signal.correctTargetId }, start + 300)).toBe('reaction');
+
+      fastestFinger.finalizeReactions(room);
+      expect(room.gameState.players.a.reactionTime).toBeNull();
+      expect(room.gameState.players.b.reactionTime).toBe(300);
+    });
+
+    test('late taps on a hidden signal are ignored', () => {
+      const room = setupRoom('best_of_three');
+      fastestFinger.startSignals(room, jest.fn(), Date.now());
+      const [first] = signals(room);
+
+      jest.advanceTimersByTime(first.at + first.visibleMs);
+      expect(fastestFinger.recordSignalTap(room, 'a', { signalId: first.id })).toBe('ignored');
+    });
+  });
+
+  describe('best of three', () => {
+    test('averages reactions and counts misses as the full window', () => {
+      const room = setupRoom('best_of_three');
+      fastestFinger.startSignals(room, jest.fn(), Date.now());
+      const [first, second, third] = signals(room);
+
+      jest.advanceTimersByTime(first.at + 200);
+      fastestFinger.recordSignalTap(room, 'a', { signalId: first.id });
+      fastestFinger.recordSignalTap(room, 'b', { signalId: first.id });
+      jest.advanceTimersByTime(second.at - first.at - 200 + 400);
+      fastestFinger.recordSignalTap(room, 'a', { signalId: second.id });
+      expect(room.gameState.players.a.reactionTime).toBe(300);
+      jest.advanceTimersByTime(third.at - second.at - 400 + 300);
+      fastestFinger.recordSignalTap(room, 'a', { signalId: third.id });
+
+      expect(fastestFinger.haveAllPlayersResponded(room, getConnectedSocketIds())).toBe(false);
+      fastestFinger.finalizeReactions(room);
+      expect(room.gameState.players.a.reactionTime).toBe(300);
+      expect(room.gameState.players.b.reactionTime).toBe(Math.round((200 + 2 * config.BEST_OF_WINDOW_MS) / 3));
+    });
+
+    test('everyone answering every signal ends the phase early', () => {
+      const room = setupRoom('best_of_three', ['a']);
+      fastestFinger.startSignals(room, jest.fn(), Date.now());
+
+      signals(room).forEach((signal, i, all) => {
+        jest.advanceTimersByTime(signal.at - (i > 0 ? all[i - 1].at : 0));
+        expect(fastestFinger.haveAllPlayersResponded(room, getConnectedSocketIds())).toBe(false);
+        fastestFinger.recordSignalTap(room, 'a', { signalId: signal.id });
+      });
+      expect(fastestFinger.haveAllPlayersResponded(room, getConnectedSocketIds())).toBe(true);
+    });
+
+    test('players who dropped are not waited for', () => {
+      const room = setupRoom('best_of_three', ['a', 'b']);
+      fastestFinger.startSignals(room, jest.fn(), Date.now());
+
+      signals(room).forEach((signal, i, all) => {
+        jest.advanceTimersByTime(signal.at - (i > 0 ? all[i - 1].at : 0));
+        fastestFinger.recordSignalTap(room, 'a', { signalId: signal.id });
+      });
+      expect(fastestFinger.haveAllPlayersResponded(room, getConnectedSocketIds())).toBe(false);
+      expect(fastestFinger.haveAllPlayersResponded(room, new Set(['a']))).toBe(true);
+    });
+
+    test('tournament spectators are not waited for', () => {
+      const room = setupRoom('best_of_three', ['a', 'b']);
+      room.gameState.players.a.identityId = 'ff-id-a';
+      room.gameState.players.b.identityId = 'ff-id-b';
+      room.gameState.tournament = {
+        id: 'ff-tournament',
+        roomCode: room.code,
+        eliminatePercent: 50,
+        startedAt: new Date().toISOString(),
+        endedAt: null,
+        entrants: ['ff-id-a', 'ff-id-b'],
+        alive: ['ff-id-a'],
+        names: { 'ff-id-a': 'a', 'ff-id-b': 'b' },
+        rounds: [],
+        champion: null,
+      };
+      fastestFinger.startSignals(room, jest.fn(), Date.now());
+
+      signals(room).forEach((signal, i, all) => {
+        jest.advanceTimersByTime(signal.at - (i > 0 ? all[i - 1].at : 0));
+        fastestFinger.recordSignalTap(room, 'a', { signalId: signal.id });
+      });
+      expect(fastestFinger.haveAllPlayersResponded(room, getConnectedSocketIds())).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Shared fixtures for the tests that play rounds in a room
+ */
+
+import { Server } from 'socket.io';
+import { setIO } from '../src/game';
+import { createRoom } from '../src/rooms';
+import { Player, Room } from '../src/types';
+
+let roomCount = 0;
+
+/**
+ * A socket.io server stand-in with `socketIds` connected. Emits to a room or
+ * socket go to the mock `emitFor` returns for it (a fresh one by default).
+ */
+export function mockServer(socketIds: string[], emitFor: (channel: string) => jest.Mock = () => jest.fn()): Server {
+  const server = {
+    to: (channel: string) => ({ emit: emitFor(channel) }),
+    sockets: { sockets: new Map(socketIds.map((id) => [id, {}])) },
+  };
+  return server as unknown as Server;
+}
+
+/**
+ * A player who has not tapped yet
+ */
+export function testPlayer(name: string, fields: Partial<Player> = {}): Player {
+  return { name, clicks: 0, color: '#fff', adContent: '', reactionTime: null, ...fields };
+}
+
+/**
+ * A new room playing a 5 second Click Auction, with `players` (by socket id)
+ * all connected - resetGame keeps them
+ */
+export function setupTestRoom(prefix: string, players: Record<string, Player>, emitFor?: (channel: string) => jest.Mock): Room {
+  const room = createRoom(`${prefix}${roomCount++}`) as Room;
+  room.gameState.roundPhases = ['auction'];
+  room.gameState.auctionDuration = 5;
+  room.gameState.players = players;
+  setIO(mockServer(Object.keys(players), emitFor));
+  return room;
+}
@@ -0,0 +1,181 @@
+/**
+ * Tests for the host commands shared by the socket events and the host REST API
+ */
+
+import fs from 'fs';
+import request from 'supertest';
+import app from '../src/app';
+import config from '../src/config';
+import * as auth from '../src/auth';
+import * as persistence from '../src/persistence';
+import { handleClick } from '../src/game';
+import { issueIdentity } from '../src/identity';
+import { runNewGame, runResetAuction, runStartAuction, runStartSeason, SEASON_SAVE_ERROR } from '../src/socket';
+import { getDefaultRoom } from '../src/rooms';
+import { CustomSocket, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+    security: jest.fn(),
+  },
+}));
+
+function setupRoom(names: string[]): Room {
+  return setupTestRoom('HC', Object.fromEntries(names.map((id) => [id, testPlayer(id, { identityId: issueIdentity(id).identity.id })])));
+}
+
+describe('Host commands', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'savePlayerIdentities').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+    jest.spyOn(fs, 'writeFileSync').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('starting an auction validates its settings like the host panel', () => {
+    const room = setupRoom(['hc-a']);
+    expect(runStartAuction(room, { duration: 3, countdown: 1, phases: ['auction'], adSlots: 99 })).toBeNull();
+    expect(room.gameState.status).toBe('auction');
+    expect(room.gameState.auctionDuration).toBe(3);
+    expect(room.gameState.roundPhases).toEqual(['auction']);
+    expect(room.gameState.adSlots).toBeLessThan(99);
+    expect(room.eventLog[0]).toMatchObject({ type: 'round_start', state: { auctionDuration: 3, roundPhases: ['auction'] } });
+    jest.advanceTimersByTime(3000); // Seasons can't change while any room is mid-round
+  });
+
+  test('an auction is refused without players or phases', () => {
+    expect(runStartAuction(setupRoom([]))).toBe('Cannot start - no players connected!');
+    const room = setupRoom(['hc-b']);
+    expect(runStartAuction(room, { phases: ['juggling'] })).toBe('Cannot start - pick at least one valid game phase!');
+    expect(room.gameState.status).toBe('waiting');
+  });
+
+  test('a new game keeps the players and clears the round', () => {
+    const room = setupRoom(['hc-c']);
+    runStartAuction(room, { duration: 2, countdown: 1, phases: ['auction'] });
+    jest.advanceTimersByTime(1000);
+    handleClick(room, { id: 'hc-c', emit: jest.fn() } as unknown as CustomSocket);
+    jest.advanceTimersByTime(2000);
+    expect(room.gameState.finalLeaderboard).toHaveLength(1);
+
+    expect(runNewGame(room)).toBeNull();
+    expect(room.gameState).toMatchObject({ status: 'waiting', finalLeaderboard: [], winners: [] });
+    expect(room.gameState.players['hc-c'].clicks).toBe(0);
+  });
+
+  test('resetting the auction drops players who left', () => {
+    const room = setupRoom(['hc-d']);
+    room.gameState.players['hc-gone'] = { name: 'gone', clicks: 4, color: '#000', adContent: '', reactionTime: null };
+    expect(runResetAuction(room)).toBeNull();
+    expect(Object.keys(room.gameState.players)).toEqual(['hc-d']);
+    expect(room.gameState.status).toBe('waiting');
+  });
+
+  test('resetting all-time stats starts a new season, but not mid-round', async () => {
+    const room = setupRoom(['hc-e']);
+    runStartAuction(room, { duration: 2, countdown: 1, phases: ['auction'] });
+    expect(await runStartSeason(room, 'resetAllTimeStats', 'Day 2')).toBe('Finish the running round before starting a new season');
+
+    jest.advanceTimersByTime(3000);
+    expect(await runStartSeason(room, 'resetAllTimeStats', 'Day 2')).toBeNull();
+    expect(persistence.getCurrentSeason().name).toBe('Day 2');
+    expect(persistence.getStats()).toEqual({});
+  });
+});
+
+describe('Host control API', () => {
+  const hostPin = config.HOST_PIN;
+  let token: string;
+
+  beforeEach(() => {
+    config.HOST_PIN = '4321';
+    token = auth.verifyPinAndCreateToken('4321').token as string;
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+    jest.spyOn(fs, 'writeFileSync').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    config.HOST_PIN = hostPin;
+    jest.restoreAllMocks();
+  });
+
+  test('only an Authorization: Bearer token is accepted', async () => {
+    await request(app).get('/api/host/status').expect(401, { error: 'Host authentication required' });
+    await request(app).get('/api/host/status').set('Authorization', 'Bearer not-a-token').expect(401);
+    await request(app).post(`/api/host/new-game?auth=${token}`).expect(401);
+    await request(app).post('/api/host/new-game').set('Cookie', `hostAuth=${token}`).expect(401);
+    await request(app).post('/api/host/new-game').set('Authorization', token).expect(401);
+
+    const res = await request(app).get('/api/host/status').set('Authorization', `bearer  ${token}`).expect(200);
+    expect(res.body).toMatchObject({ success: true, game: { roomCode: config.DEFAULT_ROOM_CODE } });
+  });
+
+  test('?room= picks the room, the default one included', async () => {
+    const room = setupRoom(['hc-api-a']);
+    const own = await request(app).get(`/api/host/status?room=${room.code.toLowerCase()}`).set('Authorization', `Bearer ${token}`).expect(200);
+    expect(own.body.game).toMatchObject({ roomCode: room.code, status: 'waiting', playerCount: 1 });
+
+    const main = await request(app).get(`/api/host/status?room=${config.DEFAULT_ROOM_CODE}`).set('Authorization', `Bearer ${token}`).expect(200);
+    expect(main.body.game.roomCode).toBe(getDefaultRoom().code);
+
+    await request(app).post('/api/host/reset-auction?room=NOROOM').set('Authorization', `Bearer ${token}`).expect(404, { error: 'Room not found' });
+    await request(app).post('/api/host/reset-auction?room=not%20a%20code').set('Authorization', `Bearer ${token}`).expect(404);
+  });
+
+  test('a refused command answers 409 with the reason and the game status', async () => {
+    const room = setupRoom([]);
+    const res = await request(app)
+      .post(`/api/host/start-auction?room=${room.code}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ duration: 5 })
+      .expect(409);
+    expect(res.body).toMatchObject({ success: false, error: 'Cannot start - no players connected!', game: { status: 'waiting', round: 0 } });
+  });
+
+  test('a command that runs answers with the new game status', async () => {
+    const room = setupRoom(['hc-api-b']);
+    const res = await request(app)
+      .post(`/api/host/start-auction?room=${room.code}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ duration: 5, countdown: 3, phases: ['auction'] })
+      .expect(200);
+    expect(res.body).toMatchObject({ success: true, game: { roomCode: room.code, status: 'auction', round: 1, playerCount: 1 } });
+
+    const reset = await request(app).post(`/api/host/reset-auction?room=${room.code}`).set('Authorization', `Bearer ${token}`).expect(200);
+    expect(reset.body.game.status).toBe('waiting');
+  });
+
+  test('resetting all-time stats names the new season', async () => {
+    const res = await request(app)
+      .post('/api/host/reset-all-time-stats')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'API Day' })
+      .expect(200);
+    expect(res.body.game.season.name).toBe('API Day');
+  });
+
+  test('a season that fails to save answers 500', async () => {
+    jest.spyOn(fs, 'writeFileSync').mockImplementation(() => {
+      throw new Error('disk full');
+    });
+    const res = await request(app).post('/api/host/reset-all-time-stats').set('Authorization', `Bearer ${token}`).expect(500);
+    expect(res.body).toEqual({ success: false, error: SEASON_SAVE_ERROR });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for persistent player identities
+ */
+
+import fs from 'fs';
+import * as persistence from '../src/persistence';
+import { ensureIdentity, issueIdentity, joinAsIdentity, mergeIdentities, splitIdentity, verifyCredentials } from '../src/identity';
+import { handleClick, startRound } from '../src/game';
+import { abortRound } from '../src/roundControl';
+import { CustomSocket, Player, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+function setupRoom(players: Record<string, Player>): Room {
+  return setupTestRoom('PI', players);
+}
+
+function player(name: string, identityId?: string): Player {
+  return testPlayer(name, { identityId });
+}
+
+function playRound(room: Room, clicks: Record<string, number>): void {
+  startRound(room);
+  Object.entries(clicks).forEach(([socketId, count]) => {
+    for (let i = 0; i < count; i++) handleClick(room, { id: socketId, emit: jest.fn() } as unknown as CustomSocket);
+  });
+  jest.advanceTimersByTime(5000);
+}
+
+function shownAs(id: string): persistence.LeaderboardEntry | undefined {
+  return persistence.getAllTimeLeaderboard().find((entry) => entry.id === id);
+}
+
+describe('Player identity', () => {
+  beforeEach(() => {
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+    jest.spyOn(persistence, 'savePlayerIdentities').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('devices', () => {
+    test('a new device is issued an id and a key, and only a hash of the key is kept', () => {
+      const { identity, credentials } = joinAsIdentity(undefined, 'Alex');
+
+      expect(credentials?.id).toBe(identity.id);
+      expect(identity.id).toMatch(/^plr_/);
+      expect(JSON.stringify(persistence.getPlayerIdentity(identity.id))).not.toContain(credentials?.key);
+      expect(verifyCredentials(credentials)).toMatchObject({ id: identity.id, name: 'Alex' });
+      expect(persistence.savePlayerIdentities).toHaveBeenCalled();
+    });
+
+    test('a returning device keeps its id under a new name', () => {
+      const { credentials } = issueIdentity('alex');
+      const again = joinAsIdentity(credentials, 'Alex');
+
+      expect(again.credentials).toBeNull();
+      expect(again.identity).toMatchObject({ id: credentials?.id, name: 'Alex' });
+    });
+
+    test('an id with the wrong key gets a new identity', () => {
+      const { credentials } = issueIdentity('Sam');
+
+      expect(verifyCredentials({ id: credentials?.id, key: 'key_guess' })).toBeNull();
+      expect(verifyCredentials('nonsense')).toBeNull();
+      const join = joinAsIdentity({ id: credentials?.id, key: 'key_guess' }, 'Sam');
+      expect(join.identity.id).not.toBe(credentials?.id);
+      expect(join.credentials).not.toBeNull();
+    });
+
+    test('an identity issued without a key can never be claimed', () => {
+      const p = player('Guest');
+      const id = ensureIdentity(p);
+
+      expect(p.identityId).toBe(id);
+      expect(ensureIdentity(p)).toBe(id);
+      expect(persistence.getPlayerIdentity(id)?.keyHash).toBeNull();
+    });
+  });
+
+  describe('all-time stats', () => {
+    beforeEach(() => jest.useFakeTimers());
+
+    test('two players with the same name keep their own stats', () => {
+      const first = issueIdentity('Alex').identity.id;
+      const second = issueIdentity('Alex').identity.id;
+      const room = setupRoom({ 'pi-a1': player('Alex', first), 'pi-a2': player('Alex', second) });
+      playRound(room, { 'pi-a1': 3, 'pi-a2': 1 });
+
+      expect(persistence.getStats()[first]).toMatchObject({ wins: 1, totalAuctionTaps: 3 });
+      expect(persistence.getStats()[second]).toMatchObject({ wins: 0, totalAuctionTaps: 1 });
+      expect(shownAs(first)?.name).toBe('Alex');
+      expect(shownAs(second)?.name).toBe('Alex');
+    });
+
+    test('a player on two devices counts once a round, with their best placement', () => {
+      const id = issueIdentity('Sam').identity.id;
+      const other = issueIdentity('Jo').identity.id;
+      const room = setupRoom({ 'pi-d1': player('Sam', id), 'pi-d2': player('Sam', id), 'pi-d3': player('Jo', other) });
+      playRound(room, { 'pi-d1': 2, 'pi-d2': 5, 'pi-d3': 3 });
+
+      expect(persistence.getStats()[id]).toMatchObject({ wins: 1, roundsPlayed: 1, totalAuctionTaps: 5 });
+      expect(persistence.getStats()[other]).toMatchObject({ wins: 0, roundsPlayed: 1, totalAuctionTaps: 3 });
+    });
+
+    test('an aborted round is taken back by player id', () => {
+      const id = issueIdentity('Robin').identity.id;
+      const room = setupRoom({ 'pi-b1': player('Robin', id) });
+      playRound(room, { 'pi-b1': 2 });
+      expect(persistence.getStats()[id]?.roundsPlayed).toBe(1);
+
+      abortRound(room);
+      expect(persistence.getStats()[id]).toBeUndefined();
+    });
+  });
+
+  describe('merge and split', () => {
+    beforeEach(() => jest.useFakeTimers());
+
+    test('merged stats add up under one player and split apart again', () => {
+      const old = issueIdentity('Kim').identity.id;
+      const current = issueIdentity('Kimberly').identity.id;
+      const room = setupRoom({ 'pi-c1': player('Kim', old), 'pi-c2': player('Kimberly', current) });
+      playRound(room, { 'pi-c1': 4, 'pi-c2': 2 });
+
+      expect(mergeIdentities(old, current)).toBe(true);
+      expect(shownAs(old)).toBeUndefined();
+      expect(shownAs(current)).toMatchObject({
+        wins: 1,
+        roundsPlayed: 2,
+        totalAuctionTaps: 6,
+        merged: [{ id: old, name: 'Kim' }],
+      });
+
+      expect(splitIdentity(old)).toBe(true);
+      expect(shownAs(old)).toMatchObject({ wins: 1, totalAuctionTaps: 4, merged: [] });
+      expect(shownAs(current)).toMatchObject({ wins: 0, totalAuctionTaps: 2, merged: [] });
+      expect(splitIdentity(old)).toBe(false);
+    });
+
+    test('merges that would loop or repeat are refused', () => {
+      const a = issueIdentity('A').identity.id;
+      const b = issueIdentity('B').identity.id;
+      const c = issueIdentity('C').identity.id;
+
+      expect(mergeIdentities(a, b)).toBe(true);
+      expect(mergeIdentities(b, c)).toBe(true);
+      expect(persistence.resolvePlayerId(a)).toBe(c);
+      expect(mergeIdentities(c, a)).toBe(false);
+      expect(mergeIdentities(a, c)).toBe(false);
+      expect(mergeIdentities(a, 'plr_unknown')).toBe(false);
+    });
+  });
+
+  describe('migration', () => {
+    test('name-keyed stats become identities of their own', async () => {
+      const legacy = {
+        Alex: { wins: 2, totalClicks: 9, roundsPlayed: 3, bestRound: 5, lastPlayed: '2026-01-01T00:00:00.000Z', totalAuctionTaps: 9, bestReactionTime: 250, totalFinalScore: 9 },
+      };
+      jest.spyOn(fs, 'existsSync').mockImplementation((file) => String(file).endsWith('scores.json'));
+      jest.spyOn(fs, 'readFileSync').mockReturnValue(JSON.stringify(legacy));
+      const writeFileSync = jest.spyOn(fs, 'writeFileSync').mockImplementation(() => undefined);
+
+      await persistence.loadScores();
+
+      const id = persistence.legacyPlayerId('Alex');
+      expect(persistence.getStats()['Alex']).toBeUndefined();
+      expect(persistence.getStats()[id]).toMatchObject({ wins: 2, roundsPlayed: 3 });
+      expect(persistence.getPlayerIdentity(id)).toMatchObject({ name: 'Alex', keyHash: null, mergedInto: null });
+      expect(writeFileSync).toHaveBeenCalledWith(expect.stringContaining('scores.json.pre-migration'), JSON.stringify(legacy));
+      expect(writeFileSync).toHaveBeenCalledWith(expect.stringMatching(/players\.json$/), expect.stringContaining(id));
+
+      // Loading the migrated data again changes nothing
+      jest.spyOn(fs, 'readFileSync').mockReturnValue(JSON.stringify(persistence.getStats()));
+      await persistence.loadScores();
+      expect(persistence.getStats()[id]).toMatchObject({ wins: 2 });
+    });
+  });
+});
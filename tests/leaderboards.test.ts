@@ -0,0 +1,124 @@
+/**
+ * Tests for the leaderboard categories
+ */
+
+import config from '../src/config';
+import * as persistence from '../src/persistence';
+import { issueIdentity, mergeIdentities } from '../src/identity';
+import { getCategories, getCategoryLeaderboard } from '../src/leaderboards';
+import { validateLeaderboardCategory } from '../src/validation';
+import type { LeaderboardEntry } from '../src/persistence';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+function player(name: string, stats: Partial<LeaderboardEntry>): LeaderboardEntry {
+  return {
+    id: `lb-${name}`,
+    name,
+    merged: [],
+    wins: 0,
+    totalClicks: 0,
+    roundsPlayed: 1,
+    bestRound: 0,
+    lastPlayed: null,
+    totalAuctionTaps: 0,
+    bestReactionTime: null,
+    totalFinalScore: 0,
+    rating: config.RATING_INITIAL,
+    ...stats,
+  };
+}
+
+// Play rounds straight into the all-time stats: true = won the premium slot
+function playRounds(playerId: string, results: boolean[]): void {
+  results.forEach((won) => persistence.updatePlayerStats(playerId, 10, null, 10, won ? 0 : null));
+}
+
+describe('Leaderboard categories', () => {
+  beforeEach(() => {
+    jest.spyOn(persistence, 'savePlayerIdentities').mockResolvedValue();
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('are listed in the rotation order set in config', () => {
+    expect(getCategories().map((category) => category.id)).toEqual(config.LEADERBOARD_CATEGORIES);
+    expect(getCategories()[0]).toMatchObject({ id: 'fastest_reaction', unit: 'ms', icon: '⚡' });
+    expect(validateLeaderboardCategory('win_rate')).toBe('win_rate');
+    expect(validateLeaderboardCategory('wins')).toBeNull();
+  });
+
+  test('fastest reaction ranks the lowest time first and skips players without one', () => {
+    const board = getCategoryLeaderboard('fastest_reaction', [
+      player('slow', { bestReactionTime: 420 }),
+      player('none', {}),
+      player('quick', { bestReactionTime: 180 }),
+    ]);
+    expect(board.entries.map((entry) => [entry.name, entry.value])).toEqual([['quick', 180], ['slow', 420]]);
+  });
+
+  test('average taps are per round played, ties going to the more experienced player', () => {
+    const board = getCategoryLeaderboard('avg_taps', [
+      player('once', { totalAuctionTaps: 40, roundsPlayed: 1 }),
+      player('steady', { totalAuctionTaps: 120, roundsPlayed: 3 }),
+      player('mashing', { totalAuctionTaps: 100, roundsPlayed: 2 }),
+    ]);
+    expect(board.entries.map((entry) => [entry.name, entry.value])).toEqual([['mashing', 50], ['steady', 40], ['once', 40]]);
+  });
+
+  test('win rate needs the minimum rounds played', () => {
+    const min = config.WIN_RATE_MIN_ROUNDS;
+    const board = getCategoryLeaderboard('win_rate', [
+      player('lucky', { wins: 1, roundsPlayed: min - 1 }),
+      player('regular', { wins: 2, roundsPlayed: min * 2 }),
+      player('shark', { wins: min, roundsPlayed: min }),
+    ]);
+    expect(board.entries.map((entry) => [entry.name, entry.value])).toEqual([['shark', 100], ['regular', 20]]);
+  });
+
+  test('boards are capped at the category size', () => {
+    const players = Array.from({ length: 15 }, (_, i) => player(`p${i}`, { bestReactionTime: 200 + i }));
+    expect(getCategoryLeaderboard('fastest_reaction', players).entries).toHaveLength(config.LEADERBOARD_CATEGORY_SIZE);
+    expect(getCategoryLeaderboard('fastest_reaction', players, 3).entries.map((entry) => entry.name)).toEqual(['p0', 'p1', 'p2']);
+  });
+
+  test('the longest win streak is kept after a loss', () => {
+    const streaky = issueIdentity('Streaky').identity.id;
+    const steady = issueIdentity('Steady').identity.id;
+    playRounds(streaky, [true, true, true, false, true]);
+    playRounds(steady, [true, false, true, true]);
+
+    expect(persistence.getStats()[streaky]).toMatchObject({ winStreak: 1, longestWinStreak: 3 });
+    const board = getCategoryLeaderboard('win_streak');
+    expect(board.category.title).toBe('Longest Win Streak');
+    expect(board.entries.find((entry) => entry.id === streaky)?.value).toBe(3);
+    expect(board.entries.find((entry) => entry.id === steady)?.value).toBe(2);
+  });
+
+  test('merged players keep the longer streak and the one still running', () => {
+    const older = issueIdentity('Older').identity.id;
+    const newer = issueIdentity('Newer').identity.id;
+    jest.useFakeTimers().setSystemTime(new Date('2026-06-15T10:00:00Z'));
+    playRounds(older, [true, true, true, true]);
+    jest.setSystemTime(new Date('2026-06-16T10:00:00Z'));
+    playRounds(newer, [false, true]);
+    jest.useRealTimers();
+
+    mergeIdentities(older, newer);
+    const entry = persistence.getAllTimeLeaderboard().find((stats) => stats.id === newer);
+    expect(entry).toMatchObject({ longestWinStreak: 4, winStreak: 1 });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for ad creatives and their moderation
+ */
+
+import config from '../src/config';
+import * as persistence from '../src/persistence';
+import { handleClick, startRound } from '../src/game';
+import { creativeText, findBlockedTerms, getHouseCreative, getReviewQueue, getShownAd, reviewCreative, screenCreative, setAdModeration } from '../src/moderation';
+import { regenerateResults } from '../src/replay';
+import { validateAdCreative, validateAdLogo, validateAdModerationMode } from '../src/validation';
+import { CustomSocket, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+function setupRoom(ads: Record<string, string>): Room {
+  const room = setupTestRoom('AM', Object.fromEntries(Object.entries(ads).map(([id, adContent]) => [id, testPlayer(id, { adContent })])));
+  Object.values(room.gameState.players).forEach((player) => {
+    player.adReview = screenCreative(room, player.adContent);
+  });
+  return room;
+}
+
+function playRound(room: Room, winnerId: string): void {
+  startRound(room);
+  handleClick(room, { id: winnerId, emit: jest.fn() } as unknown as CustomSocket);
+  jest.advanceTimersByTime(5000);
+}
+
+describe('Ad creatives', () => {
+  test('a creative keeps its known fields, trimmed to length', () => {
+    const creative = validateAdCreative({
+      headline: '  Best DSP  ',
+      tagline: 'x'.repeat(config.MAX_AD_TAGLINE_LENGTH + 5),
+      template: 'sunset',
+      logo: '🚀',
+      extra: true,
+    }, 'fallback');
+
+    expect(creative).toEqual({ headline: 'Best DSP', tagline: 'x'.repeat(config.MAX_AD_TAGLINE_LENGTH), template: 'sunset', logo: '🚀' });
+    expect(creativeText(creative)).toBe(`Best DSP - ${creative.tagline}`);
+  });
+
+  test('missing or unknown fields fall back', () => {
+    expect(validateAdCreative(undefined, 'Alex wins!')).toEqual({ headline: 'Alex wins!', tagline: '', template: config.DEFAULT_AD_TEMPLATE, logo: null });
+    expect(validateAdCreative({ headline: '', template: 'flashing' }, 'Plain ad').template).toBe(config.DEFAULT_AD_TEMPLATE);
+  });
+
+  test('only emoji make a logo', () => {
+    expect(validateAdLogo('🚀✨')).toBe('🚀✨');
+    expect(validateAdLogo('👩‍💻')).toBe('👩‍💻');
+    expect(validateAdLogo('🇬🇧')).toBe('🇬🇧');
+    expect(validateAdLogo('ACME')).toBeNull();
+    expect(validateAdLogo('123')).toBeNull();
+    expect(validateAdLogo('🚀'.repeat(config.MAX_AD_LOGO_LENGTH))).toBeNull();
+    expect(validateAdLogo(42)).toBeNull();
+  });
+});
+
+describe('Ad moderation', () => {
+  beforeEach(() => {
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+    jest.spyOn(persistence, 'savePlayerIdentities').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('blocklist', () => {
+    const blocklist = ['shit', 'bad word'];
+
+    test('terms are found as whole words, however they are written', () => {
+      expect(findBlockedTerms('Holy SHIT!', blocklist)).toEqual(['shit']);
+      expect(findBlockedTerms('sh1t happens', blocklist)).toEqual(['shit']);
+      expect(findBlockedTerms('a BAD   word.', blocklist)).toEqual(['bad word']);
+      expect(findBlockedTerms('Bäd wörd', blocklist)).toEqual(['bad word']);
+    });
+
+    test('words that merely contain a term pass', () => {
+      expect(findBlockedTerms('Shitake mushrooms', blocklist)).toEqual([]);
+      expect(findBlockedTerms('Best DSP in town!', blocklist)).toEqual([]);
+    });
+
+    test('only known settings are accepted', () => {
+      expect(validateAdModerationMode('all')).toBe('all');
+      expect(validateAdModerationMode('none')).toBeNull();
+    });
+  });
+
+  describe('review queue', () => {
+    test('only flagged creatives wait by default', () => {
+      const room = setupRoom({ 'am-a': 'Best DSP in town', 'am-b': 'fuck this' });
+
+      expect(room.gameState.players['am-a'].adReview?.status).toBe('approved');
+      expect(getReviewQueue(room)).toEqual([
+        { playerId: 'am-b', name: 'am-b', color: '#fff', adContent: 'fuck this', flagged: ['fuck'] },
+      ]);
+    });
+
+    test('with every creative reviewed, flagged ones come first', () => {
+      const room = setupRoom({ 'am-c': 'Hello world', 'am-d': 'shit' });
+      expect(setAdModeration(room, 'all')).toBe(2);
+      expect(getReviewQueue(room).map((item) => item.playerId)).toEqual(['am-d', 'am-c']);
+    });
+
+    test('the host decision sticks when the setting changes', () => {
+      const room = setupRoom({ 'am-e': 'Hello', 'am-f': 'Goodbye' });
+      setAdModeration(room, 'all');
+      reviewCreative(room, 'am-e', false);
+
+      expect(setAdModeration(room, 'flagged')).toBe(0);
+      expect(room.gameState.players['am-e'].adReview).toMatchObject({ status: 'rejected', byHost: true });
+      expect(room.gameState.players['am-f'].adReview).toMatchObject({ status: 'approved', byHost: false });
+      expect(room.eventLog.filter((e) => e.type === 'ad_review')).toHaveLength(4);
+      expect(reviewCreative(room, 'am-gone', true)).toBeNull();
+    });
+  });
+
+  describe('on the displays', () => {
+    beforeEach(() => jest.useFakeTimers());
+
+    test('an unapproved winner gets the house ad until the host approves', () => {
+      const room = setupRoom({ 'am-g': 'shit deals', 'am-h': 'Nice deals' });
+      playRound(room, 'am-g');
+
+      expect(room.gameState.winners[0]).toMatchObject({ id: 'am-g', adContent: config.HOUSE_AD, creative: getHouseCreative() });
+      expect(persistence.getRounds()[0].winnerAd).toBe(config.HOUSE_AD);
+
+      reviewCreative(room, 'am-g', true);
+      expect(room.gameState.winners[0].adContent).toBe('shit deals');
+      reviewCreative(room, 'am-g', false);
+      expect(room.gameState.winners[0].adContent).toBe(config.HOUSE_AD);
+    });
+
+    test('an approved winner\'s creative goes up and into the history', () => {
+      const room = setupRoom({ 'am-k': 'Fast bids' });
+      const creative = { headline: 'Fast bids', tagline: 'Always on', template: 'arcade', logo: '⚡' };
+      room.gameState.players['am-k'].creative = creative;
+      playRound(room, 'am-k');
+
+      expect(room.gameState.winners[0].creative).toEqual(creative);
+      expect(persistence.getRounds()[0].winners[0].creative).toEqual(creative);
+    });
+
+    test('players never screened are screened with the room setting', () => {
+      const room = setupRoom({ 'am-i': 'Clean ad' });
+      const player = room.gameState.players['am-i'];
+      delete player.adReview;
+
+      expect(getShownAd(room, player)).toBe('Clean ad');
+      room.gameState.adModeration = 'all';
+      expect(getShownAd(room, player)).toBe(config.HOUSE_AD);
+    });
+
+    test('a review during the round replays to the ad that was shown', () => {
+      const room = setupRoom({ 'am-j': 'Top bids only' });
+      setAdModeration(room, 'all');
+      startRound(room);
+      reviewCreative(room, 'am-j', true);
+      handleClick(room, { id: 'am-j', emit: jest.fn() } as unknown as CustomSocket);
+      jest.advanceTimersByTime(5000);
+
+      const [record] = persistence.getRounds();
+      expect(record.winnerAd).toBe('Top bids only');
+      expect(regenerateResults(record)).toMatchObject({ changed: false, winners: [{ adContent: 'Top bids only' }] });
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for the round phase pipeline
+ */
+
+import config from '../src/config';
+import * as phases from '../src/phases';
+import { calculateFinalScores } from '../src/game';
+import { createRoom } from '../src/rooms';
+import { validateFalseStartPenalty } from '../src/validation';
+import { FalseStartPenalty, Room } from '../src/types';
+import { testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function addPlayer(room: Room, id: string, clicks: number, reactionTime: number | null, falseStart = false): void {
+  room.gameState.players[id] = testPlayer(id, { clicks, reactionTime, falseStart });
+  room.gameState.auctionScores[id] = clicks;
+}
+
+describe('Phases', () => {
+  describe('registry', () => {
+    test('registers every default round phase', () => {
+      config.DEFAULT_ROUND_PHASES.forEach((id) => {
+        expect(phases.getPhase(id)).not.toBeNull();
+      });
+    });
+
+    test('catalog lists selectable phases but not results', () => {
+      const ids = phases.getPhaseCatalog().map((p) => p.id);
+      expect(ids).toEqual(expect.arrayContaining(config.DEFAULT_ROUND_PHASES));
+      expect(ids).not.toContain(phases.RESULTS_PHASE_ID);
+    });
+
+    test('rejects the waiting status as a phase id', () => {
+      expect(() => phases.registerPhase({
+        id: phases.WAITING_STATUS,
+        label: 'Nope',
+        group: 'Nope',
+        getDuration: () => null,
+      })).toThrow();
+    });
+  });
+
+  describe('resolveRoundPhases', () => {
+    test('accepts known phases and drops duplicates', () => {
+      expect(phases.resolveRoundPhases(['auction_countdown', 'auction', 'auction']))
+        .toEqual(['auction_countdown', 'auction']);
+    });
+
+    test('rejects unknown, empty or malformed input', () => {
+      expect(phases.resolveRoundPhases(['auction', 'bogus'])).toBeNull();
+      expect(phases.resolveRoundPhases([])).toBeNull();
+      expect(phases.resolveRoundPhases([phases.RESULTS_PHASE_ID])).toBeNull();
+      expect(phases.resolveRoundPhases('auction')).toBeNull();
+      expect(phases.resolveRoundPhases(undefined)).toBeNull();
+    });
+  });
+
+  describe('scoring', () => {
+    test('default round applies Fastest Finger multipliers to auction taps', () => {
+      const room = createRoom('PHS1') as Room;
+      addPlayer(room, 'slow', 10, 400);
+      addPlayer(room, 'fast', 8, 200);
+      addPlayer(room, 'none', 12, null);
+
+      const scores = calculateFinalScores(room);
+      expect(scores.map((s) => [s.id, s.finalScore])).toEqual([
+        ['fast', 16],
+        ['slow', 15],
+        ['none', 12],
+      ]);
+    });
+
+    test('auction-only round scores raw taps', () => {
+      const room = createRoom('PHS2') as Room;
+      room.gameState.roundPhases = ['auction_countdown', 'auction'];
+      addPlayer(room, 'slow', 10, 400);
+      addPlayer(room, 'fast', 8, 200);
+
+      const scores = calculateFinalScores(room);
+      expect(scores.map((s) => [s.id, s.finalScore])).toEqual([
+        ['slow', 10],
+        ['fast', 8],
+      ]);
+    });
+
+    test('Fastest Finger-only round scores taps by reaction rank', () => {
+      const room = createRoom('PHS3') as Room;
+      room.gameState.roundPhases = ['fastestFinger_countdown', 'fastestFinger_tap'];
+      addPlayer(room, 'slow', 0, 400);
+      addPlayer(room, 'fast', 0, 200);
+      addPlayer(room, 'none', 0, null);
+
+      const scores = calculateFinalScores(room);
+      expect(scores.map((s) => s.id)).toEqual(['fast', 'slow', 'none']);
+      expect(scores[0].finalScore).toBeGreaterThan(0);
+      expect(scores[2].finalScore).toBe(0);
+    });
+  });
+
+  describe('false starts', () => {
+    function falseStartRoom(code: string, penalty: FalseStartPenalty): Room {
+      const room = createRoom(code) as Room;
+      room.gameState.falseStartPenalty = penalty;
+      addPlayer(room, 'jumper', 10, 100, true);
+      addPlayer(room, 'fair', 10, 300);
+      return room;
+    }
+
+    test('disqualify: no multiplier and the next player moves up', () => {
+      const scores = calculateFinalScores(falseStartRoom('FS1', 'disqualify'));
+      expect(scores.map((s) => [s.id, s.finalScore, s.multiplier])).toEqual([
+        ['fair', 20, 2],
+        ['jumper', 10, 1],
+      ]);
+      expect(scores[1].falseStart).toBe(true);
+    });
+
+    test('add_time: reaction time is slowed before ranking', () => {
+      const scores = calculateFinalScores(falseStartRoom('FS2', 'add_time'));
+      expect(scores.map((s) => [s.id, s.reactionTime, s.finalScore])).toEqual([
+        ['fair', 300, 20],
+        ['jumper', 100 + config.FALSE_START_TIME_PENALTY_MS, 15],
+      ]);
+    });
+
+    test('deduct_score: keeps the multiplier but loses a share of the score', () => {
+      const scores = calculateFinalScores(falseStartRoom('FS3', 'deduct_score'));
+      const jumper = scores.find((s) => s.id === 'jumper');
+      expect(jumper?.multiplier).toBe(2);
+      expect(jumper?.finalScore).toBe(Math.round(20 * (1 - config.FALSE_START_SCORE_DEDUCTION_PERCENT / 100)));
+    });
+
+    test('only known penalty modes are accepted', () => {
+      expect(validateFalseStartPenalty('add_time')).toBe('add_time');
+      expect(validateFalseStartPenalty('explode')).toBeNull();
+      expect(validateFalseStartPenalty(undefined)).toBeNull();
+    });
+  });
+});
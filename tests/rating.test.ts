@@ -0,0 +1,161 @@
+/**
+ * Tests for the multi-player Elo skill rating
+ */
+
+import config from '../src/config';
+import * as persistence from '../src/persistence';
+import { handleClick, startRound } from '../src/game';
+import { issueIdentity, mergeIdentities } from '../src/identity';
+import { calculateRatingChanges, expectedScore, recordRatings } from '../src/rating';
+import { abortRound } from '../src/roundControl';
+import { validateLeaderboardSort } from '../src/validation';
+import { CustomSocket, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+let emits: Record<string, jest.Mock>;
+
+function setupRoom(names: string[]): Room {
+  emits = {};
+  const players = Object.fromEntries(names.map((id) => [id, testPlayer(id, { identityId: issueIdentity(id).identity.id })]));
+  return setupTestRoom('RT', players, (channel) => emits[channel] ?? (emits[channel] = jest.fn()));
+}
+
+function playRound(room: Room, clicks: Record<string, number>): void {
+  startRound(room);
+  Object.entries(clicks).forEach(([socketId, count]) => {
+    for (let i = 0; i < count; i++) handleClick(room, { id: socketId, emit: jest.fn() } as unknown as CustomSocket);
+  });
+  jest.advanceTimersByTime(5000);
+}
+
+function identityOf(room: Room, socketId: string): string {
+  return room.gameState.players[socketId].identityId as string;
+}
+
+describe('Skill rating', () => {
+  beforeEach(() => {
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'savePlayerIdentities').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('Elo', () => {
+    test('equal ratings expect an even result', () => {
+      expect(expectedScore(1500, 1500)).toBe(0.5);
+      expect(expectedScore(1900, 1500)).toBeCloseTo(0.909, 3);
+      expect(expectedScore(1500, 1900) + expectedScore(1900, 1500)).toBeCloseTo(1);
+    });
+
+    test('placings move ratings by at most K, and no rating is made or lost overall', () => {
+      const changes = calculateRatingChanges([1500, 1500, 1500, 1500]);
+      expect(changes[0]).toBeCloseTo(config.RATING_K_FACTOR / 2);
+      expect(changes[3]).toBeCloseTo(-config.RATING_K_FACTOR / 2);
+      expect(changes[0]).toBeGreaterThan(changes[1]);
+      expect(changes.reduce((sum, delta) => sum + delta, 0)).toBeCloseTo(0);
+    });
+
+    test('beating a stronger player earns more than beating a weaker one', () => {
+      const [upset] = calculateRatingChanges([1400, 1600]);
+      const [expected] = calculateRatingChanges([1600, 1400]);
+      expect(upset).toBeGreaterThan(expected);
+      expect(upset).toBeLessThan(config.RATING_K_FACTOR);
+    });
+
+    test('players on the same score draw, whatever order they are listed in', () => {
+      const changes = calculateRatingChanges([1500, 1500, 1500, 1500], [9, 0, 0, 0]);
+      expect(changes[0]).toBeCloseTo(config.RATING_K_FACTOR / 2);
+      expect(changes[1]).toBeCloseTo(changes[3]);
+      expect(changes[3]).toBeCloseTo(-config.RATING_K_FACTOR / 6);
+      expect(calculateRatingChanges([1500, 1500], [0, 0])).toEqual([0, 0]);
+      expect(calculateRatingChanges([1600, 1400], [0, 0])[0]).toBeLessThan(0);
+    });
+
+    test('playing alone changes nothing', () => {
+      expect(calculateRatingChanges([1500])).toEqual([0]);
+    });
+  });
+
+  describe('after a round', () => {
+    beforeEach(() => jest.useFakeTimers());
+
+    test('ratings are kept with the stats and each player is sent theirs', () => {
+      const room = setupRoom(['rt-a', 'rt-b']);
+      playRound(room, { 'rt-a': 3, 'rt-b': 1 });
+
+      expect(persistence.getStats()[identityOf(room, 'rt-a')].rating).toBe(config.RATING_INITIAL + 16);
+      expect(persistence.getStats()[identityOf(room, 'rt-b')].rating).toBe(config.RATING_INITIAL - 16);
+      expect(emits['rt-a']).toHaveBeenCalledWith('ratingUpdate', { rating: 1516, delta: 16 });
+      expect(emits['rt-b']).toHaveBeenCalledWith('ratingUpdate', { rating: 1484, delta: -16 });
+    });
+
+    test('an aborted round takes its rating changes back', () => {
+      const room = setupRoom(['rt-c', 'rt-d']);
+      playRound(room, { 'rt-c': 3, 'rt-d': 1 });
+      playRound(room, { 'rt-c': 1, 'rt-d': 3 });
+      const afterTwo = persistence.getPlayerRating(identityOf(room, 'rt-d'));
+      playRound(room, { 'rt-c': 1, 'rt-d': 3 });
+      expect(persistence.getPlayerRating(identityOf(room, 'rt-d'))).toBeGreaterThan(afterTwo);
+
+      abortRound(room);
+      expect(persistence.getPlayerRating(identityOf(room, 'rt-d'))).toBe(afterTwo);
+    });
+
+    test('a player on two devices is only rated once', () => {
+      const room = setupRoom(['rt-e', 'rt-f']);
+      playRound(room, { 'rt-e': 1 });
+      const id = identityOf(room, 'rt-e');
+      expect(Object.keys(recordRatings([id, id], [2, 1]))).toEqual([id]);
+      expect(persistence.getPlayerRating(id)).toBe(config.RATING_INITIAL + 16);
+    });
+  });
+
+  describe('leaderboard', () => {
+    beforeEach(() => jest.useFakeTimers());
+
+    test('can rank by rating instead of wins', () => {
+      const room = setupRoom(['rt-g', 'rt-h', 'rt-i']);
+      const [g, h] = [identityOf(room, 'rt-g'), identityOf(room, 'rt-h')];
+      persistence.updatePlayerStats(g, 0, null, 0, 0);
+      persistence.updatePlayerStats(h, 0, null, 0, null);
+      persistence.adjustPlayerRating(g, -900);
+      persistence.adjustPlayerRating(h, 900);
+
+      const byRating = persistence.getAllTimeLeaderboard('rating');
+      expect(byRating[0]).toMatchObject({ id: h, rating: config.RATING_INITIAL + 900 });
+      expect(byRating.findIndex((entry) => entry.id === h)).toBeLessThan(byRating.findIndex((entry) => entry.id === g));
+      expect(persistence.getAllTimeLeaderboard()[0].wins).toBeGreaterThan(0);
+      expect(validateLeaderboardSort('rating')).toBe('rating');
+      expect(validateLeaderboardSort('clicks')).toBeNull();
+    });
+
+    test('merged players show the rating weighted by rounds played', () => {
+      const room = setupRoom(['rt-j', 'rt-k']);
+      const [j, k] = [identityOf(room, 'rt-j'), identityOf(room, 'rt-k')];
+      persistence.updatePlayerStats(j, 0, null, 0, null);
+      [1, 2, 3].forEach(() => persistence.updatePlayerStats(k, 0, null, 0, null));
+      persistence.adjustPlayerRating(j, 400);
+
+      mergeIdentities(j, k);
+      expect(persistence.getAllTimeLeaderboard().find((entry) => entry.id === k)?.rating).toBe(config.RATING_INITIAL + 100);
+    });
+  });
+});
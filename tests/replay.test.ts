@@ -0,0 +1,226 @@
+/**
+ * Tests for rebuilding rounds from their event log
+ */
+
+import * as botDetection from '../src/botDetection';
+import * as clockSync from '../src/clockSync';
+import * as persistence from '../src/persistence';
+import { handleClick, startRound } from '../src/game';
+import { getPhase } from '../src/phases';
+import { createReplay, isReplayPlaying, regenerateResults, replayRound, replayUntil, startReplayPlayback } from '../src/replay';
+import { pauseRound, resumeRound } from '../src/roundControl';
+import { CustomSocket, GameEvent, Room, RoundRecord } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+const START = 2_000_000;
+let emit: jest.Mock;
+
+function setupRoom(playerIds: string[], phases: string[]): Room {
+  emit = jest.fn();
+  const room = setupTestRoom('RP', Object.fromEntries(playerIds.map((id) => [id, testPlayer(id, { adContent: `${id} ad` })])), () => emit);
+  room.gameState.roundPhases = phases;
+  return room;
+}
+
+function click(room: Room, id: string, data?: unknown): void {
+  handleClick(room, { id, emit: jest.fn() } as unknown as CustomSocket, data);
+}
+
+function lastRecord(): RoundRecord {
+  return persistence.getRounds()[0];
+}
+
+function eventsOf(record: RoundRecord): GameEvent[] {
+  return persistence.getEventLog(record.id)?.events ?? [];
+}
+
+describe('Round replay', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(START);
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('rebuilding state', () => {
+    test('a Click Auction replays to the results that were recorded', () => {
+      const room = setupRoom(['rp-a', 'rp-b'], ['auction']);
+      startRound(room);
+      click(room, 'rp-a');
+      jest.advanceTimersByTime(400);
+      click(room, 'rp-b');
+      click(room, 'rp-a');
+      jest.advanceTimersByTime(5000);
+
+      const record = lastRecord();
+      const state = replayRound(eventsOf(record), room.code);
+      expect(state?.status).toBe('finished');
+      expect(state?.finalLeaderboard).toEqual(record.finalLeaderboard);
+      expect(regenerateResults(record)).toMatchObject({ id: record.id, changed: false, clearing: record.clearing });
+    });
+
+    test('the state part-way through the round is rebuilt at any time', () => {
+      const room = setupRoom(['rp-c'], ['auction']);
+      startRound(room);
+      click(room, 'rp-c');
+      jest.advanceTimersByTime(2500);
+      click(room, 'rp-c');
+      jest.advanceTimersByTime(2500);
+
+      const replay = createReplay(eventsOf(lastRecord()), room.code);
+      expect(replay).not.toBeNull();
+      const midway = replayUntil(replay!, START + 1000);
+      expect(midway.status).toBe('auction');
+      expect(midway.players['rp-c'].clicks).toBe(1);
+      expect(midway.timeRemaining).toBe(4);
+      expect(replayUntil(replay!, START + 3000).players['rp-c'].clicks).toBe(2);
+    });
+
+    test('bot detection is rebuilt from the logged click times', () => {
+      const room = setupRoom(['rp-bot'], ['auction']);
+      startRound(room);
+      for (let i = 0; i < 12; i++) {
+        click(room, 'rp-bot');
+        jest.advanceTimersByTime(100);
+      }
+      jest.advanceTimersByTime(5000);
+      expect(lastRecord().finalLeaderboard[0].suspicious).toBe(true);
+
+      botDetection.resetBotDetectionData('rp-bot');
+      const state = replayRound(eventsOf(lastRecord()), room.code);
+      expect(state?.players['rp-bot'].suspicious).toBe(true);
+      expect(regenerateResults(lastRecord())?.changed).toBe(false);
+    });
+
+    test('Fastest Finger taps keep the latency compensation they had live', () => {
+      const room = setupRoom(['rp-ff'], ['fastestFinger_countdown', 'fastestFinger_tap']);
+      room.gameState.fastestFingerVariant = 'classic';
+      [0, 200].forEach((sentAt) => {
+        clockSync.createPing('rp-ff', START + sentAt);
+        clockSync.recordPong('rp-ff', { serverSentAt: START + sentAt, clientTime: START + sentAt + 50 }, START + sentAt + 100);
+      });
+
+      startRound(room);
+      jest.advanceTimersByTime(3000); // The signal shows as the tap phase starts
+      jest.advanceTimersByTime(300);
+      click(room, 'rp-ff', { tapAt: START + 3220 });
+      expect(room.gameState.status).toBe('finished'); // Everyone answered
+
+      const record = lastRecord();
+      expect(record.finalLeaderboard[0].reactionTime).toBe(200);
+
+      // The estimate is gone by the time anyone replays the round
+      clockSync.resetClockData('rp-ff');
+      const state = replayRound(eventsOf(record), room.code);
+      expect(state?.players['rp-ff'].reactionTime).toBe(200);
+      expect(regenerateResults(record)?.changed).toBe(false);
+    });
+
+    test('a paused Dutch auction replays to the same claim', () => {
+      const room = setupRoom(['rp-d1', 'rp-d2'], ['dutch']);
+      room.gameState.dutchCeiling = 100;
+      startRound(room);
+      jest.advanceTimersByTime(2000);
+      pauseRound(room);
+      jest.advanceTimersByTime(5000);
+      resumeRound(room);
+      jest.advanceTimersByTime(1000);
+      click(room, 'rp-d2');
+      jest.advanceTimersByTime(100);
+      click(room, 'rp-d1');
+      jest.advanceTimersByTime(300);
+      expect(room.gameState.status).toBe('finished');
+
+      const claim = room.gameState.dutch?.claim;
+      expect(claim).toMatchObject({ playerId: 'rp-d2', elapsedMs: 3000 });
+      const state = replayRound(eventsOf(lastRecord()), room.code);
+      expect(state?.dutch?.claim).toEqual(claim);
+      expect(regenerateResults(lastRecord())?.changed).toBe(false);
+    });
+
+    test('results are rescored with the rules the server runs now', () => {
+      const auction = getPhase('auction')!;
+      const fixedScoring = auction.applyScore;
+      const room = setupRoom(['rp-e', 'rp-f'], ['auction']);
+
+      // A scoring bug: every bid is worth one point
+      auction.applyScore = (_room, entries) => entries.map((entry) => ({ ...entry, finalScore: entry.finalScore + 1 }));
+      try {
+        startRound(room);
+        click(room, 'rp-f');
+        click(room, 'rp-f');
+        click(room, 'rp-e');
+        jest.advanceTimersByTime(5000);
+      } finally {
+        auction.applyScore = fixedScoring;
+      }
+
+      const results = regenerateResults(lastRecord());
+      expect(results?.changed).toBe(true);
+      expect(results?.finalLeaderboard.map((entry) => [entry.name, entry.finalScore])).toEqual([['rp-f', 2], ['rp-e', 1]]);
+      expect(results?.winners[0].name).toBe('rp-f');
+    });
+
+    test('only a log that starts a round can be replayed', () => {
+      const room = setupRoom(['rp-g'], ['auction']);
+      startRound(room);
+      jest.advanceTimersByTime(5000);
+
+      expect(createReplay(eventsOf(lastRecord()).slice(1), room.code)).toBeNull();
+      expect(replayRound([], room.code)).toBeNull();
+    });
+  });
+
+  describe('playback on the displays', () => {
+    test('frames follow the round, then the displays go back to live', () => {
+      const room = setupRoom(['rp-h'], ['auction']);
+      startRound(room);
+      click(room, 'rp-h');
+      jest.advanceTimersByTime(5000);
+      const record = lastRecord();
+
+      emit.mockClear();
+      expect(startReplayPlayback(room, record, eventsOf(record))).toBe(true);
+      expect(isReplayPlaying(room)).toBe(true);
+      expect(emit).toHaveBeenCalledWith('replayStarted', { roundId: record.id, round: record.round });
+      expect(emit).toHaveBeenCalledWith('replayFrame', expect.objectContaining({ status: 'auction' }));
+
+      jest.advanceTimersByTime(5000);
+      expect(emit).toHaveBeenCalledWith('replayFrame', expect.objectContaining({ status: 'finished' }));
+      jest.advanceTimersByTime(10000);
+      expect(emit).toHaveBeenCalledWith('replayEnded', { roundId: record.id });
+      expect(isReplayPlaying(room)).toBe(false);
+    });
+
+    test('starting a round stops the playback', () => {
+      const room = setupRoom(['rp-i'], ['auction']);
+      startRound(room);
+      jest.advanceTimersByTime(5000);
+      const record = lastRecord();
+
+      startReplayPlayback(room, record, eventsOf(record));
+      startRound(room);
+      expect(isReplayPlaying(room)).toBe(false);
+      expect(emit).toHaveBeenCalledWith('replayEnded', { roundId: record.id });
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for the CSV & JSON results export
+ */
+
+import * as persistence from '../src/persistence';
+import { handleClick, startRound } from '../src/game';
+import { issueIdentity } from '../src/identity';
+import { runNewGame } from '../src/socket';
+import { startTeams } from '../src/teams';
+import { buildExport, exportAllTimeStats, exportRoundHistory, exportRoundResults, formatExport, toCsv } from '../src/resultsExport';
+import { validateExportDataset, validateExportFormat } from '../src/validation';
+import { CustomSocket, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+function setupRoom(names: string[]): Room {
+  return setupTestRoom('EX', Object.fromEntries(names.map((id) => [id, testPlayer(id, { identityId: issueIdentity(id).identity.id })])));
+}
+
+function playRound(room: Room, clicks: Record<string, number>): void {
+  startRound(room);
+  Object.entries(clicks).forEach(([socketId, count]) => {
+    for (let i = 0; i < count; i++) handleClick(room, { id: socketId, emit: jest.fn() } as unknown as CustomSocket);
+  });
+  jest.advanceTimersByTime(5000);
+}
+
+describe('Results export', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'savePlayerIdentities').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('the latest round exports in finishing order with the slot won', () => {
+    const room = setupRoom(['ex-a', 'ex-b']);
+    expect(exportRoundResults(room)).toBeNull();
+    playRound(room, { 'ex-a': 1, 'ex-b': 3 });
+
+    const table = exportRoundResults(room);
+    expect(table?.columns.slice(0, 3)).toEqual(['rank', 'playerId', 'name']);
+    expect(table?.rows.map((row) => [row.rank, row.name, row.auctionTaps, row.slot])).toEqual([
+      [1, 'ex-b', 3, 'Premium Billboard'],
+      [2, 'ex-a', 1, null],
+    ]);
+    expect(table?.rows[0].playerId).toBe(room.gameState.players['ex-b'].identityId);
+  });
+
+  test('once the lobby opens again the latest round still exports', () => {
+    const room = setupRoom(['ex-h', 'ex-i']);
+    playRound(room, { 'ex-h': 2, 'ex-i': 1 });
+    runNewGame(room);
+
+    expect(room.gameState.finalLeaderboard).toEqual([]);
+    expect(exportRoundResults(room)?.rows.map((row) => [row.rank, row.name, row.slot])).toEqual([
+      [1, 'ex-h', 'Premium Billboard'],
+      [2, 'ex-i', null],
+    ]);
+  });
+
+  test('the team column names the team', () => {
+    const room = setupRoom(['ex-j', 'ex-k']);
+    const { teams } = startTeams(room, 'round_robin', 2);
+    playRound(room, { 'ex-j': 2, 'ex-k': 1 });
+    const teamOf = (id: string) => teams.find((team) => team.id === room.gameState.players[id].teamId)?.name;
+
+    expect(exportRoundResults(room)?.rows.map((row) => [row.name, row.team])).toEqual([['ex-j', teamOf('ex-j')], ['ex-k', teamOf('ex-k')]]);
+    runNewGame(room);
+    expect(exportRoundResults(room)?.rows.map((row) => row.team)).toEqual([teamOf('ex-j'), teamOf('ex-k')]);
+    expect(exportRoundHistory().rows.filter((row) => row.room === room.code).map((row) => row.team)).toEqual([teamOf('ex-j'), teamOf('ex-k')]);
+  });
+
+  test('CSV and JSON keep the same column order', () => {
+    const room = setupRoom(['ex-c']);
+    playRound(room, { 'ex-c': 2 });
+    const table = buildExport('results', room)!;
+
+    const [header, first] = formatExport(table, 'csv').split('\r\n');
+    expect(header.split(',')).toEqual(table.columns);
+    expect(first.startsWith('1,')).toBe(true);
+    const [row] = JSON.parse(formatExport(table, 'json'));
+    expect(Object.keys(row)).toEqual(table.columns);
+    expect(row).toMatchObject({ rank: 1, name: 'ex-c', falseStart: false, team: null });
+  });
+
+  test('CSV cells are quoted, and formulas in names defused', () => {
+    const csv = toCsv({
+      columns: ['name', 'score', 'note'],
+      rows: [
+        { name: 'Smith, "Ace"', score: 3, note: null },
+        { name: '=HYPERLINK("x")', score: -1, note: 'line\nbreak' },
+      ],
+    });
+    expect(csv).toBe('name,score,note\r\n"Smith, ""Ace""",3,\r\n"\'=HYPERLINK(""x"")",-1,"line\nbreak"\r\n');
+  });
+
+  test('all-time stats list every player id with its stats', () => {
+    const room = setupRoom(['ex-d', 'ex-e']);
+    playRound(room, { 'ex-d': 4, 'ex-e': 1 });
+    const table = exportAllTimeStats();
+    const id = room.gameState.players['ex-d'].identityId;
+    expect(table.columns[0]).toBe('playerId');
+    expect(table.rows.find((row) => row.playerId === id)).toMatchObject({
+      name: 'ex-d',
+      shownAs: id,
+      wins: 1,
+      roundsPlayed: 1,
+      totalAuctionTaps: 4,
+      longestWinStreak: 1,
+    });
+    expect(table.rows.length).toBe(Object.keys(persistence.getStats()).length);
+  });
+
+  test('the round history exports every round oldest first, one row per player', () => {
+    const room = setupRoom(['ex-f', 'ex-g']);
+    playRound(room, { 'ex-f': 2, 'ex-g': 1 });
+    playRound(room, { 'ex-f': 1, 'ex-g': 2 });
+
+    const rows = exportRoundHistory().rows.filter((row) => row.room === room.code);
+    expect(rows.map((row) => [row.round, row.rank, row.name])).toEqual([
+      [1, 1, 'ex-f'],
+      [1, 2, 'ex-g'],
+      [2, 1, 'ex-g'],
+      [2, 2, 'ex-f'],
+    ]);
+    expect(Object.keys(rows[0]).slice(0, 4)).toEqual(['roundId', 'room', 'round', 'finishedAt']);
+  });
+
+  test('datasets and formats are validated', () => {
+    expect(validateExportDataset('rounds')).toBe('rounds');
+    expect(validateExportDataset('passwords')).toBeNull();
+    expect(validateExportFormat('json')).toBe('json');
+    expect(validateExportFormat('xlsx')).toBe('csv');
+    expect(validateExportFormat(undefined)).toBe('csv');
+  });
+});
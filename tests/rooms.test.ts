@@ -0,0 +1,107 @@
+/**
+ * Tests for rooms module
+ */
+
+import config from '../src/config';
+import * as rooms from '../src/rooms';
+import { Room } from '../src/types';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe('Rooms', () => {
+  describe('generateRoomCode', () => {
+    test('generates codes of the configured length without ambiguous characters', () => {
+      for (let i = 0; i < 50; i++) {
+        const code = rooms.generateRoomCode();
+        expect(code).toHaveLength(config.ROOM_CODE_LENGTH);
+        expect(code).toMatch(/^[A-HJKMNP-Z2-9]+$/);
+      }
+    });
+  });
+
+  describe('createRoom', () => {
+    test('creates a room with its own game state and timers', () => {
+      const a = rooms.createRoom() as Room;
+      const b = rooms.createRoom() as Room;
+
+      expect(a.code).not.toBe(b.code);
+      expect(a.gameState).not.toBe(b.gameState);
+      expect(a.gameState.status).toBe('waiting');
+      expect(a.timers.phaseInterval).toBeNull();
+      expect(a.gameState.roundPhases).toEqual(config.DEFAULT_ROUND_PHASES);
+      expect(a.hostSocketIds.size).toBe(0);
+
+      a.gameState.round = 3;
+      expect(b.gameState.round).toBe(0);
+    });
+
+    test('returns the existing room for a taken code', () => {
+      const room = rooms.createRoom('SAME');
+      expect(rooms.createRoom('SAME')).toBe(room);
+    });
+  });
+
+  describe('resolveRoom', () => {
+    test('missing code resolves to the default room', () => {
+      const room = rooms.resolveRoom(undefined);
+      expect(room?.code).toBe(config.DEFAULT_ROOM_CODE);
+      expect(rooms.resolveRoom('')).toBe(room);
+    });
+
+    test('codes are case-insensitive', () => {
+      const room = rooms.createRoom('ABCD');
+      expect(rooms.resolveRoom('abcd')).toBe(room);
+      expect(rooms.resolveRoom(' AbCd ')).toBe(room);
+    });
+
+    test('unknown or malformed codes resolve to null', () => {
+      expect(rooms.resolveRoom('NOPE99')).toBeNull();
+      expect(rooms.resolveRoom('<script>')).toBeNull();
+      expect(rooms.resolveRoom({ code: 'ABCD' })).toBeNull();
+    });
+  });
+
+  describe('cleanupIdleRooms', () => {
+    test('removes empty idle rooms but keeps the default room', () => {
+      const defaultRoom = rooms.getDefaultRoom();
+      const idle = rooms.createRoom('IDLE') as Room;
+      const busy = rooms.createRoom('BUSY') as Room;
+      const longAgo = Date.now() - config.ROOM_IDLE_TIMEOUT_MS - 1000;
+      defaultRoom.lastActivityAt = longAgo;
+      idle.lastActivityAt = longAgo;
+      busy.lastActivityAt = longAgo;
+      busy.hostSocketIds.add('host-socket');
+
+      rooms.cleanupIdleRooms();
+
+      expect(rooms.getRoom('IDLE')).toBeNull();
+      expect(rooms.getRoom('BUSY')).toBe(busy);
+      expect(rooms.getRoom(config.DEFAULT_ROOM_CODE)).toBe(defaultRoom);
+    });
+
+    test('keeps an empty room while its tournament is running', () => {
+      const room = rooms.createRoom('CUPS') as Room;
+      room.lastActivityAt = Date.now() - config.ROOM_IDLE_TIMEOUT_MS - 1000;
+      room.gameState.tournament = {
+        id: 'CUPS-1', roomCode: 'CUPS', eliminatePercent: 50, startedAt: new Date().toISOString(), endedAt: null,
+        entrants: ['a', 'b'], alive: ['a', 'b'], names: { a: 'A', b: 'B' }, rounds: [], champion: null,
+      };
+
+      rooms.cleanupIdleRooms();
+      expect(rooms.getRoom('CUPS')).toBe(room);
+
+      room.gameState.tournament.endedAt = new Date().toISOString();
+      rooms.cleanupIdleRooms();
+      expect(rooms.getRoom('CUPS')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for pausing, resuming and aborting a round
+ */
+
+import * as persistence from '../src/persistence';
+import * as fastestFinger from '../src/fastestFinger';
+import * as tournament from '../src/tournament';
+import { resumeDutchAuction } from '../src/dutchAuction';
+import { handleClick, startRound } from '../src/game';
+import { abortRound, isPaused, pauseRound, resumeRound } from '../src/roundControl';
+import { CustomSocket, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+const START = 1_000_000;
+function setupRoom(playerIds: string[]): Room {
+  const room = setupTestRoom('RC', Object.fromEntries(playerIds.map((id) => [id, testPlayer(id, { identityId: id })])));
+  room.gameState.auctionDuration = 10;
+  return room;
+}
+
+function socketFor(id: string): CustomSocket {
+  return { id, emit: jest.fn() } as unknown as CustomSocket;
+}
+
+describe('Round control', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(START);
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveTournaments').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('pause', () => {
+    test('freezes the clock where it stopped', () => {
+      const room = setupRoom(['rc-p1']);
+      startRound(room);
+      jest.advanceTimersByTime(3000);
+
+      expect(pauseRound(room)).toBe(true);
+      expect(isPaused(room)).toBe(true);
+      expect(room.gameState.pause?.remainingMs).toBe(7000);
+      expect(room.gameState.timeRemaining).toBe(7);
+      expect(room.gameState.endsAt).toBeNull();
+
+      jest.advanceTimersByTime(60000);
+      expect(room.gameState.status).toBe('auction');
+      expect(pauseRound(room)).toBe(false);
+    });
+
+    test('clicks are rejected while paused', () => {
+      const room = setupRoom(['rc-p2']);
+      startRound(room);
+      pauseRound(room);
+
+      handleClick(room, socketFor('rc-p2'));
+      expect(room.gameState.players['rc-p2'].clicks).toBe(0);
+
+      resumeRound(room);
+      handleClick(room, socketFor('rc-p2'));
+      expect(room.gameState.players['rc-p2'].clicks).toBe(1);
+    });
+
+    test('nothing to pause between rounds', () => {
+      const room = setupRoom(['rc-p3']);
+      expect(pauseRound(room)).toBe(false);
+      expect(resumeRound(room)).toBe(false);
+    });
+  });
+
+  describe('resume', () => {
+    test('the phase runs for what was left of it', () => {
+      const room = setupRoom(['rc-r1']);
+      startRound(room);
+      jest.advanceTimersByTime(4000);
+      pauseRound(room);
+      jest.advanceTimersByTime(30000);
+
+      expect(resumeRound(room)).toBe(true);
+      expect(room.gameState.endsAt).toBe(Date.now() + 6000);
+      jest.advanceTimersByTime(5999);
+      expect(room.gameState.status).toBe('auction');
+      jest.advanceTimersByTime(1);
+      expect(room.gameState.status).toBe('finished');
+    });
+
+    test('the Dutch price picks up where it stopped', () => {
+      const room = setupRoom(['rc-r2']);
+      room.gameState.dutch = { ceiling: 100, floor: 0, startedAt: START, durationMs: 10000, stepMs: 250, taps: [], claim: null };
+
+      resumeDutchAuction(room, 5000, jest.fn());
+      expect(room.gameState.dutch.startedAt).toBe(START + 5000);
+    });
+
+    test('Fastest Finger signals carry on from the pause', () => {
+      const room = setupRoom(['rc-r3']);
+      room.gameState.fastestFingerVariant = 'best_of_three';
+      fastestFinger.startSignals(room, jest.fn(), Date.now());
+      const [first, second] = room.gameState.fastestFinger?.signals || [];
+
+      // Paused halfway through the first signal
+      jest.advanceTimersByTime(first.at + 100);
+      room.timers.signalTasks.forEach((task) => task.cancel());
+      fastestFinger.pauseSignals(room);
+      expect(fastestFinger.getFastestFingerView(room).signal).toBeNull();
+
+      jest.advanceTimersByTime(60000);
+      fastestFinger.resumeSignals(room, first.at + 100, jest.fn());
+      expect(fastestFinger.getFastestFingerView(room).signal?.attempt).toBe(1);
+      expect(first.sentAt).toBe(Date.now());
+
+      jest.advanceTimersByTime(first.visibleMs - 100);
+      expect(fastestFinger.getFastestFingerView(room).signal).toBeNull();
+      jest.advanceTimersByTime(second.at - first.at - first.visibleMs);
+      expect(fastestFinger.getFastestFingerView(room).signal?.attempt).toBe(2);
+    });
+  });
+
+  describe('abort', () => {
+    test('a finished round leaves no trace in the all-time stats', () => {
+      const room = setupRoom(['rc-a1', 'rc-a2']);
+      startRound(room);
+      handleClick(room, socketFor('rc-a1'));
+      jest.advanceTimersByTime(10000);
+      expect(persistence.getStats()['rc-a1']?.totalClicks).toBe(1);
+
+      expect(abortRound(room)).toBe(true);
+      expect(persistence.getStats()['rc-a1']).toBeUndefined();
+      expect(persistence.getStats()['rc-a2']).toBeUndefined();
+      expect(room.gameState.status).toBe('waiting');
+      expect(room.gameState.round).toBe(0);
+    });
+
+    test('an earlier round is kept as it was', () => {
+      const room = setupRoom(['rc-a3']);
+      startRound(room);
+      handleClick(room, socketFor('rc-a3'));
+      jest.advanceTimersByTime(10000);
+      const before = { ...persistence.getStats()['rc-a3'] };
+
+      startRound(room);
+      jest.advanceTimersByTime(2000);
+      abortRound(room);
+
+      expect(persistence.getStats()['rc-a3']).toEqual(before);
+      expect(room.gameState.round).toBe(1);
+      expect(abortRound(room)).toBe(false);
+    });
+
+    test('nobody is knocked out by an aborted tournament round', () => {
+      const room = setupRoom(['rc-t1', 'rc-t2']);
+      const running = tournament.startTournament(room, 50);
+      startRound(room);
+      jest.advanceTimersByTime(10000);
+      expect(running.champion).not.toBeNull();
+
+      abortRound(room);
+      expect(running.champion).toBeNull();
+      expect(running.rounds).toHaveLength(0);
+      expect(running.alive).toHaveLength(2);
+      expect(tournament.isTournamentActive(room)).toBe(true);
+      expect(persistence.getActiveTournaments()[room.code]).toBe(running);
+      expect(persistence.getTournamentHistory()).not.toContain(running);
+      tournament.endTournament(room);
+    });
+
+    test('campaign budgets spent in the round come back', () => {
+      const room = setupRoom(['rc-c1']);
+      room.gameState.campaign = { totalRounds: 3, budgetPerPlayer: 5, roundsPlayed: 0 };
+      startRound(room);
+      handleClick(room, socketFor('rc-c1'));
+      expect(room.gameState.players['rc-c1'].budgetSpent).toBe(1);
+
+      abortRound(room);
+      expect(room.gameState.players['rc-c1'].budgetSpent).toBeUndefined();
+      expect(room.gameState.campaign?.roundsPlayed).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for the round history
+ */
+
+import config from '../src/config';
+import * as persistence from '../src/persistence';
+import { handleClick, startRound } from '../src/game';
+import { abortRound } from '../src/roundControl';
+import { queryRounds, recordRound, summarizeRound } from '../src/roundHistory';
+import { validatePageLimit, validatePageOffset } from '../src/validation';
+import { CustomSocket, LeaderboardEntry, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+function setupRoom(playerIds: string[]): Room {
+  return setupTestRoom('RH', Object.fromEntries(playerIds.map((id) => [id, testPlayer(id, { adContent: `${id} ad` })])));
+}
+
+function entry(name: string, finalScore: number): LeaderboardEntry {
+  return { id: name, name, clicks: finalScore, color: '#fff', suspicious: false, reactionTime: null, finalScore };
+}
+
+function clearHistory(): void {
+  persistence.getRounds().map((record) => record.id).forEach(persistence.removeRound);
+}
+
+describe('Round history', () => {
+  beforeEach(() => {
+    clearHistory();
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('recording', () => {
+    test('a finished round is kept with its settings, leaderboard and winner', () => {
+      jest.useFakeTimers();
+      const room = setupRoom(['rh-a', 'rh-b']);
+      room.gameState.floorPrice = 1;
+      startRound(room);
+      handleClick(room, { id: 'rh-a', emit: jest.fn() } as unknown as CustomSocket);
+      jest.advanceTimersByTime(5000);
+
+      const [record] = persistence.getRounds();
+      expect(record).toMatchObject({
+        roomCode: room.code,
+        round: 1,
+        winner: 'rh-a',
+        winnerAd: 'rh-a ad',
+        settings: { phases: ['auction'], auctionDuration: 5, floorPrice: 1, adSlots: 1 },
+      });
+      expect(record.finalLeaderboard.map((e) => [e.name, e.finalScore, e.suspicious])).toEqual([
+        ['rh-a', 1, false], ['rh-b', 0, false],
+      ]);
+      expect(record.winners).toHaveLength(1);
+      expect(persistence.getRound(record.id)).toBe(record);
+      expect(persistence.saveRounds).toHaveBeenCalled();
+    });
+
+    test('a round with no bid over the floor has no winner', () => {
+      const room = setupRoom(['rh-c']);
+      const record = recordRound(room, [entry('rh-c', 0)]);
+
+      expect(record.winner).toBeNull();
+      expect(record.winnerAd).toBeNull();
+      expect(summarizeRound(record)).toMatchObject({ players: 1, winner: null, winningScore: null });
+    });
+
+    test('an aborted round is dropped from the history', () => {
+      jest.useFakeTimers();
+      const room = setupRoom(['rh-d']);
+      startRound(room);
+      jest.advanceTimersByTime(5000);
+      expect(persistence.getRounds()).toHaveLength(1);
+
+      abortRound(room);
+      expect(persistence.getRounds()).toHaveLength(0);
+    });
+
+    test('only the newest rounds are kept', () => {
+      const room = setupRoom(['rh-e']);
+      for (let i = 0; i < config.MAX_ROUND_HISTORY + 3; i++) {
+        room.gameState.round = i + 1;
+        recordRound(room, [entry('rh-e', i)], 1000 + i);
+      }
+
+      expect(persistence.getRounds()).toHaveLength(config.MAX_ROUND_HISTORY);
+      expect(persistence.getRounds()[0].round).toBe(config.MAX_ROUND_HISTORY + 3);
+    });
+  });
+
+  describe('queries', () => {
+    test('pages through the newest rounds first', () => {
+      const room = setupRoom(['rh-f']);
+      for (let round = 1; round <= 5; round++) {
+        room.gameState.round = round;
+        recordRound(room, [entry('rh-f', round)], 1000 + round);
+      }
+
+      const page = queryRounds(null, 1, 2);
+      expect(page.total).toBe(5);
+      expect(page.rounds.map((r) => r.round)).toEqual([4, 3]);
+      expect(queryRounds(null, 4, 2).rounds.map((r) => r.round)).toEqual([1]);
+    });
+
+    test('can be narrowed to one room', () => {
+      const one = setupRoom(['rh-g']);
+      const two = setupRoom(['rh-h']);
+      recordRound(one, [entry('rh-g', 1)]);
+      recordRound(two, [entry('rh-h', 1)]);
+
+      const page = queryRounds(two.code, 0, 10);
+      expect(page.total).toBe(1);
+      expect(page.rounds[0].roomCode).toBe(two.code);
+    });
+
+    test('page size and offset are clamped', () => {
+      expect(validatePageLimit(undefined)).toBe(config.DEFAULT_ROUNDS_PAGE_SIZE);
+      expect(validatePageLimit('5')).toBe(5);
+      expect(validatePageLimit(0)).toBe(1);
+      expect(validatePageLimit(10000)).toBe(config.MAX_ROUNDS_PAGE_SIZE);
+      expect(validatePageOffset('-3')).toBe(0);
+      expect(validatePageOffset('7.9')).toBe(7);
+    });
+  });
+});
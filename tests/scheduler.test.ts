@@ -0,0 +1,74 @@
+/**
+ * Tests for the deadline scheduler
+ */
+
+import { getRemainingSeconds, scheduleAt } from '../src/scheduler';
+
+describe('Scheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('scheduleAt', () => {
+    test('runs the callback once the deadline is reached', () => {
+      const callback = jest.fn();
+      scheduleAt(Date.now() + 5000, callback);
+
+      jest.advanceTimersByTime(4999);
+      expect(callback).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test('re-arms when the timer fires before the deadline', () => {
+      const callback = jest.fn();
+      let clock = 0;
+      scheduleAt(1000, callback, () => clock);
+
+      // Timer fires at 1000ms of timer time, but the clock lags behind
+      clock = 900;
+      jest.advanceTimersByTime(1000);
+      expect(callback).not.toHaveBeenCalled();
+
+      clock = 1000;
+      jest.advanceTimersByTime(100);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test('past deadlines run on the next timer turn', () => {
+      const callback = jest.fn();
+      scheduleAt(Date.now() - 1000, callback);
+
+      expect(callback).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(0);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test('cancelled tasks never run', () => {
+      const callback = jest.fn();
+      const task = scheduleAt(Date.now() + 1000, callback);
+
+      task.cancel();
+      jest.advanceTimersByTime(2000);
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRemainingSeconds', () => {
+    test('rounds partial seconds up', () => {
+      expect(getRemainingSeconds(10500, 10000)).toBe(1);
+      expect(getRemainingSeconds(12000, 10000)).toBe(2);
+      expect(getRemainingSeconds(12001, 10000)).toBe(3);
+    });
+
+    test('never goes below zero', () => {
+      expect(getRemainingSeconds(10000, 10000)).toBe(0);
+      expect(getRemainingSeconds(9000, 10000)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for seasons and the hall of fame
+ */
+
+import fs from 'fs';
+import * as persistence from '../src/persistence';
+import { handleClick, startRound } from '../src/game';
+import { issueIdentity } from '../src/identity';
+import { abortRound } from '../src/roundControl';
+import { getHallOfFame, getSeasonStandings, startSeason } from '../src/seasons';
+import { validateSeasonName } from '../src/validation';
+import { CustomSocket, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    gameEvent: jest.fn(),
+  },
+}));
+
+function setupRoom(names: string[]): Room {
+  return setupTestRoom('SN', Object.fromEntries(names.map((id) => [id, testPlayer(id, { identityId: issueIdentity(id).identity.id })])));
+}
+
+function playRound(room: Room, winnerId: string): void {
+  startRound(room);
+  handleClick(room, { id: winnerId, emit: jest.fn() } as unknown as CustomSocket);
+  jest.advanceTimersByTime(5000);
+}
+
+describe('Seasons', () => {
+  let writeFileSync: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(persistence, 'saveScores').mockResolvedValue();
+    jest.spyOn(persistence, 'saveRounds').mockResolvedValue();
+    jest.spyOn(persistence, 'saveEventLogs').mockResolvedValue();
+    jest.spyOn(persistence, 'savePlayerIdentities').mockResolvedValue();
+    jest.spyOn(persistence, 'saveAchievements').mockResolvedValue();
+    writeFileSync = jest.spyOn(fs, 'writeFileSync').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('starting a season archives the leaderboard and starts from empty stats', async () => {
+    const room = setupRoom(['sn-a', 'sn-b']);
+    playRound(room, 'sn-a');
+    const before = persistence.getCurrentSeason();
+    const frozen = persistence.getAllTimeLeaderboard();
+
+    const closed = await startSeason('  Cannes 2026 Day 2  ', Date.UTC(2026, 5, 16));
+    expect(closed).toMatchObject({ id: before.id, name: before.name, endedAt: '2026-06-16T00:00:00.000Z', leaderboard: frozen });
+    expect(persistence.getCurrentSeason()).toMatchObject({ name: 'Cannes 2026 Day 2', startedAt: '2026-06-16T00:00:00.000Z' });
+    expect(persistence.getStats()).toEqual({});
+    expect(persistence.getAllTimeLeaderboard()).toEqual([]);
+    expect(writeFileSync).toHaveBeenCalledWith(expect.stringMatching(/scores\.json$/), '{}');
+    expect(writeFileSync).toHaveBeenCalledWith(expect.stringMatching(/seasons\.json$/), expect.stringContaining('Cannes 2026 Day 2'));
+
+    playRound(room, 'sn-b');
+    const winnerId = room.gameState.players['sn-b'].identityId;
+    expect(persistence.getAllTimeLeaderboard()).toHaveLength(2);
+    expect(persistence.getAllTimeLeaderboard()[0]).toMatchObject({ id: winnerId, wins: 1 });
+    expect(getSeasonStandings(before.id)?.allTime).toEqual(frozen);
+  });
+
+  test('seasons can\'t change during a round', async () => {
+    const room = setupRoom(['sn-c']);
+    startRound(room);
+    expect(await startSeason('Too soon')).toBeNull();
+    jest.advanceTimersByTime(5000);
+    expect(await startSeason('Now')).not.toBeNull();
+  });
+
+  test('an abort after a new season can\'t reach back into the old one', async () => {
+    const room = setupRoom(['sn-d']);
+    playRound(room, 'sn-d');
+    await startSeason('Fresh');
+
+    expect(abortRound(room)).toBe(true);
+    expect(persistence.getStats()).toEqual({});
+  });
+
+  test('standings for the current season are live, unknown seasons are null', async () => {
+    const room = setupRoom(['sn-e', 'sn-f']);
+    playRound(room, 'sn-e');
+    const standings = getSeasonStandings(null, 'rating');
+    expect(standings?.season).toMatchObject({ id: persistence.getCurrentSeason().id, endedAt: null });
+    expect(standings?.allTime).toEqual(persistence.getAllTimeLeaderboard('rating'));
+    expect(getSeasonStandings(persistence.getCurrentSeason().id)?.allTime).toEqual(persistence.getAllTimeLeaderboard());
+    expect(getSeasonStandings('season-unknown')).toBeNull();
+  });
+
+  test('the hall of fame lists each archived season\'s champions, newest first', async () => {
+    const room = setupRoom(['sn-g', 'sn-h']);
+    playRound(room, 'sn-g');
+    await startSeason('Hall Day 1');
+    playRound(room, 'sn-h');
+    await startSeason('');
+
+    const [latest, previous] = getHallOfFame(1);
+    expect(latest).toMatchObject({ name: 'Hall Day 1', players: 2, champions: [{ name: 'sn-h', wins: 1 }] });
+    expect(previous.champions).toHaveLength(1);
+    expect(persistence.getCurrentSeason().name).toBe(`Season ${persistence.getArchivedSeasons().length + 1}`);
+    expect(latest).not.toHaveProperty('leaderboard');
+  });
+
+  test('season names are trimmed and capped', () => {
+    expect(validateSeasonName('  Day 1 ')).toBe('Day 1');
+    expect(validateSeasonName('x'.repeat(100))).toHaveLength(40);
+    expect(validateSeasonName('   ')).toBeNull();
+    expect(validateSeasonName(7)).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for team mode assignment and standings
+ */
+
+import config from '../src/config';
+import * as persistence from '../src/persistence';
+import * as teams from '../src/teams';
+import { validateTableNumber, validateTeamAssignment, validateTeamCount } from '../src/validation';
+import { LeaderboardEntry, Player, Room } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+// A player joining after the room was set up
+function addPlayer(room: Room, id: string): Player {
+  room.gameState.players[id] = testPlayer(id);
+  return room.gameState.players[id];
+}
+
+function setupRoom(playerIds: string[] = []): Room {
+  return setupTestRoom('TM', Object.fromEntries(playerIds.map((id) => [id, testPlayer(id)])));
+}
+
+function entry(id: string, teamId: string | undefined, auctionScore: number, finalScore: number): LeaderboardEntry {
+  return { id, name: id, clicks: auctionScore, color: '#fff', suspicious: false, reactionTime: null, auctionScore, finalScore, teamId };
+}
+
+describe('Teams', () => {
+  describe('assignment', () => {
+    test('starting team mode deals existing players across the teams', () => {
+      const room = setupRoom(['a', 'b', 'c', 'd']);
+
+      const setup = teams.startTeams(room, 'round_robin', 2);
+
+      expect(setup.teams.map((t) => t.name)).toEqual(config.TEAM_NAMES.slice(0, 2));
+      const teamIds = Object.values(room.gameState.players).map((p) => p.teamId);
+      expect(teamIds.filter((id) => id === 'team-1')).toHaveLength(2);
+      expect(teamIds.filter((id) => id === 'team-2')).toHaveLength(2);
+    });
+
+    test('players can pick a team, or land on the smallest one', () => {
+      const room = setupRoom();
+      teams.startTeams(room, 'choose', 3);
+
+      const a = addPlayer(room, 'a');
+      expect(teams.assignTeam(room, a, { teamId: 'team-3' })?.id).toBe('team-3');
+      const b = addPlayer(room, 'b');
+      expect(teams.assignTeam(room, b, { teamId: 'nope' })?.id).toBe('team-1');
+    });
+
+    test('round-robin ignores the team players ask for', () => {
+      const room = setupRoom();
+      teams.startTeams(room, 'round_robin', 2);
+
+      const a = addPlayer(room, 'a');
+      teams.assignTeam(room, a, { teamId: 'team-2' });
+      const b = addPlayer(room, 'b');
+      teams.assignTeam(room, b, { teamId: 'team-2' });
+
+      expect([a.teamId, b.teamId]).toEqual(['team-1', 'team-2']);
+    });
+
+    test('every table is its own team', () => {
+      const room = setupRoom();
+      teams.startTeams(room, 'table', 2);
+
+      const a = addPlayer(room, 'a');
+      const b = addPlayer(room, 'b');
+      const c = addPlayer(room, 'c');
+      teams.assignTeam(room, a, { table: 4 });
+      teams.assignTeam(room, b, { table: '4' });
+      teams.assignTeam(room, c, { table: 7 });
+
+      expect(a.teamId).toBe('table-4');
+      expect(b.teamId).toBe('table-4');
+      expect(teams.getTeam(room, c.teamId)?.name).toBe('Table 7');
+      expect(room.gameState.teams?.teams).toHaveLength(2);
+    });
+
+    test('a missing table number joins the smallest table (or table 1)', () => {
+      const room = setupRoom();
+      teams.startTeams(room, 'table', 2);
+
+      const a = addPlayer(room, 'a');
+      teams.assignTeam(room, a, { table: 'front' });
+      expect(a.teamId).toBe('table-1');
+
+      const b = addPlayer(room, 'b');
+      const c = addPlayer(room, 'c');
+      teams.assignTeam(room, b, { table: 1 });
+      teams.assignTeam(room, c, { table: 2 });
+      const d = addPlayer(room, 'd');
+      teams.assignTeam(room, d);
+      expect(d.teamId).toBe('table-2');
+    });
+
+    test('nobody is assigned outside team mode', () => {
+      const room = setupRoom();
+      const a = addPlayer(room, 'a');
+
+      expect(teams.assignTeam(room, a, { teamId: 'team-1' })).toBeNull();
+      expect(a.teamId).toBeUndefined();
+    });
+
+    test('ending team mode drops every team', () => {
+      const room = setupRoom(['a', 'b']);
+      teams.startTeams(room, 'round_robin', 2);
+      teams.endTeams(room);
+
+      expect(room.gameState.teams).toBeNull();
+      expect(room.gameState.players.a.teamId).toBeUndefined();
+      expect(teams.getTeamView(room, [])).toBeNull();
+    });
+
+    test('returning players are fixed up after the teams changed', () => {
+      const room = setupRoom();
+      teams.startTeams(room, 'choose', 2);
+      const returning = addPlayer(room, 'a');
+      returning.teamId = 'team-7';
+
+      teams.ensureTeam(room, returning);
+      expect(returning.teamId).toBe('team-1');
+
+      teams.endTeams(room);
+      returning.teamId = 'team-1';
+      teams.ensureTeam(room, returning);
+      expect(returning.teamId).toBeUndefined();
+    });
+  });
+
+  describe('standings', () => {
+    test('team scores add up members\' taps and final scores', () => {
+      const room = setupRoom();
+      teams.startTeams(room, 'choose', 3);
+
+      const standings = teams.getTeamStandings(room, [
+        entry('a', 'team-1', 10, 20), // 2x multiplier
+        entry('b', 'team-2', 15, 15),
+        entry('c', 'team-2', 5, 6),
+        entry('solo', undefined, 50, 50),
+      ]);
+
+      expect(standings.map((s) => [s.id, s.members, s.taps, s.finalScore])).toEqual([
+        ['team-2', 2, 20, 21],
+        ['team-1', 1, 10, 20],
+        ['team-3', 0, 0, 0],
+      ]);
+    });
+
+    test('more taps break a tie', () => {
+      const room = setupRoom();
+      teams.startTeams(room, 'choose', 2);
+
+      const standings = teams.getTeamStandings(room, [entry('a', 'team-1', 10, 20), entry('b', 'team-2', 12, 20)]);
+
+      expect(standings[0].id).toBe('team-2');
+    });
+  });
+
+  describe('all-time team stats', () => {
+    test('wins and totals are kept per team name', () => {
+      persistence.updateTeamStats('Stats Agency', 30, 45, true);
+      persistence.updateTeamStats('Stats Agency', 10, 12, false);
+      persistence.updateTeamStats('Other Agency', 50, 60, false);
+
+      expect(persistence.getTeamStats()['Stats Agency']).toMatchObject({
+        wins: 1, roundsPlayed: 2, totalTaps: 40, totalFinalScore: 57, bestRound: 45,
+      });
+      const leaderboard = persistence.getAllTimeTeamLeaderboard();
+      expect(leaderboard.findIndex((t) => t.name === 'Stats Agency'))
+        .toBeLessThan(leaderboard.findIndex((t) => t.name === 'Other Agency'));
+    });
+  });
+
+  describe('validation', () => {
+    test('assignment modes are checked', () => {
+      expect(validateTeamAssignment('table')).toBe('table');
+      expect(validateTeamAssignment('random')).toBeNull();
+    });
+
+    test('team counts are clamped to the named teams', () => {
+      expect(validateTeamCount(3)).toBe(3);
+      expect(validateTeamCount(1)).toBe(config.MIN_TEAMS);
+      expect(validateTeamCount(99)).toBe(config.TEAM_NAMES.length);
+    });
+
+    test('table numbers must be whole numbers in range', () => {
+      expect(validateTableNumber('12')).toBe(12);
+      expect(validateTableNumber(2.5)).toBeNull();
+      expect(validateTableNumber(0)).toBeNull();
+      expect(validateTableNumber(config.MAX_TABLE_NUMBER + 1)).toBeNull();
+    });
+  });
+});
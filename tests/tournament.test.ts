@@ -0,0 +1,195 @@
+/**
+ * Tests for elimination tournaments
+ */
+
+import config from '../src/config';
+import * as persistence from '../src/persistence';
+import * as tournament from '../src/tournament';
+import { calculateFinalScores } from '../src/game';
+import { getRoom } from '../src/rooms';
+import { validateEliminatePercent } from '../src/validation';
+import { LeaderboardEntry, Room, Tournament } from '../src/types';
+import { setupTestRoom, testPlayer } from './helpers';
+
+// Mock Logger
+jest.mock('../src/logger', () => ({
+  __esModule: true,
+  default: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function setupRoom(playerIds: string[]): Room {
+  return setupTestRoom('TN', Object.fromEntries(playerIds.map((id) => [id, testPlayer(id, { identityId: id })])));
+}
+
+function entry(id: string, finalScore: number, name: string = id): LeaderboardEntry {
+  return { id, identityId: id, name, clicks: finalScore, color: '#fff', suspicious: false, reactionTime: null, finalScore };
+}
+
+describe('Tournament', () => {
+  describe('elimination', () => {
+    test('the bottom share by final score is knocked out', () => {
+      const room = setupRoom(['a', 'b', 'c', 'd']);
+      tournament.startTournament(room, 50);
+
+      const round = tournament.recordTournamentRound(room, [entry('c', 30), entry('a', 20), entry('d', 10), entry('b', 5)]);
+
+      expect(round?.results.map((r) => [r.name, r.eliminated])).toEqual([
+        ['c', false], ['a', false], ['d', true], ['b', true],
+      ]);
+      expect(room.gameState.tournament?.alive).toEqual(['c', 'a']);
+    });
+
+    test('at least one goes out each round, but never the last survivor', () => {
+      expect(tournament.getEliminationCount(3, 10)).toBe(1);
+      expect(tournament.getEliminationCount(5, 50)).toBe(2);
+      expect(tournament.getEliminationCount(2, 90)).toBe(1);
+      expect(tournament.getEliminationCount(10, 90)).toBe(9);
+      expect(tournament.getEliminationCount(1, 50)).toBe(0);
+    });
+
+    test('survivors who left the room score zero', () => {
+      const room = setupRoom(['a', 'b', 'c']);
+      tournament.startTournament(room, 34);
+
+      const round = tournament.recordTournamentRound(room, [entry('a', 0), entry('c', 0)]);
+
+      expect(round?.results.map((r) => r.name)).toEqual(['a', 'c', 'b']);
+      expect(room.gameState.tournament?.alive).toEqual(['a', 'c']);
+    });
+
+    test('the last one standing is champion and the bracket goes into history', () => {
+      const room = setupRoom(['a', 'b', 'c']);
+      const started = tournament.startTournament(room, 50);
+
+      tournament.recordTournamentRound(room, [entry('a', 9), entry('b', 8), entry('c', 7)]);
+      expect(tournament.isTournamentActive(room)).toBe(true);
+      tournament.recordTournamentRound(room, [entry('b', 12), entry('a', 3)]);
+
+      expect(started.champion).toBe('b');
+      expect(started.rounds).toHaveLength(2);
+      expect(tournament.isTournamentActive(room)).toBe(false);
+      expect(persistence.getTournamentHistory()[0]).toBe(started);
+      expect(persistence.getActiveTournaments()[room.code]).toBeUndefined();
+      expect(tournament.recordTournamentRound(room, [entry('b', 1)])).toBeNull();
+    });
+  });
+
+  describe('spectators', () => {
+    test('knocked-out players and late joiners sit out the scoring', () => {
+      const room = setupRoom(['a', 'b', 'c', 'd']);
+      tournament.startTournament(room, 50);
+      tournament.recordTournamentRound(room, [entry('a', 4), entry('b', 3), entry('c', 2), entry('d', 1)]);
+      room.gameState.players.late = testPlayer('late', { identityId: 'late' });
+
+      expect(tournament.isSpectator(room, room.gameState.players.c)).toBe(true);
+      expect(tournament.isSpectator(room, room.gameState.players.late)).toBe(true);
+      expect(calculateFinalScores(room).map((e) => e.id).sort()).toEqual(['a', 'b']);
+    });
+
+    test('each player learns where they stand', () => {
+      const room = setupRoom(['a', 'b', 'c', 'd']);
+      tournament.startTournament(room, 50);
+      tournament.recordTournamentRound(room, [entry('a', 4), entry('b', 3), entry('c', 2), entry('d', 1)]);
+
+      expect(tournament.getTournamentStatus(room, room.gameState.players.d)).toEqual({
+        spectator: true, knockedOutRound: 1, aliveCount: 2, champion: null, isChampion: false,
+      });
+      expect(tournament.getTournamentStatus(room, room.gameState.players.a)?.spectator).toBe(false);
+    });
+
+    test('players who share a name keep their own place in the bracket', () => {
+      const room = setupRoom(['a', 'b', 'c', 'd']);
+      room.gameState.players.a.name = 'Alex';
+      room.gameState.players.b.name = 'Alex';
+      const started = tournament.startTournament(room, 50);
+      expect(started.entrants).toHaveLength(4);
+
+      tournament.recordTournamentRound(room, [entry('a', 4, 'Alex'), entry('c', 3), entry('d', 2), entry('b', 1, 'Alex')]);
+
+      expect(started.alive).toEqual(['a', 'c']);
+      expect(tournament.isSpectator(room, room.gameState.players.a)).toBe(false);
+      expect(tournament.isSpectator(room, room.gameState.players.b)).toBe(true);
+      expect(tournament.getTournamentStatus(room, room.gameState.players.b)?.knockedOutRound).toBe(1);
+    });
+
+    test("a knocked-out player can't rejoin under a survivor's name", () => {
+      const room = setupRoom(['a', 'b', 'c', 'd']);
+      tournament.startTournament(room, 50);
+      tournament.recordTournamentRound(room, [entry('a', 4), entry('b', 3), entry('c', 2), entry('d', 1)]);
+
+      delete room.gameState.players.d;
+      room.gameState.players.d2 = testPlayer('a', { identityId: 'd' });
+      room.gameState.players.d3 = testPlayer('a', { identityId: 'new-device' });
+
+      expect(tournament.isSpectator(room, room.gameState.players.d2)).toBe(true);
+      expect(tournament.isSpectator(room, room.gameState.players.d3)).toBe(true);
+      expect(calculateFinalScores(room).map((e) => e.id).sort()).toEqual(['a', 'b']);
+    });
+
+    test('the champion is told it is them, not someone with the same name', () => {
+      const room = setupRoom(['a', 'b']);
+      room.gameState.players.b.name = 'a';
+      tournament.startTournament(room, 50);
+      tournament.recordTournamentRound(room, [entry('a', 2), entry('b', 1, 'a')]);
+
+      expect(tournament.getTournamentStatus(room, room.gameState.players.a)?.isChampion).toBe(true);
+      expect(tournament.getTournamentStatus(room, room.gameState.players.b)?.isChampion).toBe(false);
+    });
+
+    test('everyone plays again once the tournament ends', () => {
+      const room = setupRoom(['a', 'b']);
+      tournament.startTournament(room, 50);
+      tournament.recordTournamentRound(room, [entry('a', 2), entry('b', 1)]);
+
+      expect(tournament.isSpectator(room, room.gameState.players.b)).toBe(false);
+      tournament.endTournament(room);
+      expect(tournament.getTournamentView(room)).toBeNull();
+      expect(tournament.getTournamentStatus(room, room.gameState.players.b)).toBeNull();
+    });
+  });
+
+  describe('view', () => {
+    test('shows bracket progression round by round', () => {
+      const room = setupRoom(['a', 'b', 'c', 'd']);
+      tournament.startTournament(room, 50);
+      tournament.recordTournamentRound(room, [entry('a', 4), entry('b', 3), entry('c', 2), entry('d', 1)]);
+
+      expect(tournament.getTournamentView(room)).toEqual({
+        eliminatePercent: 50,
+        entrants: 4,
+        alive: ['a', 'b'],
+        aliveCount: 2,
+        rounds: [{ round: 1, players: 4, survivors: 2, knockedOut: ['c', 'd'] }],
+        champion: null,
+        complete: false,
+      });
+    });
+  });
+
+  describe('restart', () => {
+    test('running tournaments are put back into their rooms', () => {
+      const saved: Tournament = {
+        id: 'RSTR1-1', roomCode: 'RSTR1', eliminatePercent: 50, startedAt: new Date().toISOString(), endedAt: null,
+        entrants: ['a', 'b', 'c'], alive: ['a', 'b'], names: { a: 'A', b: 'B', c: 'C' }, rounds: [], champion: null,
+      };
+      persistence.setActiveTournament('RSTR1', saved);
+
+      tournament.restoreTournaments();
+
+      expect(getRoom('RSTR1')?.gameState.tournament).toBe(saved);
+      persistence.setActiveTournament('RSTR1', null);
+    });
+  });
+
+  test('elimination percent is clamped', () => {
+    expect(validateEliminatePercent(25)).toBe(25);
+    expect(validateEliminatePercent('lots')).toBe(config.DEFAULT_ELIMINATE_PERCENT);
+    expect(validateEliminatePercent(1)).toBe(config.MIN_ELIMINATE_PERCENT);
+    expect(validateEliminatePercent(100)).toBe(config.MAX_ELIMINATE_PERCENT);
+  });
+});